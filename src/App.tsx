@@ -16,8 +16,12 @@ import Index from "./pages/Index";
 import Shop from "./pages/Shop";
 import ProductDetail from "./pages/ProductDetail";
 import Cart from "./pages/Cart";
+import Checkout from "./pages/Checkout";
+import OrderConfirmation from "./pages/OrderConfirmation";
 import Favorites from "./pages/Favorites";
 import OrderHistory from "./pages/OrderHistory";
+import OrderDetail from "./pages/OrderDetail";
+import TrackOrder from "./pages/TrackOrder";
 import About from "./pages/About";
 import Contact from "./pages/Contact";
 import Login from "./pages/Login";
@@ -30,6 +34,14 @@ import AdminAddProduct from "./pages/AdminAddProduct";
 import AdminManageProducts from "./pages/AdminManageProducts";
 import AdminEditProduct from "./pages/AdminEditProduct";
 import InventoryDashboard from "./pages/InventoryDashboard";
+import AdminCoupons from "./pages/AdminCoupons";
+import AdminPricing from "./pages/AdminPricing";
+import AdminOrders from "./pages/AdminOrders";
+import AdminReturns from "./pages/AdminReturns";
+import AdminSearchSynonyms from "./pages/AdminSearchSynonyms";
+import AdminSearchAnalytics from "./pages/AdminSearchAnalytics";
+import AdminSearchRanking from "./pages/AdminSearchRanking";
+import AdminColors from "./pages/AdminColors";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -54,9 +66,16 @@ const App = () => (
                 <Route path="/shop" element={<Shop />} />
                 <Route path="/new-arrivals" element={<Shop />} />
                 <Route path="/collections" element={<Shop />} />
+                <Route path="/collections/:slug" element={<Shop />} />
                 <Route path="/product/:id" element={<ProductDetail />} />
                 <Route path="/about" element={<About />} />
                 <Route path="/contact" element={<Contact />} />
+
+                {/* Shopping Routes (guests can check out without an account) */}
+                <Route path="/cart" element={<Cart />} />
+                <Route path="/checkout" element={<Checkout />} />
+                <Route path="/order-confirmation/:orderNumber" element={<OrderConfirmation />} />
+                <Route path="/track-order" element={<TrackOrder />} />
                 
                 {/* Auth Routes */}
                 <Route path="/login" element={<Login />} />
@@ -71,11 +90,6 @@ const App = () => (
                     <UserProfile />
                   </ProtectedRoute>
                 } />
-                <Route path="/cart" element={
-                  <ProtectedRoute>
-                    <Cart />
-                  </ProtectedRoute>
-                } />
                 <Route path="/wishlist" element={
                   <ProtectedRoute>
                     <Favorites />
@@ -86,6 +100,11 @@ const App = () => (
                     <OrderHistory />
                   </ProtectedRoute>
                 } />
+                <Route path="/orders/:orderNumber" element={
+                  <ProtectedRoute>
+                    <OrderDetail />
+                  </ProtectedRoute>
+                } />
                 
                 {/* Protected Admin Routes */}
                 <Route path="/admin" element={
@@ -113,6 +132,46 @@ const App = () => (
                     <InventoryDashboard />
                   </ProtectedRoute>
                 } />
+                <Route path="/admin/coupons" element={
+                  <ProtectedRoute requireAdmin>
+                    <AdminCoupons />
+                  </ProtectedRoute>
+                } />
+                <Route path="/admin/pricing" element={
+                  <ProtectedRoute requireAdmin>
+                    <AdminPricing />
+                  </ProtectedRoute>
+                } />
+                <Route path="/admin/orders" element={
+                  <ProtectedRoute requireAdmin>
+                    <AdminOrders />
+                  </ProtectedRoute>
+                } />
+                <Route path="/admin/returns" element={
+                  <ProtectedRoute requireAdmin>
+                    <AdminReturns />
+                  </ProtectedRoute>
+                } />
+                <Route path="/admin/search-synonyms" element={
+                  <ProtectedRoute requireAdmin>
+                    <AdminSearchSynonyms />
+                  </ProtectedRoute>
+                } />
+                <Route path="/admin/search-analytics" element={
+                  <ProtectedRoute requireAdmin>
+                    <AdminSearchAnalytics />
+                  </ProtectedRoute>
+                } />
+                <Route path="/admin/search-ranking" element={
+                  <ProtectedRoute requireAdmin>
+                    <AdminSearchRanking />
+                  </ProtectedRoute>
+                } />
+                <Route path="/admin/colors" element={
+                  <ProtectedRoute requireAdmin>
+                    <AdminColors />
+                  </ProtectedRoute>
+                } />
                 
                 {/* 404 - ADD ALL CUSTOM ROUTES ABOVE */}
                 <Route path="*" element={<NotFound />} />
@@ -0,0 +1,272 @@
+/**
+ * Address Book
+ * The customer's saved addresses on the account page: add, edit, delete and choose
+ * the default shipping and billing addresses used to prefill checkout
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InlineLoader } from "@/components/LoadingStates";
+import AddressFields from "@/components/AddressFields";
+import {
+  ADDRESS_LABEL_SUGGESTIONS,
+  AddressInput,
+  DefaultAddressKind,
+  EMPTY_ADDRESS,
+  SavedAddress,
+  createAddress,
+  deleteAddress,
+  getAddresses,
+  setDefaultAddress,
+  toShippingAddress,
+  updateAddress,
+} from "@/services/addressService";
+import { validateAddressInput } from "@/utils/validation";
+
+interface AddressBookProps {
+  userId: string;
+}
+
+const EMPTY_INPUT: AddressInput = { ...EMPTY_ADDRESS, label: "Home" };
+
+const AddressBook = ({ userId }: AddressBookProps) => {
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  // Address being edited; null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AddressInput>(EMPTY_INPUT);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadAddresses = useCallback(async () => {
+    setIsLoading(true);
+    setAddresses(await getAddresses(userId));
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadAddresses();
+  }, [loadAddresses]);
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_INPUT, label: addresses.length === 0 ? "Home" : "" });
+    setFormErrors([]);
+    setIsEditing(true);
+  };
+
+  const openEdit = (address: SavedAddress) => {
+    setEditingId(address.id);
+    setForm({
+      ...toShippingAddress(address),
+      label: address.label,
+      is_default_shipping: address.is_default_shipping,
+      is_default_billing: address.is_default_billing,
+    });
+    setFormErrors([]);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const validation = validateAddressInput(form);
+    setFormErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    setIsSaving(true);
+    const result = editingId ? await updateAddress(editingId, form) : await createAddress(userId, form);
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to save address");
+      return;
+    }
+
+    toast.success(editingId ? "Address updated" : "Address saved");
+    setIsEditing(false);
+    await loadAddresses();
+  };
+
+  const handleDelete = async (address: SavedAddress) => {
+    if (!window.confirm(`Delete your "${address.label}" address?`)) return;
+
+    if (await deleteAddress(address.id)) {
+      toast.success("Address deleted");
+      await loadAddresses();
+    } else {
+      toast.error("Failed to delete address");
+    }
+  };
+
+  const handleSetDefault = async (address: SavedAddress, kind: DefaultAddressKind) => {
+    if (await setDefaultAddress(address.id, kind)) {
+      toast.success(`${address.label} is now your default ${kind} address`);
+      await loadAddresses();
+    } else {
+      toast.error("Failed to update default address");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Saved Addresses</CardTitle>
+          <CardDescription>Choose from these at checkout. Defaults are filled in for you.</CardDescription>
+        </div>
+        <Button className="btn-gold" onClick={openNew}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Address
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <InlineLoader message="Loading addresses..." />
+        ) : addresses.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <MapPin className="h-10 w-10 mx-auto mb-3" />
+            <p>You haven't saved any addresses yet.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {addresses.map(address => (
+              <div key={address.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold">{address.label}</span>
+                  {address.is_default_shipping && <Badge variant="secondary">Default shipping</Badge>}
+                  {address.is_default_billing && <Badge variant="secondary">Default billing</Badge>}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  <p className="text-foreground">{address.name}</p>
+                  <p>{address.address_line1}</p>
+                  {address.address_line2 && <p>{address.address_line2}</p>}
+                  <p>
+                    {address.city}, {address.state} {address.postal_code}
+                  </p>
+                  <p>{address.phone}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEdit(address)}>
+                    <Pencil className="mr-1 h-3 w-3" />
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(address)}>
+                    <Trash2 className="mr-1 h-3 w-3" />
+                    Delete
+                  </Button>
+                  {!address.is_default_shipping && (
+                    <Button variant="ghost" size="sm" onClick={() => handleSetDefault(address, "shipping")}>
+                      Set default shipping
+                    </Button>
+                  )}
+                  {!address.is_default_billing && (
+                    <Button variant="ghost" size="sm" onClick={() => handleSetDefault(address, "billing")}>
+                      Set default billing
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isEditing} onOpenChange={(open) => !isSaving && setIsEditing(open)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Address" : "Add Address"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {formErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {formErrors.map(error => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="address-label">Label</Label>
+              <Input
+                id="address-label"
+                placeholder="Home, Office, Mom's place..."
+                maxLength={40}
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                disabled={isSaving}
+              />
+              <div className="flex gap-2">
+                {ADDRESS_LABEL_SUGGESTIONS.map(label => (
+                  <Button
+                    key={label}
+                    type="button"
+                    variant={form.label === label ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setForm({ ...form, label })}
+                    disabled={isSaving}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <AddressFields
+              idPrefix="address-book"
+              address={form}
+              onChange={(address) => setForm({ ...form, ...address })}
+              disabled={isSaving}
+            />
+
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="address-default-shipping"
+                  checked={!!form.is_default_shipping}
+                  onCheckedChange={(checked) => setForm({ ...form, is_default_shipping: checked === true })}
+                  disabled={isSaving}
+                />
+                <Label htmlFor="address-default-shipping" className="cursor-pointer">Default shipping address</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="address-default-billing"
+                  checked={!!form.is_default_billing}
+                  onCheckedChange={(checked) => setForm({ ...form, is_default_billing: checked === true })}
+                  disabled={isSaving}
+                />
+                <Label htmlFor="address-default-billing" className="cursor-pointer">Default billing address</Label>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button className="btn-gold" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Address
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AddressBook;
@@ -0,0 +1,121 @@
+/**
+ * Address Fields
+ * Inputs for a ShippingAddress, shared by checkout and the address book
+ * Entering a PIN code fills in the city and state from the bundled pincode data
+ */
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShippingAddress } from "@/services/userActivitiesService";
+import { isValidPincode, lookupPincode } from "@/utils/pincodes";
+
+interface AddressFieldsProps {
+  idPrefix: string;
+  address: ShippingAddress;
+  onChange: (address: ShippingAddress) => void;
+  disabled?: boolean;
+}
+
+// Fill a field from the PIN code unless the customer typed their own value
+const autofill = (current: string, previousSuggestion: string | undefined, suggestion: string | undefined) => {
+  if (!suggestion) return current;
+  return !current.trim() || current === previousSuggestion ? suggestion : current;
+};
+
+const AddressFields = ({ idPrefix, address, onChange, disabled }: AddressFieldsProps) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...address, [e.target.name]: e.target.value });
+  };
+
+  const handlePincodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const postalCode = e.target.value.replace(/\D/g, "");
+    const previous = lookupPincode(address.postal_code);
+    const next = lookupPincode(postalCode);
+
+    onChange({
+      ...address,
+      postal_code: postalCode,
+      city: autofill(address.city, previous?.city, next?.city),
+      state: autofill(address.state, previous?.state, next?.state),
+    });
+  };
+
+  const pincode = address.postal_code.trim();
+  const pincodeInfo = lookupPincode(pincode);
+  const isPincodeInvalid = pincode.length === 6 && !isValidPincode(pincode);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="sm:col-span-2 space-y-2">
+        <Label htmlFor={`${idPrefix}-name`}>Full Name</Label>
+        <Input id={`${idPrefix}-name`} name="name" value={address.name} onChange={handleChange} disabled={disabled} />
+      </div>
+      <div className="sm:col-span-2 space-y-2">
+        <Label htmlFor={`${idPrefix}-line1`}>Address Line 1</Label>
+        <Input
+          id={`${idPrefix}-line1`}
+          name="address_line1"
+          placeholder="House no., building, street"
+          value={address.address_line1}
+          onChange={handleChange}
+          disabled={disabled}
+        />
+      </div>
+      <div className="sm:col-span-2 space-y-2">
+        <Label htmlFor={`${idPrefix}-line2`}>Address Line 2 (optional)</Label>
+        <Input
+          id={`${idPrefix}-line2`}
+          name="address_line2"
+          placeholder="Area, landmark"
+          value={address.address_line2 || ""}
+          onChange={handleChange}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-postal`}>PIN Code</Label>
+        <Input
+          id={`${idPrefix}-postal`}
+          name="postal_code"
+          inputMode="numeric"
+          maxLength={6}
+          value={address.postal_code}
+          onChange={handlePincodeChange}
+          disabled={disabled}
+        />
+        {isPincodeInvalid && <p className="text-xs text-destructive">This isn't a valid Indian PIN code</p>}
+        {pincodeInfo && (
+          <p className="text-xs text-muted-foreground">
+            {pincodeInfo.city ? `${pincodeInfo.city}, ${pincodeInfo.state}` : pincodeInfo.state}
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-city`}>City</Label>
+        <Input id={`${idPrefix}-city`} name="city" value={address.city} onChange={handleChange} disabled={disabled} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-state`}>State</Label>
+        <Input id={`${idPrefix}-state`} name="state" value={address.state} onChange={handleChange} disabled={disabled} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-country`}>Country</Label>
+        <Input id={`${idPrefix}-country`} name="country" value={address.country} onChange={handleChange} disabled={disabled} />
+      </div>
+      <div className="sm:col-span-2 space-y-2">
+        <Label htmlFor={`${idPrefix}-phone`}>Phone</Label>
+        <Input
+          id={`${idPrefix}-phone`}
+          name="phone"
+          type="tel"
+          placeholder="10-digit mobile number"
+          value={address.phone}
+          onChange={handleChange}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AddressFields;
@@ -0,0 +1,34 @@
+/**
+ * Color Swatch Component
+ * A round chip in a color family's swatch color; unknown colors show a dashed outline
+ */
+
+import { cn } from "@/lib/utils";
+
+interface ColorSwatchProps {
+  // Swatch color; null for a color outside the taxonomy
+  hex: string | null;
+  name: string;
+  size?: "sm" | "md" | "lg";
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  sm: "h-3 w-3",
+  md: "h-4 w-4",
+  lg: "h-7 w-7",
+};
+
+export const ColorSwatch = ({ hex, name, size = "md", className }: ColorSwatchProps) => (
+  <span
+    title={name}
+    aria-label={name}
+    className={cn(
+      "inline-block shrink-0 rounded-full border",
+      hex ? "border-border" : "border-dashed border-muted-foreground bg-muted",
+      SIZE_CLASSES[size],
+      className
+    )}
+    style={hex ? { backgroundColor: hex } : undefined}
+  />
+);
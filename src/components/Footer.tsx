@@ -65,6 +65,11 @@ const Footer = () => {
           <div>
             <h4 className="font-heading text-lg font-semibold mb-4">Customer Service</h4>
             <ul className="space-y-2">
+              <li>
+                <Link to="/track-order" className="text-muted-foreground hover:text-accent transition-colors">
+                  Track Order
+                </Link>
+              </li>
               <li>
                 <a href="#" className="text-muted-foreground hover:text-accent transition-colors">
                   Shipping Info
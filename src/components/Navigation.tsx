@@ -19,7 +19,6 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { SearchBar } from "./SearchBar";
 import { useSearch } from "@/hooks/useSearch";
-import { getPopularSearches } from "@/services/searchService";
 import { useCart } from "@/contexts/CartContext";
 import { useFavorites } from "@/contexts/FavoritesContext";
 import { useAuth } from "@/contexts/AuthContext";
@@ -37,8 +36,7 @@ const Navigation = () => {
   const { user, profile, isAdmin, signOut } = useAuth();
   
   // Use search hook for global search functionality
-  const { query, setQuery, performSearch, suggestions, isSearching } = useSearch();
-  const popularSearches = getPopularSearches();
+  const { query, setQuery, performSearch, suggestions, popularSearches, isSearching } = useSearch({ suggestionsOnly: true });
 
   // Build nav links based on user role
   const baseNavLinks = [
@@ -0,0 +1,207 @@
+/**
+ * Payment Dialog
+ * Takes an order through its online payment provider: Razorpay Checkout for UPI/cards,
+ * or the mock provider's success/failure buttons in development
+ * The order is marked paid only once the provider's event has been verified on the server
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Payment, PaymentIntent, confirmPayment, createPaymentIntent } from "@/services/paymentService";
+
+export type PaymentOutcome = "paid" | "processing" | "failed" | "cancelled";
+
+interface PaymentDialogProps {
+  // Order to pay; the dialog is open while this is set. Guest orders also carry their checkout email.
+  order: { id: string; orderNumber: string; total: number; guestEmail?: string } | null;
+  onClose: (outcome: PaymentOutcome, error?: string) => void;
+}
+
+type DialogState = "starting" | "mock" | "checkout" | "verifying" | "error";
+
+const RAZORPAY_SCRIPT_URL = "https://checkout.razorpay.com/v1/checkout.js";
+
+interface RazorpayCheckout {
+  open: () => void;
+  on: (event: string, handler: (response: { error?: { description?: string } }) => void) => void;
+}
+
+type RazorpayConstructor = new (options: Record<string, unknown>) => RazorpayCheckout;
+
+const loadRazorpay = (): Promise<RazorpayConstructor> => {
+  const existing = (window as unknown as { Razorpay?: RazorpayConstructor }).Razorpay;
+  if (existing) return Promise.resolve(existing);
+
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = RAZORPAY_SCRIPT_URL;
+    script.onload = () => resolve((window as unknown as { Razorpay: RazorpayConstructor }).Razorpay);
+    script.onerror = () => reject(new Error("Could not load the payment page. Check your connection and try again."));
+    document.body.appendChild(script);
+  });
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+  }).format(amount);
+};
+
+const toOutcome = (payment?: Payment): PaymentOutcome => {
+  if (!payment) return "failed";
+  if (payment.status === "succeeded") return "paid";
+  if (payment.status === "failed") return "failed";
+  // Captured later and reported by webhook
+  return "processing";
+};
+
+const PaymentDialog = ({ order, onClose }: PaymentDialogProps) => {
+  const [state, setState] = useState<DialogState>("starting");
+  const [error, setError] = useState("");
+  // Closing the dialog ourselves shouldn't also report a cancellation
+  const isFinishedRef = useRef(false);
+  // Last failed attempt inside Razorpay Checkout, which lets the customer retry before closing
+  const checkoutErrorRef = useRef<string | null>(null);
+
+  const finish = (outcome: PaymentOutcome, message?: string) => {
+    isFinishedRef.current = true;
+    onClose(outcome, message);
+  };
+
+  const verify = async (payload: Record<string, unknown>) => {
+    if (!order) return;
+
+    setState("verifying");
+    const result = await confirmPayment(order.id, payload, order.guestEmail);
+    finish(result.success ? toOutcome(result.data) : "failed", result.error || result.data?.failure_reason || undefined);
+  };
+
+  const openRazorpay = async (intent: PaymentIntent) => {
+    const Razorpay = await loadRazorpay();
+    const { clientData } = intent;
+
+    const checkout = new Razorpay({
+      key: clientData.keyId,
+      order_id: clientData.orderId,
+      amount: clientData.amount,
+      currency: clientData.currency,
+      name: "Swathi Botique",
+      description: `Order ${order?.orderNumber}`,
+      prefill: clientData.prefill,
+      handler: (response: Record<string, unknown>) => verify(response),
+      modal: {
+        ondismiss: () => finish(checkoutErrorRef.current ? "failed" : "cancelled", checkoutErrorRef.current || undefined),
+      },
+    });
+    checkout.on("payment.failed", (response) => {
+      checkoutErrorRef.current = response.error?.description || "Payment failed";
+    });
+
+    setState("checkout");
+    checkout.open();
+  };
+
+  const startPayment = async () => {
+    if (!order) return;
+
+    setState("starting");
+    setError("");
+    const result = await createPaymentIntent(order.id, order.guestEmail);
+
+    if (!result.success || !result.data) {
+      setError(result.error || "Could not start the payment");
+      setState("error");
+      return;
+    }
+
+    switch (result.data.provider) {
+      case "razorpay":
+        try {
+          await openRazorpay(result.data);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : "Could not open the payment page");
+          setState("error");
+        }
+        break;
+      case "mock":
+        setState("mock");
+        break;
+      default:
+        // Cash on Delivery needs nothing online
+        finish("processing");
+    }
+  };
+
+  // Start a payment once per order, with the latest props
+  const startPaymentRef = useRef(startPayment);
+  startPaymentRef.current = startPayment;
+  const orderId = order?.id;
+
+  useEffect(() => {
+    if (orderId) {
+      isFinishedRef.current = false;
+      checkoutErrorRef.current = null;
+      startPaymentRef.current();
+    }
+  }, [orderId]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && !isFinishedRef.current && state !== "verifying") {
+      finish("cancelled");
+    }
+  };
+
+  return (
+    // Razorpay Checkout draws its own modal, so ours steps aside while it is open
+    <Dialog open={!!order && state !== "checkout"} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pay for Order {order?.orderNumber}</DialogTitle>
+          <DialogDescription>Amount due: {order ? formatCurrency(order.total) : ""}</DialogDescription>
+        </DialogHeader>
+
+        {(state === "starting" || state === "verifying") && (
+          <div className="flex items-center gap-3 py-6 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            {state === "starting" ? "Starting secure payment..." : "Confirming your payment..."}
+          </div>
+        )}
+
+        {state === "mock" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Development payment provider. No money is charged; choose the outcome to simulate.
+            </p>
+            <div className="flex gap-2">
+              <Button className="btn-gold flex-1" onClick={() => verify({ outcome: "success" })}>
+                Simulate Success
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={() => verify({ outcome: "failure" })}>
+                Simulate Failure
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {state === "error" && (
+          <div className="space-y-4">
+            <p className="text-sm text-destructive">{error}</p>
+            <div className="flex gap-2">
+              <Button className="btn-gold flex-1" onClick={startPayment}>
+                Try Again
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={() => finish("cancelled")}>
+                Pay Later
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentDialog;
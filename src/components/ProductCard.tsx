@@ -4,33 +4,52 @@ import { Button } from "@/components/ui/button";
 import { useCart } from "@/contexts/CartContext";
 import { useFavorites } from "@/contexts/FavoritesContext";
 import { Product } from "@/types/product";
+import { getProductImageUrl, getProductImageSrcSet } from "@/services/productImageService";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ColorSwatch } from "@/components/ColorSwatch";
+import { useColorTaxonomy } from "@/hooks/useColorTaxonomy";
+import { getSalePrice } from "@/utils/orderTotals";
+
+// Swatches shown on a card before collapsing the rest into a count
+const MAX_SWATCHES = 5;
 
 interface ProductCardProps {
   product: Product;
+  // Called when the product is opened or added to the cart, e.g. to log a search result click
+  onClick?: () => void;
 }
 
-const ProductCard = ({ product }: ProductCardProps) => {
+const ProductCard = ({ product, onClick }: ProductCardProps) => {
   const navigate = useNavigate();
   const { addToCart, isInCart } = useCart();
   const { isFavorite, toggleFavorite } = useFavorites();
+  const { getColorFamilies } = useColorTaxonomy();
   
   const { id, name, price, image, category, isNew, discount } = product;
-  const discountedPrice = discount ? price - (price * discount) / 100 : null;
+  const colorFamilies = getColorFamilies(product.colors);
+  const discountedPrice = discount ? getSalePrice(price, discount) : null;
   const isInFavorites = isFavorite(id);
 
+  // The hover buttons sit inside the image link and prevent its navigation
+  const handleOpen = (e: React.MouseEvent) => {
+    if (!e.defaultPrevented) onClick?.();
+  };
+
   const handleAddToCart = (e: React.MouseEvent) => {
     e.preventDefault();
+    onClick?.();
     addToCart(product);
     navigate('/cart');
   };
 
   return (
     <div className="card-product group">
-      <Link to={`/product/${id}`}>
+      <Link to={`/product/${id}`} onClick={handleOpen}>
         <div className="relative overflow-hidden aspect-[4/5]">
           <img
-            src={image}
+            src={getProductImageUrl(image, "medium")}
+            srcSet={getProductImageSrcSet(image)}
+            sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
             alt={name}
             className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
           />
@@ -91,7 +110,7 @@ const ProductCard = ({ product }: ProductCardProps) => {
 
       <div className="p-4">
         <p className="text-xs text-muted-foreground uppercase tracking-wide mb-1">{category}</p>
-        <Link to={`/product/${id}`}>
+        <Link to={`/product/${id}`} onClick={handleOpen}>
           <h3 className="font-medium mb-2 hover:text-accent transition-colors line-clamp-1">
             {name}
           </h3>
@@ -112,6 +131,16 @@ const ProductCard = ({ product }: ProductCardProps) => {
             </span>
           )}
         </div>
+        {colorFamilies.length > 0 && (
+          <div className="flex items-center gap-1.5 mt-2">
+            {colorFamilies.slice(0, MAX_SWATCHES).map((family) => (
+              <ColorSwatch key={family.slug} hex={family.hex} name={family.name} size="sm" />
+            ))}
+            {colorFamilies.length > MAX_SWATCHES && (
+              <span className="text-xs text-muted-foreground">+{colorFamilies.length - MAX_SWATCHES}</span>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
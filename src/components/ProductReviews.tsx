@@ -0,0 +1,424 @@
+/**
+ * Product Reviews Component
+ * Rating summary, fit/rating filters, review list with helpful votes and the write-a-review form
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Star, ThumbsUp, BadgeCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InlineLoader } from "@/components/LoadingStates";
+import { useAuth } from "@/contexts/AuthContext";
+import { Product, ProductReview, ReviewFit } from "@/types/product";
+import {
+  getProductReviews,
+  createReview,
+  markReviewHelpful,
+  getUserHelpfulVotes,
+  getRatingSummary,
+  REVIEW_FIT_LABELS,
+} from "@/services/reviewService";
+import { validateReview } from "@/utils/validation";
+
+interface ProductReviewsProps {
+  product: Product;
+  // Called after a review is posted so the product's aggregate rating can be refreshed
+  onReviewCreated?: () => void;
+}
+
+const FIT_OPTIONS = Object.keys(REVIEW_FIT_LABELS) as ReviewFit[];
+
+const EMPTY_FORM = {
+  rating: 0,
+  title: "",
+  comment: "",
+  size: "",
+  fit: "" as ReviewFit | "",
+  occasion: "",
+};
+
+const StarRating = ({ rating, className = "h-4 w-4" }: { rating: number; className?: string }) => (
+  <div className="flex">
+    {[...Array(5)].map((_, i) => (
+      <Star
+        key={i}
+        className={`${className} ${i < Math.round(rating) ? "fill-accent text-accent" : "text-muted-foreground"}`}
+      />
+    ))}
+  </div>
+);
+
+const ProductReviews = ({ product, onReviewCreated }: ProductReviewsProps) => {
+  const { user, profile } = useAuth();
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [votedReviewIds, setVotedReviewIds] = useState<Set<string>>(new Set());
+  const [ratingFilter, setRatingFilter] = useState("all");
+  const [fitFilter, setFitFilter] = useState("all");
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReviews = async () => {
+      setIsLoading(true);
+      const productReviews = await getProductReviews(product.id);
+      const votes = user ? await getUserHelpfulVotes(user.id, productReviews.map(r => r.id)) : [];
+
+      if (!cancelled) {
+        setReviews(productReviews);
+        setVotedReviewIds(new Set(votes));
+        setIsLoading(false);
+      }
+    };
+
+    loadReviews();
+    return () => {
+      cancelled = true;
+    };
+  }, [product.id, user]);
+
+  const summary = useMemo(() => getRatingSummary(reviews), [reviews]);
+
+  const fitCounts = useMemo(() => {
+    const counts: Record<ReviewFit, number> = { runs_small: 0, true_to_size: 0, runs_large: 0 };
+    reviews.forEach(review => {
+      if (review.fit) counts[review.fit]++;
+    });
+    return counts;
+  }, [reviews]);
+  const fitTotal = fitCounts.runs_small + fitCounts.true_to_size + fitCounts.runs_large;
+
+  const filteredReviews = useMemo(() => {
+    return reviews.filter(review =>
+      (ratingFilter === "all" || review.rating === Number(ratingFilter)) &&
+      (fitFilter === "all" || review.fit === fitFilter)
+    );
+  }, [reviews, ratingFilter, fitFilter]);
+
+  const hasReviewed = !!user && reviews.some(review => review.userId === user.id);
+
+  const handleMarkHelpful = async (review: ProductReview) => {
+    if (!user) {
+      toast.error("Please sign in to vote");
+      return;
+    }
+
+    const helpful = await markReviewHelpful(review.id);
+    if (helpful === null) {
+      toast.error("Failed to record your vote");
+      return;
+    }
+
+    setReviews(prev => prev.map(r => (r.id === review.id ? { ...r, helpful } : r)));
+    setVotedReviewIds(prev => new Set(prev).add(review.id));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const input = {
+      productId: product.id,
+      rating: form.rating,
+      title: form.title,
+      comment: form.comment,
+      size: form.size || undefined,
+      fit: form.fit || undefined,
+      occasion: form.occasion || undefined,
+    };
+
+    const validation = validateReview(input);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return;
+    }
+
+    setIsSubmitting(true);
+    const userName = profile?.full_name || user.email?.split("@")[0] || "Customer";
+    const review = await createReview(user.id, userName, input);
+    setIsSubmitting(false);
+
+    if (!review) {
+      toast.error("Failed to post your review");
+      return;
+    }
+
+    setReviews(prev => [review, ...prev]);
+    setForm(EMPTY_FORM);
+    setShowForm(false);
+    toast.success("Thank you for your review!");
+    onReviewCreated?.();
+  };
+
+  if (isLoading) {
+    return <InlineLoader message="Loading reviews..." />;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      {/* Summary */}
+      <div className="space-y-6">
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <span className="font-heading text-4xl font-bold">{summary.average.toFixed(1)}</span>
+            <StarRating rating={summary.average} className="h-5 w-5" />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Based on {summary.count} review{summary.count !== 1 ? "s" : ""}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {[5, 4, 3, 2, 1].map(stars => (
+            <button
+              key={stars}
+              type="button"
+              onClick={() => setRatingFilter(ratingFilter === String(stars) ? "all" : String(stars))}
+              className={`flex items-center gap-3 w-full text-sm ${
+                ratingFilter === String(stars) ? "font-semibold" : ""
+              }`}
+            >
+              <span className="w-10 text-left">{stars} ★</span>
+              <Progress
+                value={summary.count ? (summary.distribution[stars] / summary.count) * 100 : 0}
+                className="h-2 flex-1"
+              />
+              <span className="w-8 text-right text-muted-foreground">{summary.distribution[stars]}</span>
+            </button>
+          ))}
+        </div>
+
+        {fitTotal > 0 && (
+          <div>
+            <p className="font-medium mb-2">How it fits</p>
+            <div className="space-y-1 text-sm">
+              {FIT_OPTIONS.map(fit => (
+                <div key={fit} className="flex justify-between">
+                  <span className="text-muted-foreground">{REVIEW_FIT_LABELS[fit]}</span>
+                  <span>{Math.round((fitCounts[fit] / fitTotal) * 100)}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!user ? (
+          <p className="text-sm text-muted-foreground">
+            <Link to="/login" className="text-accent hover:underline">Sign in</Link> to write a review
+          </p>
+        ) : hasReviewed ? (
+          <p className="text-sm text-muted-foreground">You have reviewed this product</p>
+        ) : (
+          <Button className="btn-gold w-full" onClick={() => setShowForm(!showForm)}>
+            {showForm ? "Cancel" : "Write a Review"}
+          </Button>
+        )}
+      </div>
+
+      {/* Reviews */}
+      <div className="lg:col-span-2 space-y-6">
+        {showForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Write a Review</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label>Rating</Label>
+                  <div className="flex gap-1 mt-2">
+                    {[1, 2, 3, 4, 5].map(stars => (
+                      <button
+                        key={stars}
+                        type="button"
+                        onClick={() => setForm({ ...form, rating: stars })}
+                        aria-label={`${stars} star${stars !== 1 ? "s" : ""}`}
+                      >
+                        <Star
+                          className={`h-6 w-6 ${
+                            stars <= form.rating ? "fill-accent text-accent" : "text-muted-foreground"
+                          }`}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="review-title">Title</Label>
+                  <Input
+                    id="review-title"
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                    placeholder="Summarise your experience"
+                    className="mt-2"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="review-comment">Review</Label>
+                  <Textarea
+                    id="review-comment"
+                    value={form.comment}
+                    onChange={(e) => setForm({ ...form, comment: e.target.value })}
+                    placeholder="What did you like or dislike?"
+                    rows={4}
+                    className="mt-2"
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  {product.sizes && product.sizes.length > 0 && (
+                    <div>
+                      <Label>Size purchased</Label>
+                      <Select value={form.size} onValueChange={(size) => setForm({ ...form, size })}>
+                        <SelectTrigger className="mt-2">
+                          <SelectValue placeholder="Select size" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {product.sizes.map(size => (
+                            <SelectItem key={size} value={size}>{size}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div>
+                    <Label>Fit</Label>
+                    <Select value={form.fit} onValueChange={(fit) => setForm({ ...form, fit: fit as ReviewFit })}>
+                      <SelectTrigger className="mt-2">
+                        <SelectValue placeholder="How did it fit?" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FIT_OPTIONS.map(fit => (
+                          <SelectItem key={fit} value={fit}>{REVIEW_FIT_LABELS[fit]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {product.occasion && product.occasion.length > 0 && (
+                    <div>
+                      <Label>Occasion</Label>
+                      <Select value={form.occasion} onValueChange={(occasion) => setForm({ ...form, occasion })}>
+                        <SelectTrigger className="mt-2">
+                          <SelectValue placeholder="Worn for" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {product.occasion.map(occasion => (
+                            <SelectItem key={occasion} value={occasion}>{occasion}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+
+                <Button type="submit" className="btn-gold" disabled={isSubmitting}>
+                  {isSubmitting ? "Posting..." : "Post Review"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Filters */}
+        {reviews.length > 0 && (
+          <div className="flex flex-wrap gap-4">
+            <Select value={ratingFilter} onValueChange={setRatingFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All ratings" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All ratings</SelectItem>
+                {[5, 4, 3, 2, 1].map(stars => (
+                  <SelectItem key={stars} value={String(stars)}>
+                    {stars} star{stars !== 1 ? "s" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={fitFilter} onValueChange={setFitFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All fits" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All fits</SelectItem>
+                {FIT_OPTIONS.map(fit => (
+                  <SelectItem key={fit} value={fit}>{REVIEW_FIT_LABELS[fit]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {reviews.length === 0 ? (
+          <p className="text-muted-foreground">No reviews yet. Be the first to review this product.</p>
+        ) : filteredReviews.length === 0 ? (
+          <p className="text-muted-foreground">No reviews match the selected filters.</p>
+        ) : (
+          filteredReviews.map(review => (
+            <div key={review.id} className="border-b border-border pb-6">
+              <div className="flex items-center gap-3 mb-2">
+                <StarRating rating={review.rating} />
+                <span className="font-medium">{review.title}</span>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground mb-3">
+                <span>{review.userName}</span>
+                <span>•</span>
+                <span>{review.createdAt.toLocaleDateString("en-IN")}</span>
+                {review.verified && (
+                  <Badge variant="secondary" className="gap-1">
+                    <BadgeCheck className="h-3 w-3" />
+                    Verified Purchase
+                  </Badge>
+                )}
+              </div>
+              <p className="text-muted-foreground leading-relaxed mb-3">{review.comment}</p>
+              {(review.size || review.fit || review.occasion) && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {review.size && <Badge variant="outline">Size: {review.size}</Badge>}
+                  {review.fit && <Badge variant="outline">{REVIEW_FIT_LABELS[review.fit]}</Badge>}
+                  {review.occasion && <Badge variant="outline">{review.occasion}</Badge>}
+                </div>
+              )}
+              {review.images && review.images.length > 0 && (
+                <div className="flex gap-2 mb-3">
+                  {review.images.map((image, index) => (
+                    <img
+                      key={index}
+                      src={image}
+                      alt={`Review photo ${index + 1}`}
+                      className="w-20 h-20 object-cover rounded"
+                    />
+                  ))}
+                </div>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleMarkHelpful(review)}
+                disabled={votedReviewIds.has(review.id) || review.userId === user?.id}
+              >
+                <ThumbsUp className="mr-2 h-4 w-4" />
+                Helpful ({review.helpful})
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductReviews;
@@ -0,0 +1,287 @@
+/**
+ * Return Request Dialog
+ * Lets a customer pick delivered items to return or exchange for another size,
+ * with a reason, comments and photos
+ */
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProducts } from "@/contexts/ProductContext";
+import { Order } from "@/services/userActivitiesService";
+import {
+  ReturnRequest,
+  ReturnRequestType,
+  RETURN_REASONS,
+  MAX_RETURN_PHOTOS,
+  requestReturn,
+  uploadReturnPhotos,
+} from "@/services/returnService";
+
+interface ReturnRequestDialogProps {
+  order: Order | null;
+  // Existing requests for the order, used to cap quantities still returnable
+  existingReturns: ReturnRequest[];
+  onClose: () => void;
+  onSubmitted: (request: ReturnRequest) => void;
+}
+
+interface SelectedLine {
+  quantity: number;
+  exchangeSize: string;
+}
+
+const lineKey = (item: { id: number; size?: string; color?: string }) =>
+  `${item.id}|${item.size || ""}|${item.color || ""}`;
+
+const ReturnRequestDialog = ({ order, existingReturns, onClose, onSubmitted }: ReturnRequestDialogProps) => {
+  const { user } = useAuth();
+  const { products } = useProducts();
+
+  const [type, setType] = useState<ReturnRequestType>("return");
+  const [selected, setSelected] = useState<Record<string, SelectedLine>>({});
+  const [reason, setReason] = useState("");
+  const [comments, setComments] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setType("return");
+    setSelected({});
+    setReason("");
+    setComments("");
+    setPhotos([]);
+  }, [order?.id]);
+
+  if (!order) return null;
+
+  // Units of a line already in a pending or completed request
+  const getAlreadyRequested = (key: string) =>
+    existingReturns
+      .filter(request => request.status !== "rejected")
+      .flatMap(request => request.items)
+      .filter(item => lineKey(item) === key)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const getExchangeSizes = (productId: number, currentSize?: string) => {
+    const product = products.find(p => p.id === productId);
+    return (product?.sizes || []).filter(size => size !== currentSize);
+  };
+
+  const toggleLine = (key: string) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (next[key]) {
+        delete next[key];
+      } else {
+        next[key] = { quantity: 1, exchangeSize: "" };
+      }
+      return next;
+    });
+  };
+
+  const updateLine = (key: string, updates: Partial<SelectedLine>) => {
+    setSelected(prev => ({ ...prev, [key]: { ...prev[key], ...updates } }));
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > MAX_RETURN_PHOTOS) {
+      toast.error(`You can attach up to ${MAX_RETURN_PHOTOS} photos`);
+    }
+    setPhotos(files.slice(0, MAX_RETURN_PHOTOS));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const items = order.items
+      .filter(item => selected[lineKey(item)])
+      .map(item => ({
+        id: item.id,
+        size: item.size,
+        color: item.color,
+        quantity: selected[lineKey(item)].quantity,
+        exchange_size: type === "exchange" ? selected[lineKey(item)].exchangeSize : null,
+      }));
+
+    if (items.length === 0) {
+      toast.error("Please choose at least one item");
+      return;
+    }
+    if (type === "exchange" && items.some(item => !item.exchange_size)) {
+      toast.error("Please choose a new size for each item");
+      return;
+    }
+    if (!reason) {
+      toast.error("Please choose a reason");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const photoPaths = photos.length > 0 ? await uploadReturnPhotos(user.id, photos) : [];
+    if (photoPaths === null) {
+      setIsSubmitting(false);
+      toast.error("Failed to upload photos");
+      return;
+    }
+
+    const result = await requestReturn({
+      orderId: order.id,
+      type,
+      items,
+      reason,
+      comments: comments.trim() || undefined,
+      photos: photoPaths,
+    });
+    setIsSubmitting(false);
+
+    if (!result.success || !result.request) {
+      toast.error(result.error || "Failed to submit your request");
+      return;
+    }
+
+    toast.success(`${type === "exchange" ? "Exchange" : "Return"} request ${result.request.rma_number} submitted`);
+    onSubmitted(result.request);
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return or Exchange — Order {order.order_number}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <RadioGroup
+            value={type}
+            onValueChange={(value) => setType(value as ReturnRequestType)}
+            className="flex gap-6"
+          >
+            <label className="flex items-center gap-2 text-sm">
+              <RadioGroupItem value="return" />
+              Return for a refund
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <RadioGroupItem value="exchange" />
+              Exchange for another size
+            </label>
+          </RadioGroup>
+
+          <div className="space-y-3">
+            <Label>Items</Label>
+            {order.items.map(item => {
+              const key = lineKey(item);
+              const remaining = item.quantity - getAlreadyRequested(key);
+              const line = selected[key];
+              const exchangeSizes = getExchangeSizes(item.id, item.size);
+
+              return (
+                <div key={key} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 border rounded-lg">
+                  <label className="flex items-center gap-3 flex-1">
+                    <Checkbox
+                      checked={!!line}
+                      onCheckedChange={() => toggleLine(key)}
+                      disabled={remaining <= 0}
+                    />
+                    {item.image && (
+                      <img src={item.image} alt={item.name} className="w-12 h-12 object-cover rounded" />
+                    )}
+                    <div className="text-sm">
+                      <p className="font-medium">{item.name}</p>
+                      <p className="text-muted-foreground">
+                        {item.size && `Size: ${item.size}`}
+                        {item.color && ` • ${item.color}`}
+                        {remaining <= 0 ? " • Already requested" : ` • ${remaining} returnable`}
+                      </p>
+                    </div>
+                  </label>
+                  {line && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        max={remaining}
+                        value={line.quantity}
+                        onChange={(e) => updateLine(key, {
+                          quantity: Math.min(Math.max(1, Number(e.target.value)), remaining),
+                        })}
+                        className="w-20"
+                        aria-label="Quantity"
+                      />
+                      {type === "exchange" && (
+                        <Select value={line.exchangeSize} onValueChange={(value) => updateLine(key, { exchangeSize: value })}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue placeholder="New size" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {exchangeSizes.map(size => (
+                              <SelectItem key={size} value={size}>{size}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {RETURN_REASONS.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="return-comments">Comments</Label>
+            <Textarea
+              id="return-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Anything that helps us process your request"
+              rows={3}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="return-photos">Photos (optional, up to {MAX_RETURN_PHOTOS})</Label>
+            <Input id="return-photos" type="file" accept="image/jpeg,image/png,image/webp" multiple onChange={handlePhotoChange} />
+            {photos.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">{photos.length} photo(s) selected</p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" className="btn-gold" disabled={isSubmitting}>
+              {isSubmitting ? "Submitting..." : "Submit Request"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnRequestDialog;
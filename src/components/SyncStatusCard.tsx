@@ -26,10 +26,10 @@ const SyncStatusCard = () => {
     checkSync();
   }, []);
 
-  const checkSync = () => {
+  const checkSync = async () => {
     setIsValidating(true);
     try {
-      const issues = validateSync();
+      const issues = await validateSync();
       setInconsistencies(issues);
       setLastChecked(new Date());
       
@@ -49,7 +49,7 @@ const SyncStatusCard = () => {
   const handleAutoFix = async () => {
     setIsFixing(true);
     try {
-      const result = autoFixSync();
+      const result = await autoFixSync();
       
       if (result.fixed > 0) {
         toast.success(`Fixed ${result.fixed} synchronization issue(s)!`);
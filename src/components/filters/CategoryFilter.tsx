@@ -13,6 +13,8 @@ interface CategoryFilterProps {
   selectedCategories: string[];
   onCategoryChange: (categories: string[]) => void;
   availableCategories: string[];
+  // Products each option would yield; options with none are disabled
+  counts?: Record<string, number>;
   className?: string;
   maxHeight?: string;
 }
@@ -22,6 +24,7 @@ export const CategoryFilter = ({
   selectedCategories,
   onCategoryChange,
   availableCategories,
+  counts,
   className,
   maxHeight,
 }: CategoryFilterProps) => {
@@ -42,6 +45,8 @@ export const CategoryFilter = ({
           label={category}
           checked={selectedCategories.includes(category)}
           onChange={(checked) => handleCategoryToggle(category, checked)}
+          count={counts ? counts[category] || 0 : undefined}
+          disabled={counts !== undefined && !counts[category] && !selectedCategories.includes(category)}
         />
       ))}
     </FilterSection>
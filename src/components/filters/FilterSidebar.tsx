@@ -4,7 +4,9 @@
  * Following DRY Principle - uses reusable filter components
  */
 
-import { ProductFilter, Occasion, ProductCategory, ProductSubcategory, Fabric } from "@/types/product";
+import { ProductFilter, Occasion, ProductCategory, ProductSubcategory } from "@/types/product";
+import { SearchFacetCount, SearchFacets } from "@/services/searchService";
+import { ColorFamily } from "@/services/colorService";
 import { FilterSection } from "./FilterSection";
 import { CategoryFilter } from "./CategoryFilter";
 import { OccasionFilter } from "./OccasionFilter";
@@ -13,6 +15,7 @@ import { FilterCheckbox } from "./FilterCheckbox";
 import { Button } from "@/components/ui/button";
 import { X, RotateCcw } from "lucide-react";
 import { SizeGuide } from "../SizeGuide";
+import { ColorSwatch } from "../ColorSwatch";
 
 interface FilterSidebarProps {
   filters: ProductFilter;
@@ -21,12 +24,19 @@ interface FilterSidebarProps {
   availableCategories: ProductCategory[];
   availableSubcategories: ProductSubcategory[];
   availableOccasions: Occasion[];
-  availableFabrics: Fabric[];
+  availableFabrics: string[];
   availableSizes: string[];
-  availableColors: string[];
+  // Color families, filtered by slug
+  availableColors: ColorFamily[];
+  // Products each option would yield given the search and the other filters;
+  // without them options show no counts
+  facets?: SearchFacets | null;
   className?: string;
 }
 
+const toCounts = (facet: SearchFacetCount[] | undefined): Record<string, number> | undefined =>
+  facet && Object.fromEntries(facet.map(({ value, count }) => [value, count]));
+
 export const FilterSidebar = ({
   filters,
   onFiltersChange,
@@ -37,9 +47,29 @@ export const FilterSidebar = ({
   availableFabrics,
   availableSizes,
   availableColors,
+  facets,
   className,
 }: FilterSidebarProps) => {
-  
+  const categoryCounts = toCounts(facets?.categories);
+  const subcategoryCounts = toCounts(facets?.subcategories);
+  const occasionCounts = toCounts(facets?.occasions);
+  const fabricCounts = toCounts(facets?.fabrics);
+  const sizeCounts = toCounts(facets?.sizes);
+  const colorCounts = toCounts(facets?.colors);
+  const quickFilterCounts = facets?.quickFilters;
+
+  // Fabrics come from product data, so include any the search found beyond the catalog list
+  const fabricOptions = [...new Set([...availableFabrics, ...(facets?.fabrics || []).map(facet => facet.value)])].sort();
+
+  // Families no product in the current results has are left out
+  const colorOptions = availableColors.filter(
+    family => !colorCounts || colorCounts[family.slug] > 0 || filters.colors.includes(family.slug)
+  );
+
+  // Options that would empty the grid are disabled, unless already selected so they can be cleared
+  const isUnavailable = (counts: Record<string, number> | undefined, value: string, selected: string[]) =>
+    counts !== undefined && !counts[value] && !selected.includes(value);
+
   // Handle category filter change
   const handleCategoryChange = (categories: string[]) => {
     onFiltersChange({
@@ -68,7 +98,7 @@ export const FilterSidebar = ({
   const handleFabricChange = (fabrics: string[]) => {
     onFiltersChange({
       ...filters,
-      fabrics: fabrics as Fabric[]
+      fabrics
     });
   };
 
@@ -158,6 +188,7 @@ export const FilterSidebar = ({
         selectedCategories={filters.categories}
         onCategoryChange={handleCategoryChange}
         availableCategories={availableCategories}
+        counts={categoryCounts}
         maxHeight="max-h-[200px]"
       />
 
@@ -167,6 +198,7 @@ export const FilterSidebar = ({
         selectedCategories={filters.subcategories}
         onCategoryChange={handleSubcategoryChange}
         availableCategories={availableSubcategories}
+        counts={subcategoryCounts}
         maxHeight="max-h-[150px]"
       />
 
@@ -175,6 +207,7 @@ export const FilterSidebar = ({
         selectedOccasions={filters.occasions}
         onOccasionChange={handleOccasionChange}
         availableOccasions={availableOccasions}
+        counts={occasionCounts}
       />
 
       {/* Price Range */}
@@ -185,15 +218,17 @@ export const FilterSidebar = ({
         max={20000}
         step={500}
         currency="₹"
+        histogram={facets?.priceHistogram}
       />
 
       {/* Fabrics */}
-      {availableFabrics.length > 0 && (
+      {fabricOptions.length > 0 && (
         <CategoryFilter
           title="Fabrics"
           selectedCategories={filters.fabrics}
           onCategoryChange={handleFabricChange}
-          availableCategories={availableFabrics}
+          availableCategories={fabricOptions}
+          counts={fabricCounts}
           maxHeight="max-h-[150px]"
         />
       )}
@@ -211,7 +246,9 @@ export const FilterSidebar = ({
                     : [...filters.sizes, size];
                   handleSizeChange(newSizes);
                 }}
-                className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                disabled={isUnavailable(sizeCounts, size, filters.sizes)}
+                title={sizeCounts ? `${sizeCounts[size] || 0} products` : undefined}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
                   filters.sizes.includes(size)
                     ? "bg-accent text-accent-foreground border-accent"
                     : "bg-background text-foreground border-border hover:border-accent"
@@ -228,23 +265,39 @@ export const FilterSidebar = ({
       )}
 
       {/* Colors */}
-      {availableColors.length > 0 && (
+      {colorOptions.length > 0 && (
         <FilterSection title="Colors">
           <div className="grid grid-cols-2 gap-2">
-            {availableColors.map((color) => (
-              <FilterCheckbox
-                key={color}
-                id={`color-${color}`}
-                label={color}
-                checked={filters.colors.includes(color)}
-                onChange={(checked) => {
-                  const newColors = checked
-                    ? [...filters.colors, color]
-                    : filters.colors.filter(c => c !== color);
-                  handleColorChange(newColors);
-                }}
-              />
-            ))}
+            {colorOptions.map((family) => {
+              const isSelected = filters.colors.includes(family.slug);
+              return (
+                <button
+                  key={family.slug}
+                  onClick={() => {
+                    const newColors = isSelected
+                      ? filters.colors.filter(c => c !== family.slug)
+                      : [...filters.colors, family.slug];
+                    handleColorChange(newColors);
+                  }}
+                  aria-pressed={isSelected}
+                  className={`flex items-center gap-2 px-2 py-1 text-sm rounded-md border transition-colors ${
+                    isSelected
+                      ? "border-accent bg-accent/10"
+                      : "border-transparent hover:border-border"
+                  }`}
+                >
+                  <ColorSwatch
+                    hex={family.hex}
+                    name={family.name}
+                    className={isSelected ? "ring-2 ring-accent ring-offset-1" : undefined}
+                  />
+                  <span className="truncate">{family.name}</span>
+                  {colorCounts && (
+                    <span className="ml-auto text-xs text-muted-foreground">({colorCounts[family.slug] || 0})</span>
+                  )}
+                </button>
+              );
+            })}
           </div>
         </FilterSection>
       )}
@@ -256,18 +309,24 @@ export const FilterSidebar = ({
             id="in-stock"
             label="In Stock Only"
             checked={filters.inStock === true}
+            count={quickFilterCounts?.inStock}
+            disabled={quickFilterCounts !== undefined && !quickFilterCounts.inStock && filters.inStock !== true}
             onChange={(checked) => handleStockChange(checked ? true : undefined)}
           />
           <FilterCheckbox
             id="new-items"
             label="New Arrivals"
             checked={filters.isNew === true}
+            count={quickFilterCounts?.isNew}
+            disabled={quickFilterCounts !== undefined && !quickFilterCounts.isNew && filters.isNew !== true}
             onChange={(checked) => handleNewItemsChange(checked ? true : undefined)}
           />
           <FilterCheckbox
             id="on-sale"
             label="On Sale"
             checked={filters.hasDiscount === true}
+            count={quickFilterCounts?.hasDiscount}
+            disabled={quickFilterCounts !== undefined && !quickFilterCounts.hasDiscount && filters.hasDiscount !== true}
             onChange={(checked) => handleDiscountChange(checked ? true : undefined)}
           />
         </div>
@@ -288,6 +347,12 @@ export const FilterSidebar = ({
                 {occasion}
               </span>
             ))}
+            {availableColors.filter(family => filters.colors.includes(family.slug)).map(family => (
+              <span key={family.slug} className="flex items-center gap-1 text-xs bg-accent text-accent-foreground px-2 py-1 rounded">
+                <ColorSwatch hex={family.hex} name={family.name} size="sm" />
+                {family.name}
+              </span>
+            ))}
             {filters.priceRange[0] > 0 && (
               <span className="text-xs bg-accent text-accent-foreground px-2 py-1 rounded">
                 Min ₹{filters.priceRange[0]}
@@ -12,6 +12,8 @@ interface OccasionFilterProps {
   selectedOccasions: Occasion[];
   onOccasionChange: (occasions: Occasion[]) => void;
   availableOccasions?: Occasion[];
+  // Products each occasion would yield; occasions with none are disabled
+  counts?: Record<string, number>;
   className?: string;
 }
 
@@ -41,6 +43,7 @@ export const OccasionFilter = ({
   selectedOccasions,
   onOccasionChange,
   availableOccasions = DEFAULT_OCCASIONS,
+  counts,
   className,
 }: OccasionFilterProps) => {
   const handleOccasionToggle = (occasion: Occasion, checked: boolean) => {
@@ -60,6 +63,8 @@ export const OccasionFilter = ({
           label={`${OCCASION_EMOJIS[occasion]} ${occasion}`}
           checked={selectedOccasions.includes(occasion)}
           onChange={(checked) => handleOccasionToggle(occasion, checked)}
+          count={counts ? counts[occasion] || 0 : undefined}
+          disabled={counts !== undefined && !counts[occasion] && !selectedOccasions.includes(occasion)}
         />
       ))}
     </FilterSection>
@@ -5,6 +5,7 @@
  */
 
 import { Slider } from "@/components/ui/slider";
+import { PriceRangeFacet } from "@/services/searchService";
 import { FilterSection } from "./FilterSection";
 
 interface PriceRangeFilterProps {
@@ -14,6 +15,8 @@ interface PriceRangeFilterProps {
   max?: number;
   step?: number;
   currency?: string;
+  // Products per price bar, drawn above the slider
+  histogram?: PriceRangeFacet[];
 }
 
 export const PriceRangeFilter = ({
@@ -23,10 +26,28 @@ export const PriceRangeFilter = ({
   max = 20000,
   step = 500,
   currency = "₹",
+  histogram,
 }: PriceRangeFilterProps) => {
+  const maxCount = Math.max(0, ...(histogram || []).map(bar => bar.count));
+
   return (
     <FilterSection title="Price Range">
       <div className="space-y-4">
+        {histogram && maxCount > 0 && (
+          <div className="flex items-end gap-px h-12" aria-hidden="true">
+            {histogram.map((bar) => {
+              const isSelected = bar.min < value[1] && (bar.max === null || bar.max > value[0]);
+              return (
+                <div
+                  key={bar.min}
+                  title={`${currency}${bar.min.toLocaleString()}${bar.max !== null ? ` - ${currency}${bar.max.toLocaleString()}` : "+"}: ${bar.count} products`}
+                  className={`flex-1 rounded-t-sm ${isSelected ? "bg-accent" : "bg-muted-foreground/30"}`}
+                  style={{ height: `${(bar.count / maxCount) * 100}%` }}
+                />
+              );
+            })}
+          </div>
+        )}
         <Slider
           value={value}
           onValueChange={onChange}
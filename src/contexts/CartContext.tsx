@@ -1,7 +1,8 @@
-import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react';
+import React, { createContext, useCallback, useContext, useReducer, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 import { Product } from '@/types/product';
 import { useAuth } from './AuthContext';
+import { useInventory } from './InventoryContext';
 import {
   getUserCart,
   addToCartDB,
@@ -9,7 +10,16 @@ import {
   removeFromCartDB,
   clearCartDB,
   mergeGuestCartToUserCart,
+  getGuestCart,
+  saveGuestCart,
 } from '@/services/userActivitiesService';
+import { evaluateCoupon, CouponEvaluation } from '@/services/couponService';
+import { getGuestCartId } from '@/services/inventoryService';
+import { trackSearchAddToCart } from '@/services/searchService';
+import { getSalePrice } from '@/utils/orderTotals';
+
+// Collapse bursts of guest cart edits into one save
+const GUEST_CART_SAVE_DEBOUNCE_MS = 500;
 
 // Cart Item interface
 export interface CartItem {
@@ -34,9 +44,8 @@ interface CartState {
 
 // Cart Actions
 type CartAction =
-  | { type: 'ADD_TO_CART'; payload: Omit<CartItem, 'quantity'> }
-  | { type: 'REMOVE_FROM_CART'; payload: number }
-  | { type: 'UPDATE_QUANTITY'; payload: { id: number; quantity: number } }
+  | { type: 'ADD_TO_CART'; payload: Omit<CartItem, 'quantity'> & { quantity?: number } }
+  | { type: 'SET_LINE_QUANTITY'; payload: { id: number; size?: string; color?: string; quantity: number } }
   | { type: 'CLEAR_CART' }
   | { type: 'LOAD_CART'; payload: CartItem[] }
   | { type: 'SET_LOADING'; payload: boolean }
@@ -55,6 +64,7 @@ const initialState: CartState = {
 const cartReducer = (state: CartState, action: CartAction): CartState => {
   switch (action.type) {
     case 'ADD_TO_CART': {
+      const addedQuantity = action.payload.quantity ?? 1;
       const existingItem = state.items.find(item => 
         item.id === action.payload.id && 
         item.size === action.payload.size && 
@@ -66,7 +76,7 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
           item.id === existingItem.id && 
           item.size === existingItem.size && 
           item.color === existingItem.color
-            ? { ...item, quantity: item.quantity + 1 }
+            ? { ...item, quantity: item.quantity + addedQuantity }
             : item
         );
         return {
@@ -76,7 +86,7 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
           totalPrice: updatedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0),
         };
       } else {
-        const newItem = { ...action.payload, quantity: 1 };
+        const newItem = { ...action.payload, quantity: addedQuantity };
         const updatedItems = [...state.items, newItem];
         return {
           ...state,
@@ -87,27 +97,14 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
       }
     }
 
-    case 'REMOVE_FROM_CART': {
-      const updatedItems = state.items.filter(item => item.id !== action.payload);
-      return {
-        ...state,
-        items: updatedItems,
-        totalItems: updatedItems.reduce((sum, item) => sum + item.quantity, 0),
-        totalPrice: updatedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0),
-      };
-    }
+    // Set one size/color line's quantity; 0 removes just that line
+    case 'SET_LINE_QUANTITY': {
+      const { id, size, color, quantity } = action.payload;
+      const isLine = (item: CartItem) => item.id === id && item.size === size && item.color === color;
+      const updatedItems = quantity > 0
+        ? state.items.map(item => (isLine(item) ? { ...item, quantity } : item))
+        : state.items.filter(item => !isLine(item));
 
-    case 'UPDATE_QUANTITY': {
-      if (action.payload.quantity < 1) {
-        return state;
-      }
-      
-      const updatedItems = state.items.map(item =>
-        item.id === action.payload.id
-          ? { ...item, quantity: action.payload.quantity }
-          : item
-      );
-      
       return {
         ...state,
         items: updatedItems,
@@ -151,12 +148,20 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
 // Cart Context interface
 interface CartContextType {
   state: CartState;
-  addToCart: (product: Product, size?: string, color?: string) => Promise<void>;
-  removeFromCart: (id: number) => Promise<void>;
-  updateQuantity: (id: number, quantity: number) => Promise<void>;
+  addToCart: (product: Product, size?: string, color?: string, quantity?: number) => Promise<void>;
+  removeFromCart: (id: number, size?: string, color?: string) => Promise<void>;
+  updateQuantity: (id: number, quantity: number, size?: string, color?: string) => Promise<void>;
   clearCart: () => Promise<void>;
   isInCart: (id: number, size?: string, color?: string) => boolean;
   refreshCart: () => Promise<void>;
+  // Keep stock held for the cart while the customer checks out
+  extendHold: () => Promise<void>;
+  // Store the guest cart now; guest orders are created from the stored copy
+  syncGuestCart: () => Promise<boolean>;
+  // Coupon preview; the discount is re-validated server-side when the order is created
+  appliedCoupon: CouponEvaluation | null;
+  applyCoupon: (code: string) => Promise<boolean>;
+  removeCoupon: () => void;
 }
 
 // Create context
@@ -165,11 +170,17 @@ const CartContext = createContext<CartContextType | undefined>(undefined);
 // Cart Provider component
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(cartReducer, initialState);
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponEvaluation | null>(null);
   const { user } = useAuth();
+  const { reserveCartItem, releaseCartReservations, extendCartReservations, transferCartReservations } = useInventory();
+  // Stock holds are keyed by user, or by a per-browser id for guest carts
+  const cartId = user?.id || getGuestCartId();
   const hasMergedRef = useRef(false);
   const isInitializedRef = useRef(false);
+  // Don't overwrite the stored guest cart before it has been loaded
+  const isGuestCartLoadedRef = useRef(false);
 
-  // Load cart from localStorage (for guests) or database (for authenticated users)
+  // Load cart from the guest cart (for guests) or user cart (for authenticated users)
   const loadCart = async () => {
     if (user) {
       // Load from database
@@ -186,10 +197,16 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         dispatch({ type: 'SET_LOADING', payload: false });
       }
     } else {
-      // Load from localStorage (guest user)
-      console.log('🛒 Loading cart from localStorage (guest)');
+      // Guest carts are stored by guest cart id, with localStorage as the fallback
+      console.log('🛒 Loading guest cart');
       const savedCart = localStorage.getItem('cart');
-      if (savedCart) {
+      isGuestCartLoadedRef.current = false;
+      const storedCart = await getGuestCart(getGuestCartId());
+      isGuestCartLoadedRef.current = true;
+
+      if (storedCart && storedCart.length > 0) {
+        dispatch({ type: 'LOAD_CART', payload: storedCart });
+      } else if (savedCart) {
         try {
           const cartItems = JSON.parse(savedCart);
           dispatch({ type: 'LOAD_CART', payload: cartItems });
@@ -221,8 +238,12 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
             console.log('✅ Cart merged successfully');
             toast.success(`${cartItems.length} items synced to your cart!`);
             
-            // Clear localStorage after successful merge
+            // The guest holds now belong to the user's cart
+            await transferCartReservations(getGuestCartId());
+            
+            // Clear the guest copies after successful merge
             localStorage.removeItem('cart');
+            await saveGuestCart(getGuestCartId(), []);
           }
         }
         
@@ -271,44 +292,67 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [user?.id]); // Only trigger on user ID change
 
-  // Save to localStorage for guests (not for authenticated users)
+  // Save guest carts to localStorage and the guest cart table (not for authenticated users)
   useEffect(() => {
-    if (!user && state.items.length >= 0) {
-      localStorage.setItem('cart', JSON.stringify(state.items));
-    }
+    if (user) return;
+
+    localStorage.setItem('cart', JSON.stringify(state.items));
+    if (!isGuestCartLoadedRef.current) return;
+
+    const timer = setTimeout(() => {
+      saveGuestCart(getGuestCartId(), state.items);
+    }, GUEST_CART_SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
   }, [state.items, user]);
 
   // Add to cart
-  const addToCart = async (product: Product, size?: string, color?: string) => {
-    const cartItem: Omit<CartItem, 'quantity'> = {
+  const addToCart = async (product: Product, size?: string, color?: string, quantity: number = 1) => {
+    const existingItem = state.items.find(item =>
+      item.id === product.id && item.size === size && item.color === color
+    );
+    const cartItem: Omit<CartItem, 'quantity'> & { quantity: number } = {
       id: product.id,
       name: product.name,
-      price: product.price,
+      price: getSalePrice(product.price, product.discount),
       image: product.image,
       category: product.category,
       size,
       color,
+      quantity,
     };
+    const previousQuantity = existingItem?.quantity || 0;
+
+    // Hold the stock before adding; the hold is for the line's new total
+    const isHeld = await reserveCartItem(cartId, product.id, size, color, previousQuantity + quantity);
+    if (!isHeld) {
+      toast.error(`Sorry, not enough stock of ${product.name} is available`);
+      return;
+    }
     
     // Optimistic update
     dispatch({ type: 'ADD_TO_CART', payload: cartItem });
+    trackSearchAddToCart(product.id);
     
     if (user) {
       // Save to database
       try {
-        const success = await addToCartDB(user.id, product, size, color, 1);
+        // The upsert stores the line's total quantity, not an increment
+        const success = await addToCartDB(user.id, product, size, color, previousQuantity + quantity);
         if (success) {
           console.log('✅ Added to cart in database:', product.name);
           toast.success(`${product.name} added to cart!`);
         } else {
-          // Rollback on failure
-          dispatch({ type: 'REMOVE_FROM_CART', payload: product.id });
+          // Rollback on failure to the line's previous quantity
+          dispatch({ type: 'SET_LINE_QUANTITY', payload: { id: product.id, size, color, quantity: previousQuantity } });
+          await reserveCartItem(cartId, product.id, size, color, previousQuantity);
           toast.error('Failed to add to cart');
         }
       } catch (error) {
         console.error('❌ Error adding to cart:', error);
-        // Rollback on error
-        dispatch({ type: 'REMOVE_FROM_CART', payload: product.id });
+        // Rollback on error to the line's previous quantity
+        dispatch({ type: 'SET_LINE_QUANTITY', payload: { id: product.id, size, color, quantity: previousQuantity } });
+        await reserveCartItem(cartId, product.id, size, color, previousQuantity);
         toast.error('Failed to add to cart');
       }
     } else {
@@ -317,12 +361,17 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  // Remove from cart
-  const removeFromCart = async (id: number) => {
-    const item = state.items.find(item => item.id === id);
+  // Remove one size/color line from the cart
+  const removeFromCart = async (id: number, size?: string, color?: string) => {
+    const item = state.items.find(item =>
+      item.id === id && item.size === size && item.color === color
+    );
     
     // Optimistic update
-    dispatch({ type: 'REMOVE_FROM_CART', payload: id });
+    dispatch({ type: 'SET_LINE_QUANTITY', payload: { id, size, color, quantity: 0 } });
+    if (item) {
+      await reserveCartItem(cartId, id, item.size, item.color, 0);
+    }
     
     if (user && item) {
       // Remove from database
@@ -333,23 +382,37 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         } else {
           // Rollback on failure
           dispatch({ type: 'ADD_TO_CART', payload: item });
+          await reserveCartItem(cartId, id, item.size, item.color, item.quantity);
           toast.error('Failed to remove from cart');
         }
       } catch (error) {
         console.error('❌ Error removing from cart:', error);
         // Rollback on error
         dispatch({ type: 'ADD_TO_CART', payload: item });
+        await reserveCartItem(cartId, id, item.size, item.color, item.quantity);
         toast.error('Failed to remove from cart');
       }
     }
   };
 
-  // Update quantity
-  const updateQuantity = async (id: number, quantity: number) => {
-    const oldItem = state.items.find(item => item.id === id);
+  // Update one size/color line's quantity
+  const updateQuantity = async (id: number, quantity: number, size?: string, color?: string) => {
+    if (quantity < 1) return;
+
+    const oldItem = state.items.find(item =>
+      item.id === id && item.size === size && item.color === color
+    );
+
+    if (oldItem) {
+      const isHeld = await reserveCartItem(cartId, id, oldItem.size, oldItem.color, quantity);
+      if (!isHeld) {
+        toast.error(`Sorry, not enough stock of ${oldItem.name} is available`);
+        return;
+      }
+    }
     
     // Optimistic update
-    dispatch({ type: 'UPDATE_QUANTITY', payload: { id, quantity } });
+    dispatch({ type: 'SET_LINE_QUANTITY', payload: { id, size, color, quantity } });
     
     if (user && oldItem) {
       // Update in database
@@ -357,24 +420,34 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         const success = await updateCartQuantityDB(user.id, id, quantity, oldItem.size, oldItem.color);
         if (!success) {
           // Rollback on failure
-          dispatch({ type: 'UPDATE_QUANTITY', payload: { id, quantity: oldItem.quantity } });
+          dispatch({ type: 'SET_LINE_QUANTITY', payload: { id, size, color, quantity: oldItem.quantity } });
+          await reserveCartItem(cartId, id, oldItem.size, oldItem.color, oldItem.quantity);
           toast.error('Failed to update quantity');
         }
       } catch (error) {
         console.error('❌ Error updating quantity:', error);
         // Rollback on error
-        dispatch({ type: 'UPDATE_QUANTITY', payload: { id, quantity: oldItem.quantity } });
+        dispatch({ type: 'SET_LINE_QUANTITY', payload: { id, size, color, quantity: oldItem.quantity } });
+        await reserveCartItem(cartId, id, oldItem.size, oldItem.color, oldItem.quantity);
         toast.error('Failed to update quantity');
       }
     }
   };
 
+  // Re-hold stock for lines whose holds were released by a failed operation
+  const restoreHolds = async (items: CartItem[]) => {
+    for (const item of items) {
+      await reserveCartItem(cartId, item.id, item.size, item.color, item.quantity);
+    }
+  };
+
   // Clear cart
   const clearCart = async () => {
     const oldItems = state.items;
     
     // Optimistic update
     dispatch({ type: 'CLEAR_CART' });
+    await releaseCartReservations(cartId);
     
     if (user) {
       // Clear in database
@@ -383,12 +456,14 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (!success) {
           // Rollback on failure
           dispatch({ type: 'LOAD_CART', payload: oldItems });
+          await restoreHolds(oldItems);
           toast.error('Failed to clear cart');
         }
       } catch (error) {
         console.error('❌ Error clearing cart:', error);
         // Rollback on error
         dispatch({ type: 'LOAD_CART', payload: oldItems });
+        await restoreHolds(oldItems);
         toast.error('Failed to clear cart');
       }
     } else {
@@ -410,6 +485,67 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     await loadCart();
   };
 
+  // Extend stock holds while the customer is on checkout
+  const extendHold = useCallback(async () => {
+    await extendCartReservations(cartId);
+  }, [cartId, extendCartReservations]);
+
+  const syncGuestCart = async (): Promise<boolean> => {
+    if (user) return true;
+    return saveGuestCart(getGuestCartId(), state.items);
+  };
+
+  // Apply a coupon code to the current cart
+  const applyCoupon = async (code: string): Promise<boolean> => {
+    const evaluation = await evaluateCoupon(code, state.items);
+    if (!evaluation.valid) {
+      toast.error(evaluation.message || 'Invalid coupon code');
+      return false;
+    }
+
+    setAppliedCoupon(evaluation);
+    toast.success(`Coupon ${evaluation.code} applied!`);
+    return true;
+  };
+
+  const removeCoupon = () => {
+    setAppliedCoupon(null);
+  };
+
+  // Re-check the applied coupon whenever the cart contents change
+  const appliedCouponCodeRef = useRef(appliedCoupon?.code);
+  appliedCouponCodeRef.current = appliedCoupon?.code;
+
+  useEffect(() => {
+    const code = appliedCouponCodeRef.current;
+    if (!code) return;
+
+    if (state.items.length === 0) {
+      setAppliedCoupon(null);
+      return;
+    }
+
+    let cancelled = false;
+    evaluateCoupon(code, state.items).then(evaluation => {
+      if (cancelled) return;
+      if (evaluation.valid) {
+        setAppliedCoupon(evaluation);
+      } else {
+        setAppliedCoupon(null);
+        toast.error(`Coupon ${code} removed: ${evaluation.message}`);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.items]);
+
+  // Coupons are per user
+  useEffect(() => {
+    setAppliedCoupon(null);
+  }, [user]);
+
   const value: CartContextType = {
     state,
     addToCart,
@@ -418,6 +554,11 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     clearCart,
     isInCart,
     refreshCart,
+    extendHold,
+    syncGuestCart,
+    appliedCoupon,
+    applyCoupon,
+    removeCoupon,
   };
 
   return (
@@ -2,13 +2,16 @@
  * Inventory Context - State Management for Inventory System
  * Following Single Responsibility Principle - only inventory state management
  * Following Clean Architecture - depends on inventory service abstraction
+ * Data is shared through Supabase and refreshed live from realtime changes
  */
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { 
-  InventoryItem, 
-  StockMovement, 
-  InventoryAlert, 
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import {
+  InventoryItem,
+  VariantStockUpdate,
+  StockMovement,
+  StockLevelSnapshot,
+  InventoryAlert,
   ReorderSuggestion,
   InventorySettings,
   InventoryAnalytics
@@ -16,20 +19,37 @@ import {
 import { Product } from '@/types/product';
 import {
   getInventoryItems,
-  saveInventoryItems,
   getStockMovements,
-  saveStockMovements,
+  getStockMovementCount,
   getInventoryAlerts,
-  saveInventoryAlerts,
   getInventorySettings,
   saveInventorySettings,
   getReorderSuggestions,
   getInventoryAnalytics,
   createInventoryItem,
-  updateStock,
-  acknowledgeAlert
+  updateInventoryItem as updateInventoryItemService,
+  deleteInventoryItem as deleteInventoryItemService,
+  updateStock as updateStockService,
+  updateVariantSettings,
+  acknowledgeAlert as acknowledgeAlertService,
+  dismissAlert as dismissAlertService,
+  getStockAt as getStockAtService,
+  importLegacyInventory as importLegacyInventoryService,
+  subscribeToInventoryChanges,
+  releaseExpiredReservations,
+  reserveCartItem as reserveCartItemService,
+  releaseCartReservations as releaseCartReservationsService,
+  extendCartReservations as extendCartReservationsService,
+  transferCartReservations as transferCartReservationsService,
+  restockOrder as restockOrderService
 } from '@/services/inventoryService';
 
+// How often expired cart holds are swept back into available stock
+const RESERVATION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Collapse bursts of realtime changes (one stock change touches several tables) into one reload
+const REALTIME_REFRESH_DEBOUNCE_MS = 300;
+
 // Inventory Context State
 interface InventoryContextState {
   // Data
@@ -39,7 +59,7 @@ interface InventoryContextState {
   settings: InventorySettings;
   reorderSuggestions: ReorderSuggestion[];
   analytics: InventoryAnalytics;
-  
+
   // Loading States
   isLoading: boolean;
   isUpdating: boolean;
@@ -52,20 +72,28 @@ interface InventoryContextActions {
   addInventoryItem: (product: Product, inventoryData: Partial<InventoryItem>) => Promise<boolean>;
   updateInventoryItem: (itemId: string, updates: Partial<InventoryItem>) => Promise<boolean>;
   deleteInventoryItem: (itemId: string) => Promise<boolean>;
-  
-  // Stock Operations
-  updateStock: (productId: number, quantity: number, type: 'in' | 'out' | 'adjustment', reason: string, performedBy?: string, notes?: string) => Promise<boolean>;
-  adjustStock: (productId: number, newQuantity: number, reason: string, performedBy?: string, notes?: string) => Promise<boolean>;
-  reserveStock: (productId: number, quantity: number) => Promise<boolean>;
-  releaseReservedStock: (productId: number, quantity: number) => Promise<boolean>;
-  
+  importLegacyInventory: () => Promise<number | null>;
+
+  // Stock Operations (per size × color variant)
+  updateStock: (productId: number, variantId: string, quantity: number, type: 'in' | 'out' | 'adjustment', reason: string, performedBy?: string, notes?: string) => Promise<boolean>;
+  adjustStock: (productId: number, variantId: string, newQuantity: number, reason: string, performedBy?: string, notes?: string) => Promise<boolean>;
+  updateVariant: (productId: number, variantId: string, updates: VariantStockUpdate) => Promise<boolean>;
+  getStockAt: (at: Date) => Promise<StockLevelSnapshot[]>;
+
+  // Cart Holds & Orders
+  reserveCartItem: (cartId: string, productId: number, size: string | undefined, color: string | undefined, quantity: number) => Promise<boolean>;
+  releaseCartReservations: (cartId: string) => Promise<void>;
+  extendCartReservations: (cartId: string) => Promise<void>;
+  transferCartReservations: (guestCartId: string) => Promise<void>;
+  restockOrder: (orderId: string, reason: string, performedBy?: string) => Promise<boolean>;
+
   // Alerts Management
   acknowledgeAlert: (alertId: string, acknowledgedBy: string) => Promise<boolean>;
   dismissAlert: (alertId: string) => Promise<boolean>;
-  
+
   // Settings Management
   updateSettings: (newSettings: Partial<InventorySettings>) => Promise<boolean>;
-  
+
   // Data Refresh
   refreshData: () => Promise<void>;
   refreshAnalytics: () => Promise<void>;
@@ -101,37 +129,36 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     slowMovingProducts: [],
     categoryBreakdown: []
   });
-  
+
   // Loading States
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
   // Load all inventory data
-  const loadInventoryData = async () => {
+  const loadInventoryData = async (showLoading: boolean = true) => {
     try {
-      setIsLoading(true);
+      if (showLoading) setIsLoading(true);
       setError(null);
-      
-      const [items, movements, alertsData, suggestions, analyticsData] = await Promise.all([
-        Promise.resolve(getInventoryItems()),
-        Promise.resolve(getStockMovements()),
-        Promise.resolve(getInventoryAlerts()),
-        Promise.resolve(getReorderSuggestions()),
-        Promise.resolve(getInventoryAnalytics())
+
+      const [items, movements, alertsData, movementCount] = await Promise.all([
+        getInventoryItems(),
+        getStockMovements(),
+        getInventoryAlerts(),
+        getStockMovementCount()
       ]);
-      
+
       setInventoryItems(items);
       setStockMovements(movements);
       setAlerts(alertsData);
-      setReorderSuggestions(suggestions);
-      setAnalytics(analyticsData);
-      
+      setReorderSuggestions(getReorderSuggestions(items));
+      setAnalytics(getInventoryAnalytics(items, movementCount));
+
       console.log('InventoryContext: Data loaded successfully', {
         items: items.length,
         movements: movements.length,
-        alerts: alertsData.length,
-        suggestions: suggestions.length
+        alerts: alertsData.length
       });
     } catch (err) {
       console.error('InventoryContext: Error loading data:', err);
@@ -146,16 +173,15 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     try {
       setIsUpdating(true);
       setError(null);
-      
-      const newItem = createInventoryItem(product, inventoryData);
-      const updatedItems = [...inventoryItems, newItem];
-      
-      setInventoryItems(updatedItems);
-      saveInventoryItems(updatedItems);
-      
-      // Refresh analytics
-      await refreshAnalytics();
-      
+
+      const newItem = await createInventoryItem(product, inventoryData);
+      if (!newItem) {
+        setError('Failed to add inventory item');
+        return false;
+      }
+
+      await refreshData();
+
       console.log('InventoryContext: Inventory item added:', newItem.name);
       return true;
     } catch (err) {
@@ -172,21 +198,14 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     try {
       setIsUpdating(true);
       setError(null);
-      
-      const updatedItems = inventoryItems.map(item => 
-        item.id === itemId 
-          ? { ...item, ...updates, updatedAt: new Date() }
-          : item
-      );
-      
-      setInventoryItems(updatedItems);
-      saveInventoryItems(updatedItems);
-      
-      // Refresh analytics
-      await refreshAnalytics();
-      
+
+      const success = await updateInventoryItemService(itemId, updates);
+      if (success) {
+        await refreshData();
+      }
+
       console.log('InventoryContext: Inventory item updated:', itemId);
-      return true;
+      return success;
     } catch (err) {
       console.error('InventoryContext: Error updating inventory item:', err);
       setError(err instanceof Error ? err.message : 'Failed to update inventory item');
@@ -201,16 +220,14 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     try {
       setIsUpdating(true);
       setError(null);
-      
-      const updatedItems = inventoryItems.filter(item => item.id !== itemId);
-      setInventoryItems(updatedItems);
-      saveInventoryItems(updatedItems);
-      
-      // Refresh analytics
-      await refreshAnalytics();
-      
+
+      const success = await deleteInventoryItemService(itemId);
+      if (success) {
+        await refreshData();
+      }
+
       console.log('InventoryContext: Inventory item deleted:', itemId);
-      return true;
+      return success;
     } catch (err) {
       console.error('InventoryContext: Error deleting inventory item:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete inventory item');
@@ -220,40 +237,53 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     }
   };
 
+  // Import inventory saved in this browser before the shared tables existed
+  const importLegacyInventory = async (): Promise<number | null> => {
+    try {
+      setIsUpdating(true);
+      setError(null);
+
+      const imported = await importLegacyInventoryService();
+      await refreshData();
+
+      console.log('InventoryContext: Legacy inventory imported:', imported);
+      return imported;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   // Update stock
   const updateStockOperation = async (
-    productId: number, 
-    quantity: number, 
-    type: 'in' | 'out' | 'adjustment', 
-    reason: string, 
-    performedBy: string = 'admin', 
+    productId: number,
+    variantId: string,
+    quantity: number,
+    type: 'in' | 'out' | 'adjustment',
+    reason: string,
+    performedBy: string = 'admin',
     notes: string = ''
   ): Promise<boolean> => {
     try {
       setIsUpdating(true);
       setError(null);
-      
-      // Import and use the service function (not recursive!)
-      const { updateStock: updateStockService } = await import('@/services/inventoryService');
-      const success = updateStockService(productId, quantity, type, reason, performedBy, notes);
-      
-      if (success) {
-        // Refresh data
-        await refreshData();
-        
-        // Sync inventory back to product
-        try {
-          const { syncInventoryToProduct } = await import('@/services/productInventorySync');
-          const item = inventoryItems.find(i => i.productId === productId);
-          if (item) {
-            syncInventoryToProduct(item);
-          }
-        } catch (err) {
-          console.warn('Failed to sync inventory to product:', err);
-        }
+
+      const success = await updateStockService(variantId, quantity, type, reason, performedBy, notes);
+      if (!success) {
+        setError('Failed to update stock');
+        return false;
       }
-      
-      return success;
+
+      await refreshData();
+
+      // Sync inventory back to product
+      try {
+        const { syncInventoryToProduct } = await import('@/services/productInventorySync');
+        await syncInventoryToProduct(productId);
+      } catch (err) {
+        console.warn('Failed to sync inventory to product:', err);
+      }
+
+      return true;
     } catch (err) {
       console.error('InventoryContext: Error updating stock:', err);
       setError(err instanceof Error ? err.message : 'Failed to update stock');
@@ -265,97 +295,80 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
 
   // Adjust stock
   const adjustStock = async (
-    productId: number, 
-    newQuantity: number, 
-    reason: string, 
-    performedBy: string = 'admin', 
+    productId: number,
+    variantId: string,
+    newQuantity: number,
+    reason: string,
+    performedBy: string = 'admin',
     notes: string = ''
   ): Promise<boolean> => {
-    return updateStockOperation(productId, newQuantity, 'adjustment', reason, performedBy, notes);
+    return updateStockOperation(productId, variantId, newQuantity, 'adjustment', reason, performedBy, notes);
   };
 
-  // Reserve stock
-  const reserveStock = async (productId: number, quantity: number): Promise<boolean> => {
+  // Update variant reorder settings and bin location
+  const updateVariant = async (productId: number, variantId: string, updates: VariantStockUpdate): Promise<boolean> => {
     try {
       setIsUpdating(true);
       setError(null);
-      
-      const item = inventoryItems.find(item => item.productId === productId);
-      if (!item) {
-        setError('Inventory item not found');
-        return false;
-      }
-      
-      if (item.availableStock < quantity) {
-        setError('Insufficient available stock');
-        return false;
+
+      const success = await updateVariantSettings(variantId, updates);
+      if (success) {
+        await refreshData();
       }
-      
-      const updatedItems = inventoryItems.map(invItem => 
-        invItem.productId === productId 
-          ? { 
-              ...invItem, 
-              reservedStock: invItem.reservedStock + quantity,
-              availableStock: invItem.availableStock - quantity,
-              updatedAt: new Date()
-            }
-          : invItem
-      );
-      
-      setInventoryItems(updatedItems);
-      saveInventoryItems(updatedItems);
-      
-      console.log('InventoryContext: Stock reserved:', productId, quantity);
-      return true;
+
+      console.log('InventoryContext: Variant updated:', variantId);
+      return success;
     } catch (err) {
-      console.error('InventoryContext: Error reserving stock:', err);
-      setError(err instanceof Error ? err.message : 'Failed to reserve stock');
+      console.error('InventoryContext: Error updating variant:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update variant');
       return false;
     } finally {
       setIsUpdating(false);
     }
   };
 
-  // Release reserved stock
-  const releaseReservedStock = async (productId: number, quantity: number): Promise<boolean> => {
-    try {
-      setIsUpdating(true);
-      setError(null);
-      
-      const item = inventoryItems.find(item => item.productId === productId);
-      if (!item) {
-        setError('Inventory item not found');
-        return false;
-      }
-      
-      if (item.reservedStock < quantity) {
-        setError('Insufficient reserved stock');
-        return false;
-      }
-      
-      const updatedItems = inventoryItems.map(invItem => 
-        invItem.productId === productId 
-          ? { 
-              ...invItem, 
-              reservedStock: invItem.reservedStock - quantity,
-              availableStock: invItem.availableStock + quantity,
-              updatedAt: new Date()
-            }
-          : invItem
-      );
-      
-      setInventoryItems(updatedItems);
-      saveInventoryItems(updatedItems);
-      
-      console.log('InventoryContext: Reserved stock released:', productId, quantity);
-      return true;
-    } catch (err) {
-      console.error('InventoryContext: Error releasing reserved stock:', err);
-      setError(err instanceof Error ? err.message : 'Failed to release reserved stock');
-      return false;
-    } finally {
-      setIsUpdating(false);
+  // Reconstruct stock levels at a point in time from the movement ledger
+  const getStockAt = async (at: Date): Promise<StockLevelSnapshot[]> => {
+    return getStockAtService(at);
+  };
+
+  // Hold stock for a cart line (quantity is the line's new total, 0 releases it)
+  const reserveCartItem = async (
+    cartId: string,
+    productId: number,
+    size: string | undefined,
+    color: string | undefined,
+    quantity: number
+  ): Promise<boolean> => {
+    const success = await reserveCartItemService(cartId, productId, size || '', color || '', quantity);
+
+    if (!success) {
+      console.log('InventoryContext: Not enough stock to hold:', productId, size, color, quantity);
     }
+    return success;
+  };
+
+  // Release every hold for a cart
+  const releaseCartReservations = async (cartId: string): Promise<void> => {
+    await releaseCartReservationsService(cartId);
+  };
+
+  // Extend a cart's holds while the customer is checking out
+  const extendCartReservations = useCallback(async (cartId: string): Promise<void> => {
+    await extendCartReservationsService(cartId);
+  }, []);
+
+  // Move guest holds to the signed-in user's cart
+  const transferCartReservations = async (guestCartId: string): Promise<void> => {
+    await transferCartReservationsService(guestCartId);
+  };
+
+  // Return a cancelled or refunded order's items to stock
+  const restockOrder = async (orderId: string, reason: string, performedBy: string = 'admin'): Promise<boolean> => {
+    const success = await restockOrderService(orderId, reason, performedBy);
+
+    console.log('InventoryContext: Order restocked:', orderId, success);
+    return success;
   };
 
   // Acknowledge alert
@@ -363,17 +376,12 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     try {
       setIsUpdating(true);
       setError(null);
-      
-      // Import and use the service function (not recursive!)
-      const { acknowledgeAlert: acknowledgeAlertService } = await import('@/services/inventoryService');
-      const success = acknowledgeAlertService(alertId, acknowledgedBy);
-      
+
+      const success = await acknowledgeAlertService(alertId, acknowledgedBy);
       if (success) {
-        // Refresh alerts
-        const updatedAlerts = getInventoryAlerts();
-        setAlerts(updatedAlerts);
+        setAlerts(await getInventoryAlerts());
       }
-      
+
       return success;
     } catch (err) {
       console.error('InventoryContext: Error acknowledging alert:', err);
@@ -389,13 +397,14 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     try {
       setIsUpdating(true);
       setError(null);
-      
-      const updatedAlerts = alerts.filter(alert => alert.id !== alertId);
-      setAlerts(updatedAlerts);
-      saveInventoryAlerts(updatedAlerts);
-      
+
+      const success = await dismissAlertService(alertId);
+      if (success) {
+        setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+      }
+
       console.log('InventoryContext: Alert dismissed:', alertId);
-      return true;
+      return success;
     } catch (err) {
       console.error('InventoryContext: Error dismissing alert:', err);
       setError(err instanceof Error ? err.message : 'Failed to dismiss alert');
@@ -410,11 +419,11 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     try {
       setIsUpdating(true);
       setError(null);
-      
+
       const updatedSettings = { ...settings, ...newSettings };
       setSettings(updatedSettings);
       saveInventorySettings(updatedSettings);
-      
+
       console.log('InventoryContext: Settings updated');
       return true;
     } catch (err) {
@@ -426,24 +435,42 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     }
   };
 
-  // Refresh data
+  // Refresh data without showing the loading state
   const refreshData = async (): Promise<void> => {
-    await loadInventoryData();
+    await loadInventoryData(false);
   };
 
   // Refresh analytics
   const refreshAnalytics = async (): Promise<void> => {
     try {
-      const analyticsData = getInventoryAnalytics();
-      setAnalytics(analyticsData);
+      const movementCount = await getStockMovementCount();
+      setAnalytics(getInventoryAnalytics(inventoryItems, movementCount));
     } catch (err) {
       console.error('InventoryContext: Error refreshing analytics:', err);
     }
   };
 
-  // Load data on mount
+  // Load data on mount and reload whenever anyone changes inventory
   useEffect(() => {
     loadInventoryData();
+
+    const unsubscribe = subscribeToInventoryChanges(() => {
+      clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = setTimeout(() => loadInventoryData(false), REALTIME_REFRESH_DEBOUNCE_MS);
+    });
+
+    return () => {
+      clearTimeout(refreshTimerRef.current);
+      unsubscribe();
+    };
+  }, []);
+
+  // Return expired cart holds to available stock
+  useEffect(() => {
+    releaseExpiredReservations();
+
+    const interval = setInterval(releaseExpiredReservations, RESERVATION_SWEEP_INTERVAL_MS);
+    return () => clearInterval(interval);
   }, []);
 
   // Context value
@@ -458,15 +485,21 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
     isLoading,
     isUpdating,
     error,
-    
+
     // Actions
     addInventoryItem,
     updateInventoryItem,
     deleteInventoryItem,
+    importLegacyInventory,
     updateStock: updateStockOperation,
     adjustStock,
-    reserveStock,
-    releaseReservedStock,
+    updateVariant,
+    getStockAt,
+    reserveCartItem,
+    releaseCartReservations,
+    extendCartReservations,
+    transferCartReservations,
+    restockOrder,
     acknowledgeAlert: acknowledgeAlertOperation,
     dismissAlert,
     updateSettings,
@@ -484,10 +517,10 @@ export const InventoryProvider: React.FC<InventoryProviderProps> = ({ children }
 // Custom hook to use inventory context
 export const useInventory = (): InventoryContextType => {
   const context = useContext(InventoryContext);
-  
+
   if (context === undefined) {
     throw new Error('useInventory must be used within an InventoryProvider');
   }
-  
+
   return context;
 };
@@ -1,6 +1,7 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { useAuth } from './AuthContext';
+import { useInventory } from './InventoryContext';
 import {
   Order,
   ShippingAddress,
@@ -10,8 +11,18 @@ import {
   getOrderByNumber,
   createOrder as createOrderService,
   getOrderStatusHistory,
+  updateOrderStatus as updateOrderStatusService,
+  cancelOrder as cancelOrderService,
   OrderStatusHistoryEntry,
+  PaymentMethod,
+  GuestContact,
+  createGuestOrder as createGuestOrderService,
+  getGuestOrder,
+  claimGuestOrders,
 } from '@/services/userActivitiesService';
+import { getGuestCartId } from '@/services/inventoryService';
+import { trackSearchPurchases } from '@/services/searchService';
+import { ShippingMethod } from '@/utils/orderTotals';
 
 // Order Context interface
 interface OrderContextType {
@@ -25,13 +36,20 @@ interface OrderContextType {
   loadOrders: () => Promise<void>;
   loadOrderById: (orderId: string) => Promise<void>;
   loadOrderByNumber: (orderNumber: string) => Promise<void>;
+  // Guest orders are found by order number and checkout email; also loads their status history
+  loadGuestOrder: (orderNumber: string, email: string) => Promise<boolean>;
   createOrder: (
     shippingAddress: ShippingAddress,
     billingAddress: ShippingAddress,
-    paymentMethod: string,
-    customerNotes?: string
+    paymentMethod: PaymentMethod,
+    customerNotes?: string,
+    shippingMethod?: ShippingMethod,
+    couponCode?: string,
+    guestContact?: GuestContact
   ) => Promise<{ success: boolean; orderId?: string; orderNumber?: string }>;
   loadOrderStatusHistory: (orderId: string) => Promise<void>;
+  updateOrderStatus: (orderId: string, newStatus: OrderStatus, notes?: string) => Promise<boolean>;
+  cancelOrder: (orderId: string, reason: string) => Promise<boolean>;
   refreshOrders: () => Promise<void>;
 }
 
@@ -47,6 +65,7 @@ export const OrderProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const [orderStatusHistory, setOrderStatusHistory] = useState<OrderStatusHistoryEntry[]>([]);
   
   const { user } = useAuth();
+  const { restockOrder } = useInventory();
 
   // Load user's orders
   const loadOrders = async () => {
@@ -97,7 +116,7 @@ export const OrderProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   };
 
   // Load single order by number
-  const loadOrderByNumber = async (orderNumber: string) => {
+  const loadOrderByNumber = useCallback(async (orderNumber: string) => {
     console.log('📦 Loading order by number:', orderNumber);
     setIsLoading(true);
     setError(null);
@@ -118,35 +137,82 @@ export const OrderProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
+
+  // Load a guest order by order number and checkout email
+  const loadGuestOrder = useCallback(async (orderNumber: string, email: string): Promise<boolean> => {
+    console.log('📦 Looking up guest order:', orderNumber);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const lookup = await getGuestOrder(orderNumber, email);
+      if (!lookup) {
+        setError('Order not found');
+        return false;
+      }
+
+      console.log('✅ Loaded guest order:', lookup.order.order_number);
+      setCurrentOrder(lookup.order);
+      setOrderStatusHistory(lookup.history);
+      return true;
+    } catch (err) {
+      console.error('❌ Error looking up order:', err);
+      setError('Failed to load order');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
 
-  // Create order from cart
+  // Create order from cart; guests check out with their contact details instead of an account
   const createOrder = async (
     shippingAddress: ShippingAddress,
     billingAddress: ShippingAddress,
-    paymentMethod: string,
-    customerNotes?: string
+    paymentMethod: PaymentMethod,
+    customerNotes?: string,
+    shippingMethod?: ShippingMethod,
+    couponCode?: string,
+    guestContact?: GuestContact
   ) => {
-    if (!user) {
-      toast.error('Please login to place an order');
+    if (!user && !guestContact) {
+      toast.error('Please enter your email and phone number to place an order');
       return { success: false };
     }
 
-    console.log('🛒 Creating order for user:', user.id);
+    console.log('🛒 Creating order for', user ? `user: ${user.id}` : 'guest');
     setIsLoading(true);
     setError(null);
 
     try {
-      const result = await createOrderService(
-        user.id,
-        shippingAddress,
-        billingAddress,
-        paymentMethod,
-        customerNotes
-      );
+      const result = user
+        ? await createOrderService(
+          user.id,
+          shippingAddress,
+          billingAddress,
+          paymentMethod,
+          customerNotes,
+          shippingMethod,
+          couponCode
+        )
+        : await createGuestOrderService(
+          getGuestCartId(),
+          guestContact,
+          shippingAddress,
+          billingAddress,
+          paymentMethod,
+          customerNotes,
+          shippingMethod,
+          couponCode
+        );
 
       if (result.success) {
         console.log('✅ Order created:', result.orderNumber);
+        
+        // Held stock was already committed as sold stock when the order was created
+        if (result.orderId) {
+          trackSearchPurchases(result.orderId);
+        }
         toast.success(`Order ${result.orderNumber} placed successfully!`);
         
         // Refresh orders list
@@ -169,7 +235,7 @@ export const OrderProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   };
 
   // Load order status history
-  const loadOrderStatusHistory = async (orderId: string) => {
+  const loadOrderStatusHistory = useCallback(async (orderId: string) => {
     console.log('📋 Loading order status history:', orderId);
     
     try {
@@ -180,6 +246,64 @@ export const OrderProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       console.error('❌ Error loading status history:', err);
       toast.error('Failed to load order history');
     }
+  }, []);
+
+  // Update order status; cancelled and refunded orders go back into stock
+  const updateOrderStatus = async (orderId: string, newStatus: OrderStatus, notes?: string): Promise<boolean> => {
+    console.log('📦 Updating order status:', orderId, newStatus);
+
+    try {
+      const order = await getOrderById(orderId);
+      if (!order) {
+        toast.error('Order not found');
+        return false;
+      }
+
+      const result = await updateOrderStatusService(order, newStatus, notes);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to update order status');
+        return false;
+      }
+      const updatedOrder = result.order || { ...order, status: newStatus };
+
+      const wasReturnedToStock = order.status === 'cancelled' || order.status === 'refunded';
+      if ((newStatus === 'cancelled' || newStatus === 'refunded') && !wasReturnedToStock) {
+        const reason = newStatus === 'cancelled' ? 'Order cancelled' : 'Order refunded';
+        await restockOrder(orderId, notes ? `${reason}: ${notes}` : reason, user?.email || 'admin');
+      }
+
+      if (currentOrder?.id === orderId) {
+        setCurrentOrder(updatedOrder);
+      }
+      setOrders(prev => prev.map(o => (o.id === orderId ? updatedOrder : o)));
+
+      console.log('✅ Order status updated:', order.order_number, newStatus);
+      return true;
+    } catch (err) {
+      console.error('❌ Error updating order status:', err);
+      toast.error('Failed to update order status');
+      return false;
+    }
+  };
+
+  // Customer cancellation of a pending or confirmed order (restocked by the database)
+  const cancelOrder = async (orderId: string, reason: string): Promise<boolean> => {
+    console.log('📦 Cancelling order:', orderId);
+
+    const result = await cancelOrderService(orderId, reason);
+    if (!result.success || !result.order) {
+      toast.error(result.error || 'Failed to cancel order');
+      return false;
+    }
+
+    const cancelledOrder = result.order;
+    if (currentOrder?.id === orderId) {
+      setCurrentOrder(cancelledOrder);
+    }
+    setOrders(prev => prev.map(o => (o.id === orderId ? cancelledOrder : o)));
+
+    console.log('✅ Order cancelled:', cancelledOrder.order_number);
+    return true;
   };
 
   // Refresh orders
@@ -187,10 +311,18 @@ export const OrderProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     await loadOrders();
   };
 
-  // Load orders when user logs in
+  // Load orders when user logs in, first attaching any guest orders placed with their email
   useEffect(() => {
+    const loadAccountOrders = async () => {
+      const claimed = await claimGuestOrders();
+      if (claimed > 0) {
+        toast.success(`${claimed} guest order${claimed === 1 ? '' : 's'} added to your account`);
+      }
+      await loadOrders();
+    };
+
     if (user) {
-      loadOrders();
+      loadAccountOrders();
     } else {
       setOrders([]);
       setCurrentOrder(null);
@@ -207,8 +339,11 @@ export const OrderProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     loadOrders,
     loadOrderById,
     loadOrderByNumber,
+    loadGuestOrder,
     createOrder,
     loadOrderStatusHistory,
+    updateOrderStatus,
+    cancelOrder,
     refreshOrders,
   };
 
@@ -7,6 +7,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { Product } from '@/types/product';
 import { getAllProducts, addAdminProduct, updateAdminProduct, deleteAdminProduct } from '@/services/dataService';
+import { uploadProductImages, deleteProductImages } from '@/services/productImageService';
 
 // Product Context State
 interface ProductContextState {
@@ -17,10 +18,10 @@ interface ProductContextState {
 
 // Product Context Actions
 interface ProductContextActions {
-  refreshProducts: () => void;
-  addProduct: (productData: any, images: File[]) => Promise<void>;
-  updateProduct: (id: number, updates: any) => void;
-  deleteProduct: (id: number) => void;
+  refreshProducts: () => Promise<void>;
+  addProduct: (productData: any, images: File[]) => Promise<Product>;
+  updateProduct: (id: number, updates: any, newImages?: File[]) => Promise<boolean>;
+  deleteProduct: (id: number) => Promise<boolean>;
 }
 
 // Combined Context Type
@@ -47,7 +48,7 @@ export const ProductProvider: React.FC<ProductProviderProps> = ({ children }) =>
       setError(null);
       
       // Get products from clean data service
-      const allProducts = getAllProducts();
+      const allProducts = await getAllProducts();
       setProducts(allProducts);
     } catch (err) {
       console.error('ProductContext: Error loading products:', err);
@@ -58,28 +59,21 @@ export const ProductProvider: React.FC<ProductProviderProps> = ({ children }) =>
   };
 
   // Refresh products
-  const refreshProducts = () => {
-    loadProducts();
+  const refreshProducts = async () => {
+    await loadProducts();
   };
 
   // Add new product
-  const addProduct = async (productData: any, images: File[]): Promise<void> => {
+  const addProduct = async (productData: any, images: File[]): Promise<Product> => {
     try {
-      // Convert images to base64
-      const imagePromises = images.map(file => {
-        return new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = () => reject(new Error('Failed to read file'));
-          reader.readAsDataURL(file);
-        });
-      });
-
-      const imageUrls = await Promise.all(imagePromises);
+      // Upload images to storage
+      const imageUrls = await uploadProductImages(images);
+      if (!imageUrls) {
+        throw new Error('Failed to upload product images');
+      }
       
-      // Create new product
+      // Create new product (id is assigned by the database)
       const newProduct = {
-        id: Date.now(), // Simple ID generation
         name: productData.name,
         price: productData.price,
         image: imageUrls[0] || '/placeholder.svg',
@@ -102,12 +96,18 @@ export const ProductProvider: React.FC<ProductProviderProps> = ({ children }) =>
       };
 
       // Add to data service
-      addAdminProduct(newProduct);
+      const savedProduct = await addAdminProduct(newProduct);
+      if (!savedProduct) {
+        // Don't leave orphaned images behind
+        await deleteProductImages(imageUrls);
+        throw new Error('Failed to save product');
+      }
       
       // Refresh products
-      refreshProducts();
+      await refreshProducts();
       
-      console.log('ProductContext: Product added successfully:', newProduct.name);
+      console.log('ProductContext: Product added successfully:', savedProduct.name);
+      return savedProduct;
     } catch (err) {
       console.error('ProductContext: Error adding product:', err);
       throw err;
@@ -115,25 +115,50 @@ export const ProductProvider: React.FC<ProductProviderProps> = ({ children }) =>
   };
 
   // Update product
-  const updateProduct = (id: number, updates: any) => {
-    try {
-      updateAdminProduct(id, updates);
-      refreshProducts();
+  const updateProduct = async (id: number, updates: any, newImages: File[] = []): Promise<boolean> => {
+    const previousImages = products.find(p => p.id === id)?.images || [];
+
+    const uploadedUrls = await uploadProductImages(newImages);
+    if (!uploadedUrls) {
+      console.error('ProductContext: Error uploading images for product:', id);
+      return false;
+    }
+
+    // Kept images (if given) followed by newly uploaded ones
+    const fields = { ...updates };
+    if (updates.images || uploadedUrls.length > 0) {
+      fields.images = [...(updates.images || previousImages), ...uploadedUrls];
+      fields.image = fields.images[0] || '/placeholder.svg';
+    }
+
+    const success = await updateAdminProduct(id, fields);
+    if (success) {
+      // Remove images that are no longer referenced by the product
+      if (fields.images) {
+        await deleteProductImages(previousImages.filter(url => !fields.images.includes(url)));
+      }
+      await refreshProducts();
       console.log('ProductContext: Product updated successfully:', id);
-    } catch (err) {
-      console.error('ProductContext: Error updating product:', err);
+    } else {
+      await deleteProductImages(uploadedUrls);
+      console.error('ProductContext: Error updating product:', id);
     }
+    return success;
   };
 
   // Delete product
-  const deleteProduct = (id: number) => {
-    try {
-      deleteAdminProduct(id);
-      refreshProducts();
+  const deleteProduct = async (id: number): Promise<boolean> => {
+    const productImages = products.find(p => p.id === id)?.images || [];
+
+    const success = await deleteAdminProduct(id);
+    if (success) {
+      await deleteProductImages(productImages);
+      await refreshProducts();
       console.log('ProductContext: Product deleted successfully:', id);
-    } catch (err) {
-      console.error('ProductContext: Error deleting product:', err);
+    } else {
+      console.error('ProductContext: Error deleting product:', id);
     }
+    return success;
   };
 
   // Load products on mount
@@ -0,0 +1,47 @@
+/**
+ * useColorTaxonomy Hook
+ * Loads the color families and resolves raw product colors to them for swatches
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { ColorFamily, ColorTaxonomy, getColorTaxonomy, resolveColorFamily } from "@/services/colorService";
+
+export const useColorTaxonomy = () => {
+  const [taxonomy, setTaxonomy] = useState<ColorTaxonomy>({ families: [], aliases: [] });
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+    getColorTaxonomy().then((loaded) => {
+      if (!isCurrent) return;
+      setTaxonomy(loaded);
+      setIsLoading(false);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  // Family of a raw product color, or null when the color is unknown
+  const getColorFamily = useCallback(
+    (color: string): ColorFamily | null => resolveColorFamily(color, taxonomy),
+    [taxonomy]
+  );
+
+  // Distinct families of a product's colors, in taxonomy order
+  const getColorFamilies = useCallback(
+    (colors: string[] = []): ColorFamily[] => {
+      const slugs = new Set(colors.map(color => resolveColorFamily(color, taxonomy)?.slug));
+      return taxonomy.families.filter(family => slugs.has(family.slug));
+    },
+    [taxonomy]
+  );
+
+  return {
+    families: taxonomy.families,
+    isLoading,
+    getColorFamily,
+    getColorFamilies,
+  };
+};
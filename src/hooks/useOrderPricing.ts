@@ -0,0 +1,59 @@
+/**
+ * Order Pricing Hook
+ * Keeps a server price quote in sync with the cart and checkout selections
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { CartItem } from "@/contexts/CartContext";
+import { OrderPricing, PricingOptions, getOrderPricing } from "@/services/pricingService";
+
+// Wait for typing (e.g. pincode) to settle before requesting a new quote
+const QUOTE_DEBOUNCE_MS = 300;
+
+interface UseOrderPricingReturn {
+  pricing: OrderPricing | null;
+  isLoading: boolean;
+}
+
+export const useOrderPricing = (items: CartItem[], options: PricingOptions = {}): UseOrderPricingReturn => {
+  const [pricing, setPricing] = useState<OrderPricing | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Stable key so a new quote is only requested when something priced actually changed
+  const quoteKey = JSON.stringify({
+    items: items.map(item => [item.id, item.price, item.quantity]),
+    pincode: options.pincode || null,
+    shippingMethod: options.shippingMethod || "standard",
+    paymentMethod: options.paymentMethod || null,
+    discount: options.discount || null,
+  });
+  // The quote is requested with the latest inputs when the key changes
+  const inputsRef = useRef({ items, options });
+  inputsRef.current = { items, options };
+
+  useEffect(() => {
+    const { items, options } = inputsRef.current;
+    if (items.length === 0) {
+      setPricing(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      const quote = await getOrderPricing(items, options);
+      if (!cancelled) {
+        setPricing(quote);
+        setIsLoading(false);
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [quoteKey]);
+
+  return { pricing, isLoading };
+};
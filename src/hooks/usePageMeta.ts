@@ -0,0 +1,34 @@
+/**
+ * usePageMeta Hook
+ * Sets the document title and canonical URL of a page, restoring them when it unmounts
+ */
+
+import { useEffect } from "react";
+
+interface PageMeta {
+  title: string;
+  // Path and query of the canonical URL, e.g. "/shop?category=Sarees"
+  canonicalPath: string;
+}
+
+export const usePageMeta = ({ title, canonicalPath }: PageMeta) => {
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = title;
+
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [title]);
+
+  useEffect(() => {
+    const link = document.createElement("link");
+    link.rel = "canonical";
+    link.href = new URL(canonicalPath, window.location.origin).href;
+    document.head.appendChild(link);
+
+    return () => {
+      link.remove();
+    };
+  }, [canonicalPath]);
+};
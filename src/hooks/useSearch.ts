@@ -2,40 +2,70 @@
  * Global Search Hook
  * Following Single Responsibility Principle - only handles search state
  * Following DRY Principle - reusable across all components
+ * Results, facets and pages come from the database search (searchService)
  */
 
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { Product, ProductFilter } from "@/types/product";
-import { SearchResult, searchProducts, getSearchSuggestions } from "@/services/searchService";
-import { getAllProducts, filterProducts, SORT_OPTIONS } from "@/services/productService";
+import {
+  SearchResult,
+  SearchFacets,
+  searchProducts,
+  getSearchSuggestions,
+  getPopularSearches,
+  trackSearch,
+  DEFAULT_SEARCH_PAGE_SIZE,
+} from "@/services/searchService";
+
+interface UseSearchOptions {
+  // List the catalog while the query is empty (the shop page)
+  browse?: boolean;
+  // Only suggestions are needed (the navigation search box)
+  suggestionsOnly?: boolean;
+  pageSize?: number;
+  // Log searches for analytics (off for curated pages that search on the shopper's behalf)
+  trackSearches?: boolean;
+}
 
 interface UseSearchReturn {
   // Search state
   query: string;
   setQuery: (query: string) => void;
   isSearching: boolean;
-  
-  // Search results
+
+  // Search results (the current page)
   searchResults: SearchResult[];
   filteredProducts: Product[];
   suggestions: string[];
-  
+  popularSearches: string[];
+  // Option counts for the filters; null until results arrive
+  facets: SearchFacets | null;
+  totalResults: number;
+  // Logged search the current results belong to, for click tracking
+  searchId: string | null;
+
   // Filter state
   filters: ProductFilter;
   setFilters: (filters: ProductFilter) => void;
   clearFilters: () => void;
-  
+
   // Sort state
   sortBy: string;
   setSortBy: (sort: string) => void;
-  
+
+  // Pagination state
+  page: number;
+  totalPages: number;
+  pageSize: number;
+  setPage: (page: number) => void;
+
   // Actions
   performSearch: (query: string) => void;
   clearSearch: () => void;
   applyFilters: () => void;
 }
 
-const DEFAULT_FILTERS: ProductFilter = {
+export const DEFAULT_FILTERS: ProductFilter = {
   categories: [],
   subcategories: [],
   occasions: [],
@@ -48,104 +78,172 @@ const DEFAULT_FILTERS: ProductFilter = {
   hasDiscount: undefined,
 };
 
-export const useSearch = (): UseSearchReturn => {
-  const [query, setQuery] = useState("");
+// Wait for a pause in typing before querying the database
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const useSearch = (options: UseSearchOptions = {}): UseSearchReturn => {
+  const {
+    browse = false,
+    suggestionsOnly = false,
+    pageSize = DEFAULT_SEARCH_PAGE_SIZE,
+    trackSearches = true,
+  } = options;
+
+  const [query, setQueryState] = useState("");
   const [isSearching, setIsSearching] = useState(false);
-  const [filters, setFilters] = useState<ProductFilter>(DEFAULT_FILTERS);
-  const [sortBy, setSortBy] = useState("featured");
+  const [filters, setFiltersState] = useState<ProductFilter>(DEFAULT_FILTERS);
+  const [sortBy, setSortByState] = useState("featured");
+  const [page, setPage] = useState(1);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [totalResults, setTotalResults] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [popularSearches, setPopularSearches] = useState<string[]>([]);
+  const [searchId, setSearchId] = useState<string | null>(null);
+  // Only the latest request may update the results
+  const latestRequestRef = useRef(0);
+
+  // A new query, filter or sort starts again from the first page
+  const setQuery = useCallback((searchQuery: string) => {
+    setQueryState(searchQuery);
+    setPage(1);
+  }, []);
 
-  // Perform search with debouncing
+  const setFilters = useCallback((newFilters: ProductFilter) => {
+    setFiltersState(newFilters);
+    setPage(1);
+  }, []);
+
+  const setSortBy = useCallback((sort: string) => {
+    setSortByState(sort);
+    setPage(1);
+  }, []);
+
+  // Perform search
   const performSearch = useCallback((searchQuery: string) => {
-    setIsSearching(true);
     setQuery(searchQuery);
-    
-    // Simulate search delay for better UX
-    setTimeout(() => {
-      setIsSearching(false);
-    }, 300);
-  }, []);
+  }, [setQuery]);
 
   // Clear search
   const clearSearch = useCallback(() => {
     setQuery("");
-    setIsSearching(false);
-  }, []);
+  }, [setQuery]);
 
   // Clear all filters
   const clearFilters = useCallback(() => {
     setFilters(DEFAULT_FILTERS);
-  }, []);
+  }, [setFilters]);
 
   // Apply filters
   const applyFilters = useCallback(() => {
-    // This will trigger the useMemo below
+    // Filter changes already trigger a new search
   }, []);
 
-  // Get all products for search
-  const allProducts = getAllProducts();
+  // Fetch results for the current query, filters, sort and page
+  useEffect(() => {
+    const requestId = ++latestRequestRef.current;
+
+    if (suggestionsOnly || (!query.trim() && !browse)) {
+      setSearchResults([]);
+      setFacets(null);
+      setTotalResults(0);
+      setTotalPages(0);
+      setSearchId(null);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const response = await searchProducts(query, { filters, sortBy, page, pageSize });
+      if (requestId !== latestRequestRef.current) return;
+
+      setSearchResults(response?.results || []);
+      setFacets(response?.facets || null);
+      setTotalResults(response?.total || 0);
+      setTotalPages(response?.totalPages || 0);
+      setIsSearching(false);
+
+      // Log each new search once; later pages keep the first page's search id
+      if (!query.trim() || !trackSearches) {
+        setSearchId(null);
+      } else if (page === 1 && response) {
+        const loggedSearchId = await trackSearch(query, { filters, sortBy });
+        if (requestId === latestRequestRef.current) setSearchId(loggedSearchId);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, filters, sortBy, page, pageSize, browse, suggestionsOnly, trackSearches]);
+
+  // Load popular searches for the search box
+  useEffect(() => {
+    let isCurrent = true;
+    getPopularSearches().then(searches => {
+      if (isCurrent) setPopularSearches(searches);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
 
   // Get search suggestions
-  const suggestions = useMemo(() => {
-    if (query.length < 2) return [];
-    return getSearchSuggestions(allProducts, query, 5);
-  }, [query, allProducts]);
-
-  // Perform search and get results with optimized configuration
-  const searchResults = useMemo(() => {
-    if (!query.trim()) {
-      return allProducts.map(product => ({
-        product,
-        score: 1,
-        matchedFields: [],
-        highlights: []
-      }));
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setSuggestions([]);
+      return;
     }
-    
-    // Use optimized search configuration
-    const searchConfig = {
-      fuzzyMatch: true,
-      includeSynonyms: true,
-      minScore: 0.2, // Lower threshold for more results
-      maxResults: 100 // More results for better selection
+
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      const results = await getSearchSuggestions(query, 5);
+      if (isCurrent) setSuggestions(results);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
     };
-    
-    return searchProducts(allProducts, query, searchConfig);
   }, [query]);
 
-  // Apply filters to search results
-  const filteredProducts = useMemo(() => {
-    const products = searchResults.map(result => result.product);
-    const filtered = filterProducts(products, filters);
-    
-    // Apply sorting
-    const sortOption = SORT_OPTIONS.find(option => option.value === sortBy);
-    if (sortOption) {
-      return sortOption.sortFn(filtered);
-    }
-    
-    return filtered;
-  }, [searchResults, filters, sortBy]);
+  // Products on the current page, already filtered and sorted by the database
+  const filteredProducts = useMemo(
+    () => searchResults.map(result => result.product),
+    [searchResults]
+  );
 
   return {
     // Search state
     query,
     setQuery,
     isSearching,
-    
+
     // Search results
     searchResults,
     filteredProducts,
     suggestions,
-    
+    popularSearches,
+    facets,
+    totalResults,
+    searchId,
+
     // Filter state
     filters,
     setFilters,
     clearFilters,
-    
+
     // Sort state
     sortBy,
     setSortBy,
-    
+
+    // Pagination state
+    page,
+    totalPages,
+    pageSize,
+    setPage,
+
     // Actions
     performSearch,
     clearSearch,
@@ -66,6 +66,7 @@ interface ProductFormData {
   reviews: number;
   careInstructions: string;
   origin: string;
+  weight: number;
   sku: string;
   
   // Inventory Management Fields
@@ -105,6 +106,7 @@ const AdminAddProduct = () => {
     reviews: 0,
     careInstructions: '',
     origin: 'Made in India',
+    weight: 0,
     sku: '',
     
     // Inventory Management Fields
@@ -250,25 +252,10 @@ const AdminAddProduct = () => {
     try {
       setIsSubmitting(true);
       
-      // Convert images to base64
-      const imagePromises = images.map(file => {
-        return new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = () => reject(new Error('Failed to read file'));
-          reader.readAsDataURL(file);
-        });
-      });
-
-      const imageUrls = await Promise.all(imagePromises);
-      
-      // Create new product with inventory data
+      // Create new product with inventory data (images are uploaded by addProduct)
       const newProduct = {
-        id: Date.now(), // Simple ID generation
         name: formData.name,
         price: formData.price,
-        image: imageUrls[0] || '/placeholder.svg',
-        images: imageUrls,
         category: formData.category,
         subcategory: formData.subcategory,
         description: formData.description,
@@ -283,6 +270,7 @@ const AdminAddProduct = () => {
         reviews: formData.reviews || 0,
         careInstructions: formData.careInstructions || '',
         origin: formData.origin || 'Made in India',
+        weight: formData.weight || undefined,
         sku: formData.sku || `JB-${Date.now()}`,
         
         // Include inventory data
@@ -310,11 +298,11 @@ const AdminAddProduct = () => {
         }
       };
 
-      await addProduct(newProduct, images);
+      const savedProduct = await addProduct(newProduct, images);
       
-      // Auto-sync product to inventory
+      // Auto-sync product to inventory (using the saved product's id and image URLs)
       const { syncProductToInventory } = await import('@/services/productInventorySync');
-      const syncResult = syncProductToInventory(newProduct as any);
+      const syncResult = await syncProductToInventory({ ...savedProduct, inventory: newProduct.inventory } as any);
       
       if (syncResult) {
         toast.success(`Product "${formData.name}" added successfully with inventory tracking!`);
@@ -450,6 +438,18 @@ const AdminAddProduct = () => {
                       </div>
                     </div>
 
+                    <div>
+                      <Label htmlFor="weight">Shipping Weight (grams)</Label>
+                      <Input
+                        id="weight"
+                        type="number"
+                        value={formData.weight || ''}
+                        onChange={(e) => handleInputChange('weight', Number(e.target.value))}
+                        placeholder="Leave empty to use the store default"
+                        min="0"
+                      />
+                    </div>
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
                         <Label htmlFor="sku">SKU</Label>
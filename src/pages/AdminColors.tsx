@@ -0,0 +1,295 @@
+/**
+ * Admin Colors
+ * Map free-text product colors to canonical color families and adjust family swatches
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { InlineLoader } from '@/components/LoadingStates';
+import { ColorSwatch } from '@/components/ColorSwatch';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ColorFamily,
+  ColorTaxonomy,
+  UnmappedColor,
+  getColorTaxonomy,
+  getUnmappedColors,
+  createColorAlias,
+  deleteColorAlias,
+  updateColorFamilyHex,
+} from '@/services/colorService';
+import { validateColorAlias } from '@/utils/validation';
+
+// ========================================
+// FAMILY SELECT
+// ========================================
+
+interface FamilySelectProps {
+  families: ColorFamily[];
+  value: string;
+  onChange: (slug: string) => void;
+}
+
+const FamilySelect = ({ families, value, onChange }: FamilySelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="w-44">
+      <SelectValue placeholder="Color family" />
+    </SelectTrigger>
+    <SelectContent>
+      {families.map(family => (
+        <SelectItem key={family.slug} value={family.slug}>
+          <span className="flex items-center gap-2">
+            <ColorSwatch hex={family.hex} name={family.name} size="sm" />
+            {family.name}
+          </span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// ========================================
+// PAGE
+// ========================================
+
+const AdminColors = () => {
+  const [taxonomy, setTaxonomy] = useState<ColorTaxonomy>({ families: [], aliases: [] });
+  const [unmapped, setUnmapped] = useState<UnmappedColor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Family picked for each unmapped color
+  const [mappings, setMappings] = useState<Record<string, string>>({});
+  const [newAlias, setNewAlias] = useState('');
+  const [newAliasFamily, setNewAliasFamily] = useState('');
+  // Swatch colors being edited, by family slug
+  const [hexDrafts, setHexDrafts] = useState<Record<string, string>>({});
+
+  const loadData = async () => {
+    const [loadedTaxonomy, loadedUnmapped] = await Promise.all([getColorTaxonomy(), getUnmappedColors()]);
+    setTaxonomy(loadedTaxonomy);
+    setUnmapped(loadedUnmapped);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const familyNames = taxonomy.families.map(family => family.name);
+
+  const saveAlias = async (alias: string, familySlug: string): Promise<boolean> => {
+    const validation = validateColorAlias({ alias, family_slug: familySlug }, familyNames);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return false;
+    }
+    validation.warnings.forEach(warning => toast.warning(warning));
+
+    setIsSaving(true);
+    const success = await createColorAlias(alias, familySlug);
+    setIsSaving(false);
+
+    if (!success) {
+      toast.error('Failed to save color mapping');
+      return false;
+    }
+
+    const familyName = taxonomy.families.find(family => family.slug === familySlug)?.name;
+    toast.success(`"${alias.trim()}" now filters as ${familyName}`);
+    await loadData();
+    return true;
+  };
+
+  const handleMapColor = async (color: string) => {
+    if (await saveAlias(color, mappings[color])) {
+      setMappings(({ [color]: _mapped, ...rest }) => rest);
+    }
+  };
+
+  const handleAddAlias = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveAlias(newAlias, newAliasFamily)) {
+      setNewAlias('');
+      setNewAliasFamily('');
+    }
+  };
+
+  const handleDeleteAlias = async (alias: string) => {
+    if (!window.confirm(`Remove "${alias}"? Products using it will no longer match its color family.`)) {
+      return;
+    }
+
+    const success = await deleteColorAlias(alias);
+    if (success) {
+      toast.success('Color mapping removed');
+      await loadData();
+    } else {
+      toast.error('Failed to remove color mapping');
+    }
+  };
+
+  const handleSaveHex = async (family: ColorFamily) => {
+    const hex = hexDrafts[family.slug];
+    setIsSaving(true);
+    const success = await updateColorFamilyHex(family.slug, hex);
+    setIsSaving(false);
+
+    if (success) {
+      toast.success(`${family.name} swatch updated`);
+      setHexDrafts(({ [family.slug]: _saved, ...rest }) => rest);
+      await loadData();
+    } else {
+      toast.error('Failed to update swatch');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-8">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <Link to="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Admin Dashboard
+            </Link>
+            <h1 className="font-heading text-3xl font-bold mb-2">Colors</h1>
+            <p className="text-muted-foreground">
+              Product colors are grouped into families for filtering and swatches, e.g. Wine and Burgundy are Maroon
+            </p>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {isLoading ? (
+            <InlineLoader message="Loading colors..." />
+          ) : (
+            <>
+              {/* Unmapped Colors */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Unmapped Colors ({unmapped.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {unmapped.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Every product color belongs to a family</p>
+                  ) : (
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground">
+                        These colors don't match any family, so shoppers can't find their products by color.
+                      </p>
+                      {unmapped.map(({ color, products }) => (
+                        <div key={color} className="flex flex-wrap items-center gap-3 p-3 border rounded-lg">
+                          <ColorSwatch hex={null} name={color} />
+                          <span className="font-medium">{color}</span>
+                          <Badge variant="secondary">{products} {products === 1 ? 'product' : 'products'}</Badge>
+                          <div className="flex items-center gap-2 ml-auto">
+                            <FamilySelect
+                              families={taxonomy.families}
+                              value={mappings[color] || ''}
+                              onChange={(slug) => setMappings({ ...mappings, [color]: slug })}
+                            />
+                            <Button
+                              size="sm"
+                              className="btn-gold"
+                              disabled={isSaving || !mappings[color]}
+                              onClick={() => handleMapColor(color)}
+                            >
+                              Map
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Color Families */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Color Families</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <form onSubmit={handleAddAlias} className="flex flex-wrap items-end gap-2">
+                    <div className="flex-1 min-w-[200px]">
+                      <Label htmlFor="new_alias">Color name</Label>
+                      <Input
+                        id="new_alias"
+                        value={newAlias}
+                        onChange={(e) => setNewAlias(e.target.value)}
+                        placeholder="e.g. rani pink"
+                      />
+                    </div>
+                    <FamilySelect families={taxonomy.families} value={newAliasFamily} onChange={setNewAliasFamily} />
+                    <Button type="submit" variant="outline" disabled={isSaving}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Mapping
+                    </Button>
+                  </form>
+
+                  <div className="space-y-3">
+                    {taxonomy.families.map(family => {
+                      const aliases = taxonomy.aliases.filter(alias => alias.family_slug === family.slug);
+                      const hexDraft = hexDrafts[family.slug];
+                      return (
+                        <div key={family.slug} className="flex flex-col md:flex-row md:items-start gap-3 p-3 border rounded-lg">
+                          <div className="flex items-center gap-3 md:w-56 shrink-0">
+                            <input
+                              type="color"
+                              value={hexDraft || family.hex}
+                              onChange={(e) => setHexDrafts({ ...hexDrafts, [family.slug]: e.target.value })}
+                              className="h-8 w-8 cursor-pointer rounded border-0 bg-transparent p-0"
+                              aria-label={`${family.name} swatch`}
+                            />
+                            <span className="font-medium">{family.name}</span>
+                            {hexDraft && hexDraft !== family.hex && (
+                              <Button size="sm" variant="outline" disabled={isSaving} onClick={() => handleSaveHex(family)}>
+                                Save
+                              </Button>
+                            )}
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {aliases.length === 0 ? (
+                              <span className="text-sm text-muted-foreground">No other names</span>
+                            ) : (
+                              aliases.map(alias => (
+                                <Badge key={alias.alias} variant="secondary" className="flex items-center gap-1">
+                                  {alias.alias}
+                                  <X
+                                    className="h-3 w-3 cursor-pointer"
+                                    onClick={() => handleDeleteAlias(alias.alias)}
+                                  />
+                                </Badge>
+                              ))
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </section>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminColors;
@@ -0,0 +1,467 @@
+/**
+ * Admin Coupons
+ * Create, edit, activate and delete promotion codes
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Plus, Edit, Trash2, Tag } from 'lucide-react';
+import { toast } from 'sonner';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { InlineLoader } from '@/components/LoadingStates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Occasion, ProductCategory } from '@/types/product';
+import {
+  Coupon,
+  CouponInput,
+  CouponDiscountType,
+  COUPON_DISCOUNT_TYPE_LABELS,
+  getAllCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+} from '@/services/couponService';
+import { validateCoupon } from '@/utils/validation';
+
+const CATEGORIES: ProductCategory[] = [
+  "Sarees", "Lehengas", "Salwar Suits", "Kurtis & Kurtas", "Gowns",
+  "Dupattas & Stoles", "Men's Kurtas", "Sherwanis", "Kids Wear", "Jewelry", "Bags & Clutches"
+];
+
+const OCCASIONS: Occasion[] = [
+  "Wedding", "Festival", "Party", "Office", "Casual", "Formal", "Traditional", "Modern"
+];
+
+// Form state keeps dates as datetime-local strings and optional numbers as ''
+interface CouponFormData {
+  code: string;
+  description: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  max_discount: number | '';
+  min_cart_value: number;
+  applicable_categories: ProductCategory[];
+  applicable_occasions: Occasion[];
+  usage_limit_per_user: number | '';
+  starts_at: string;
+  expires_at: string;
+  is_active: boolean;
+}
+
+const toDateTimeLocal = (iso?: string) => (iso ? iso.slice(0, 16) : '');
+
+const EMPTY_FORM: CouponFormData = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: 10,
+  max_discount: '',
+  min_cart_value: 0,
+  applicable_categories: [],
+  applicable_occasions: [],
+  usage_limit_per_user: '',
+  starts_at: '',
+  expires_at: '',
+  is_active: true,
+};
+
+const toCouponInput = (form: CouponFormData): CouponInput => ({
+  code: form.code,
+  description: form.description.trim() || undefined,
+  discount_type: form.discount_type,
+  discount_value: form.discount_type === 'free_shipping' ? 0 : form.discount_value,
+  max_discount: form.discount_type === 'percentage' && form.max_discount !== '' ? form.max_discount : null,
+  min_cart_value: form.min_cart_value,
+  applicable_categories: form.applicable_categories,
+  applicable_occasions: form.applicable_occasions,
+  usage_limit_per_user: form.usage_limit_per_user !== '' ? form.usage_limit_per_user : null,
+  starts_at: form.starts_at ? new Date(form.starts_at).toISOString() : new Date().toISOString(),
+  expires_at: form.expires_at ? new Date(form.expires_at).toISOString() : null,
+  is_active: form.is_active,
+});
+
+const formatDiscount = (coupon: Coupon) => {
+  if (coupon.discount_type === 'free_shipping') return 'Free shipping';
+  if (coupon.discount_type === 'flat') return `₹${coupon.discount_value} off`;
+  return `${coupon.discount_value}% off${coupon.max_discount ? ` (max ₹${coupon.max_discount})` : ''}`;
+};
+
+const getCouponStatus = (coupon: Coupon): { label: string; variant: 'default' | 'secondary' | 'destructive' } => {
+  const now = new Date();
+  if (!coupon.is_active) return { label: 'Inactive', variant: 'secondary' };
+  if (coupon.expires_at && new Date(coupon.expires_at) <= now) return { label: 'Expired', variant: 'destructive' };
+  if (new Date(coupon.starts_at) > now) return { label: 'Scheduled', variant: 'secondary' };
+  return { label: 'Active', variant: 'default' };
+};
+
+const AdminCoupons = () => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [formData, setFormData] = useState<CouponFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadCoupons = async () => {
+    setIsLoading(true);
+    setCoupons(await getAllCoupons());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadCoupons();
+  }, []);
+
+  const openCreateForm = () => {
+    setEditingCoupon(null);
+    setFormData(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEditForm = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setFormData({
+      code: coupon.code,
+      description: coupon.description || '',
+      discount_type: coupon.discount_type,
+      discount_value: coupon.discount_value,
+      max_discount: coupon.max_discount ?? '',
+      min_cart_value: coupon.min_cart_value,
+      applicable_categories: coupon.applicable_categories,
+      applicable_occasions: coupon.applicable_occasions,
+      usage_limit_per_user: coupon.usage_limit_per_user ?? '',
+      starts_at: toDateTimeLocal(coupon.starts_at),
+      expires_at: toDateTimeLocal(coupon.expires_at),
+      is_active: coupon.is_active,
+    });
+    setShowForm(true);
+  };
+
+  const toggleListValue = <T,>(list: T[], value: T): T[] => {
+    return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = toCouponInput(formData);
+    const validation = validateCoupon(input);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return;
+    }
+    validation.warnings.forEach(warning => toast.warning(warning));
+
+    setIsSaving(true);
+    const success = editingCoupon
+      ? await updateCoupon(editingCoupon.id, input)
+      : !!(await createCoupon(input));
+    setIsSaving(false);
+
+    if (!success) {
+      toast.error(`Failed to save coupon ${input.code.toUpperCase()}`);
+      return;
+    }
+
+    toast.success(`Coupon ${input.code.toUpperCase()} ${editingCoupon ? 'updated' : 'created'}`);
+    setShowForm(false);
+    await loadCoupons();
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    const success = await updateCoupon(coupon.id, { is_active: !coupon.is_active });
+    if (success) {
+      setCoupons(prev => prev.map(c => (c.id === coupon.id ? { ...c, is_active: !c.is_active } : c)));
+    } else {
+      toast.error(`Failed to update ${coupon.code}`);
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!window.confirm(`Delete coupon "${coupon.code}"? Its usage history will also be removed.`)) return;
+
+    const success = await deleteCoupon(coupon.id);
+    if (success) {
+      toast.success(`Coupon ${coupon.code} deleted`);
+      setCoupons(prev => prev.filter(c => c.id !== coupon.id));
+    } else {
+      toast.error(`Failed to delete ${coupon.code}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-8">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <Link to="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Admin Dashboard
+                </Link>
+                <h1 className="font-heading text-3xl font-bold mb-2">Coupons</h1>
+                <p className="text-muted-foreground">Manage promotion codes and discounts</p>
+              </div>
+              <Button className="btn-gold" onClick={openCreateForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Coupon
+              </Button>
+            </div>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Coupons ({coupons.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <InlineLoader message="Loading coupons..." />
+              ) : coupons.length === 0 ? (
+                <div className="text-center py-12">
+                  <Tag className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No coupons yet</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {coupons.map(coupon => {
+                    const status = getCouponStatus(coupon);
+                    const scope = [...coupon.applicable_categories, ...coupon.applicable_occasions];
+                    return (
+                      <div key={coupon.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border rounded-lg">
+                        <div>
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-mono font-semibold">{coupon.code}</h3>
+                            <Badge variant={status.variant}>{status.label}</Badge>
+                          </div>
+                          {coupon.description && (
+                            <p className="text-sm text-muted-foreground mb-1">{coupon.description}</p>
+                          )}
+                          <p className="text-sm">
+                            {formatDiscount(coupon)}
+                            {coupon.min_cart_value > 0 && ` • Min cart ₹${coupon.min_cart_value}`}
+                            {scope.length > 0 && ` • ${scope.join(', ')}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Used {coupon.times_used} time{coupon.times_used !== 1 ? 's' : ''}
+                            {coupon.usage_limit_per_user && ` • ${coupon.usage_limit_per_user} per customer`}
+                            {coupon.expires_at && ` • Expires ${new Date(coupon.expires_at).toLocaleDateString('en-IN')}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <Switch
+                            checked={coupon.is_active}
+                            onCheckedChange={() => handleToggleActive(coupon)}
+                            aria-label={`Toggle ${coupon.code}`}
+                          />
+                          <Button variant="outline" size="sm" onClick={() => openEditForm(coupon)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleDelete(coupon)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingCoupon ? `Edit ${editingCoupon.code}` : 'New Coupon'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="code">Code</Label>
+                <Input
+                  id="code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  placeholder="FESTIVE20"
+                />
+              </div>
+              <div>
+                <Label>Discount Type</Label>
+                <Select
+                  value={formData.discount_type}
+                  onValueChange={(value) => setFormData({ ...formData, discount_type: value as CouponDiscountType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COUPON_DISCOUNT_TYPE_LABELS) as CouponDiscountType[]).map(type => (
+                      <SelectItem key={type} value={type}>{COUPON_DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="description">Description</Label>
+              <Input
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Shown to customers when the coupon is applied"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {formData.discount_type !== 'free_shipping' && (
+                <div>
+                  <Label htmlFor="discount_value">
+                    {formData.discount_type === 'percentage' ? 'Discount (%)' : 'Discount (₹)'}
+                  </Label>
+                  <Input
+                    id="discount_value"
+                    type="number"
+                    min={0}
+                    value={formData.discount_value}
+                    onChange={(e) => setFormData({ ...formData, discount_value: Number(e.target.value) })}
+                  />
+                </div>
+              )}
+              {formData.discount_type === 'percentage' && (
+                <div>
+                  <Label htmlFor="max_discount">Max Discount (₹)</Label>
+                  <Input
+                    id="max_discount"
+                    type="number"
+                    min={0}
+                    value={formData.max_discount}
+                    onChange={(e) => setFormData({ ...formData, max_discount: e.target.value === '' ? '' : Number(e.target.value) })}
+                    placeholder="No cap"
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="min_cart_value">Min Cart Value (₹)</Label>
+                <Input
+                  id="min_cart_value"
+                  type="number"
+                  min={0}
+                  value={formData.min_cart_value}
+                  onChange={(e) => setFormData({ ...formData, min_cart_value: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="usage_limit_per_user">Uses per Customer</Label>
+                <Input
+                  id="usage_limit_per_user"
+                  type="number"
+                  min={1}
+                  value={formData.usage_limit_per_user}
+                  onChange={(e) => setFormData({ ...formData, usage_limit_per_user: e.target.value === '' ? '' : Number(e.target.value) })}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="starts_at">Starts</Label>
+                <Input
+                  id="starts_at"
+                  type="datetime-local"
+                  value={formData.starts_at}
+                  onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="expires_at">Expires</Label>
+                <Input
+                  id="expires_at"
+                  type="datetime-local"
+                  value={formData.expires_at}
+                  onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Categories (leave empty for all)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+                {CATEGORIES.map(category => (
+                  <label key={category} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.applicable_categories.includes(category)}
+                      onCheckedChange={() => setFormData({
+                        ...formData,
+                        applicable_categories: toggleListValue(formData.applicable_categories, category),
+                      })}
+                    />
+                    {category}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label>Occasions (leave empty for all)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+                {OCCASIONS.map(occasion => (
+                  <label key={occasion} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.applicable_occasions.includes(occasion)}
+                      onCheckedChange={() => setFormData({
+                        ...formData,
+                        applicable_occasions: toggleListValue(formData.applicable_occasions, occasion),
+                      })}
+                    />
+                    {occasion}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="is_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label htmlFor="is_active">Active</Label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="btn-gold" disabled={isSaving}>
+                {isSaving ? 'Saving...' : editingCoupon ? 'Update Coupon' : 'Create Coupon'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminCoupons;
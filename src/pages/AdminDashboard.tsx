@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, Package, Users, ShoppingCart, TrendingUp, Eye, Edit, Trash2, BarChart3, Settings, FileText } from 'lucide-react';
+import { Plus, Package, Users, ShoppingCart, TrendingUp, Eye, Edit, Trash2, BarChart3, Settings, FileText, Tag, Truck, RotateCcw, Languages, Search, ArrowUpDown, Palette } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -188,6 +188,70 @@ const AdminDashboard = () => {
                     <span className="text-xs text-muted-foreground">View reports</span>
                   </Button>
                 </Link>
+
+                <Link to="/admin/orders">
+                  <Button variant="outline" className="w-full h-24 flex flex-col gap-2 hover:bg-accent/50">
+                    <ShoppingCart className="h-8 w-8" />
+                    <span className="font-semibold">Orders</span>
+                    <span className="text-xs text-muted-foreground">Fulfil and track orders</span>
+                  </Button>
+                </Link>
+
+                <Link to="/admin/returns">
+                  <Button variant="outline" className="w-full h-24 flex flex-col gap-2 hover:bg-accent/50">
+                    <RotateCcw className="h-8 w-8" />
+                    <span className="font-semibold">Returns</span>
+                    <span className="text-xs text-muted-foreground">RMA queue and refunds</span>
+                  </Button>
+                </Link>
+
+                <Link to="/admin/coupons">
+                  <Button variant="outline" className="w-full h-24 flex flex-col gap-2 hover:bg-accent/50">
+                    <Tag className="h-8 w-8" />
+                    <span className="font-semibold">Coupons</span>
+                    <span className="text-xs text-muted-foreground">Manage promotions</span>
+                  </Button>
+                </Link>
+
+                <Link to="/admin/pricing">
+                  <Button variant="outline" className="w-full h-24 flex flex-col gap-2 hover:bg-accent/50">
+                    <Truck className="h-8 w-8" />
+                    <span className="font-semibold">Pricing & Shipping</span>
+                    <span className="text-xs text-muted-foreground">GST, zones and COD</span>
+                  </Button>
+                </Link>
+
+                <Link to="/admin/search-synonyms">
+                  <Button variant="outline" className="w-full h-24 flex flex-col gap-2 hover:bg-accent/50">
+                    <Languages className="h-8 w-8" />
+                    <span className="font-semibold">Search Synonyms</span>
+                    <span className="text-xs text-muted-foreground">Spellings and translations</span>
+                  </Button>
+                </Link>
+
+                <Link to="/admin/search-analytics">
+                  <Button variant="outline" className="w-full h-24 flex flex-col gap-2 hover:bg-accent/50">
+                    <Search className="h-8 w-8" />
+                    <span className="font-semibold">Search Analytics</span>
+                    <span className="text-xs text-muted-foreground">Failing and popular queries</span>
+                  </Button>
+                </Link>
+
+                <Link to="/admin/search-ranking">
+                  <Button variant="outline" className="w-full h-24 flex flex-col gap-2 hover:bg-accent/50">
+                    <ArrowUpDown className="h-8 w-8" />
+                    <span className="font-semibold">Search Ranking</span>
+                    <span className="text-xs text-muted-foreground">Learned boosts</span>
+                  </Button>
+                </Link>
+
+                <Link to="/admin/colors">
+                  <Button variant="outline" className="w-full h-24 flex flex-col gap-2 hover:bg-accent/50">
+                    <Palette className="h-8 w-8" />
+                    <span className="font-semibold">Colors</span>
+                    <span className="text-xs text-muted-foreground">Families and swatches</span>
+                  </Button>
+                </Link>
               </div>
             </CardContent>
           </Card>
@@ -33,6 +33,7 @@ interface ProductFormData {
   reviews: number;
   careInstructions: string;
   origin: string;
+  weight: number;
   sku: string;
 }
 
@@ -87,14 +88,17 @@ const AdminEditProduct = () => {
     reviews: 0,
     careInstructions: '',
     origin: 'Made in India',
+    weight: 0,
     sku: ''
   });
 
+  const [existingImages, setExistingImages] = useState<string[]>([]);
   const [images, setImages] = useState<File[]>([]);
   const [imagePreview, setImagePreview] = useState<string[]>([]);
   const [customColor, setCustomColor] = useState('');
   const [customSize, setCustomSize] = useState('');
   const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Find the product to edit
   const productToEdit = allProducts.find(p => p.id === parseInt(id || '0'));
@@ -119,12 +123,13 @@ const AdminEditProduct = () => {
         reviews: productToEdit.reviews || 0,
         careInstructions: productToEdit.careInstructions || '',
         origin: productToEdit.origin || 'Made in India',
+        weight: productToEdit.weight || 0,
         sku: productToEdit.sku || ''
       });
 
       // Load existing images
       if (productToEdit.images && productToEdit.images.length > 0) {
-        setImagePreview(productToEdit.images);
+        setExistingImages(productToEdit.images);
       }
       
       setIsLoading(false);
@@ -175,14 +180,20 @@ const AdminEditProduct = () => {
     });
   };
 
-  // Remove image
+  // Remove image (existing images are listed before newly added ones)
   const removeImage = (index: number) => {
-    const newImages = images.filter((_, i) => i !== index);
-    const newPreviews = imagePreview.filter((_, i) => i !== index);
-    setImages(newImages);
-    setImagePreview(newPreviews);
+    if (index < existingImages.length) {
+      setExistingImages(existingImages.filter((_, i) => i !== index));
+      return;
+    }
+
+    const newIndex = index - existingImages.length;
+    setImages(images.filter((_, i) => i !== newIndex));
+    setImagePreview(imagePreview.filter((_, i) => i !== newIndex));
   };
 
+  const allImagePreviews = [...existingImages, ...imagePreview];
+
   // Add custom color
   const addCustomColor = () => {
     if (customColor && !formData.colors.includes(customColor)) {
@@ -237,7 +248,7 @@ const AdminEditProduct = () => {
     : formData.price;
 
   // Handle form submission
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validate required fields
@@ -246,8 +257,18 @@ const AdminEditProduct = () => {
       return;
     }
 
-    // Update product using the context
-    updateProduct(parseInt(id || '0'), formData);
+    // Update product using the context (new images are uploaded, removed ones cleaned up)
+    setIsSubmitting(true);
+    const success = await updateProduct(parseInt(id || '0'), { ...formData, weight: formData.weight || null, images: existingImages }, images);
+    setIsSubmitting(false);
+    if (!success) {
+      toast.error(`Failed to update "${formData.name}"`);
+      return;
+    }
+
+    // Track stock for any sizes/colors added to the product
+    const { syncProductToInventory } = await import('@/services/productInventorySync');
+    await syncProductToInventory({ ...productToEdit, sizes: formData.sizes, colors: formData.colors });
     
     // Show success message
     toast.success(`Product "${formData.name}" updated successfully!`);
@@ -408,6 +429,18 @@ const AdminEditProduct = () => {
                           </div>
                         </div>
 
+                        <div>
+                          <Label htmlFor="weight">Shipping Weight (grams)</Label>
+                          <Input
+                            id="weight"
+                            type="number"
+                            value={formData.weight || ''}
+                            onChange={(e) => handleInputChange('weight', Number(e.target.value))}
+                            placeholder="Leave empty to use the store default"
+                            min="0"
+                          />
+                        </div>
+
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
                             <Label htmlFor="sku">SKU</Label>
@@ -644,11 +677,11 @@ const AdminEditProduct = () => {
                           />
                         </div>
 
-                        {imagePreview.length > 0 && (
+                        {allImagePreviews.length > 0 && (
                           <div>
                             <Label>Current Images</Label>
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-2">
-                              {imagePreview.map((preview, index) => (
+                              {allImagePreviews.map((preview, index) => (
                                 <div key={index} className="relative">
                                   <img
                                     src={preview}
@@ -683,9 +716,9 @@ const AdminEditProduct = () => {
                   >
                     Cancel
                   </Button>
-                  <Button type="submit" size="lg" className="btn-gold">
+                  <Button type="submit" size="lg" className="btn-gold" disabled={isSubmitting}>
                     <Save className="mr-2 h-5 w-5" />
-                    Update Product
+                    {isSubmitting ? 'Updating...' : 'Update Product'}
                   </Button>
                 </div>
               </div>
@@ -702,9 +735,9 @@ const AdminEditProduct = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="border rounded-lg p-4">
-                      {imagePreview.length > 0 ? (
+                      {allImagePreviews.length > 0 ? (
                         <img
-                          src={imagePreview[0]}
+                          src={allImagePreviews[0]}
                           alt="Product preview"
                           className="w-full h-48 object-cover rounded-lg mb-4"
                         />
@@ -789,7 +822,7 @@ const AdminEditProduct = () => {
                   <CardContent className="space-y-2 text-sm">
                     <div className="flex justify-between">
                       <span>Images:</span>
-                      <span>{imagePreview.length}</span>
+                      <span>{allImagePreviews.length}</span>
                     </div>
                     <div className="flex justify-between">
                       <span>Colors:</span>
@@ -6,7 +6,7 @@
 
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, Edit, Trash2, Eye, ArrowLeft } from 'lucide-react';
+import { Plus, Edit, Trash2, Eye, ArrowLeft, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -14,10 +14,15 @@ import Navigation from '@/components/Navigation';
 import Footer from '@/components/Footer';
 import { useProducts } from '@/contexts/ProductContext';
 import { toast } from 'sonner';
+import { getDynamicProducts, importLegacyProducts } from '@/services/dataService';
 
 const AdminManageProducts = () => {
-  const { products, isLoading, error, deleteProduct } = useProducts();
+  const { products, isLoading, error, deleteProduct, refreshProducts } = useProducts();
   const [selectedProducts, setSelectedProducts] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Offer the import while products are still only in this browser or the catalog is empty
+  const canImportLegacyProducts = getDynamicProducts().length > 0 || products.length === 0;
 
   // Handle product selection
   const toggleProductSelection = (productId: number) => {
@@ -31,26 +36,53 @@ const AdminManageProducts = () => {
   };
 
   // Handle delete product
-  const handleDeleteProduct = (product: any) => {
+  const handleDeleteProduct = async (product: any) => {
     if (window.confirm(`Are you sure you want to delete "${product.name}"?`)) {
-      deleteProduct(product.id);
-      toast.success(`Product "${product.name}" deleted successfully`);
+      const success = await deleteProduct(product.id);
+      if (success) {
+        toast.success(`Product "${product.name}" deleted successfully`);
+      } else {
+        toast.error(`Failed to delete "${product.name}"`);
+      }
     }
   };
 
   // Handle bulk delete
-  const handleBulkDelete = () => {
+  const handleBulkDelete = async () => {
     if (selectedProducts.size === 0) return;
     
     if (window.confirm(`Are you sure you want to delete ${selectedProducts.size} products?`)) {
-      selectedProducts.forEach(productId => {
-        deleteProduct(productId);
-      });
-      toast.success(`${selectedProducts.size} products deleted successfully`);
+      const results = await Promise.all(
+        Array.from(selectedProducts).map(productId => deleteProduct(productId))
+      );
+      const deletedCount = results.filter(Boolean).length;
+
+      if (deletedCount === results.length) {
+        toast.success(`${deletedCount} products deleted successfully`);
+      } else {
+        toast.error(`Deleted ${deletedCount} of ${results.length} products`);
+      }
       setSelectedProducts(new Set());
     }
   };
 
+  // Handle one-time import of products saved before the shared catalog existed
+  const handleImportLegacyProducts = async () => {
+    setIsImporting(true);
+    try {
+      const importedCount = await importLegacyProducts();
+      if (importedCount === null) {
+        toast.error('Failed to import existing products');
+        return;
+      }
+
+      toast.success(`Imported ${importedCount} product${importedCount !== 1 ? 's' : ''}`);
+      await refreshProducts();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   // Loading state
   if (isLoading) {
     return (
@@ -106,6 +138,12 @@ const AdminManageProducts = () => {
                 </p>
               </div>
               <div className="flex gap-2">
+                {canImportLegacyProducts && (
+                  <Button variant="outline" onClick={handleImportLegacyProducts} disabled={isImporting}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    {isImporting ? 'Importing...' : 'Import Existing Products'}
+                  </Button>
+                )}
                 <Link to="/admin/add-product">
                   <Button className="btn-gold">
                     <Plus className="mr-2 h-4 w-4" />
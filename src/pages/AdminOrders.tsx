@@ -0,0 +1,820 @@
+/**
+ * Admin Orders
+ * Filter orders, review status history, move orders through fulfilment, record tracking details
+ * print GST invoices and packing slips, record COD collection and refund payments
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Search, ShoppingBag, Truck, RefreshCw, ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { InlineLoader } from '@/components/LoadingStates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useOrders } from '@/contexts/OrderContext';
+import {
+  Order,
+  OrderFilters,
+  OrderStatus,
+  PaymentStatus,
+  OrderStatusHistoryEntry,
+  ORDER_STATUS_TRANSITIONS,
+  REASON_REQUIRED_STATUSES,
+  getAllOrders,
+  getOrderById,
+  getOrderStatusHistory,
+  updatePaymentStatus,
+  updateTrackingInfo,
+  updateAdminNotes,
+} from '@/services/userActivitiesService';
+import {
+  Invoice,
+  DEFAULT_SELLER_NAME,
+  getInvoice,
+  generateInvoice,
+  getInvoiceSettings,
+} from '@/services/invoiceService';
+import {
+  Payment,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  getOrderPayments,
+  confirmPayment,
+  refundPayment,
+} from '@/services/paymentService';
+import { CARRIERS } from '@/utils/carriers';
+import { downloadInvoicePdf, downloadPackingSlipPdf } from '@/utils/invoicePdf';
+
+const PAGE_SIZE = 25;
+
+const ORDER_STATUSES: OrderStatus[] = [
+  'pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded'
+];
+
+const PAYMENT_STATUSES: PaymentStatus[] = ['pending', 'paid', 'failed', 'refunded'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+    case 'confirmed':
+    case 'processing':
+      return 'bg-blue-100 text-blue-800 border-blue-300';
+    case 'shipped':
+      return 'bg-purple-100 text-purple-800 border-purple-300';
+    case 'delivered':
+    case 'paid':
+      return 'bg-green-100 text-green-800 border-green-300';
+    case 'cancelled':
+    case 'refunded':
+    case 'failed':
+      return 'bg-red-100 text-red-800 border-red-300';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-300';
+  }
+};
+
+const AdminOrders = () => {
+  const { updateOrderStatus } = useOrders();
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Filter form state; dates are yyyy-mm-dd strings from date inputs
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
+  const [paymentFilter, setPaymentFilter] = useState<PaymentStatus | 'all'>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isBulkUpdating, setIsBulkUpdating] = useState(false);
+
+  // Detail dialog state
+  const [detailOrder, setDetailOrder] = useState<Order | null>(null);
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[]>([]);
+  const [statusNote, setStatusNote] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [carrier, setCarrier] = useState('');
+  const [adminNotes, setAdminNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [refundAmount, setRefundAmount] = useState('');
+
+  const buildFilters = (): OrderFilters => ({
+    status: statusFilter !== 'all' ? statusFilter : undefined,
+    paymentStatus: paymentFilter !== 'all' ? paymentFilter : undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+    search: searchTerm.trim() || undefined,
+  });
+
+  const loadOrders = async (pageIndex = page) => {
+    setIsLoading(true);
+    const result = await getAllOrders(buildFilters(), PAGE_SIZE, pageIndex * PAGE_SIZE);
+    setOrders(result.orders);
+    setTotal(result.total);
+    setSelectedIds([]);
+    setIsLoading(false);
+  };
+
+  // The search box only applies on submit, so the filter effect calls the latest loader
+  const loadOrdersRef = useRef(loadOrders);
+  loadOrdersRef.current = loadOrders;
+
+  useEffect(() => {
+    loadOrdersRef.current(0);
+    setPage(0);
+  }, [statusFilter, paymentFilter, fromDate, toDate]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    loadOrders(0);
+  };
+
+  const goToPage = (pageIndex: number) => {
+    setPage(pageIndex);
+    loadOrders(pageIndex);
+  };
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds(prev => prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedIds.length === orders.length ? [] : orders.map(order => order.id));
+  };
+
+  // ========================================
+  // ORDER DETAIL
+  // ========================================
+
+  const openDetail = async (order: Order) => {
+    setDetailOrder(order);
+    setStatusNote('');
+    setTrackingNumber(order.tracking_number || '');
+    setCarrier(order.carrier || '');
+    setAdminNotes(order.admin_notes || '');
+    setInvoice(null);
+    setPayments([]);
+    setRefundAmount('');
+    const [entries, orderInvoice, orderPayments] = await Promise.all([
+      getOrderStatusHistory(order.id),
+      getInvoice(order.id),
+      getOrderPayments(order.id),
+    ]);
+    setHistory(entries);
+    setInvoice(orderInvoice);
+    setPayments(orderPayments);
+  };
+
+  // Re-read the open order and its timeline after a change, and mirror it in the list
+  const reloadDetail = async (orderId: string) => {
+    const [order, entries, orderInvoice, orderPayments] = await Promise.all([
+      getOrderById(orderId),
+      getOrderStatusHistory(orderId),
+      getInvoice(orderId),
+      getOrderPayments(orderId),
+    ]);
+    if (order) {
+      setDetailOrder(order);
+      setOrders(prev => prev.map(o => (o.id === orderId ? order : o)));
+    }
+    setHistory(entries);
+    setInvoice(orderInvoice);
+    setPayments(orderPayments);
+  };
+
+  const handleStatusChange = async (newStatus: OrderStatus) => {
+    if (!detailOrder) return;
+    if (REASON_REQUIRED_STATUSES.includes(newStatus) && !statusNote.trim()) {
+      toast.error(`Please enter a reason before marking the order as ${newStatus}`);
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await updateOrderStatus(detailOrder.id, newStatus, statusNote.trim() || undefined);
+    setIsSaving(false);
+
+    if (success) {
+      toast.success(`Order ${detailOrder.order_number} marked as ${newStatus}`);
+      setStatusNote('');
+      await reloadDetail(detailOrder.id);
+    }
+  };
+
+  const handlePaymentStatusChange = async (paymentStatus: PaymentStatus) => {
+    if (!detailOrder) return;
+
+    const success = await updatePaymentStatus(detailOrder.id, paymentStatus);
+    if (success) {
+      toast.success(`Payment marked as ${paymentStatus}`);
+      await reloadDetail(detailOrder.id);
+    } else {
+      toast.error('Failed to update payment status');
+    }
+  };
+
+  // Cash on Delivery is marked paid through the COD provider so it gets a payment record like online payments
+  const handleRecordCashCollected = async () => {
+    if (!detailOrder || !window.confirm(`Record ${formatCurrency(detailOrder.total)} cash collected for ${detailOrder.order_number}?`)) return;
+
+    setIsSaving(true);
+    const result = await confirmPayment(detailOrder.id);
+    setIsSaving(false);
+
+    if (result.success) {
+      toast.success('Cash payment recorded');
+      await reloadDetail(detailOrder.id);
+    } else {
+      toast.error(result.error || 'Failed to record payment');
+    }
+  };
+
+  const handleRefundPayment = async (payment: Payment) => {
+    if (!detailOrder) return;
+
+    const remaining = payment.amount - payment.refunded_amount;
+    const amount = refundAmount === '' ? remaining : Number(refundAmount);
+    if (Number.isNaN(amount) || amount <= 0 || amount > remaining) {
+      toast.error(`Enter a refund amount up to ${formatCurrency(remaining)}`);
+      return;
+    }
+    if (!window.confirm(`Refund ${formatCurrency(amount)} via ${payment.provider}?`)) return;
+
+    setIsSaving(true);
+    const result = await refundPayment(detailOrder.id, amount);
+    setIsSaving(false);
+
+    if (result.success) {
+      toast.success(`Refund of ${formatCurrency(amount)} submitted`);
+      setRefundAmount('');
+      await reloadDetail(detailOrder.id);
+    } else {
+      toast.error(result.error || 'Failed to refund payment');
+    }
+  };
+
+  const handleSaveTracking = async () => {
+    if (!detailOrder) return;
+    if (!trackingNumber.trim() || !carrier.trim()) {
+      toast.error('Please enter both a carrier and a tracking number');
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await updateTrackingInfo(detailOrder.id, trackingNumber.trim(), carrier.trim());
+    setIsSaving(false);
+
+    if (success) {
+      toast.success('Tracking details saved');
+      await reloadDetail(detailOrder.id);
+    } else {
+      toast.error('Failed to save tracking details');
+    }
+  };
+
+  const handleSaveNotes = async () => {
+    if (!detailOrder) return;
+
+    setIsSaving(true);
+    const success = await updateAdminNotes(detailOrder.id, adminNotes.trim());
+    setIsSaving(false);
+
+    if (success) {
+      toast.success('Notes saved');
+      await reloadDetail(detailOrder.id);
+    } else {
+      toast.error('Failed to save notes');
+    }
+  };
+
+  // ========================================
+  // INVOICE & PACKING SLIP
+  // ========================================
+
+  // Issues the invoice on first download; regenerating rebuilds it from the edited order under the same number
+  const handleDownloadInvoice = async (regenerate = false) => {
+    if (!detailOrder) return;
+
+    setIsSaving(true);
+    const result = await generateInvoice(detailOrder.id, regenerate);
+    setIsSaving(false);
+
+    if (!result.success || !result.invoice) {
+      toast.error(result.error || 'Failed to generate invoice');
+      return;
+    }
+
+    setInvoice(result.invoice);
+    if (regenerate) {
+      toast.success(`Invoice ${result.invoice.invoice_number} regenerated`);
+    }
+    downloadInvoicePdf(result.invoice, detailOrder);
+  };
+
+  const handleDownloadPackingSlip = async () => {
+    if (!detailOrder) return;
+
+    const settings = await getInvoiceSettings();
+    downloadPackingSlipPdf(detailOrder, settings?.legal_name || DEFAULT_SELLER_NAME, invoice?.invoice_number);
+  };
+
+  // ========================================
+  // BULK ACTIONS
+  // ========================================
+
+  const handleBulkShip = async () => {
+    const shippable = orders.filter(order => selectedIds.includes(order.id) && ORDER_STATUS_TRANSITIONS[order.status].includes('shipped'));
+    const skipped = selectedIds.length - shippable.length;
+
+    if (shippable.length === 0) {
+      toast.error('None of the selected orders are ready to ship');
+      return;
+    }
+    if (!window.confirm(`Mark ${shippable.length} order(s) as shipped?`)) return;
+
+    setIsBulkUpdating(true);
+    let shipped = 0;
+    for (const order of shippable) {
+      if (await updateOrderStatus(order.id, 'shipped')) shipped++;
+    }
+    setIsBulkUpdating(false);
+
+    toast.success(`Marked ${shipped} order(s) as shipped${skipped > 0 ? `, skipped ${skipped} not ready to ship` : ''}`);
+    await loadOrders();
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-8">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <Link to="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Admin Dashboard
+                </Link>
+                <h1 className="font-heading text-3xl font-bold mb-2">Orders</h1>
+                <p className="text-muted-foreground">Review, fulfil and track customer orders</p>
+              </div>
+              <Button variant="outline" onClick={() => loadOrders()} disabled={isLoading}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+          {/* Filters */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+                <form onSubmit={handleSearch} className="lg:col-span-2">
+                  <Label htmlFor="search">Search</Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="search"
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      placeholder="Order number or customer name"
+                      className="pl-9"
+                    />
+                  </div>
+                </form>
+                <div>
+                  <Label>Order Status</Label>
+                  <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as OrderStatus | 'all')}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All statuses</SelectItem>
+                      {ORDER_STATUSES.map(status => (
+                        <SelectItem key={status} value={status}>{capitalize(status)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Payment</Label>
+                  <Select value={paymentFilter} onValueChange={(value) => setPaymentFilter(value as PaymentStatus | 'all')}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All payments</SelectItem>
+                      {PAYMENT_STATUSES.map(status => (
+                        <SelectItem key={status} value={status}>{capitalize(status)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="from">From</Label>
+                    <Input id="from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                  </div>
+                  <div>
+                    <Label htmlFor="to">To</Label>
+                    <Input id="to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Orders */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <CardTitle>Orders ({total})</CardTitle>
+                <Button
+                  variant="outline"
+                  onClick={handleBulkShip}
+                  disabled={selectedIds.length === 0 || isBulkUpdating}
+                >
+                  <Truck className="mr-2 h-4 w-4" />
+                  {isBulkUpdating ? 'Updating...' : `Mark Selected as Shipped (${selectedIds.length})`}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <InlineLoader message="Loading orders..." />
+              ) : orders.length === 0 ? (
+                <div className="text-center py-12">
+                  <ShoppingBag className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No orders match these filters</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground px-4">
+                    <Checkbox
+                      checked={selectedIds.length === orders.length}
+                      onCheckedChange={toggleSelectAll}
+                    />
+                    Select all on this page
+                  </label>
+                  {orders.map(order => (
+                    <div key={order.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border rounded-lg">
+                      <div className="flex items-start gap-3">
+                        <Checkbox
+                          checked={selectedIds.includes(order.id)}
+                          onCheckedChange={() => toggleSelected(order.id)}
+                          aria-label={`Select ${order.order_number}`}
+                          className="mt-1"
+                        />
+                        <div>
+                          <div className="flex flex-wrap items-center gap-2 mb-1">
+                            <h3 className="font-mono font-semibold">{order.order_number}</h3>
+                            <Badge variant="outline" className={getStatusColor(order.status)}>
+                              {capitalize(order.status)}
+                            </Badge>
+                            <Badge variant="outline" className={getStatusColor(order.payment_status)}>
+                              {capitalize(order.payment_status)}
+                            </Badge>
+                            {!order.user_id && <Badge variant="secondary">Guest</Badge>}
+                          </div>
+                          <p className="text-sm">
+                            {order.shipping_address?.name} • {order.items.length} item{order.items.length !== 1 ? 's' : ''} • {formatCurrency(order.total)}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {formatDateTime(order.created_at)}
+                            {order.payment_method && ` • ${order.payment_method.toUpperCase()}`}
+                            {order.tracking_number && ` • ${order.carrier} ${order.tracking_number}`}
+                          </p>
+                        </div>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => openDetail(order)}>
+                        View Details
+                      </Button>
+                    </div>
+                  ))}
+
+                  {totalPages > 1 && (
+                    <div className="flex items-center justify-end gap-2 pt-2">
+                      <Button variant="outline" size="sm" onClick={() => goToPage(page - 1)} disabled={page === 0}>
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <span className="text-sm text-muted-foreground">
+                        Page {page + 1} of {totalPages}
+                      </span>
+                      <Button variant="outline" size="sm" onClick={() => goToPage(page + 1)} disabled={page + 1 >= totalPages}>
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+
+      {/* Order Detail Dialog */}
+      <Dialog open={!!detailOrder} onOpenChange={(open) => !open && setDetailOrder(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {detailOrder && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex flex-wrap items-center gap-2">
+                  Order {detailOrder.order_number}
+                  <Badge variant="outline" className={getStatusColor(detailOrder.status)}>
+                    {capitalize(detailOrder.status)}
+                  </Badge>
+                </DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-6">
+                {/* Items and totals */}
+                <div className="space-y-2">
+                  {detailOrder.items.map((item, index) => (
+                    <div key={index} className="flex items-center gap-3 text-sm">
+                      {item.image && (
+                        <img src={item.image} alt={item.name} className="w-12 h-12 object-cover rounded" />
+                      )}
+                      <div className="flex-1">
+                        <p className="font-medium">{item.name}</p>
+                        <p className="text-muted-foreground">
+                          Qty: {item.quantity}
+                          {item.size && ` • Size: ${item.size}`}
+                          {item.color && ` • ${item.color}`}
+                        </p>
+                      </div>
+                      <p className="font-medium">{formatCurrency(item.price * item.quantity)}</p>
+                    </div>
+                  ))}
+                  <div className="border-t pt-2 text-sm space-y-1">
+                    <div className="flex justify-between"><span>Subtotal</span><span>{formatCurrency(detailOrder.subtotal)}</span></div>
+                    {detailOrder.discount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Discount{detailOrder.coupon_code && ` (${detailOrder.coupon_code})`}</span>
+                        <span>-{formatCurrency(detailOrder.discount)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between"><span>Shipping</span><span>{formatCurrency(detailOrder.shipping_cost)}</span></div>
+                    {!!detailOrder.cod_surcharge && (
+                      <div className="flex justify-between"><span>COD Charge</span><span>{formatCurrency(detailOrder.cod_surcharge)}</span></div>
+                    )}
+                    <div className="flex justify-between"><span>Tax</span><span>{formatCurrency(detailOrder.tax)}</span></div>
+                    <div className="flex justify-between font-semibold"><span>Total</span><span>{formatCurrency(detailOrder.total)}</span></div>
+                  </div>
+                </div>
+
+                {/* Customer */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="font-medium mb-1">Shipping Address</p>
+                    <p>{detailOrder.shipping_address.name}</p>
+                    <p>{detailOrder.shipping_address.address_line1}</p>
+                    {detailOrder.shipping_address.address_line2 && <p>{detailOrder.shipping_address.address_line2}</p>}
+                    <p>
+                      {detailOrder.shipping_address.city}, {detailOrder.shipping_address.state} {detailOrder.shipping_address.postal_code}
+                    </p>
+                    <p>{detailOrder.shipping_address.phone}</p>
+                    {detailOrder.guest_email && (
+                      <>
+                        <p className="font-medium mt-3 mb-1">Guest Contact</p>
+                        <p>{detailOrder.guest_email}</p>
+                        {detailOrder.guest_phone && <p>{detailOrder.guest_phone}</p>}
+                      </>
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-medium mb-1">Payment</p>
+                    <p className="mb-2">
+                      {detailOrder.payment_method ? PAYMENT_METHOD_LABELS[detailOrder.payment_method] || detailOrder.payment_method : 'Not specified'}
+                    </p>
+                    <Select
+                      value={detailOrder.payment_status}
+                      onValueChange={(value) => handlePaymentStatusChange(value as PaymentStatus)}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{capitalize(status)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {detailOrder.customer_notes && (
+                      <>
+                        <p className="font-medium mt-3 mb-1">Customer Notes</p>
+                        <p className="text-muted-foreground">{detailOrder.customer_notes}</p>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {/* Payments */}
+                <div className="space-y-2">
+                  <Label>Payments</Label>
+                  {payments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No payment attempts recorded</p>
+                  ) : (
+                    <div className="space-y-1 text-sm">
+                      {payments.map(payment => (
+                        <p key={payment.id}>
+                          <span className="font-medium">{PAYMENT_STATUS_LABELS[payment.status]}</span>
+                          {` • ${formatCurrency(payment.amount)} via ${payment.provider}`}
+                          {payment.refunded_amount > 0 && ` • ${formatCurrency(payment.refunded_amount)} refunded`}
+                          <span className="text-muted-foreground">
+                            {` • ${payment.provider_charge_id || payment.provider_payment_id} • ${formatDateTime(payment.created_at)}`}
+                          </span>
+                          {payment.failure_reason && <span className="text-red-600">{` • ${payment.failure_reason}`}</span>}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {detailOrder.payment_method === 'cod'
+                      && detailOrder.payment_status === 'pending'
+                      && detailOrder.status !== 'cancelled' && (
+                      <Button variant="outline" size="sm" onClick={handleRecordCashCollected} disabled={isSaving}>
+                        Record Cash Collected
+                      </Button>
+                    )}
+                    {payments[0] && (payments[0].status === 'succeeded' || payments[0].status === 'partially_refunded') && (
+                      <>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={refundAmount}
+                          onChange={(e) => setRefundAmount(e.target.value)}
+                          placeholder={`Refund amount (default ${formatCurrency(payments[0].amount - payments[0].refunded_amount)})`}
+                          className="w-72"
+                        />
+                        <Button variant="outline" size="sm" onClick={() => handleRefundPayment(payments[0])} disabled={isSaving}>
+                          Refund Payment
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {/* Documents */}
+                <div className="space-y-2">
+                  <Label>Documents</Label>
+                  {invoice ? (
+                    <p className="text-sm text-muted-foreground">
+                      Invoice {invoice.invoice_number} issued {formatDateTime(invoice.issued_at)}
+                      {invoice.version > 1 && invoice.regenerated_at && ` • revised ${formatDateTime(invoice.regenerated_at)} (v${invoice.version})`}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No invoice issued yet</p>
+                  )}
+                  {invoice?.is_outdated && (
+                    <p className="text-sm text-amber-600">The order changed after this invoice was issued. Regenerate it before sending.</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {detailOrder.status !== 'cancelled' && (
+                      <Button variant="outline" size="sm" onClick={() => handleDownloadInvoice()} disabled={isSaving}>
+                        <Download className="mr-2 h-4 w-4" />
+                        {invoice ? 'Invoice PDF' : 'Generate Invoice'}
+                      </Button>
+                    )}
+                    {invoice && detailOrder.status !== 'cancelled' && (
+                      <Button variant="outline" size="sm" onClick={() => handleDownloadInvoice(true)} disabled={isSaving}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Regenerate Invoice
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={handleDownloadPackingSlip}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Packing Slip
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Status transitions */}
+                {ORDER_STATUS_TRANSITIONS[detailOrder.status].length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="status_note">Update Status</Label>
+                    <Input
+                      id="status_note"
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                      placeholder="Note for the status history (required to cancel or refund)"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      {ORDER_STATUS_TRANSITIONS[detailOrder.status].map(status => (
+                        <Button
+                          key={status}
+                          variant={status === 'cancelled' || status === 'refunded' ? 'destructive' : 'outline'}
+                          size="sm"
+                          onClick={() => handleStatusChange(status)}
+                          disabled={isSaving}
+                        >
+                          Mark as {capitalize(status)}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Tracking */}
+                <div className="space-y-2">
+                  <Label>Tracking</Label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <Select value={carrier} onValueChange={setCarrier}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Carrier" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[...new Set([...CARRIERS.map(c => c.name), ...(carrier ? [carrier] : [])])].map(name => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={trackingNumber}
+                      onChange={(e) => setTrackingNumber(e.target.value)}
+                      placeholder="Tracking number"
+                    />
+                    <Button variant="outline" onClick={handleSaveTracking} disabled={isSaving}>
+                      Save Tracking
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Admin notes */}
+                <div className="space-y-2">
+                  <Label htmlFor="admin_notes">Admin Notes</Label>
+                  <Textarea
+                    id="admin_notes"
+                    value={adminNotes}
+                    onChange={(e) => setAdminNotes(e.target.value)}
+                    placeholder="Internal notes, not shown to the customer"
+                    rows={3}
+                  />
+                  <div className="flex justify-end">
+                    <Button variant="outline" size="sm" onClick={handleSaveNotes} disabled={isSaving}>
+                      Save Notes
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Status history timeline */}
+                <div>
+                  <p className="font-medium mb-3">Status History</p>
+                  <div className="border-l-2 border-muted pl-4 space-y-4">
+                    <div className="relative">
+                      <span className="absolute -left-[1.4rem] top-1 h-3 w-3 rounded-full bg-muted-foreground" />
+                      <p className="text-sm font-medium">Order placed</p>
+                      <p className="text-xs text-muted-foreground">{formatDateTime(detailOrder.created_at)}</p>
+                    </div>
+                    {history.map(entry => (
+                      <div key={entry.id} className="relative">
+                        <span className="absolute -left-[1.4rem] top-1 h-3 w-3 rounded-full bg-accent" />
+                        <p className="text-sm font-medium">
+                          {entry.old_status ? `${capitalize(entry.old_status)} → ` : ''}{capitalize(entry.new_status)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{formatDateTime(entry.created_at)}</p>
+                        {entry.notes && <p className="text-sm text-muted-foreground">{entry.notes}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminOrders;
@@ -0,0 +1,734 @@
+/**
+ * Admin Pricing
+ * Free shipping threshold, COD surcharge, shipping zones, GST slabs and invoice details
+ * Changes apply to cart quotes and new orders immediately
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Plus, Edit, Trash2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { InlineLoader } from '@/components/LoadingStates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProductCategory } from '@/types/product';
+import {
+  PricingSettings,
+  ShippingZone,
+  GstSlab,
+  getPricingSettings,
+  updatePricingSettings,
+  getShippingZones,
+  saveShippingZone,
+  deleteShippingZone,
+  getGstSlabs,
+  saveGstSlab,
+  deleteGstSlab,
+} from '@/services/pricingService';
+import {
+  InvoiceSettings,
+  getInvoiceSettings,
+  updateInvoiceSettings,
+  getHsnCodes,
+  saveHsnCode,
+} from '@/services/invoiceService';
+import { validatePricingSettings, validateShippingZone, validateInvoiceSettings } from '@/utils/validation';
+
+const CATEGORIES: ProductCategory[] = [
+  "Sarees", "Lehengas", "Salwar Suits", "Kurtis & Kurtas", "Gowns",
+  "Dupattas & Stoles", "Men's Kurtas", "Sherwanis", "Kids Wear", "Jewelry", "Bags & Clutches"
+];
+
+const EMPTY_ZONE: ShippingZone = {
+  code: '',
+  name: '',
+  pincode_prefixes: [],
+  is_default: false,
+  base_rate: 0,
+  base_weight_grams: 500,
+  additional_rate: 0,
+  express_surcharge: 100,
+  sort_order: 0,
+};
+
+const EMPTY_SLAB: GstSlab = {
+  category: CATEGORIES[0],
+  max_unit_price: null,
+  rate: 5,
+};
+
+const AdminPricing = () => {
+  const [settings, setSettings] = useState<PricingSettings | null>(null);
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [slabs, setSlabs] = useState<GstSlab[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+
+  const [editingZone, setEditingZone] = useState<ShippingZone | null>(null);
+  const [isNewZone, setIsNewZone] = useState(false);
+  const [prefixesText, setPrefixesText] = useState('');
+
+  const [newSlab, setNewSlab] = useState<GstSlab>(EMPTY_SLAB);
+
+  const [invoiceSettings, setInvoiceSettings] = useState<InvoiceSettings | null>(null);
+  const [isSavingInvoiceSettings, setIsSavingInvoiceSettings] = useState(false);
+  const [hsnCodes, setHsnCodes] = useState<Record<string, string>>({});
+
+  const loadPricing = async () => {
+    setIsLoading(true);
+    const [loadedSettings, loadedZones, loadedSlabs, loadedInvoiceSettings, loadedHsnCodes] = await Promise.all([
+      getPricingSettings(),
+      getShippingZones(),
+      getGstSlabs(),
+      getInvoiceSettings(),
+      getHsnCodes(),
+    ]);
+    setSettings(loadedSettings);
+    setZones(loadedZones);
+    setSlabs(loadedSlabs);
+    setInvoiceSettings(loadedInvoiceSettings);
+    setHsnCodes(Object.fromEntries(loadedHsnCodes.map(code => [code.category, code.hsn_code])));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadPricing();
+  }, []);
+
+  // ========================================
+  // SETTINGS
+  // ========================================
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+
+    const validation = validatePricingSettings(settings);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return;
+    }
+    validation.warnings.forEach(warning => toast.warning(warning));
+
+    setIsSavingSettings(true);
+    const success = await updatePricingSettings(settings);
+    setIsSavingSettings(false);
+
+    if (success) {
+      toast.success('Pricing settings saved');
+    } else {
+      toast.error('Failed to save pricing settings');
+    }
+  };
+
+  // ========================================
+  // SHIPPING ZONES
+  // ========================================
+
+  const openZoneForm = (zone: ShippingZone | null) => {
+    setIsNewZone(!zone);
+    setEditingZone(zone || { ...EMPTY_ZONE, sort_order: zones.length + 1 });
+    setPrefixesText((zone?.pincode_prefixes || []).join(', '));
+  };
+
+  const handleSaveZone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingZone) return;
+
+    const zone: ShippingZone = {
+      ...editingZone,
+      pincode_prefixes: prefixesText.split(',').map(prefix => prefix.trim()).filter(Boolean),
+    };
+
+    const validation = validateShippingZone(zone);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return;
+    }
+    validation.warnings.forEach(warning => toast.warning(warning));
+
+    if (isNewZone && zones.some(z => z.code === zone.code)) {
+      toast.error(`A zone with code "${zone.code}" already exists`);
+      return;
+    }
+
+    // Only one zone can be the default; clear the flag on the current default first
+    const previousDefault = zones.find(z => z.is_default && z.code !== zone.code);
+    if (zone.is_default && previousDefault) {
+      const cleared = await saveShippingZone({ ...previousDefault, is_default: false });
+      if (!cleared) {
+        toast.error('Failed to update the default zone');
+        return;
+      }
+    }
+
+    if (await saveShippingZone(zone)) {
+      toast.success(`Zone "${zone.name}" saved`);
+      setEditingZone(null);
+      setZones(await getShippingZones());
+    } else {
+      toast.error(`Failed to save zone "${zone.name}"`);
+    }
+  };
+
+  const handleDeleteZone = async (zone: ShippingZone) => {
+    if (zone.is_default) {
+      toast.error('Choose another default zone before deleting this one');
+      return;
+    }
+    if (!window.confirm(`Delete shipping zone "${zone.name}"?`)) return;
+
+    if (await deleteShippingZone(zone.code)) {
+      toast.success(`Zone "${zone.name}" deleted`);
+      setZones(prev => prev.filter(z => z.code !== zone.code));
+    } else {
+      toast.error(`Failed to delete zone "${zone.name}"`);
+    }
+  };
+
+  // ========================================
+  // GST SLABS
+  // ========================================
+
+  const updateSlabField = (id: string, updates: Partial<GstSlab>) => {
+    setSlabs(prev => prev.map(slab => (slab.id === id ? { ...slab, ...updates } : slab)));
+  };
+
+  const handleSaveSlab = async (slab: GstSlab) => {
+    if (slab.rate < 0 || slab.rate > 28) {
+      toast.error('GST rate must be between 0% and 28%');
+      return;
+    }
+    if (slab.max_unit_price !== null && slab.max_unit_price <= 0) {
+      toast.error('Price limit must be greater than 0');
+      return;
+    }
+
+    if (await saveGstSlab(slab)) {
+      toast.success(`GST slab for ${slab.category} saved`);
+      setSlabs(await getGstSlabs());
+      if (!slab.id) setNewSlab(EMPTY_SLAB);
+    } else {
+      toast.error(`Failed to save GST slab for ${slab.category}`);
+    }
+  };
+
+  const handleDeleteSlab = async (slab: GstSlab) => {
+    if (!slab.id || !window.confirm(`Delete this GST slab for ${slab.category}?`)) return;
+
+    if (await deleteGstSlab(slab.id)) {
+      toast.success('GST slab deleted');
+      setSlabs(prev => prev.filter(s => s.id !== slab.id));
+    } else {
+      toast.error('Failed to delete GST slab');
+    }
+  };
+
+  const parsePriceLimit = (value: string): number | null => (value === '' ? null : Number(value));
+
+  // ========================================
+  // INVOICES
+  // ========================================
+
+  const handleSaveInvoiceSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoiceSettings) return;
+
+    const validation = validateInvoiceSettings(invoiceSettings);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return;
+    }
+    validation.warnings.forEach(warning => toast.warning(warning));
+
+    setIsSavingInvoiceSettings(true);
+    const success = await updateInvoiceSettings(invoiceSettings);
+    setIsSavingInvoiceSettings(false);
+
+    if (success) {
+      toast.success('Invoice details saved');
+    } else {
+      toast.error('Failed to save invoice details');
+    }
+  };
+
+  const handleSaveHsnCode = async (category: ProductCategory) => {
+    const hsnCode = (hsnCodes[category] || '').trim();
+    if (!/^\d{4,8}$/.test(hsnCode)) {
+      toast.error('HSN code must be 4 to 8 digits');
+      return;
+    }
+
+    if (await saveHsnCode({ category, hsn_code: hsnCode })) {
+      toast.success(`HSN code for ${category} saved`);
+    } else {
+      toast.error(`Failed to save HSN code for ${category}`);
+    }
+  };
+
+  const updateInvoiceField = (field: keyof InvoiceSettings, value: string) => {
+    setInvoiceSettings(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-8">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <Link to="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Admin Dashboard
+            </Link>
+            <h1 className="font-heading text-3xl font-bold mb-2">Pricing & Shipping</h1>
+            <p className="text-muted-foreground">GST, shipping rates and checkout charges</p>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {isLoading ? (
+            <InlineLoader message="Loading pricing..." />
+          ) : (
+            <>
+              {/* Store Settings */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Store Settings</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {settings ? (
+                    <form onSubmit={handleSaveSettings} className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div>
+                          <Label htmlFor="free_shipping_threshold">Free Shipping Above (₹)</Label>
+                          <Input
+                            id="free_shipping_threshold"
+                            type="number"
+                            min={0}
+                            value={settings.free_shipping_threshold}
+                            onChange={(e) => setSettings({ ...settings, free_shipping_threshold: Number(e.target.value) })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="cod_surcharge">COD Surcharge (₹)</Label>
+                          <Input
+                            id="cod_surcharge"
+                            type="number"
+                            min={0}
+                            value={settings.cod_surcharge}
+                            onChange={(e) => setSettings({ ...settings, cod_surcharge: Number(e.target.value) })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="default_weight_grams">Default Item Weight (g)</Label>
+                          <Input
+                            id="default_weight_grams"
+                            type="number"
+                            min={1}
+                            value={settings.default_weight_grams}
+                            onChange={(e) => setSettings({ ...settings, default_weight_grams: Number(e.target.value) })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="default_gst_rate">Default GST Rate (%)</Label>
+                          <Input
+                            id="default_gst_rate"
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={settings.default_gst_rate}
+                            onChange={(e) => setSettings({ ...settings, default_gst_rate: Number(e.target.value) })}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Free shipping applies to standard delivery when the discounted subtotal reaches the threshold.
+                        The default GST rate is used for categories without a slab.
+                      </p>
+                      <Button type="submit" className="btn-gold" disabled={isSavingSettings}>
+                        <Save className="mr-2 h-4 w-4" />
+                        {isSavingSettings ? 'Saving...' : 'Save Settings'}
+                      </Button>
+                    </form>
+                  ) : (
+                    <p className="text-muted-foreground">Pricing settings could not be loaded.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Shipping Zones */}
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>Shipping Zones ({zones.length})</CardTitle>
+                  <Button variant="outline" size="sm" onClick={() => openZoneForm(null)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Zone
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {zones.map(zone => (
+                      <div key={zone.code} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border rounded-lg">
+                        <div>
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-semibold">{zone.name}</h3>
+                            {zone.is_default && <Badge>Default</Badge>}
+                          </div>
+                          <p className="text-sm">
+                            ₹{zone.base_rate} up to {zone.base_weight_grams}g
+                            {zone.additional_rate > 0 && ` • +₹${zone.additional_rate} per extra 500g`}
+                            {` • Express +₹${zone.express_surcharge}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {zone.pincode_prefixes.length > 0
+                              ? `Pincodes starting ${zone.pincode_prefixes.join(', ')}`
+                              : 'All pincodes not matched by another zone'}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openZoneForm(zone)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleDeleteZone(zone)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* GST Slabs */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>GST Slabs</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Each item uses the lowest slab whose price limit covers its discounted unit price.
+                    Leave the limit empty for "no limit".
+                  </p>
+                  <div className="space-y-2">
+                    {slabs.map(slab => (
+                      <div key={slab.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center">
+                        <span className="font-medium">{slab.category}</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="No limit"
+                          aria-label={`${slab.category} price limit`}
+                          value={slab.max_unit_price ?? ''}
+                          onChange={(e) => updateSlabField(slab.id, { max_unit_price: parsePriceLimit(e.target.value) })}
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          aria-label={`${slab.category} GST rate`}
+                          value={slab.rate}
+                          onChange={(e) => updateSlabField(slab.id, { rate: Number(e.target.value) })}
+                        />
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleSaveSlab(slab)} aria-label="Save slab">
+                            <Save className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleDeleteSlab(slab)} aria-label="Delete slab">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center border-t pt-4">
+                    <Select
+                      value={newSlab.category}
+                      onValueChange={(value) => setNewSlab({ ...newSlab, category: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CATEGORIES.map(category => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="No limit"
+                      aria-label="New slab price limit"
+                      value={newSlab.max_unit_price ?? ''}
+                      onChange={(e) => setNewSlab({ ...newSlab, max_unit_price: parsePriceLimit(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      aria-label="New slab GST rate"
+                      value={newSlab.rate}
+                      onChange={(e) => setNewSlab({ ...newSlab, rate: Number(e.target.value) })}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => handleSaveSlab(newSlab)}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+              {/* Invoice Details */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Invoice Details</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {invoiceSettings ? (
+                    <form onSubmit={handleSaveInvoiceSettings} className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                          <Label htmlFor="legal_name">Legal Name</Label>
+                          <Input
+                            id="legal_name"
+                            value={invoiceSettings.legal_name}
+                            onChange={(e) => updateInvoiceField('legal_name', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="gstin">GSTIN</Label>
+                          <Input
+                            id="gstin"
+                            value={invoiceSettings.gstin}
+                            onChange={(e) => updateInvoiceField('gstin', e.target.value.toUpperCase())}
+                            placeholder="e.g., 36ABCDE1234F1Z5"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="invoice_prefix">Invoice Prefix</Label>
+                          <Input
+                            id="invoice_prefix"
+                            value={invoiceSettings.invoice_prefix}
+                            onChange={(e) => updateInvoiceField('invoice_prefix', e.target.value.toUpperCase())}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="seller_address_line1">Address Line 1</Label>
+                          <Input
+                            id="seller_address_line1"
+                            value={invoiceSettings.address_line1}
+                            onChange={(e) => updateInvoiceField('address_line1', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="seller_address_line2">Address Line 2</Label>
+                          <Input
+                            id="seller_address_line2"
+                            value={invoiceSettings.address_line2 || ''}
+                            onChange={(e) => updateInvoiceField('address_line2', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="seller_city">City</Label>
+                          <Input
+                            id="seller_city"
+                            value={invoiceSettings.city}
+                            onChange={(e) => updateInvoiceField('city', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="seller_state">State</Label>
+                          <Input
+                            id="seller_state"
+                            value={invoiceSettings.state}
+                            onChange={(e) => updateInvoiceField('state', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="seller_postal_code">Postal Code</Label>
+                          <Input
+                            id="seller_postal_code"
+                            value={invoiceSettings.postal_code}
+                            onChange={(e) => updateInvoiceField('postal_code', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="seller_phone">Phone</Label>
+                          <Input
+                            id="seller_phone"
+                            value={invoiceSettings.phone || ''}
+                            onChange={(e) => updateInvoiceField('phone', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="seller_email">Email</Label>
+                          <Input
+                            id="seller_email"
+                            type="email"
+                            value={invoiceSettings.email || ''}
+                            onChange={(e) => updateInvoiceField('email', e.target.value)}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Orders shipped within the seller's state are invoiced with CGST + SGST, all others with IGST.
+                        Invoices are numbered PREFIX/financial year/serial.
+                      </p>
+                      <Button type="submit" className="btn-gold" disabled={isSavingInvoiceSettings}>
+                        <Save className="mr-2 h-4 w-4" />
+                        {isSavingInvoiceSettings ? 'Saving...' : 'Save Invoice Details'}
+                      </Button>
+                    </form>
+                  ) : (
+                    <p className="text-muted-foreground">Invoice details could not be loaded.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* HSN Codes */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>HSN Codes</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {CATEGORIES.map(category => (
+                    <div key={category} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-2 items-center">
+                      <span className="font-medium">{category}</span>
+                      <Input
+                        aria-label={`${category} HSN code`}
+                        value={hsnCodes[category] || ''}
+                        onChange={(e) => setHsnCodes(prev => ({ ...prev, [category]: e.target.value }))}
+                      />
+                      <Button variant="outline" size="sm" onClick={() => handleSaveHsnCode(category)} aria-label="Save HSN code">
+                        <Save className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </section>
+      </main>
+
+      {/* Zone Dialog */}
+      <Dialog open={!!editingZone} onOpenChange={(open) => !open && setEditingZone(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{isNewZone ? 'New Shipping Zone' : `Edit ${editingZone?.name}`}</DialogTitle>
+          </DialogHeader>
+          {editingZone && (
+            <form onSubmit={handleSaveZone} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="zone-code">Code</Label>
+                  <Input
+                    id="zone-code"
+                    value={editingZone.code}
+                    disabled={!isNewZone}
+                    onChange={(e) => setEditingZone({ ...editingZone, code: e.target.value.toLowerCase() })}
+                    placeholder="e.g., south_india"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone-name">Name</Label>
+                  <Input
+                    id="zone-name"
+                    value={editingZone.name}
+                    onChange={(e) => setEditingZone({ ...editingZone, name: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="zone-prefixes">Pincode Prefixes</Label>
+                <Input
+                  id="zone-prefixes"
+                  value={prefixesText}
+                  onChange={(e) => setPrefixesText(e.target.value)}
+                  placeholder="e.g., 110, 400, 560"
+                />
+                <p className="text-xs text-muted-foreground mt-1">Comma separated. The longest matching prefix wins.</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="zone-base-rate">Base Rate (₹)</Label>
+                  <Input
+                    id="zone-base-rate"
+                    type="number"
+                    min={0}
+                    value={editingZone.base_rate}
+                    onChange={(e) => setEditingZone({ ...editingZone, base_rate: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone-base-weight">Base Weight (g)</Label>
+                  <Input
+                    id="zone-base-weight"
+                    type="number"
+                    min={1}
+                    value={editingZone.base_weight_grams}
+                    onChange={(e) => setEditingZone({ ...editingZone, base_weight_grams: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone-additional-rate">Per Extra 500g (₹)</Label>
+                  <Input
+                    id="zone-additional-rate"
+                    type="number"
+                    min={0}
+                    value={editingZone.additional_rate}
+                    onChange={(e) => setEditingZone({ ...editingZone, additional_rate: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone-express">Express Surcharge (₹)</Label>
+                  <Input
+                    id="zone-express"
+                    type="number"
+                    min={0}
+                    value={editingZone.express_surcharge}
+                    onChange={(e) => setEditingZone({ ...editingZone, express_surcharge: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="zone-default"
+                  checked={editingZone.is_default}
+                  onCheckedChange={(checked) => setEditingZone({ ...editingZone, is_default: checked })}
+                />
+                <Label htmlFor="zone-default">Default zone for unmatched pincodes</Label>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditingZone(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="btn-gold">
+                  Save Zone
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminPricing;
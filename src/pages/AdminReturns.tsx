@@ -0,0 +1,338 @@
+/**
+ * Admin Returns
+ * RMA queue: approve or reject requests, receive items back into stock and refund or ship exchanges
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, RotateCcw, Image as ImageIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { InlineLoader } from '@/components/LoadingStates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ReturnRequest,
+  ReturnRequestStatus,
+  ReturnActionResult,
+  RETURN_STATUS_LABELS,
+  getAllReturns,
+  getReturnPhotoUrls,
+  getReturnWindowDays,
+  updateReturnWindowDays,
+  approveReturn,
+  rejectReturn,
+  receiveReturn,
+  refundReturn,
+  completeExchange,
+} from '@/services/returnService';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
+const AdminReturns = () => {
+  const { user } = useAuth();
+
+  const [requests, setRequests] = useState<ReturnRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReturnRequestStatus | 'all'>('requested');
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Per-request inputs: admin note / rejection reason and refund amount
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [refundAmounts, setRefundAmounts] = useState<Record<string, string>>({});
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string[]>>({});
+
+  const [windowDays, setWindowDays] = useState<number | ''>('');
+  const [isSavingWindow, setIsSavingWindow] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+    setRequests(await getAllReturns(statusFilter !== 'all' ? statusFilter : undefined));
+    setIsLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  useEffect(() => {
+    getReturnWindowDays().then(setWindowDays);
+  }, []);
+
+  // Run an RMA action and replace the request in the list
+  const runAction = async (request: ReturnRequest, action: () => Promise<ReturnActionResult>, successMessage: string) => {
+    setBusyId(request.id);
+    const result = await action();
+    setBusyId(null);
+
+    if (!result.success || !result.request) {
+      toast.error(result.error || `Failed to update ${request.rma_number}`);
+      return;
+    }
+
+    toast.success(successMessage);
+    const updated = { ...result.request, order_number: request.order_number };
+    setRequests(prev => (
+      statusFilter === 'all' || updated.status === statusFilter
+        ? prev.map(r => (r.id === request.id ? updated : r))
+        : prev.filter(r => r.id !== request.id)
+    ));
+  };
+
+  const handleReject = (request: ReturnRequest) => {
+    const reason = notes[request.id]?.trim();
+    if (!reason) {
+      toast.error('Enter a reason in the note field to reject this request');
+      return;
+    }
+    runAction(request, () => rejectReturn(request.id, reason), `${request.rma_number} rejected`);
+  };
+
+  const handleRefund = (request: ReturnRequest) => {
+    // Left empty, the server refunds the items' value after the order discount
+    const amountInput = refundAmounts[request.id];
+    const amount = amountInput !== undefined && amountInput !== '' ? Number(amountInput) : undefined;
+    if (amount !== undefined && (Number.isNaN(amount) || amount < 0)) {
+      toast.error('Enter a valid refund amount');
+      return;
+    }
+    const refundLabel = amount !== undefined ? formatCurrency(amount) : 'the value paid for these items';
+    if (!window.confirm(`Refund ${refundLabel} for ${request.rma_number} to the customer's payment method?`)) return;
+
+    runAction(request, () => refundReturn(request, amount), `${request.rma_number} refunded`);
+  };
+
+  const handleShowPhotos = async (request: ReturnRequest) => {
+    const urls = await getReturnPhotoUrls(request.photos);
+    if (urls.length === 0) {
+      toast.error('Could not load photos');
+      return;
+    }
+    setPhotoUrls(prev => ({ ...prev, [request.id]: urls }));
+  };
+
+  const handleSaveWindow = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (windowDays === '' || windowDays < 0) {
+      toast.error('Enter the number of days');
+      return;
+    }
+
+    setIsSavingWindow(true);
+    const success = await updateReturnWindowDays(windowDays);
+    setIsSavingWindow(false);
+
+    if (success) {
+      toast.success('Return window updated');
+    } else {
+      toast.error('Failed to update return window');
+    }
+  };
+
+  const performedBy = user?.email || 'admin';
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-8">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <Link to="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Admin Dashboard
+            </Link>
+            <h1 className="font-heading text-3xl font-bold mb-2">Returns & Exchanges</h1>
+            <p className="text-muted-foreground">Work the RMA queue from request to refund or replacement</p>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+          {/* Return policy */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Return Policy</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSaveWindow} className="flex flex-col sm:flex-row sm:items-end gap-4">
+                <div>
+                  <Label htmlFor="window">Return window (days after delivery)</Label>
+                  <Input
+                    id="window"
+                    type="number"
+                    min={0}
+                    value={windowDays}
+                    onChange={(e) => setWindowDays(e.target.value === '' ? '' : Number(e.target.value))}
+                    className="w-40"
+                  />
+                </div>
+                <Button type="submit" variant="outline" disabled={isSavingWindow}>
+                  {isSavingWindow ? 'Saving...' : 'Save'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Queue */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <CardTitle>Requests ({requests.length})</CardTitle>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReturnRequestStatus | 'all')}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All requests</SelectItem>
+                    {(Object.keys(RETURN_STATUS_LABELS) as ReturnRequestStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{RETURN_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <InlineLoader message="Loading requests..." />
+              ) : requests.length === 0 ? (
+                <div className="text-center py-12">
+                  <RotateCcw className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No requests in this queue</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {requests.map(request => {
+                    const isBusy = busyId === request.id;
+                    return (
+                      <div key={request.id} className="p-4 border rounded-lg space-y-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <h3 className="font-mono font-semibold">{request.rma_number}</h3>
+                          <Badge variant="outline">{request.type === 'exchange' ? 'Exchange' : 'Return'}</Badge>
+                          <Badge variant={request.status === 'rejected' ? 'destructive' : 'secondary'}>
+                            {RETURN_STATUS_LABELS[request.status]}
+                          </Badge>
+                          <span className="text-sm text-muted-foreground">
+                            Order {request.order_number} • {new Date(request.created_at).toLocaleDateString('en-IN')}
+                          </span>
+                        </div>
+
+                        <div className="space-y-1 text-sm">
+                          {request.items.map((item, index) => (
+                            <p key={index}>
+                              {item.quantity} × {item.name}
+                              {item.size && ` • Size ${item.size}`}
+                              {item.color && ` • ${item.color}`}
+                              {item.exchange_size && ` → Size ${item.exchange_size}`}
+                              <span className="text-muted-foreground"> ({formatCurrency(item.price * item.quantity)})</span>
+                            </p>
+                          ))}
+                        </div>
+
+                        <p className="text-sm">
+                          <span className="font-medium">Reason:</span> {request.reason}
+                          {request.comments && <span className="text-muted-foreground"> — {request.comments}</span>}
+                        </p>
+                        {request.admin_notes && (
+                          <p className="text-sm text-muted-foreground">Admin note: {request.admin_notes}</p>
+                        )}
+                        {request.refund_amount !== undefined && (
+                          <p className="text-sm">Refunded {formatCurrency(request.refund_amount)}</p>
+                        )}
+
+                        {request.photos.length > 0 && (
+                          photoUrls[request.id] ? (
+                            <div className="flex gap-2 flex-wrap">
+                              {photoUrls[request.id].map((url, index) => (
+                                <a key={url} href={url} target="_blank" rel="noreferrer">
+                                  <img src={url} alt={`Return photo ${index + 1}`} className="w-20 h-20 object-cover rounded" />
+                                </a>
+                              ))}
+                            </div>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => handleShowPhotos(request)}>
+                              <ImageIcon className="mr-2 h-4 w-4" />
+                              View {request.photos.length} Photo(s)
+                            </Button>
+                          )
+                        )}
+
+                        {/* Actions for the current step */}
+                        {request.status === 'requested' && (
+                          <div className="flex flex-col md:flex-row gap-2">
+                            <Input
+                              value={notes[request.id] || ''}
+                              onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                              placeholder="Note to record (required to reject)"
+                            />
+                            <Button
+                              className="btn-gold"
+                              disabled={isBusy}
+                              onClick={() => runAction(request, () => approveReturn(request.id, notes[request.id]), `${request.rma_number} approved`)}
+                            >
+                              Approve
+                            </Button>
+                            <Button variant="destructive" disabled={isBusy} onClick={() => handleReject(request)}>
+                              Reject
+                            </Button>
+                          </div>
+                        )}
+
+                        {request.status === 'approved' && (
+                          <Button
+                            variant="outline"
+                            disabled={isBusy}
+                            onClick={() => runAction(request, () => receiveReturn(request.id, performedBy), `${request.rma_number} received and restocked`)}
+                          >
+                            Mark Items Received
+                          </Button>
+                        )}
+
+                        {request.status === 'received' && request.type === 'return' && (
+                          <div className="flex flex-col sm:flex-row gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              value={refundAmounts[request.id] ?? ''}
+                              onChange={(e) => setRefundAmounts(prev => ({ ...prev, [request.id]: e.target.value }))}
+                              placeholder="Refund amount (default: value paid)"
+                              className="sm:w-72"
+                            />
+                            <Button className="btn-gold" disabled={isBusy} onClick={() => handleRefund(request)}>
+                              Refund
+                            </Button>
+                          </div>
+                        )}
+
+                        {request.status === 'received' && request.type === 'exchange' && (
+                          <Button
+                            className="btn-gold"
+                            disabled={isBusy}
+                            onClick={() => runAction(request, () => completeExchange(request.id, performedBy), `Replacement for ${request.rma_number} recorded`)}
+                          >
+                            Ship Replacement
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminReturns;
@@ -0,0 +1,641 @@
+/**
+ * Admin Search Analytics
+ * Top, zero-result and low click-through queries with trends, and collections
+ * created to rescue failing queries
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft, Search, SearchX, MousePointerClick, TrendingUp, TrendingDown,
+  Languages, FolderPlus, Trash2, ExternalLink, BarChart3,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { InlineLoader } from '@/components/LoadingStates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Occasion, ProductCategory } from '@/types/product';
+import {
+  SearchAnalytics,
+  SearchQueryStats,
+  ANALYTICS_PERIODS,
+  getClickRate,
+  getSearchAnalytics,
+} from '@/services/searchAnalyticsService';
+import {
+  Collection,
+  CollectionInput,
+  getCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  slugify,
+} from '@/services/collectionService';
+import { searchProducts } from '@/services/searchService';
+import { DEFAULT_FILTERS } from '@/hooks/useSearch';
+import { validateCollection } from '@/utils/validation';
+
+const CATEGORIES: ProductCategory[] = [
+  "Sarees", "Lehengas", "Salwar Suits", "Kurtis & Kurtas", "Gowns",
+  "Dupattas & Stoles", "Men's Kurtas", "Sherwanis", "Kids Wear", "Jewelry", "Bags & Clutches"
+];
+
+const OCCASIONS: Occasion[] = [
+  "Wedding", "Festival", "Party", "Office", "Casual", "Formal", "Traditional", "Modern"
+];
+
+// Form state keeps trigger queries as a comma-separated string
+interface CollectionFormData {
+  title: string;
+  slug: string;
+  description: string;
+  search_query: string;
+  categories: ProductCategory[];
+  occasions: Occasion[];
+  trigger_queries: string;
+}
+
+const toCollectionInput = (form: CollectionFormData): CollectionInput => ({
+  title: form.title,
+  slug: form.slug,
+  description: form.description,
+  search_query: form.search_query,
+  filters: {
+    ...(form.categories.length > 0 && { categories: form.categories }),
+    ...(form.occasions.length > 0 && { occasions: form.occasions }),
+  },
+  trigger_queries: form.trigger_queries.split(',').map(query => query.trim()).filter(Boolean),
+  is_active: true,
+});
+
+const toTitle = (query: string) => query.replace(/\b\w/g, letter => letter.toUpperCase());
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Wait for a pause in typing before counting matching products
+const PREVIEW_DEBOUNCE_MS = 300;
+
+// ========================================
+// QUERY LIST
+// ========================================
+
+interface QueryListProps {
+  queries: SearchQueryStats[];
+  emptyMessage: string;
+  onAddSynonym: (query: string) => void;
+  onCreateCollection: (query: string) => void;
+}
+
+const QueryList = ({ queries, emptyMessage, onAddSynonym, onCreateCollection }: QueryListProps) => {
+  if (queries.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {queries.map(stats => {
+        const change = stats.previous_searches > 0
+          ? (stats.searches - stats.previous_searches) / stats.previous_searches
+          : null;
+        return (
+          <div key={stats.query} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border rounded-lg">
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <h3 className="font-medium">{stats.query}</h3>
+                {stats.zero_result_searches === stats.searches && <Badge variant="destructive">No results</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {stats.searches} search{stats.searches !== 1 ? 'es' : ''}
+                {change === null
+                  ? ' • new this period'
+                  : ` • ${change >= 0 ? '+' : ''}${formatPercent(change)} vs previous period`}
+                {` • ${stats.avg_results} results on average`}
+                {` • ${formatPercent(getClickRate(stats))} click-through`}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Last searched {new Date(stats.last_searched_at).toLocaleString('en-IN')}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => onAddSynonym(stats.query)}>
+                <Languages className="mr-2 h-4 w-4" />
+                Add Synonym
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onCreateCollection(stats.query)}>
+                <FolderPlus className="mr-2 h-4 w-4" />
+                Create Collection
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// ========================================
+// PAGE
+// ========================================
+
+const AdminSearchAnalytics = () => {
+  const navigate = useNavigate();
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<SearchAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [collections, setCollections] = useState<Collection[]>([]);
+
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<CollectionFormData | null>(null);
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    setAnalytics(await getSearchAnalytics(days));
+    setIsLoading(false);
+  }, [days]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  useEffect(() => {
+    getCollections().then(setCollections);
+  }, []);
+
+  // Count the products the collection would list
+  useEffect(() => {
+    if (!showForm || !formData) return;
+
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      const input = toCollectionInput(formData);
+      const response = await searchProducts(input.search_query, {
+        filters: { ...DEFAULT_FILTERS, ...input.filters },
+        pageSize: 1,
+      });
+      if (isCurrent) setMatchCount(response ? response.total : null);
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [showForm, formData]);
+
+  const handleAddSynonym = (query: string) => {
+    navigate(`/admin/search-synonyms?term=${encodeURIComponent(query)}`);
+  };
+
+  const openCollectionForm = (query: string) => {
+    setFormData({
+      title: toTitle(query),
+      slug: slugify(query),
+      description: '',
+      search_query: query,
+      categories: [],
+      occasions: [],
+      trigger_queries: query,
+    });
+    setSlugEdited(false);
+    setMatchCount(null);
+    setShowForm(true);
+  };
+
+  const toggleListValue = <T,>(list: T[], value: T): T[] => {
+    return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+  };
+
+  const handleSaveCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    const input = toCollectionInput(formData);
+    const validation = validateCollection(input);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return;
+    }
+    validation.warnings.forEach(warning => toast.warning(warning));
+    if (matchCount === 0) {
+      toast.warning('This collection has no products yet');
+    }
+
+    setIsSaving(true);
+    const collection = await createCollection(input);
+    setIsSaving(false);
+
+    if (!collection) {
+      toast.error(`Failed to create collection "${input.title.trim()}". Is the URL slug already used?`);
+      return;
+    }
+
+    toast.success(`Collection "${collection.title}" created`);
+    setCollections(prev => [collection, ...prev]);
+    setShowForm(false);
+  };
+
+  const handleToggleActive = async (collection: Collection) => {
+    const success = await updateCollection(collection.id, { is_active: !collection.is_active });
+    if (success) {
+      setCollections(prev => prev.map(c => (c.id === collection.id ? { ...c, is_active: !c.is_active } : c)));
+    } else {
+      toast.error(`Failed to update ${collection.title}`);
+    }
+  };
+
+  const handleDeleteCollection = async (collection: Collection) => {
+    if (!window.confirm(`Delete collection "${collection.title}"? Its searches will go back to normal results.`)) return;
+
+    const success = await deleteCollection(collection.id);
+    if (success) {
+      toast.success(`Collection ${collection.title} deleted`);
+      setCollections(prev => prev.filter(c => c.id !== collection.id));
+    } else {
+      toast.error(`Failed to delete ${collection.title}`);
+    }
+  };
+
+  const summary = analytics?.summary;
+  const searchChange = summary && summary.previous_searches > 0
+    ? (summary.searches - summary.previous_searches) / summary.previous_searches
+    : null;
+  const maxDailySearches = Math.max(1, ...(analytics?.trend || []).map(point => point.searches));
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-8">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <Link to="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Admin Dashboard
+                </Link>
+                <h1 className="font-heading text-3xl font-bold mb-2">Search Analytics</h1>
+                <p className="text-muted-foreground">What customers search for, and where search lets them down</p>
+              </div>
+              <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ANALYTICS_PERIODS.map(period => (
+                    <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {isLoading ? (
+            <InlineLoader message="Loading search analytics..." />
+          ) : !analytics || !summary ? (
+            <div className="text-center py-12">
+              <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">Search analytics are unavailable</p>
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Searches</CardTitle>
+                    <Search className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{summary.searches.toLocaleString('en-IN')}</div>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      {searchChange === null ? (
+                        'No searches in the previous period'
+                      ) : (
+                        <>
+                          {searchChange >= 0
+                            ? <TrendingUp className="h-3 w-3 text-green-600" />
+                            : <TrendingDown className="h-3 w-3 text-red-600" />}
+                          {searchChange >= 0 ? '+' : ''}{formatPercent(searchChange)} vs previous period
+                        </>
+                      )}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Unique Queries</CardTitle>
+                    <BarChart3 className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{summary.unique_queries.toLocaleString('en-IN')}</div>
+                    <p className="text-xs text-muted-foreground">Distinct search terms</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Zero Results</CardTitle>
+                    <SearchX className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-red-600">
+                      {formatPercent(summary.searches > 0 ? summary.zero_result_searches / summary.searches : 0)}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{summary.zero_result_searches} searches found nothing</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Click-through</CardTitle>
+                    <MousePointerClick className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatPercent(getClickRate(summary))}</div>
+                    <p className="text-xs text-muted-foreground">Searches where a product was opened</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Daily Trend */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Searches per Day</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-end gap-1 h-40">
+                    {analytics.trend.map(point => (
+                      <div
+                        key={point.day}
+                        className="flex-1 flex flex-col justify-end h-full"
+                        title={`${new Date(point.day).toLocaleDateString('en-IN')}: ${point.searches} searches, ${point.zero_result_searches} with no results, ${point.clicked_searches} clicked`}
+                      >
+                        <div
+                          className="bg-accent rounded-t-sm flex flex-col justify-start overflow-hidden"
+                          style={{ height: `${(point.searches / maxDailySearches) * 100}%` }}
+                        >
+                          <div
+                            className="bg-destructive"
+                            style={{ height: `${point.searches > 0 ? (point.zero_result_searches / point.searches) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                    <span>{analytics.trend.length > 0 && new Date(analytics.trend[0].day).toLocaleDateString('en-IN')}</span>
+                    <span className="flex items-center gap-3">
+                      <span className="flex items-center gap-1"><span className="h-2 w-2 bg-accent rounded-sm" />Searches</span>
+                      <span className="flex items-center gap-1"><span className="h-2 w-2 bg-destructive rounded-sm" />No results</span>
+                    </span>
+                    <span>Today</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Queries */}
+              <Tabs defaultValue="zero" className="space-y-6">
+                <TabsList>
+                  <TabsTrigger value="zero">Zero Results ({analytics.zero_result_queries.length})</TabsTrigger>
+                  <TabsTrigger value="low-click">Low Click-through ({analytics.low_click_queries.length})</TabsTrigger>
+                  <TabsTrigger value="top">Top Queries</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="zero">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <QueryList
+                        queries={analytics.zero_result_queries}
+                        emptyMessage="Every search found something"
+                        onAddSynonym={handleAddSynonym}
+                        onCreateCollection={openCollectionForm}
+                      />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="low-click">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <QueryList
+                        queries={analytics.low_click_queries}
+                        emptyMessage="No frequent searches with low click-through"
+                        onAddSynonym={handleAddSynonym}
+                        onCreateCollection={openCollectionForm}
+                      />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="top">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <QueryList
+                        queries={analytics.top_queries}
+                        emptyMessage="No searches in this period"
+                        onAddSynonym={handleAddSynonym}
+                        onCreateCollection={openCollectionForm}
+                      />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+
+          {/* Collections */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Collections ({collections.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {collections.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  Create a collection from a failing query to give its searches a curated landing page
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {collections.map(collection => (
+                    <div key={collection.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border rounded-lg">
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="font-semibold">{collection.title}</h3>
+                          <Badge variant={collection.is_active ? 'default' : 'secondary'}>
+                            {collection.is_active ? 'Active' : 'Inactive'}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground mb-2">/collections/{collection.slug}</p>
+                        {collection.trigger_queries.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {collection.trigger_queries.map(query => (
+                              <Badge key={query} variant="outline">{query}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Switch
+                          checked={collection.is_active}
+                          onCheckedChange={() => handleToggleActive(collection)}
+                          aria-label={`Toggle ${collection.title}`}
+                        />
+                        <Link to={`/collections/${collection.slug}`} target="_blank">
+                          <Button variant="outline" size="sm">
+                            <ExternalLink className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        <Button variant="outline" size="sm" onClick={() => handleDeleteCollection(collection)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+
+      {/* Create Collection Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Collection</DialogTitle>
+          </DialogHeader>
+          {formData && (
+            <form onSubmit={handleSaveCollection} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="title">Title</Label>
+                  <Input
+                    id="title"
+                    value={formData.title}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      title: e.target.value,
+                      slug: slugEdited ? formData.slug : slugify(e.target.value),
+                    })}
+                    placeholder="Haldi Outfits"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="slug">URL Slug</Label>
+                  <Input
+                    id="slug"
+                    value={formData.slug}
+                    onChange={(e) => {
+                      setSlugEdited(true);
+                      setFormData({ ...formData, slug: e.target.value.toLowerCase() });
+                    }}
+                    placeholder="haldi-outfits"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Shown under the title on the collection page"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="search_query">Search Terms</Label>
+                <Input
+                  id="search_query"
+                  value={formData.search_query}
+                  onChange={(e) => setFormData({ ...formData, search_query: e.target.value })}
+                  placeholder="yellow cotton"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Products matching these terms and the filters below are listed.
+                  {matchCount !== null && ` ${matchCount} product${matchCount !== 1 ? 's' : ''} match right now.`}
+                </p>
+              </div>
+
+              <div>
+                <Label>Categories (leave empty for all)</Label>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+                  {CATEGORIES.map(category => (
+                    <label key={category} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.categories.includes(category)}
+                        onCheckedChange={() => setFormData({
+                          ...formData,
+                          categories: toggleListValue(formData.categories, category),
+                        })}
+                      />
+                      {category}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label>Occasions (leave empty for all)</Label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+                  {OCCASIONS.map(occasion => (
+                    <label key={occasion} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.occasions.includes(occasion)}
+                        onCheckedChange={() => setFormData({
+                          ...formData,
+                          occasions: toggleListValue(formData.occasions, occasion),
+                        })}
+                      />
+                      {occasion}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="trigger_queries">Searches that land here (comma-separated)</Label>
+                <Input
+                  id="trigger_queries"
+                  value={formData.trigger_queries}
+                  onChange={(e) => setFormData({ ...formData, trigger_queries: e.target.value })}
+                  placeholder="haldi outfit, haldi dress"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="btn-gold" disabled={isSaving}>
+                  {isSaving ? 'Creating...' : 'Create Collection'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminSearchAnalytics;
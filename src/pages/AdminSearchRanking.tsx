@@ -0,0 +1,273 @@
+/**
+ * Admin Search Ranking
+ * Tune the learned boosts from shopper behaviour and compare boosted against base ranking
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowUp, ArrowDown, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { InlineLoader } from '@/components/LoadingStates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  SearchRankingSettings,
+  DEFAULT_SEARCH_RANKING_SETTINGS,
+  getSearchRankingSettings,
+  updateSearchRankingSettings,
+} from '@/services/searchRankingService';
+import { SearchResult, searchProducts } from '@/services/searchService';
+import { getProductImageUrl } from '@/services/productImageService';
+import { validateSearchRankingSettings } from '@/utils/validation';
+
+const COMPARE_LIMIT = 10;
+
+// ========================================
+// RANKING COLUMN
+// ========================================
+
+interface RankingColumnProps {
+  title: string;
+  results: SearchResult[];
+  // Base positions by product id, to show how boosts moved each product
+  basePositions?: Map<number, number>;
+}
+
+const RankingColumn = ({ title, results, basePositions }: RankingColumnProps) => (
+  <div>
+    <h3 className="font-semibold mb-3">{title}</h3>
+    {results.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No products match</p>
+    ) : (
+      <ol className="space-y-2">
+        {results.map((result, index) => {
+          const basePosition = basePositions?.get(result.product.id);
+          const movement = basePosition !== undefined ? basePosition - index : null;
+          return (
+            <li key={result.product.id} className="flex items-center gap-3 p-2 border rounded-lg">
+              <span className="w-6 text-sm text-muted-foreground text-right">{index + 1}</span>
+              <img
+                src={getProductImageUrl(result.product.image, 'thumbnail')}
+                alt={result.product.name}
+                className="w-10 h-10 object-cover rounded"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{result.product.name}</p>
+                <p className="text-xs text-muted-foreground">Score {result.score.toFixed(4)}</p>
+              </div>
+              {result.boost > 0 && (
+                <Badge variant="secondary">+{Math.round(result.boost * 100)}%</Badge>
+              )}
+              {basePositions && (
+                movement === null ? (
+                  <Badge variant="outline">New</Badge>
+                ) : movement > 0 ? (
+                  <span className="flex items-center text-xs text-green-600"><ArrowUp className="h-3 w-3" />{movement}</span>
+                ) : movement < 0 ? (
+                  <span className="flex items-center text-xs text-red-600"><ArrowDown className="h-3 w-3" />{-movement}</span>
+                ) : null
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    )}
+  </div>
+);
+
+// ========================================
+// PAGE
+// ========================================
+
+const AdminSearchRanking = () => {
+  const [settings, setSettings] = useState<SearchRankingSettings>(DEFAULT_SEARCH_RANKING_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [compareQuery, setCompareQuery] = useState('');
+  const [isComparing, setIsComparing] = useState(false);
+  const [baseResults, setBaseResults] = useState<SearchResult[] | null>(null);
+  const [boostedResults, setBoostedResults] = useState<SearchResult[] | null>(null);
+
+  useEffect(() => {
+    getSearchRankingSettings().then((loaded) => {
+      setSettings(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = validateSearchRankingSettings(settings);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return;
+    }
+    validation.warnings.forEach(warning => toast.warning(warning));
+
+    setIsSaving(true);
+    const success = await updateSearchRankingSettings(settings);
+    setIsSaving(false);
+
+    if (success) {
+      toast.success('Search ranking settings saved');
+    } else {
+      toast.error('Failed to save search ranking settings');
+    }
+  };
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!compareQuery.trim()) return;
+
+    setIsComparing(true);
+    const options = { sortBy: 'relevance', pageSize: COMPARE_LIMIT };
+    const [base, boosted] = await Promise.all([
+      searchProducts(compareQuery, { ...options, useBoosts: false }),
+      searchProducts(compareQuery, { ...options, useBoosts: true }),
+    ]);
+    setIsComparing(false);
+
+    if (!base || !boosted) {
+      toast.error('Failed to run the comparison');
+      return;
+    }
+    setBaseResults(base.results);
+    setBoostedResults(boosted.results);
+  };
+
+  const basePositions = new Map((baseResults || []).map((result, index) => [result.product.id, index]));
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-8">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <Link to="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Admin Dashboard
+            </Link>
+            <h1 className="font-heading text-3xl font-bold mb-2">Search Ranking</h1>
+            <p className="text-muted-foreground">
+              Results customers open, add to cart and buy for a query rank higher for that query
+            </p>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {/* Settings */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Learned Boosts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <InlineLoader message="Loading settings..." />
+              ) : (
+                <form onSubmit={handleSave} className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="boosts_enabled"
+                      checked={settings.boosts_enabled}
+                      onCheckedChange={(checked) => setSettings({ ...settings, boosts_enabled: checked })}
+                    />
+                    <Label htmlFor="boosts_enabled">Use learned boosts in storefront search</Label>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="half_life_days">Half-life (days)</Label>
+                      <Input
+                        id="half_life_days"
+                        type="number"
+                        min={1}
+                        value={settings.half_life_days}
+                        onChange={(e) => setSettings({ ...settings, half_life_days: Number(e.target.value) })}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">An event counts half as much after this long</p>
+                    </div>
+                    <div>
+                      <Label htmlFor="window_days">Window (days)</Label>
+                      <Input
+                        id="window_days"
+                        type="number"
+                        min={1}
+                        value={settings.window_days}
+                        onChange={(e) => setSettings({ ...settings, window_days: Number(e.target.value) })}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">Older events are ignored</p>
+                    </div>
+                    <div>
+                      <Label htmlFor="boost_strength">Boost Strength</Label>
+                      <Input
+                        id="boost_strength"
+                        type="number"
+                        min={0}
+                        max={5}
+                        step={0.1}
+                        value={settings.boost_strength}
+                        onChange={(e) => setSettings({ ...settings, boost_strength: Number(e.target.value) })}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">1 lets a popular product's score at most double</p>
+                    </div>
+                  </div>
+
+                  <p className="text-sm text-muted-foreground">
+                    Events are weighted click 1, add to cart 3 and purchase 5, and each shopper counts once per product.
+                  </p>
+
+                  <div className="flex justify-end">
+                    <Button type="submit" className="btn-gold" disabled={isSaving}>
+                      {isSaving ? 'Saving...' : 'Save Settings'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Comparison */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Compare Rankings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <form onSubmit={handleCompare} className="flex gap-2">
+                <Input
+                  value={compareQuery}
+                  onChange={(e) => setCompareQuery(e.target.value)}
+                  placeholder="A customer query, e.g. red silk saree"
+                />
+                <Button type="submit" variant="outline" disabled={isComparing || !compareQuery.trim()}>
+                  <Search className="mr-2 h-4 w-4" />
+                  {isComparing ? 'Comparing...' : 'Compare'}
+                </Button>
+              </form>
+
+              {baseResults && boostedResults && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <RankingColumn title="Base ranking" results={baseResults} />
+                  <RankingColumn title="With learned boosts" results={boostedResults} basePositions={basePositions} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminSearchRanking;
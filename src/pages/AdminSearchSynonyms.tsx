@@ -0,0 +1,441 @@
+/**
+ * Admin Search Synonyms
+ * Maintain the synonym dictionary used by catalog search and preview how queries expand
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Plus, Edit, Trash2, Languages, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import Navigation from '@/components/Navigation';
+import Footer from '@/components/Footer';
+import { InlineLoader } from '@/components/LoadingStates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  SearchSynonym,
+  SearchSynonymInput,
+  QueryExpansion,
+  getSearchSynonyms,
+  createSearchSynonym,
+  updateSearchSynonym,
+  deleteSearchSynonym,
+  previewQueryExpansion,
+} from '@/services/searchSynonymService';
+import { validateSearchSynonym } from '@/utils/validation';
+
+// Synonyms are edited as a comma-separated list
+interface SynonymFormData {
+  term: string;
+  synonyms: string;
+  two_way: boolean;
+}
+
+const EMPTY_FORM: SynonymFormData = {
+  term: '',
+  synonyms: '',
+  two_way: false,
+};
+
+const toSynonymInput = (form: SynonymFormData): SearchSynonymInput => ({
+  term: form.term,
+  synonyms: form.synonyms.split(',').map(synonym => synonym.trim()).filter(Boolean),
+  two_way: form.two_way,
+});
+
+// Wait for a pause in typing before asking the database for a preview
+const PREVIEW_DEBOUNCE_MS = 300;
+
+// ========================================
+// EXPANSION PREVIEW
+// ========================================
+
+interface ExpansionPreviewProps {
+  expansion: QueryExpansion;
+  onAddSynonym?: (synonym: string) => void;
+}
+
+const ExpansionPreview = ({ expansion, onAddSynonym }: ExpansionPreviewProps) => {
+  if (expansion.groups.length === 0) {
+    return <p className="text-sm text-muted-foreground">The query has no searchable words</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <p className="text-muted-foreground mb-1">Products must match every group; any term in a group can match</p>
+        <div className="flex flex-wrap items-center gap-2">
+          {expansion.groups.map((group, index) => (
+            <React.Fragment key={index}>
+              {index > 0 && <span className="text-muted-foreground">AND</span>}
+              <div className="flex flex-wrap gap-1 border rounded-md p-1">
+                {group.map(term => (
+                  <Badge key={term} variant="secondary">{term}</Badge>
+                ))}
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      {expansion.rules.length > 0 && (
+        <div>
+          <p className="text-muted-foreground mb-1">Rules applied</p>
+          <ul className="space-y-1">
+            {expansion.rules.map((rule, index) => (
+              <li key={index}>
+                <span className="font-medium">{rule.phrase}</span>
+                {rule.phrase !== rule.term && ` (via "${rule.term}")`}
+                {' → '}
+                {rule.synonyms.join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {expansion.transliterations.length > 0 && (
+        <div>
+          <p className="text-muted-foreground mb-1">Transliterated</p>
+          <ul className="space-y-1">
+            {expansion.transliterations.map(transliteration => (
+              <li key={transliteration.from} className="flex items-center gap-2">
+                <span>{transliteration.from} → <span className="font-medium">{transliteration.to}</span></span>
+                {onAddSynonym && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => onAddSynonym(transliteration.to)}
+                  >
+                    Add "{transliteration.to}" as synonym
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ========================================
+// PAGE
+// ========================================
+
+const AdminSearchSynonyms = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSynonym, setEditingSynonym] = useState<SearchSynonym | null>(null);
+  const [formData, setFormData] = useState<SynonymFormData>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Query tester for the saved dictionary
+  const [testQuery, setTestQuery] = useState('');
+  const [testExpansion, setTestExpansion] = useState<QueryExpansion | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  // Preview of the rule being edited, as if it were saved
+  const [previewQuery, setPreviewQuery] = useState('');
+  const [draftExpansion, setDraftExpansion] = useState<QueryExpansion | null>(null);
+
+  const loadSynonyms = async () => {
+    setIsLoading(true);
+    setSynonyms(await getSearchSynonyms());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadSynonyms();
+  }, []);
+
+  // Search analytics links here with ?term= to add synonyms for a failing query
+  useEffect(() => {
+    const term = searchParams.get('term');
+    if (!term) return;
+
+    setEditingSynonym(null);
+    setFormData({ ...EMPTY_FORM, term });
+    setPreviewQuery('');
+    setDraftExpansion(null);
+    setShowForm(true);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => {
+    if (!showForm) return;
+
+    const query = previewQuery.trim() || formData.term.trim();
+    if (!query) {
+      setDraftExpansion(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      const draft = { ...toSynonymInput(formData), id: editingSynonym?.id };
+      const expansion = await previewQueryExpansion(query, draft.term.trim() ? draft : undefined);
+      if (isCurrent) setDraftExpansion(expansion);
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [showForm, previewQuery, formData, editingSynonym]);
+
+  const handleTestQuery = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!testQuery.trim()) return;
+
+    setIsTesting(true);
+    const expansion = await previewQueryExpansion(testQuery);
+    setIsTesting(false);
+
+    if (!expansion) {
+      toast.error('Failed to expand the query');
+      return;
+    }
+    setTestExpansion(expansion);
+  };
+
+  const openCreateForm = () => {
+    setEditingSynonym(null);
+    setFormData(EMPTY_FORM);
+    setPreviewQuery('');
+    setDraftExpansion(null);
+    setShowForm(true);
+  };
+
+  const openEditForm = (synonym: SearchSynonym) => {
+    setEditingSynonym(synonym);
+    setFormData({
+      term: synonym.term,
+      synonyms: synonym.synonyms.join(', '),
+      two_way: synonym.two_way,
+    });
+    setPreviewQuery('');
+    setDraftExpansion(null);
+    setShowForm(true);
+  };
+
+  const addSynonymToForm = (synonym: string) => {
+    const current = toSynonymInput(formData).synonyms;
+    if (current.includes(synonym)) return;
+    setFormData({ ...formData, synonyms: [...current, synonym].join(', ') });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = toSynonymInput(formData);
+    const validation = validateSearchSynonym(input);
+    if (!validation.isValid) {
+      validation.errors.forEach(error => toast.error(error));
+      return;
+    }
+    validation.warnings.forEach(warning => toast.warning(warning));
+
+    setIsSaving(true);
+    const success = editingSynonym
+      ? await updateSearchSynonym(editingSynonym.id, input)
+      : !!(await createSearchSynonym(input));
+    setIsSaving(false);
+
+    if (!success) {
+      toast.error(`Failed to save synonyms for "${input.term.trim()}"`);
+      return;
+    }
+
+    toast.success(`Synonyms for "${input.term.trim()}" ${editingSynonym ? 'updated' : 'added'}`);
+    setShowForm(false);
+    setTestExpansion(null);
+    await loadSynonyms();
+  };
+
+  const handleDelete = async (synonym: SearchSynonym) => {
+    if (!window.confirm(`Delete the synonyms for "${synonym.term}"?`)) return;
+
+    const success = await deleteSearchSynonym(synonym.id);
+    if (success) {
+      toast.success(`Synonyms for "${synonym.term}" deleted`);
+      setSynonyms(prev => prev.filter(s => s.id !== synonym.id));
+      setTestExpansion(null);
+    } else {
+      toast.error(`Failed to delete "${synonym.term}"`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-8">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <Link to="/admin" className="flex items-center gap-2 text-muted-foreground hover:text-foreground mb-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Admin Dashboard
+                </Link>
+                <h1 className="font-heading text-3xl font-bold mb-2">Search Synonyms</h1>
+                <p className="text-muted-foreground">Teach search the words and spellings customers use</p>
+              </div>
+              <Button className="btn-gold" onClick={openCreateForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Synonym
+              </Button>
+            </div>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {/* Query Tester */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Test a Query</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleTestQuery} className="flex gap-2">
+                <Input
+                  value={testQuery}
+                  onChange={(e) => setTestQuery(e.target.value)}
+                  placeholder="e.g. लाल साड़ी, shaadi lehenga, mens kurta"
+                />
+                <Button type="submit" variant="outline" disabled={isTesting || !testQuery.trim()}>
+                  <Search className="mr-2 h-4 w-4" />
+                  {isTesting ? 'Expanding...' : 'Expand'}
+                </Button>
+              </form>
+              {testExpansion && <ExpansionPreview expansion={testExpansion} />}
+            </CardContent>
+          </Card>
+
+          {/* Dictionary */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Synonyms ({synonyms.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <InlineLoader message="Loading synonyms..." />
+              ) : synonyms.length === 0 ? (
+                <div className="text-center py-12">
+                  <Languages className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No synonyms yet</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {synonyms.map(synonym => (
+                    <div key={synonym.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border rounded-lg">
+                      <div>
+                        <div className="flex items-center gap-2 mb-2">
+                          <h3 className="font-semibold">{synonym.term}</h3>
+                          {synonym.two_way && <Badge variant="outline">Two-way</Badge>}
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {synonym.synonyms.map(value => (
+                            <Badge key={value} variant="secondary">{value}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Button variant="outline" size="sm" onClick={() => openEditForm(synonym)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleDelete(synonym)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </main>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSynonym ? `Edit "${editingSynonym.term}"` : 'New Synonym'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <Label htmlFor="term">Term</Label>
+              <Input
+                id="term"
+                value={formData.term}
+                onChange={(e) => setFormData({ ...formData, term: e.target.value })}
+                placeholder="shaadi, साड़ी or a phrase like wedding wear"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="synonyms">Synonyms (comma-separated)</Label>
+              <Input
+                id="synonyms"
+                value={formData.synonyms}
+                onChange={(e) => setFormData({ ...formData, synonyms: e.target.value })}
+                placeholder="wedding, bridal, marriage"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="two_way"
+                checked={formData.two_way}
+                onCheckedChange={(checked) => setFormData({ ...formData, two_way: checked })}
+              />
+              <Label htmlFor="two_way">Two-way (searching a synonym also finds the term)</Label>
+            </div>
+
+            {/* Preview */}
+            <div className="border rounded-lg p-4 space-y-3">
+              <div>
+                <Label htmlFor="preview_query">Preview</Label>
+                <Input
+                  id="preview_query"
+                  value={previewQuery}
+                  onChange={(e) => setPreviewQuery(e.target.value)}
+                  placeholder={formData.term ? `Defaults to "${formData.term}"` : 'Type a customer query'}
+                />
+              </div>
+              {draftExpansion ? (
+                <ExpansionPreview expansion={draftExpansion} onAddSynonym={addSynonymToForm} />
+              ) : (
+                <p className="text-sm text-muted-foreground">Enter a term or query to see how search expands it with this rule</p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="btn-gold" disabled={isSaving}>
+                {isSaving ? 'Saving...' : editingSynonym ? 'Update Synonym' : 'Add Synonym'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminSearchSynonyms;
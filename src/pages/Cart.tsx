@@ -1,25 +1,38 @@
 import { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
-import { Trash2, ArrowRight, ShoppingBag, Loader2, RefreshCw } from "lucide-react";
-import { useCart } from "@/contexts/CartContext";
+import { Trash2, ArrowRight, ShoppingBag, Loader2, RefreshCw, Tag, X, MapPin } from "lucide-react";
+import { useCart, CartItem } from "@/contexts/CartContext";
 import { FullPageLoader } from "@/components/LoadingStates";
 import { toast } from "sonner";
+import { toOrderDiscount } from "@/services/couponService";
+import { useOrderPricing } from "@/hooks/useOrderPricing";
 
 const Cart = () => {
-  const { state: cartState, updateQuantity, removeFromCart, refreshCart } = useCart();
+  const navigate = useNavigate();
+  const { state: cartState, updateQuantity, removeFromCart, refreshCart, appliedCoupon, applyCoupon, removeCoupon } = useCart();
   const [couponCode, setCouponCode] = useState("");
-  const [isUpdating, setIsUpdating] = useState<number | null>(null);
-  const [isRemoving, setIsRemoving] = useState<number | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  // Busy lines are keyed by product, size and color
+  const [isUpdating, setIsUpdating] = useState<string | null>(null);
+  const [isRemoving, setIsRemoving] = useState<string | null>(null);
+  const [pincode, setPincode] = useState("");
 
   const cartItems = cartState.items;
   const subtotal = cartState.totalPrice;
-  const shipping = subtotal > 500 ? 0 : 50; // Free shipping over ₹500
-  const total = subtotal + shipping;
+  const deliveryPincode = /^\d{6}$/.test(pincode) ? pincode : undefined;
+  // Same quote as checkout and the order itself; standard shipping until a method is chosen
+  const { pricing, isLoading: isPricing } = useOrderPricing(cartItems, {
+    pincode: deliveryPincode,
+    discount: toOrderDiscount(appliedCoupon),
+  });
+  const amountToFreeShipping = pricing
+    ? pricing.free_shipping_threshold - (pricing.subtotal - pricing.discount)
+    : 0;
 
   // Handle initial loading
   useEffect(() => {
@@ -29,12 +42,28 @@ const Cart = () => {
     }
   }, []);
 
-  const handleUpdateQuantity = async (id: number, newQuantity: number) => {
+  const handleApplyCoupon = async () => {
+    if (!couponCode.trim()) return;
+
+    setIsApplyingCoupon(true);
+    try {
+      const applied = await applyCoupon(couponCode);
+      if (applied) {
+        setCouponCode("");
+      }
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const lineKey = (item: CartItem) => `${item.id}-${item.size}-${item.color}`;
+
+  const handleUpdateQuantity = async (item: CartItem, newQuantity: number) => {
     if (newQuantity < 1) return;
     
-    setIsUpdating(id);
+    setIsUpdating(lineKey(item));
     try {
-      await updateQuantity(id, newQuantity);
+      await updateQuantity(item.id, newQuantity, item.size, item.color);
     } catch (error) {
       console.error('Error updating quantity:', error);
       toast.error('Failed to update quantity');
@@ -43,10 +72,10 @@ const Cart = () => {
     }
   };
 
-  const handleRemoveItem = async (id: number) => {
-    setIsRemoving(id);
+  const handleRemoveItem = async (item: CartItem) => {
+    setIsRemoving(lineKey(item));
     try {
-      await removeFromCart(id);
+      await removeFromCart(item.id, item.size, item.color);
       toast.success('Item removed from cart');
     } catch (error) {
       console.error('Error removing item:', error);
@@ -147,12 +176,12 @@ const Cart = () => {
             {/* Cart Items */}
             <div className="lg:col-span-2 space-y-4">
               {cartItems.map((item) => {
-                const isItemUpdating = isUpdating === item.id;
-                const isItemRemoving = isRemoving === item.id;
+                const isItemUpdating = isUpdating === lineKey(item);
+                const isItemRemoving = isRemoving === lineKey(item);
                 const isItemLoading = isItemUpdating || isItemRemoving;
 
                 return (
-                  <Card key={`${item.id}-${item.size}-${item.color}`} className={isItemLoading ? 'opacity-60' : ''}>
+                  <Card key={lineKey(item)} className={isItemLoading ? 'opacity-60' : ''}>
                     <CardContent className="p-4 flex gap-4">
                       <Link to={`/product/${item.id}`} className="shrink-0">
                         <img
@@ -183,7 +212,7 @@ const Cart = () => {
                               variant="outline"
                               size="icon"
                               className="h-8 w-8"
-                              onClick={() => handleUpdateQuantity(item.id, item.quantity - 1)}
+                              onClick={() => handleUpdateQuantity(item, item.quantity - 1)}
                               disabled={isItemLoading || item.quantity <= 1}
                             >
                               {isItemUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : '-'}
@@ -193,7 +222,7 @@ const Cart = () => {
                               variant="outline"
                               size="icon"
                               className="h-8 w-8"
-                              onClick={() => handleUpdateQuantity(item.id, item.quantity + 1)}
+                              onClick={() => handleUpdateQuantity(item, item.quantity + 1)}
                               disabled={isItemLoading}
                             >
                               {isItemUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : '+'}
@@ -203,7 +232,7 @@ const Cart = () => {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleRemoveItem(item.id)}
+                            onClick={() => handleRemoveItem(item)}
                             disabled={isItemLoading}
                             className="text-destructive hover:text-destructive"
                           >
@@ -237,15 +266,64 @@ const Cart = () => {
                   {/* Coupon */}
                   <div className="mb-6">
                     <label className="text-sm font-medium mb-2 block">Have a coupon code?</label>
-                    <div className="flex gap-2">
+                    {appliedCoupon ? (
+                      <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted">
+                        <div className="flex items-center gap-2 text-sm">
+                          <Tag className="h-4 w-4 text-accent" />
+                          <div>
+                            <p className="font-medium">{appliedCoupon.code}</p>
+                            {appliedCoupon.description && (
+                              <p className="text-xs text-muted-foreground">{appliedCoupon.description}</p>
+                            )}
+                          </div>
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={removeCoupon} aria-label="Remove coupon">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          type="text"
+                          placeholder="Enter code"
+                          value={couponCode}
+                          onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                          onKeyDown={(e) => e.key === "Enter" && handleApplyCoupon()}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={handleApplyCoupon}
+                          disabled={isApplyingCoupon || !couponCode.trim()}
+                        >
+                          {isApplyingCoupon ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Delivery pincode */}
+                  <div className="mb-6">
+                    <label htmlFor="delivery-pincode" className="text-sm font-medium mb-2 block">
+                      Delivery pincode
+                    </label>
+                    <div className="relative">
+                      <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                       <Input
-                        type="text"
-                        placeholder="Enter code"
-                        value={couponCode}
-                        onChange={(e) => setCouponCode(e.target.value)}
+                        id="delivery-pincode"
+                        inputMode="numeric"
+                        maxLength={6}
+                        placeholder="Enter pincode for exact shipping"
+                        value={pincode}
+                        onChange={(e) => setPincode(e.target.value.replace(/\D/g, ""))}
+                        className="pl-9"
                       />
-                      <Button variant="outline">Apply</Button>
                     </div>
+                    {pricing && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {deliveryPincode ? `Shipping to ${pricing.shipping_zone_name}` : "Estimated shipping"}
+                        {" • "}{(pricing.weight_grams / 1000).toFixed(1)} kg
+                      </p>
+                    )}
                   </div>
 
                   <div className="space-y-3 mb-6">
@@ -253,34 +331,59 @@ const Cart = () => {
                       <span className="text-muted-foreground">Subtotal</span>
                       <span className="font-medium">₹{subtotal.toFixed(2)}</span>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Shipping</span>
-                      <span className="font-medium">
-                        {shipping === 0 ? 'FREE' : `₹${shipping.toFixed(2)}`}
-                      </span>
-                    </div>
-                    {shipping === 0 && (
-                      <p className="text-xs text-green-600 flex items-center gap-1">
-                        <span className="text-lg">🎉</span>
-                        You've qualified for free shipping!
-                      </p>
+                    {pricing && pricing.discount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Discount ({appliedCoupon?.code})</span>
+                        <span className="font-medium">-₹{pricing.discount.toFixed(2)}</span>
+                      </div>
                     )}
-                    {subtotal < 500 && (
-                      <p className="text-xs text-muted-foreground">
-                        Add ₹{(500 - subtotal).toFixed(2)} more for free shipping
-                      </p>
+                    {pricing ? (
+                      <>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Shipping</span>
+                          <span className="font-medium">
+                            {pricing.shipping === 0 ? 'FREE' : `₹${pricing.shipping.toFixed(2)}`}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">GST</span>
+                          <span className="font-medium">₹{pricing.tax.toFixed(2)}</span>
+                        </div>
+                        {pricing.shipping === 0 && (
+                          <p className="text-xs text-green-600 flex items-center gap-1">
+                            <span className="text-lg">🎉</span>
+                            You've qualified for free shipping!
+                          </p>
+                        )}
+                        {pricing.shipping > 0 && amountToFreeShipping > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Add ₹{amountToFreeShipping.toFixed(2)} more for free shipping
+                          </p>
+                        )}
+                        <div className="border-t border-border pt-3 flex justify-between">
+                          <span className="font-heading text-lg font-bold">Total</span>
+                          <span className="font-heading text-lg font-bold text-accent">
+                            ₹{pricing.total.toFixed(2)}
+                          </span>
+                        </div>
+                        {pricing.cod_surcharge_amount > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Cash on Delivery adds ₹{pricing.cod_surcharge_amount.toFixed(2)}
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        {isPricing && <Loader2 className="h-4 w-4 animate-spin" />}
+                        {isPricing ? "Calculating shipping and GST..." : "Shipping and GST are calculated at checkout"}
+                      </div>
                     )}
-                    <div className="border-t border-border pt-3 flex justify-between">
-                      <span className="font-heading text-lg font-bold">Total</span>
-                      <span className="font-heading text-lg font-bold text-accent">
-                        ₹{total.toFixed(2)}
-                      </span>
-                    </div>
                   </div>
 
                   <Button 
                     size="lg" 
                     className="w-full btn-gold mb-3"
+                    onClick={() => navigate('/checkout')}
                     disabled={cartState.isLoading || cartState.isSyncing}
                   >
                     {cartState.isSyncing ? (
@@ -0,0 +1,789 @@
+/**
+ * Checkout Page
+ * Multi-step checkout: address → shipping method → payment → review
+ * Places the order through OrderContext, takes UPI/card payments through PaymentDialog
+ * and hands off to the confirmation page. Guests check out with an email and phone number;
+ * signed-in customers pick from their saved addresses.
+ */
+
+import { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, ArrowRight, Check, Loader2, MapPin, Truck, CreditCard, ClipboardCheck } from "lucide-react";
+import { toast } from "sonner";
+import { useCart } from "@/contexts/CartContext";
+import { useOrders } from "@/contexts/OrderContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { GuestContact, PaymentMethod, ShippingAddress } from "@/services/userActivitiesService";
+import { isOnlinePaymentMethod } from "@/services/paymentService";
+import { validateAddressInput, validateGuestContact, validateShippingAddress } from "@/utils/validation";
+import { EMPTY_ADDRESS, SavedAddress, createAddress, getAddresses, toShippingAddress } from "@/services/addressService";
+import { SHIPPING_METHODS, ShippingMethod } from "@/utils/orderTotals";
+import { toOrderDiscount } from "@/services/couponService";
+import { useOrderPricing } from "@/hooks/useOrderPricing";
+import { FullPageLoader } from "@/components/LoadingStates";
+import PaymentDialog, { PaymentOutcome } from "@/components/PaymentDialog";
+import AddressFields from "@/components/AddressFields";
+
+type CheckoutStep = "address" | "shipping" | "payment" | "review";
+
+const STEPS: { id: CheckoutStep; label: string; icon: typeof MapPin }[] = [
+  { id: "address", label: "Address", icon: MapPin },
+  { id: "shipping", label: "Shipping", icon: Truck },
+  { id: "payment", label: "Payment", icon: CreditCard },
+  { id: "review", label: "Review", icon: ClipboardCheck },
+];
+
+const PAYMENT_METHODS: { value: PaymentMethod; label: string; description: string }[] = [
+  { value: "cod", label: "Cash on Delivery", description: "Pay in cash when your order arrives" },
+  { value: "upi", label: "UPI", description: "Google Pay, PhonePe, Paytm and other UPI apps" },
+  { value: "card", label: "Credit / Debit Card", description: "Visa, Mastercard, RuPay" },
+];
+
+// Radio value for typing an address instead of picking a saved one
+const NEW_ADDRESS = "new";
+
+interface SavedAddressOptionsProps {
+  idPrefix: string;
+  addresses: SavedAddress[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const SavedAddressOptions = ({ idPrefix, addresses, value, onChange }: SavedAddressOptionsProps) => (
+  <RadioGroup value={value} onValueChange={onChange} className="gap-3">
+    {addresses.map(address => (
+      <Label
+        key={address.id}
+        htmlFor={`${idPrefix}-${address.id}`}
+        className="flex items-start gap-4 rounded-lg border p-4 cursor-pointer hover:border-accent"
+      >
+        <RadioGroupItem id={`${idPrefix}-${address.id}`} value={address.id} className="mt-1" />
+        <div className="flex-1 font-normal text-sm text-muted-foreground">
+          <p className="font-medium text-foreground">{address.label}</p>
+          <p>
+            {address.name}, {address.address_line1}
+            {address.address_line2 && `, ${address.address_line2}`}
+          </p>
+          <p>
+            {address.city}, {address.state} {address.postal_code}
+          </p>
+        </div>
+      </Label>
+    ))}
+    <Label
+      htmlFor={`${idPrefix}-${NEW_ADDRESS}`}
+      className="flex items-center gap-4 rounded-lg border p-4 cursor-pointer hover:border-accent"
+    >
+      <RadioGroupItem id={`${idPrefix}-${NEW_ADDRESS}`} value={NEW_ADDRESS} />
+      <p className="font-medium">Use a new address</p>
+    </Label>
+  </RadioGroup>
+);
+
+const formatAddress = (address: ShippingAddress) => (
+  <>
+    <p className="font-medium text-foreground">{address.name}</p>
+    <p>{address.address_line1}</p>
+    {address.address_line2 && <p>{address.address_line2}</p>}
+    <p>
+      {address.city}, {address.state} {address.postal_code}
+    </p>
+    <p>{address.country}</p>
+    <p>Phone: {address.phone}</p>
+  </>
+);
+
+const Checkout = () => {
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  const { state: cartState, clearCart, extendHold, syncGuestCart, appliedCoupon } = useCart();
+  const { createOrder } = useOrders();
+
+  const [step, setStep] = useState<CheckoutStep>("address");
+  const [guestContact, setGuestContact] = useState<GuestContact>({ email: "", phone: "" });
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>(EMPTY_ADDRESS);
+  const [billingAddress, setBillingAddress] = useState<ShippingAddress>(EMPTY_ADDRESS);
+  const [billingSameAsShipping, setBillingSameAsShipping] = useState(true);
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  // Saved address id chosen for each, or NEW_ADDRESS while typing one
+  const [shippingAddressId, setShippingAddressId] = useState(NEW_ADDRESS);
+  const [billingAddressId, setBillingAddressId] = useState(NEW_ADDRESS);
+  const [saveShippingAddress, setSaveShippingAddress] = useState(false);
+  const [saveAddressLabel, setSaveAddressLabel] = useState("Home");
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>("standard");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cod");
+  const [customerNotes, setCustomerNotes] = useState("");
+  const [addressErrors, setAddressErrors] = useState<string[]>([]);
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  // Order placed with UPI/card, waiting for its payment
+  const [orderToPay, setOrderToPay] = useState<{ id: string; orderNumber: string; total: number; guestEmail?: string } | null>(null);
+  const isGuest = !user;
+
+  const cartItems = cartState.items;
+  // Quoted by the same database function that prices the order
+  const { pricing, isLoading: isPricing } = useOrderPricing(cartItems, {
+    pincode: shippingAddress.postal_code,
+    shippingMethod,
+    paymentMethod,
+    discount: toOrderDiscount(appliedCoupon),
+  });
+  const currentStepIndex = STEPS.findIndex(s => s.id === step);
+
+  // Keep the cart's stock held while the customer fills in checkout
+  useEffect(() => {
+    extendHold();
+  }, [extendHold]);
+
+  // Preselect the customer's default shipping and billing addresses
+  useEffect(() => {
+    if (!user) return;
+
+    getAddresses(user.id).then(addresses => {
+      setSavedAddresses(addresses);
+
+      const defaultShipping = addresses.find(a => a.is_default_shipping);
+      const defaultBilling = addresses.find(a => a.is_default_billing);
+      if (defaultShipping) {
+        setShippingAddressId(defaultShipping.id);
+        setShippingAddress(toShippingAddress(defaultShipping));
+      }
+      if (defaultBilling) {
+        setBillingAddressId(defaultBilling.id);
+        setBillingAddress(toShippingAddress(defaultBilling));
+        setBillingSameAsShipping(defaultBilling.id === defaultShipping?.id);
+      }
+    });
+  }, [user]);
+
+  // Without saved addresses, prefill the shipping address from the user's profile
+  useEffect(() => {
+    if (!profile || savedAddresses.length > 0) return;
+
+    setShippingAddress(prev => ({
+      ...prev,
+      name: prev.name || profile.full_name || "",
+      phone: prev.phone || profile.phone || "",
+      address_line1: prev.address_line1 || profile.address?.street || "",
+      city: prev.city || profile.address?.city || "",
+      state: prev.state || profile.address?.state || "",
+      postal_code: prev.postal_code || profile.address?.postal_code || "",
+      country: profile.address?.country || prev.country,
+    }));
+  }, [profile, savedAddresses]);
+
+  const selectSavedAddress = (
+    id: string,
+    setId: (id: string) => void,
+    setAddress: (address: ShippingAddress) => void
+  ) => {
+    setId(id);
+    const saved = savedAddresses.find(a => a.id === id);
+    setAddress(saved ? toShippingAddress(saved) : EMPTY_ADDRESS);
+  };
+
+  // Adds the typed shipping address to the address book; checkout carries on if this fails
+  const saveNewShippingAddress = async () => {
+    const result = await createAddress(user.id, { ...shippingAddress, label: saveAddressLabel });
+    if (!result.success) {
+      toast.error("Couldn't save the address to your address book");
+      return;
+    }
+
+    setSavedAddresses(prev => [...prev, result.address]);
+    setShippingAddressId(result.address.id);
+    setSaveShippingAddress(false);
+    toast.success(`Saved as "${result.address.label}" in your address book`);
+  };
+
+  const handleAddressContinue = () => {
+    const contactValidation = isGuest
+      ? validateGuestContact({ ...guestContact, phone: guestContact.phone || shippingAddress.phone })
+      : { isValid: true, errors: [] as string[] };
+    const shouldSaveAddress = !isGuest && shippingAddressId === NEW_ADDRESS && saveShippingAddress;
+    const shippingValidation = shouldSaveAddress
+      ? validateAddressInput({ ...shippingAddress, label: saveAddressLabel })
+      : validateShippingAddress(shippingAddress);
+    const billingValidation = billingSameAsShipping
+      ? { isValid: true, errors: [] as string[] }
+      : validateShippingAddress(billingAddress);
+
+    const errors = [
+      ...contactValidation.errors,
+      ...shippingValidation.errors,
+      ...billingValidation.errors.map(error => `Billing: ${error}`),
+    ];
+
+    setAddressErrors(errors);
+    if (errors.length > 0) return;
+
+    if (shouldSaveAddress) {
+      saveNewShippingAddress();
+    }
+    setStep("shipping");
+  };
+
+  const handlePlaceOrder = async () => {
+    setIsPlacingOrder(true);
+    try {
+      // Guest orders are created from the stored guest cart, which must be up to date
+      const contact = isGuest
+        ? { email: guestContact.email.trim(), phone: guestContact.phone.trim() || shippingAddress.phone }
+        : undefined;
+      if (contact && !(await syncGuestCart())) {
+        toast.error("Couldn't save your cart. Please try again.");
+        return;
+      }
+
+      const result = await createOrder(
+        shippingAddress,
+        billingSameAsShipping ? shippingAddress : billingAddress,
+        paymentMethod,
+        customerNotes.trim() || undefined,
+        shippingMethod,
+        appliedCoupon?.code,
+        contact
+      );
+
+      if (result.success && result.orderNumber) {
+        if (isOnlinePaymentMethod(paymentMethod)) {
+          setOrderToPay({
+            id: result.orderId,
+            orderNumber: result.orderNumber,
+            total: pricing?.total ?? 0,
+            guestEmail: contact?.email,
+          });
+          return;
+        }
+        await completeCheckout(result.orderNumber, contact?.email);
+      }
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  };
+
+  // Guests can't read their order from the orders table, so the confirmation page looks it up by email
+  const completeCheckout = async (orderNumber: string, guestEmail?: string) => {
+    // The order RPC already emptied the stored cart; clear local state to match
+    navigate(`/order-confirmation/${orderNumber}`, { replace: true, state: guestEmail ? { guestEmail } : undefined });
+    await clearCart();
+  };
+
+  // The order exists whatever the outcome; unpaid orders can be paid from the order page
+  const handlePaymentClose = async (outcome: PaymentOutcome, error?: string) => {
+    if (!orderToPay) return;
+
+    if (outcome === "paid") {
+      toast.success("Payment received");
+    } else if (outcome === "processing") {
+      toast.info("Your payment is being confirmed. We'll update your order shortly.");
+    } else if (outcome === "failed") {
+      toast.error(error || "Payment failed. You can retry from your order page.");
+    } else {
+      toast.info("Order placed. You can complete the payment from your order page.");
+    }
+
+    const { orderNumber, guestEmail } = orderToPay;
+    setOrderToPay(null);
+    await completeCheckout(orderNumber, guestEmail);
+  };
+
+  // Loading state
+  if (cartState.isLoading && cartItems.length === 0) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navigation />
+        <main className="flex-1">
+          <FullPageLoader message="Loading your cart..." />
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  // Nothing to check out
+  if (cartItems.length === 0) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navigation />
+        <main className="flex-1 flex items-center justify-center">
+          <div className="text-center py-20 px-4">
+            <h2 className="font-heading text-3xl font-bold mb-4">Your Cart is Empty</h2>
+            <p className="text-muted-foreground mb-8">Add something to your cart before checking out.</p>
+            <Link to="/shop">
+              <Button size="lg" className="btn-gold">
+                Start Shopping
+                <ArrowRight className="ml-2 h-5 w-5" />
+              </Button>
+            </Link>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const selectedShipping = SHIPPING_METHODS.find(m => m.value === shippingMethod);
+  const selectedPayment = PAYMENT_METHODS.find(m => m.value === paymentMethod);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1">
+        {/* Page Header */}
+        <section className="bg-muted py-12">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <h1 className="font-heading text-4xl md:text-5xl font-bold mb-6">Checkout</h1>
+
+            {/* Step Indicator */}
+            <ol className="flex flex-wrap items-center gap-2 sm:gap-4">
+              {STEPS.map((s, index) => {
+                const Icon = s.icon;
+                const isComplete = index < currentStepIndex;
+                const isCurrent = index === currentStepIndex;
+
+                return (
+                  <li key={s.id} className="flex items-center gap-2">
+                    <span
+                      className={`flex h-8 w-8 items-center justify-center rounded-full border text-sm ${
+                        isComplete
+                          ? "bg-accent text-accent-foreground border-accent"
+                          : isCurrent
+                            ? "border-accent text-accent"
+                            : "border-border text-muted-foreground"
+                      }`}
+                    >
+                      {isComplete ? <Check className="h-4 w-4" /> : <Icon className="h-4 w-4" />}
+                    </span>
+                    <span className={isCurrent ? "font-medium" : "text-muted-foreground"}>{s.label}</span>
+                    {index < STEPS.length - 1 && <span className="hidden sm:inline text-muted-foreground">→</span>}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        </section>
+
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Step Content */}
+            <div className="lg:col-span-2">
+              {step === "address" && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Shipping Address</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    {addressErrors.length > 0 && (
+                      <Alert variant="destructive">
+                        <AlertDescription>
+                          <ul className="list-disc pl-4 space-y-1">
+                            {addressErrors.map(error => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {isGuest && (
+                      <div className="space-y-4">
+                        <div className="flex flex-wrap items-baseline justify-between gap-2">
+                          <h3 className="font-heading text-lg font-semibold">Contact Details</h3>
+                          <p className="text-sm text-muted-foreground">
+                            Have an account?{" "}
+                            <Link to="/login" state={{ from: { pathname: "/checkout" } }} className="text-accent hover:underline">
+                              Sign in
+                            </Link>
+                          </p>
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="guest-email">Email</Label>
+                            <Input
+                              id="guest-email"
+                              type="email"
+                              placeholder="For your order confirmation"
+                              value={guestContact.email}
+                              onChange={(e) => setGuestContact({ ...guestContact, email: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="guest-phone">Phone</Label>
+                            <Input
+                              id="guest-phone"
+                              type="tel"
+                              placeholder="Same as shipping phone if left blank"
+                              value={guestContact.phone}
+                              onChange={(e) => setGuestContact({ ...guestContact, phone: e.target.value })}
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          You can track this order with your order number and email, or create an account afterwards.
+                        </p>
+                      </div>
+                    )}
+
+                    {savedAddresses.length > 0 && (
+                      <SavedAddressOptions
+                        idPrefix="saved-shipping"
+                        addresses={savedAddresses}
+                        value={shippingAddressId}
+                        onChange={(id) => selectSavedAddress(id, setShippingAddressId, setShippingAddress)}
+                      />
+                    )}
+
+                    {shippingAddressId === NEW_ADDRESS && (
+                      <AddressFields idPrefix="shipping" address={shippingAddress} onChange={setShippingAddress} />
+                    )}
+
+                    {!isGuest && shippingAddressId === NEW_ADDRESS && (
+                      <div className="flex flex-wrap items-center gap-4">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="save-address"
+                            checked={saveShippingAddress}
+                            onCheckedChange={(checked) => setSaveShippingAddress(checked === true)}
+                          />
+                          <Label htmlFor="save-address" className="cursor-pointer">
+                            Save this address to my address book
+                          </Label>
+                        </div>
+                        {saveShippingAddress && (
+                          <Input
+                            aria-label="Address label"
+                            placeholder="Home, Office, Mom's place..."
+                            maxLength={40}
+                            value={saveAddressLabel}
+                            onChange={(e) => setSaveAddressLabel(e.target.value)}
+                            className="w-56"
+                          />
+                        )}
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="billing-same"
+                        checked={billingSameAsShipping}
+                        onCheckedChange={(checked) => setBillingSameAsShipping(checked === true)}
+                      />
+                      <Label htmlFor="billing-same" className="cursor-pointer">
+                        Billing address is the same as shipping address
+                      </Label>
+                    </div>
+
+                    {!billingSameAsShipping && (
+                      <div className="space-y-4">
+                        <h3 className="font-heading text-lg font-semibold">Billing Address</h3>
+                        {savedAddresses.length > 0 && (
+                          <SavedAddressOptions
+                            idPrefix="saved-billing"
+                            addresses={savedAddresses}
+                            value={billingAddressId}
+                            onChange={(id) => selectSavedAddress(id, setBillingAddressId, setBillingAddress)}
+                          />
+                        )}
+                        {billingAddressId === NEW_ADDRESS && (
+                          <AddressFields idPrefix="billing" address={billingAddress} onChange={setBillingAddress} />
+                        )}
+                      </div>
+                    )}
+
+                    <div className="flex justify-between">
+                      <Link to="/cart">
+                        <Button variant="outline">
+                          <ArrowLeft className="mr-2 h-4 w-4" />
+                          Back to Cart
+                        </Button>
+                      </Link>
+                      <Button className="btn-gold" onClick={handleAddressContinue}>
+                        Continue
+                        <ArrowRight className="ml-2 h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {step === "shipping" && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Shipping Method</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <RadioGroup
+                      value={shippingMethod}
+                      onValueChange={(value) => setShippingMethod(value as ShippingMethod)}
+                      className="gap-4"
+                    >
+                      {SHIPPING_METHODS.map(method => {
+                        const cost = pricing?.shipping_options[method.value];
+                        return (
+                          <Label
+                            key={method.value}
+                            htmlFor={`shipping-${method.value}`}
+                            className="flex items-center gap-4 rounded-lg border p-4 cursor-pointer hover:border-accent"
+                          >
+                            <RadioGroupItem id={`shipping-${method.value}`} value={method.value} />
+                            <div className="flex-1">
+                              <p className="font-medium">{method.label}</p>
+                              <p className="text-sm text-muted-foreground font-normal">{method.description}</p>
+                            </div>
+                            {cost !== undefined && (
+                              <span className="font-medium">{cost === 0 ? "FREE" : `₹${cost.toFixed(2)}`}</span>
+                            )}
+                          </Label>
+                        );
+                      })}
+                    </RadioGroup>
+
+                    <div className="flex justify-between">
+                      <Button variant="outline" onClick={() => setStep("address")}>
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back
+                      </Button>
+                      <Button className="btn-gold" onClick={() => setStep("payment")}>
+                        Continue
+                        <ArrowRight className="ml-2 h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {step === "payment" && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Payment Method</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <RadioGroup value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)} className="gap-4">
+                      {PAYMENT_METHODS.map(method => (
+                        <Label
+                          key={method.value}
+                          htmlFor={`payment-${method.value}`}
+                          className="flex items-center gap-4 rounded-lg border p-4 cursor-pointer hover:border-accent"
+                        >
+                          <RadioGroupItem id={`payment-${method.value}`} value={method.value} />
+                          <div className="flex-1">
+                            <p className="font-medium">{method.label}</p>
+                            <p className="text-sm text-muted-foreground font-normal">{method.description}</p>
+                          </div>
+                          {method.value === "cod" && !!pricing?.cod_surcharge_amount && (
+                            <span className="text-sm font-medium">+₹{pricing.cod_surcharge_amount.toFixed(2)}</span>
+                          )}
+                        </Label>
+                      ))}
+                    </RadioGroup>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="customer-notes">Order Notes (optional)</Label>
+                      <Textarea
+                        id="customer-notes"
+                        placeholder="Delivery instructions, gift message..."
+                        value={customerNotes}
+                        onChange={(e) => setCustomerNotes(e.target.value)}
+                      />
+                    </div>
+
+                    <div className="flex justify-between">
+                      <Button variant="outline" onClick={() => setStep("shipping")}>
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back
+                      </Button>
+                      <Button className="btn-gold" onClick={() => setStep("review")}>
+                        Review Order
+                        <ArrowRight className="ml-2 h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {step === "review" && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Review Your Order</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 text-sm text-muted-foreground">
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <h3 className="font-medium text-foreground">Shipping To</h3>
+                          <button className="text-accent hover:underline" onClick={() => setStep("address")}>
+                            Edit
+                          </button>
+                        </div>
+                        {formatAddress(shippingAddress)}
+                      </div>
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <h3 className="font-medium text-foreground">Billing Address</h3>
+                          <button className="text-accent hover:underline" onClick={() => setStep("address")}>
+                            Edit
+                          </button>
+                        </div>
+                        {billingSameAsShipping ? <p>Same as shipping address</p> : formatAddress(billingAddress)}
+                      </div>
+                      {isGuest && (
+                        <div>
+                          <div className="flex items-center justify-between mb-2">
+                            <h3 className="font-medium text-foreground">Contact</h3>
+                            <button className="text-accent hover:underline" onClick={() => setStep("address")}>
+                              Edit
+                            </button>
+                          </div>
+                          <p>{guestContact.email}</p>
+                          <p>Phone: {guestContact.phone || shippingAddress.phone}</p>
+                        </div>
+                      )}
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <h3 className="font-medium text-foreground">Shipping Method</h3>
+                          <button className="text-accent hover:underline" onClick={() => setStep("shipping")}>
+                            Edit
+                          </button>
+                        </div>
+                        <p>{selectedShipping?.label}</p>
+                      </div>
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <h3 className="font-medium text-foreground">Payment</h3>
+                          <button className="text-accent hover:underline" onClick={() => setStep("payment")}>
+                            Edit
+                          </button>
+                        </div>
+                        <p>{selectedPayment?.label}</p>
+                      </div>
+                    </div>
+
+                    <div className="border-t pt-4 space-y-3">
+                      {cartItems.map(item => (
+                        <div key={`${item.id}-${item.size}-${item.color}`} className="flex items-center gap-3 text-sm">
+                          <img src={item.image} alt={item.name} className="w-12 h-16 object-cover rounded" />
+                          <div className="flex-1">
+                            <p className="font-medium">{item.name}</p>
+                            <p className="text-muted-foreground">
+                              Qty: {item.quantity}
+                              {item.size && ` • Size: ${item.size}`}
+                              {item.color && ` • ${item.color}`}
+                            </p>
+                          </div>
+                          <p className="font-medium">₹{(item.price * item.quantity).toFixed(2)}</p>
+                        </div>
+                      ))}
+                    </div>
+
+                    {customerNotes.trim() && (
+                      <div className="text-sm">
+                        <p className="font-medium mb-1">Order Notes</p>
+                        <p className="text-muted-foreground">{customerNotes}</p>
+                      </div>
+                    )}
+
+                    <div className="flex justify-between">
+                      <Button variant="outline" onClick={() => setStep("payment")} disabled={isPlacingOrder}>
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back
+                      </Button>
+                      <Button
+                        className="btn-gold"
+                        onClick={handlePlaceOrder}
+                        disabled={isPlacingOrder || cartState.isSyncing || !!orderToPay}
+                      >
+                        {isPlacingOrder ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Placing Order...
+                          </>
+                        ) : (
+                          <>
+                            {isOnlinePaymentMethod(paymentMethod) ? "Place Order & Pay" : "Place Order"}
+                            <Check className="ml-2 h-4 w-4" />
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+
+            {/* Order Summary */}
+            <div className="lg:col-span-1">
+              <Card className="sticky top-24">
+                <CardContent className="p-6">
+                  <h2 className="font-heading text-2xl font-bold mb-6">Order Summary</h2>
+                  <div className="space-y-3">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">
+                        Subtotal ({cartState.totalItems} {cartState.totalItems === 1 ? "item" : "items"})
+                      </span>
+                      <span className="font-medium">₹{cartState.totalPrice.toFixed(2)}</span>
+                    </div>
+                    {pricing ? (
+                      <>
+                        {pricing.discount > 0 && (
+                          <div className="flex justify-between text-green-600">
+                            <span>Discount ({appliedCoupon?.code})</span>
+                            <span className="font-medium">-₹{pricing.discount.toFixed(2)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Shipping</span>
+                          <span className="font-medium">
+                            {pricing.shipping === 0 ? "FREE" : `₹${pricing.shipping.toFixed(2)}`}
+                          </span>
+                        </div>
+                        {pricing.cod_surcharge > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">COD Charges</span>
+                            <span className="font-medium">₹{pricing.cod_surcharge.toFixed(2)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">GST</span>
+                          <span className="font-medium">₹{pricing.tax.toFixed(2)}</span>
+                        </div>
+                        <div className="border-t border-border pt-3 flex justify-between">
+                          <span className="font-heading text-lg font-bold">Total</span>
+                          <span className="font-heading text-lg font-bold text-accent">₹{pricing.total.toFixed(2)}</span>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        {isPricing && <Loader2 className="h-4 w-4 animate-spin" />}
+                        {isPricing ? "Calculating shipping and GST..." : "Shipping and GST are confirmed when you place the order"}
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-xs text-center text-muted-foreground mt-6">
+                    🔒 Secure checkout • SSL encrypted
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </section>
+      </main>
+
+      <PaymentDialog order={orderToPay} onClose={handlePaymentClose} />
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Checkout;
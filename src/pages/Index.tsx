@@ -27,6 +27,7 @@ const Index = () => {
     query, 
     setQuery, 
     filteredProducts, 
+    totalResults,
     suggestions, 
     performSearch, 
     clearSearch,
@@ -61,7 +62,7 @@ const Index = () => {
                     Search Results for "{query}"
                   </h2>
                   <p className="text-muted-foreground">
-                    Found {filteredProducts.length} {filteredProducts.length === 1 ? 'product' : 'products'}
+                    Found {totalResults} {totalResults === 1 ? 'product' : 'products'}
                   </p>
                 </div>
                 <Button
@@ -4,7 +4,7 @@
  * Following Clean Architecture - uses inventory context and service
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { 
   Package, 
@@ -17,6 +17,7 @@ import {
   Download,
   RefreshCw,
   Eye,
+  EyeOff,
   Edit,
   Trash2,
   CheckCircle,
@@ -27,7 +28,9 @@ import {
   ShoppingCart,
   ArrowUp,
   ArrowDown,
-  Minus
+  Minus,
+  History,
+  Upload
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -41,6 +44,8 @@ import { Textarea } from '@/components/ui/textarea';
 import Navigation from '@/components/Navigation';
 import Footer from '@/components/Footer';
 import { useInventory } from '@/contexts/InventoryContext';
+import { getVariantLabel, hasLegacyInventory } from '@/services/inventoryService';
+import { InventoryItem, InventoryVariant, StockLevelSnapshot } from '@/types/inventory';
 import { toast } from 'sonner';
 
 const InventoryDashboard = () => {
@@ -55,19 +60,40 @@ const InventoryDashboard = () => {
     error,
     updateStock,
     adjustStock,
+    updateVariant,
     acknowledgeAlert,
     dismissAlert,
-    refreshData
+    refreshData,
+    getStockAt,
+    importLegacyInventory
   } = useInventory();
 
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [selectedStatus, setSelectedStatus] = useState('all');
   const [showStockAdjustment, setShowStockAdjustment] = useState(false);
-  const [selectedProduct, setSelectedProduct] = useState<any>(null);
+  const [selectedProduct, setSelectedProduct] = useState<InventoryItem | null>(null);
+  const [selectedVariantId, setSelectedVariantId] = useState('');
   const [adjustmentQuantity, setAdjustmentQuantity] = useState(0);
   const [adjustmentReason, setAdjustmentReason] = useState('');
   const [adjustmentNotes, setAdjustmentNotes] = useState('');
+  const [variantSettings, setVariantSettings] = useState({ minimumStock: 0, reorderPoint: 0, reorderQuantity: 0, shelf: '', bin: '' });
+  const [expandedItems, setExpandedItems] = useState<string[]>([]);
+  const [snapshotAt, setSnapshotAt] = useState('');
+  const [snapshot, setSnapshot] = useState<StockLevelSnapshot[] | null>(null);
+  const [isLoadingSnapshot, setIsLoadingSnapshot] = useState(false);
+  const [showLegacyImport, setShowLegacyImport] = useState(hasLegacyInventory());
+
+  // Product/variant labels for point-in-time snapshot rows
+  const variantLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    inventoryItems.forEach(item => {
+      item.variants.forEach(variant => {
+        labels.set(variant.id, `${item.name} (${getVariantLabel(variant)})`);
+      });
+    });
+    return labels;
+  }, [inventoryItems]);
 
   // Filter inventory items
   const filteredItems = inventoryItems.filter(item => {
@@ -82,24 +108,58 @@ const InventoryDashboard = () => {
   // Get unique categories
   const categories = ['all', ...new Set(inventoryItems.map(item => item.category))];
 
-  // Handle stock adjustment
+  const selectedVariant = selectedProduct?.variants.find(v => v.id === selectedVariantId);
+
+  const selectVariant = (variant: InventoryVariant | undefined) => {
+    setSelectedVariantId(variant?.id || '');
+    setAdjustmentQuantity(variant?.currentStock || 0);
+    setVariantSettings({
+      minimumStock: variant?.minimumStock || 0,
+      reorderPoint: variant?.reorderPoint || 0,
+      reorderQuantity: variant?.reorderQuantity || 0,
+      shelf: variant?.shelf || '',
+      bin: variant?.bin || ''
+    });
+  };
+
+  // Open the stock dialog for an item, optionally on a specific variant
+  const openStockAdjustment = (item: InventoryItem, variant?: InventoryVariant) => {
+    setSelectedProduct(item);
+    selectVariant(variant || item.variants[0]);
+    setShowStockAdjustment(true);
+  };
+
+  const toggleExpanded = (itemId: string) => {
+    setExpandedItems(prev => prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]);
+  };
+
+  // Handle stock adjustment and variant reorder/location settings
   const handleStockAdjustment = async () => {
-    if (!selectedProduct || adjustmentQuantity < 0) {
+    if (!selectedProduct || !selectedVariant || adjustmentQuantity < 0) {
       toast.error('Please enter a valid quantity');
       return;
     }
 
     try {
-      const success = await adjustStock(
+      const settingsChanged = (Object.keys(variantSettings) as Array<keyof typeof variantSettings>)
+        .some(key => variantSettings[key] !== selectedVariant[key]);
+      const settingsSaved = !settingsChanged || await updateVariant(
+        selectedProduct.productId,
+        selectedVariant.id,
+        variantSettings
+      );
+
+      const success = settingsSaved && (adjustmentQuantity === selectedVariant.currentStock || await adjustStock(
         selectedProduct.productId,
+        selectedVariant.id,
         adjustmentQuantity,
         adjustmentReason || 'Manual adjustment',
         'admin',
         adjustmentNotes
-      );
+      ));
 
       if (success) {
-        toast.success(`Stock adjusted for ${selectedProduct.name}`);
+        toast.success(`Stock updated for ${selectedProduct.name} (${getVariantLabel(selectedVariant)})`);
         setShowStockAdjustment(false);
         setSelectedProduct(null);
         setAdjustmentQuantity(0);
@@ -127,6 +187,35 @@ const InventoryDashboard = () => {
     }
   };
 
+  // Rebuild stock levels from the movement ledger as of the chosen time
+  const handleLoadSnapshot = async () => {
+    if (!snapshotAt) {
+      toast.error('Please choose a date and time');
+      return;
+    }
+
+    setIsLoadingSnapshot(true);
+    try {
+      setSnapshot(await getStockAt(new Date(snapshotAt)));
+    } catch (error) {
+      toast.error('Failed to load stock levels');
+    } finally {
+      setIsLoadingSnapshot(false);
+    }
+  };
+
+  // Move inventory kept in this browser by older versions into the shared database
+  const handleLegacyImport = async () => {
+    const imported = await importLegacyInventory();
+    if (imported === null) {
+      toast.error('Failed to import existing inventory');
+      return;
+    }
+
+    toast.success(`Imported ${imported} inventory item(s)`);
+    setShowLegacyImport(false);
+  };
+
   // Loading state
   if (isLoading) {
     return (
@@ -177,6 +266,12 @@ const InventoryDashboard = () => {
                 <p className="text-muted-foreground">Manage stock levels, track movements, and monitor alerts</p>
               </div>
               <div className="flex gap-2">
+                {showLegacyImport && (
+                  <Button variant="outline" onClick={handleLegacyImport} disabled={isUpdating}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import Existing Inventory
+                  </Button>
+                )}
                 <Button variant="outline" onClick={() => refreshData()} disabled={isUpdating}>
                   <RefreshCw className={`mr-2 h-4 w-4 ${isUpdating ? 'animate-spin' : ''}`} />
                   Refresh
@@ -355,57 +450,97 @@ const InventoryDashboard = () => {
                   {/* Inventory Items Table */}
                   <div className="space-y-4">
                     {filteredItems.map((item) => (
-                      <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div className="flex items-center gap-4">
-                          <div className="w-12 h-12 bg-muted rounded-lg flex items-center justify-center">
-                            <Package className="h-6 w-6" />
+                      <div key={item.id} className="p-4 border rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-4">
+                            <div className="w-12 h-12 bg-muted rounded-lg flex items-center justify-center">
+                              <Package className="h-6 w-6" />
+                            </div>
+                            <div>
+                              <h3 className="font-medium">{item.name}</h3>
+                              <p className="text-sm text-muted-foreground">
+                                {item.sku} • {item.category}
+                              </p>
+                              <div className="flex gap-2 mt-1">
+                                <Badge variant={item.status === 'active' ? 'default' : 'secondary'}>
+                                  {item.status}
+                                </Badge>
+                                {item.currentStock <= item.minimumStock && (
+                                  <Badge variant="destructive">Low Stock</Badge>
+                                )}
+                                {item.currentStock === 0 && (
+                                  <Badge variant="destructive">Out of Stock</Badge>
+                                )}
+                              </div>
+                            </div>
                           </div>
-                          <div>
-                            <h3 className="font-medium">{item.name}</h3>
+                        
+                          <div className="text-right">
+                            <div className="text-lg font-bold">
+                              {item.currentStock} / {item.maximumStock}
+                            </div>
                             <p className="text-sm text-muted-foreground">
-                              {item.sku} • {item.category}
+                              Min: {item.minimumStock} • Reorder: {item.reorderPoint}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              ₹{item.costPrice} • ₹{item.sellingPrice}
                             </p>
-                            <div className="flex gap-2 mt-1">
-                              <Badge variant={item.status === 'active' ? 'default' : 'secondary'}>
-                                {item.status}
-                              </Badge>
-                              {item.currentStock <= item.minimumStock && (
-                                <Badge variant="destructive">Low Stock</Badge>
-                              )}
-                              {item.currentStock === 0 && (
-                                <Badge variant="destructive">Out of Stock</Badge>
-                              )}
-                            </div>
                           </div>
-                        </div>
                         
-                        <div className="text-right">
-                          <div className="text-lg font-bold">
-                            {item.currentStock} / {item.maximumStock}
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openStockAdjustment(item)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleExpanded(item.id)}
+                              aria-label={expandedItems.includes(item.id) ? 'Hide variants' : 'Show variants'}
+                            >
+                              {expandedItems.includes(item.id) ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                            </Button>
                           </div>
-                          <p className="text-sm text-muted-foreground">
-                            Min: {item.minimumStock} • Reorder: {item.reorderPoint}
-                          </p>
-                          <p className="text-sm text-muted-foreground">
-                            ₹{item.costPrice} • ₹{item.sellingPrice}
-                          </p>
-                        </div>
-                        
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              setSelectedProduct(item);
-                              setShowStockAdjustment(true);
-                            }}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button variant="ghost" size="sm">
-                            <Eye className="h-4 w-4" />
-                          </Button>
                         </div>
+
+                        {/* Variants */}
+                        {expandedItems.includes(item.id) && (
+                          <div className="mt-4 border-t pt-4 space-y-2">
+                            {item.variants.map(variant => (
+                              <div key={variant.id} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center text-sm">
+                                <div>
+                                  <p className="font-medium">{getVariantLabel(variant)}</p>
+                                  <p className="text-xs text-muted-foreground">{variant.sku}</p>
+                                </div>
+                                <div>
+                                  <span className={variant.availableStock <= 0 ? 'text-red-600 font-bold' : 'font-bold'}>
+                                    {variant.availableStock}
+                                  </span>
+                                  <span className="text-muted-foreground"> available of {variant.currentStock}</span>
+                                </div>
+                                <p className="text-muted-foreground">
+                                  Min: {variant.minimumStock} • Reorder: {variant.reorderPoint}
+                                </p>
+                                <p className="text-muted-foreground">
+                                  Bin: {variant.shelf}-{variant.bin}
+                                </p>
+                                <div className="flex items-center justify-end gap-2">
+                                  {variant.currentStock === 0 ? (
+                                    <Badge variant="destructive">Out</Badge>
+                                  ) : variant.currentStock <= variant.minimumStock ? (
+                                    <Badge variant="destructive">Low</Badge>
+                                  ) : null}
+                                  <Button variant="outline" size="sm" onClick={() => openStockAdjustment(item, variant)}>
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -449,7 +584,7 @@ const InventoryDashboard = () => {
                             {movement.type === 'in' ? '+' : movement.type === 'out' ? '-' : ''}{movement.quantity}
                           </div>
                           <p className="text-sm text-muted-foreground">
-                            {movement.performedBy}
+                            {movement.stockAfter} in stock • {movement.performedBy}
                           </p>
                         </div>
                       </div>
@@ -457,6 +592,48 @@ const InventoryDashboard = () => {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Stock As Of
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      type="datetime-local"
+                      value={snapshotAt}
+                      onChange={(e) => setSnapshotAt(e.target.value)}
+                      className="sm:w-64"
+                    />
+                    <Button variant="outline" onClick={handleLoadSnapshot} disabled={isLoadingSnapshot}>
+                      {isLoadingSnapshot ? 'Loading...' : 'Show Stock Levels'}
+                    </Button>
+                  </div>
+
+                  {snapshot && (
+                    snapshot.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No stock had been recorded at that time</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {snapshot.map((level) => (
+                          <div key={level.variantId} className="flex items-center justify-between p-3 border rounded-lg">
+                            <div>
+                              <p className="font-medium">{variantLabels.get(level.variantId) || level.sku}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {level.sku} • last movement {level.lastMovementAt.toLocaleString()}
+                              </p>
+                            </div>
+                            <div className="font-bold">{level.stock}</div>
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  )}
+                </CardContent>
+              </Card>
             </TabsContent>
 
             {/* Reorder Suggestions Tab */}
@@ -468,7 +645,7 @@ const InventoryDashboard = () => {
                 <CardContent>
                   <div className="space-y-3">
                     {reorderSuggestions.map((suggestion) => (
-                      <div key={suggestion.productId} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div key={suggestion.variantId} className="flex items-center justify-between p-3 border rounded-lg">
                         <div className="flex items-center gap-3">
                           <Badge 
                             variant={suggestion.urgency === 'critical' ? 'destructive' : 
@@ -478,10 +655,16 @@ const InventoryDashboard = () => {
                             {suggestion.urgency}
                           </Badge>
                           <div>
-                            <p className="font-medium">{suggestion.name}</p>
+                            <p className="font-medium">
+                              {suggestion.name}
+                              {(suggestion.size || suggestion.color) && (
+                                <span className="text-muted-foreground font-normal"> • {getVariantLabel(suggestion)}</span>
+                              )}
+                            </p>
                             <p className="text-sm text-muted-foreground">
                               {suggestion.sku} • Current: {suggestion.currentStock} • Reorder Point: {suggestion.reorderPoint}
                             </p>
+                            <p className="text-xs text-muted-foreground">{suggestion.location}</p>
                           </div>
                         </div>
                         <div className="text-right">
@@ -570,6 +753,26 @@ const InventoryDashboard = () => {
             <DialogTitle>Adjust Stock - {selectedProduct?.name}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {selectedProduct && selectedProduct.variants.length > 1 && (
+              <div>
+                <Label>Variant</Label>
+                <Select
+                  value={selectedVariantId}
+                  onValueChange={(value) => selectVariant(selectedProduct.variants.find(v => v.id === value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selectedProduct.variants.map(variant => (
+                      <SelectItem key={variant.id} value={variant.id}>
+                        {getVariantLabel(variant)} ({variant.currentStock} in stock)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div>
               <Label htmlFor="quantity">New Quantity</Label>
               <Input
@@ -580,6 +783,56 @@ const InventoryDashboard = () => {
                 placeholder="Enter new stock quantity"
               />
             </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="minimumStock">Minimum</Label>
+                <Input
+                  id="minimumStock"
+                  type="number"
+                  min={0}
+                  value={variantSettings.minimumStock}
+                  onChange={(e) => setVariantSettings({ ...variantSettings, minimumStock: Number(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="reorderPoint">Reorder Point</Label>
+                <Input
+                  id="reorderPoint"
+                  type="number"
+                  min={0}
+                  value={variantSettings.reorderPoint}
+                  onChange={(e) => setVariantSettings({ ...variantSettings, reorderPoint: Number(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="reorderQuantity">Reorder Qty</Label>
+                <Input
+                  id="reorderQuantity"
+                  type="number"
+                  min={1}
+                  value={variantSettings.reorderQuantity}
+                  onChange={(e) => setVariantSettings({ ...variantSettings, reorderQuantity: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="shelf">Shelf</Label>
+                <Input
+                  id="shelf"
+                  value={variantSettings.shelf}
+                  onChange={(e) => setVariantSettings({ ...variantSettings, shelf: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="bin">Bin</Label>
+                <Input
+                  id="bin"
+                  value={variantSettings.bin}
+                  onChange={(e) => setVariantSettings({ ...variantSettings, bin: e.target.value })}
+                />
+              </div>
+            </div>
             <div>
               <Label htmlFor="reason">Reason</Label>
               <Input
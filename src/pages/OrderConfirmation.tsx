@@ -0,0 +1,185 @@
+/**
+ * Order Confirmation Page
+ * Shown after a successful checkout with the order number returned by createOrder
+ * Guest orders are looked up with the checkout email passed in the navigation state,
+ * and guests are offered an account that their orders will be attached to
+ */
+
+import { useEffect } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { CheckCircle, Package, ArrowRight, UserPlus } from "lucide-react";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { InlineLoader } from "@/components/LoadingStates";
+import { useOrders } from "@/contexts/OrderContext";
+import { useAuth } from "@/contexts/AuthContext";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+  }).format(amount);
+};
+
+const OrderConfirmation = () => {
+  const { orderNumber } = useParams();
+  const location = useLocation();
+  const { user } = useAuth();
+  const { currentOrder, isLoading, loadOrderByNumber, loadGuestOrder } = useOrders();
+  const guestEmail = (location.state as { guestEmail?: string } | null)?.guestEmail;
+  const isGuest = !user;
+
+  useEffect(() => {
+    if (!orderNumber) return;
+
+    if (isGuest) {
+      if (guestEmail) loadGuestOrder(orderNumber, guestEmail);
+    } else {
+      loadOrderByNumber(orderNumber);
+    }
+  }, [orderNumber, isGuest, guestEmail, loadGuestOrder, loadOrderByNumber]);
+
+  const order = currentOrder?.order_number === orderNumber ? currentOrder : null;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1 container mx-auto px-4 py-12">
+        <div className="max-w-2xl mx-auto">
+          <div className="text-center mb-8">
+            <CheckCircle className="h-16 w-16 text-green-600 mx-auto mb-4" />
+            <h1 className="font-heading text-3xl md:text-4xl font-bold mb-2">Thank you for your order!</h1>
+            <p className="text-muted-foreground">
+              Your order number is <span className="font-semibold text-foreground">{orderNumber}</span>
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="p-6">
+              {isLoading && !order ? (
+                <InlineLoader message="Loading order details..." />
+              ) : order ? (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    {Array.isArray(order.items) && order.items.map((item, index) => (
+                      <div key={index} className="flex items-center gap-3 text-sm">
+                        {item.image && (
+                          <img src={item.image} alt={item.name} className="w-12 h-12 object-cover rounded" />
+                        )}
+                        <div className="flex-1">
+                          <p className="font-medium">{item.name}</p>
+                          <p className="text-muted-foreground">
+                            Qty: {item.quantity}
+                            {item.size && ` • Size: ${item.size}`}
+                            {item.color && ` • ${item.color}`}
+                          </p>
+                        </div>
+                        <p className="font-medium">{formatCurrency(item.price * item.quantity)}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="border-t pt-4 space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span>{formatCurrency(order.subtotal)}</span>
+                    </div>
+                    {order.discount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Discount{order.coupon_code && ` (${order.coupon_code})`}</span>
+                        <span>-{formatCurrency(order.discount)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Shipping</span>
+                      <span>{order.shipping_cost === 0 ? "FREE" : formatCurrency(order.shipping_cost)}</span>
+                    </div>
+                    {order.cod_surcharge > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">COD Charges</span>
+                        <span>{formatCurrency(order.cod_surcharge)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">GST</span>
+                      <span>{formatCurrency(order.tax)}</span>
+                    </div>
+                    <div className="flex justify-between font-heading text-lg font-bold pt-2 border-t">
+                      <span>Total</span>
+                      <span className="text-accent">{formatCurrency(order.total)}</span>
+                    </div>
+                  </div>
+
+                  {order.shipping_address && (
+                    <div className="text-sm text-muted-foreground border-t pt-4">
+                      <p className="font-medium text-foreground mb-1">Shipping to:</p>
+                      <p>{order.shipping_address.name}</p>
+                      <p>{order.shipping_address.address_line1}</p>
+                      {order.shipping_address.address_line2 && <p>{order.shipping_address.address_line2}</p>}
+                      <p>
+                        {order.shipping_address.city}, {order.shipping_address.state} {order.shipping_address.postal_code}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-center text-muted-foreground">
+                  We've received your order and will email you a confirmation shortly.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {isGuest && (
+            <Card className="mt-6">
+              <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center gap-4">
+                <UserPlus className="h-8 w-8 text-accent shrink-0" />
+                <div className="flex-1">
+                  <p className="font-medium">Create an account</p>
+                  <p className="text-sm text-muted-foreground">
+                    Sign up with {guestEmail || "the email you checked out with"} to see this order and future orders
+                    in one place. Your guest orders are added once you verify your email.
+                  </p>
+                </div>
+                <Link to={guestEmail ? `/signup?email=${encodeURIComponent(guestEmail)}` : "/signup"}>
+                  <Button variant="outline" className="w-full sm:w-auto">Create Account</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4 justify-center mt-8">
+            {isGuest ? (
+              <Link to="/track-order" state={{ orderNumber, email: guestEmail }}>
+                <Button variant="outline" className="w-full sm:w-auto">
+                  <Package className="mr-2 h-4 w-4" />
+                  Track This Order
+                </Button>
+              </Link>
+            ) : (
+              <Link to="/orders">
+                <Button variant="outline" className="w-full sm:w-auto">
+                  <Package className="mr-2 h-4 w-4" />
+                  View My Orders
+                </Button>
+              </Link>
+            )}
+            <Link to="/shop">
+              <Button className="btn-gold w-full sm:w-auto">
+                Continue Shopping
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default OrderConfirmation;
@@ -0,0 +1,406 @@
+/**
+ * Order Detail Page
+ * Line items, price breakdown, shipping address, carrier tracking and the status timeline for one order
+ */
+
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Package, Truck, ExternalLink, CheckCircle, Circle, XCircle, FileText, Download, CreditCard } from "lucide-react";
+import { toast } from "sonner";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PageSkeleton } from "@/components/LoadingStates";
+import PaymentDialog, { PaymentOutcome } from "@/components/PaymentDialog";
+import { useOrders } from "@/contexts/OrderContext";
+import { OrderStatus } from "@/services/userActivitiesService";
+import { PAYMENT_METHOD_LABELS, isOnlinePaymentMethod } from "@/services/paymentService";
+import { DEFAULT_SELLER_NAME, generateInvoice, getInvoice, getInvoiceSettings } from "@/services/invoiceService";
+import { getTrackingUrl } from "@/utils/carriers";
+import { downloadInvoicePdf, downloadPackingSlipPdf } from "@/utils/invoicePdf";
+
+// Steps of a normal delivery, shown ahead of the order's progress
+const FULFILMENT_STEPS: OrderStatus[] = ["pending", "confirmed", "processing", "shipped", "delivered"];
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Order placed",
+  confirmed: "Confirmed",
+  processing: "Being prepared",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+// Default note written by the database when no reason was given
+const GENERIC_HISTORY_NOTE = "Status changed";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+  }).format(amount);
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+
+const OrderDetail = () => {
+  const { orderNumber } = useParams();
+  const { currentOrder, orderStatusHistory, isLoading, loadOrderByNumber, loadOrderStatusHistory } = useOrders();
+  const [downloading, setDownloading] = useState<"invoice" | "packing-slip" | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+
+  useEffect(() => {
+    if (orderNumber) {
+      loadOrderByNumber(orderNumber);
+    }
+  }, [orderNumber, loadOrderByNumber]);
+
+  const order = currentOrder?.order_number === orderNumber ? currentOrder : null;
+  const orderId = order?.id;
+  const orderStatus = order?.status;
+
+  // Reloaded when the status changes so the timeline shows the new entry
+  useEffect(() => {
+    if (orderId) {
+      loadOrderStatusHistory(orderId);
+    }
+  }, [orderId, orderStatus, loadOrderStatusHistory]);
+
+  if (isLoading && !order) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navigation />
+        <main className="flex-1">
+          <PageSkeleton />
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navigation />
+        <main className="flex-1 container mx-auto px-4 py-12 text-center">
+          <Package className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Order not found</h1>
+          <p className="text-muted-foreground mb-6">We couldn't find order {orderNumber} in your account.</p>
+          <Link to="/orders">
+            <Button variant="outline">Back to My Orders</Button>
+          </Link>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  // Issues the invoice number the first time the invoice is downloaded
+  const handleDownloadInvoice = async () => {
+    setDownloading("invoice");
+    const result = await generateInvoice(order.id);
+    setDownloading(null);
+
+    if (!result.success || !result.invoice) {
+      toast.error(result.error || "Could not generate the invoice");
+      return;
+    }
+    downloadInvoicePdf(result.invoice, order);
+  };
+
+  const handleDownloadPackingSlip = async () => {
+    setDownloading("packing-slip");
+    const [invoice, settings] = await Promise.all([getInvoice(order.id), getInvoiceSettings()]);
+    setDownloading(null);
+
+    downloadPackingSlipPdf(order, settings?.legal_name || DEFAULT_SELLER_NAME, invoice?.invoice_number);
+  };
+
+  const handlePaymentClose = async (outcome: PaymentOutcome, error?: string) => {
+    setIsPaying(false);
+
+    if (outcome === "paid") {
+      toast.success("Payment received");
+    } else if (outcome === "processing") {
+      toast.info("Your payment is being confirmed. We'll update your order shortly.");
+    } else if (outcome === "failed") {
+      toast.error(error || "Payment failed. Please try again.");
+    }
+    await loadOrderByNumber(order.order_number);
+  };
+
+  const canPay = isOnlinePaymentMethod(order.payment_method)
+    && (order.payment_status === "pending" || order.payment_status === "failed")
+    && order.status !== "cancelled";
+
+  // The database only numbers invoices for paid or delivered orders
+  const canInvoice = order.status !== "cancelled"
+    && (order.payment_status === "paid" || order.payment_status === "refunded" || order.status === "delivered");
+
+  const history = orderStatusHistory.filter(entry => entry.order_id === order.id);
+  const trackingUrl = getTrackingUrl(order.carrier, order.tracking_number);
+  const isClosed = order.status === "cancelled" || order.status === "refunded";
+  const upcomingSteps = isClosed
+    ? []
+    : FULFILMENT_STEPS.slice(FULFILMENT_STEPS.indexOf(order.status) + 1);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <Link to="/orders" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to My Orders
+            </Link>
+            <div className="flex flex-wrap items-center gap-3">
+              <h1 className="text-3xl font-bold">Order {order.order_number}</h1>
+              <Badge variant="outline">{STATUS_LABELS[order.status]}</Badge>
+            </div>
+            <p className="text-muted-foreground mt-2">Placed on {formatDateTime(order.created_at)}</p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Items */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Items</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {Array.isArray(order.items) && order.items.map((item, index) => (
+                    <div key={index} className="flex items-center gap-4">
+                      <Link to={`/product/${item.id}`}>
+                        <img src={item.image} alt={item.name} className="w-20 h-20 object-cover rounded" />
+                      </Link>
+                      <div className="flex-1">
+                        <Link to={`/product/${item.id}`} className="font-medium hover:text-accent">
+                          {item.name}
+                        </Link>
+                        <p className="text-sm text-muted-foreground">
+                          Qty: {item.quantity}
+                          {item.size && ` • Size: ${item.size}`}
+                          {item.color && ` • ${item.color}`}
+                        </p>
+                        <p className="text-sm text-muted-foreground">{formatCurrency(item.price)} each</p>
+                      </div>
+                      <p className="font-medium">{formatCurrency(item.price * item.quantity)}</p>
+                    </div>
+                  ))}
+
+                  <div className="border-t pt-4 space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span>{formatCurrency(order.subtotal)}</span>
+                    </div>
+                    {order.discount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Discount{order.coupon_code && ` (${order.coupon_code})`}</span>
+                        <span>-{formatCurrency(order.discount)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Shipping</span>
+                      <span>{order.shipping_cost === 0 ? "FREE" : formatCurrency(order.shipping_cost)}</span>
+                    </div>
+                    {order.cod_surcharge > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">COD Charges</span>
+                        <span>{formatCurrency(order.cod_surcharge)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">GST</span>
+                      <span>{formatCurrency(order.tax)}</span>
+                    </div>
+                    <div className="flex justify-between font-heading text-lg font-bold pt-2 border-t">
+                      <span>Total</span>
+                      <span className="text-accent">{formatCurrency(order.total)}</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Timeline */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Order Timeline</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ol className="relative border-l-2 border-muted ml-2 space-y-6">
+                    <li className="pl-6 relative">
+                      <CheckCircle className="h-5 w-5 text-green-600 bg-background absolute -left-[0.7rem] top-0" />
+                      <p className="font-medium">{STATUS_LABELS.pending}</p>
+                      <p className="text-sm text-muted-foreground">{formatDateTime(order.created_at)}</p>
+                    </li>
+                    {history.map(entry => {
+                      const status = entry.new_status as OrderStatus;
+                      const isNegative = status === "cancelled" || status === "refunded";
+                      return (
+                        <li key={entry.id} className="pl-6 relative">
+                          {isNegative ? (
+                            <XCircle className="h-5 w-5 text-red-600 bg-background absolute -left-[0.7rem] top-0" />
+                          ) : (
+                            <CheckCircle className="h-5 w-5 text-green-600 bg-background absolute -left-[0.7rem] top-0" />
+                          )}
+                          <p className="font-medium">{STATUS_LABELS[status] || status}</p>
+                          <p className="text-sm text-muted-foreground">{formatDateTime(entry.created_at)}</p>
+                          {entry.notes && entry.notes !== GENERIC_HISTORY_NOTE && (
+                            <p className="text-sm mt-1">{entry.notes}</p>
+                          )}
+                          {status === "shipped" && order.tracking_number && (
+                            <p className="text-sm mt-1">
+                              {order.carrier} • {order.tracking_number}
+                            </p>
+                          )}
+                        </li>
+                      );
+                    })}
+                    {upcomingSteps.map(step => (
+                      <li key={step} className="pl-6 relative">
+                        <Circle className="h-5 w-5 text-muted-foreground bg-background absolute -left-[0.7rem] top-0" />
+                        <p className="text-muted-foreground">{STATUS_LABELS[step]}</p>
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              {/* Tracking */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Truck className="h-5 w-5" />
+                    Shipment
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm space-y-2">
+                  {order.tracking_number ? (
+                    <>
+                      <p>
+                        <span className="text-muted-foreground">Carrier:</span> {order.carrier || "Courier"}
+                      </p>
+                      <p>
+                        <span className="text-muted-foreground">Tracking number:</span>{" "}
+                        <span className="font-mono">{order.tracking_number}</span>
+                      </p>
+                      {trackingUrl && (
+                        <a href={trackingUrl} target="_blank" rel="noreferrer">
+                          <Button variant="outline" size="sm" className="mt-2">
+                            Track Package
+                            <ExternalLink className="ml-2 h-4 w-4" />
+                          </Button>
+                        </a>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">
+                      {isClosed ? "This order will not be shipped." : "Tracking details will appear once your order ships."}
+                    </p>
+                  )}
+                  {order.delivered_at && (
+                    <p className="text-green-600">Delivered on {formatDateTime(order.delivered_at)}</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Address */}
+              {order.shipping_address && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Shipping Address</CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-sm text-muted-foreground">
+                    <p className="font-medium text-foreground">{order.shipping_address.name}</p>
+                    <p>{order.shipping_address.address_line1}</p>
+                    {order.shipping_address.address_line2 && <p>{order.shipping_address.address_line2}</p>}
+                    <p>
+                      {order.shipping_address.city}, {order.shipping_address.state} {order.shipping_address.postal_code}
+                    </p>
+                    <p>{order.shipping_address.phone}</p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Payment */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Payment</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm space-y-1">
+                  <p>
+                    <span className="text-muted-foreground">Method:</span>{" "}
+                    {order.payment_method ? PAYMENT_METHOD_LABELS[order.payment_method] || order.payment_method.toUpperCase() : "—"}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Status:</span>{" "}
+                    {order.payment_status.charAt(0).toUpperCase() + order.payment_status.slice(1)}
+                  </p>
+                  {order.paid_at && (
+                    <p className="text-muted-foreground">Paid on {formatDateTime(order.paid_at)}</p>
+                  )}
+                  {canPay && (
+                    <Button className="btn-gold w-full mt-3" onClick={() => setIsPaying(true)} disabled={isPaying}>
+                      <CreditCard className="mr-2 h-4 w-4" />
+                      {order.payment_status === "failed" ? "Retry Payment" : "Pay Now"}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Documents */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="h-5 w-5" />
+                    Documents
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {canInvoice && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={handleDownloadInvoice}
+                      disabled={downloading !== null}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      {downloading === "invoice" ? "Preparing..." : "GST Invoice (PDF)"}
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleDownloadPackingSlip}
+                    disabled={downloading !== null}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    {downloading === "packing-slip" ? "Preparing..." : "Packing Slip (PDF)"}
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <PaymentDialog
+        order={isPaying ? { id: order.id, orderNumber: order.order_number, total: order.total } : null}
+        onClose={handlePaymentClose}
+      />
+
+      <Footer />
+    </div>
+  );
+};
+
+export default OrderDetail;
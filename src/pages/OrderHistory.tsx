@@ -1,21 +1,81 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Package, ArrowLeft, Clock, CheckCircle, Truck, XCircle } from 'lucide-react';
+import { Package, ArrowLeft, Clock, CheckCircle, Truck, XCircle, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
 import Navigation from '@/components/Navigation';
 import Footer from '@/components/Footer';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useOrders } from '@/contexts/OrderContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { PageSkeleton } from '@/components/LoadingStates';
+import ReturnRequestDialog from '@/components/ReturnRequestDialog';
+import { Order } from '@/services/userActivitiesService';
+import {
+  ReturnRequest,
+  RETURN_STATUS_LABELS,
+  DEFAULT_RETURN_WINDOW_DAYS,
+  getUserReturns,
+  getReturnWindowDays,
+  getReturnDeadline,
+  isWithinReturnWindow,
+} from '@/services/returnService';
+import { getTrackingUrl } from '@/utils/carriers';
+
+// Orders the customer can still cancel themselves
+const CANCELLABLE_STATUSES = ['pending', 'confirmed'];
 
 const OrderHistory = () => {
-  const { orders, isLoading, loadOrders } = useOrders();
+  const { orders, isLoading, loadOrders, cancelOrder } = useOrders();
+  const { user } = useAuth();
+
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [returnWindowDays, setReturnWindowDays] = useState(DEFAULT_RETURN_WINDOW_DAYS);
+  const [cancelTarget, setCancelTarget] = useState<Order | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [returnTarget, setReturnTarget] = useState<Order | null>(null);
 
   useEffect(() => {
     loadOrders();
+    getReturnWindowDays().then(setReturnWindowDays);
   }, []);
 
+  useEffect(() => {
+    if (user) {
+      getUserReturns(user.id).then(setReturns);
+    }
+  }, [user]);
+
+  const getOrderReturns = (orderId: string) => returns.filter(request => request.order_id === orderId);
+
+  const handleCancelOrder = async () => {
+    if (!cancelTarget) return;
+    if (!cancelReason.trim()) {
+      toast.error('Please tell us why you are cancelling');
+      return;
+    }
+
+    setIsCancelling(true);
+    const success = await cancelOrder(cancelTarget.id, cancelReason);
+    setIsCancelling(false);
+
+    if (success) {
+      toast.success(`Order ${cancelTarget.order_number} cancelled`);
+      setCancelTarget(null);
+      setCancelReason('');
+    }
+  };
+
+  const handleReturnSubmitted = (request: ReturnRequest) => {
+    setReturns(prev => [request, ...prev]);
+    setReturnTarget(null);
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -179,18 +239,54 @@ const OrderHistory = () => {
                           </p>
                         </div>
                         
-                        <div className="flex gap-2">
-                          {order.tracking_number && (
-                            <Button variant="outline" size="sm">
-                              Track Order
+                        <div className="flex flex-wrap justify-end gap-2">
+                          {CANCELLABLE_STATUSES.includes(order.status) && (
+                            <Button variant="outline" size="sm" onClick={() => setCancelTarget(order)}>
+                              Cancel Order
                             </Button>
                           )}
-                          <Button variant="outline" size="sm">
-                            View Details
-                          </Button>
+                          {isWithinReturnWindow(order, returnWindowDays) && (
+                            <Button variant="outline" size="sm" onClick={() => setReturnTarget(order)}>
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Return / Exchange
+                            </Button>
+                          )}
+                          {getTrackingUrl(order.carrier, order.tracking_number) && (
+                            <a href={getTrackingUrl(order.carrier, order.tracking_number)!} target="_blank" rel="noreferrer">
+                              <Button variant="outline" size="sm">
+                                Track Order
+                              </Button>
+                            </a>
+                          )}
+                          <Link to={`/orders/${order.order_number}`}>
+                            <Button variant="outline" size="sm">
+                              View Details
+                            </Button>
+                          </Link>
                         </div>
                       </div>
 
+                      {/* Returns and exchanges */}
+                      {(getOrderReturns(order.id).length > 0 || isWithinReturnWindow(order, returnWindowDays)) && (
+                        <div className="text-sm border-t pt-3 space-y-1">
+                          {isWithinReturnWindow(order, returnWindowDays) && (
+                            <p className="text-muted-foreground">
+                              Returns and exchanges accepted until {formatDate(getReturnDeadline(order, returnWindowDays)!.toISOString())}
+                            </p>
+                          )}
+                          {getOrderReturns(order.id).map(request => (
+                            <div key={request.id} className="flex items-center justify-between">
+                              <span>
+                                {request.type === 'exchange' ? 'Exchange' : 'Return'} {request.rma_number}
+                                {' • '}{request.items.reduce((sum, item) => sum + item.quantity, 0)} item(s)
+                                {request.refund_amount !== undefined && ` • Refunded ${formatCurrency(request.refund_amount)}`}
+                              </span>
+                              <Badge variant="outline">{RETURN_STATUS_LABELS[request.status]}</Badge>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Shipping Info */}
                       {order.shipping_address && (
                         <div className="text-sm text-muted-foreground border-t pt-3">
@@ -214,6 +310,42 @@ const OrderHistory = () => {
         </div>
       </main>
 
+      {/* Cancel Order Dialog */}
+      <Dialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Order {cancelTarget?.order_number}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="cancel-reason">Reason for cancelling</Label>
+              <Textarea
+                id="cancel-reason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder="e.g. Ordered the wrong size"
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCancelTarget(null)}>
+                Keep Order
+              </Button>
+              <Button variant="destructive" onClick={handleCancelOrder} disabled={isCancelling}>
+                {isCancelling ? 'Cancelling...' : 'Cancel Order'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ReturnRequestDialog
+        order={returnTarget}
+        existingReturns={returnTarget ? getOrderReturns(returnTarget.id) : []}
+        onClose={() => setReturnTarget(null)}
+        onSubmitted={handleReturnSubmitted}
+      />
+
       <Footer />
     </div>
   );
@@ -1,43 +1,184 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import ProductCard from "@/components/ProductCard";
+import ProductReviews from "@/components/ProductReviews";
+import { SizeGuide } from "@/components/SizeGuide";
+import { PageSkeleton } from "@/components/LoadingStates";
 import { Button } from "@/components/ui/button";
-import { Heart, ShoppingBag, Truck, Shield, RotateCcw, Star } from "lucide-react";
+import { Heart, ShoppingBag, Truck, Shield, RotateCcw, Star, PackageX } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { useProducts } from "@/contexts/ProductContext";
+import { useInventory } from "@/contexts/InventoryContext";
+import { useCart } from "@/contexts/CartContext";
+import { useFavorites } from "@/contexts/FavoritesContext";
+import { Product } from "@/types/product";
+import { ColorSwatch } from "@/components/ColorSwatch";
+import { useColorTaxonomy } from "@/hooks/useColorTaxonomy";
+import { getPricingSettings } from "@/services/pricingService";
+import { findVariant } from "@/services/inventoryService";
+import { getProductImageUrl, getProductImageSrcSet } from "@/services/productImageService";
+import { getSalePrice } from "@/utils/orderTotals";
 
-// Use string paths instead of imports to avoid Rollup build issues
-const product1 = "/src/assets/product-1.jpg";
-const product2 = "/src/assets/product-2.jpg";
-const product3 = "/src/assets/product-3.jpg";
+const RELATED_PRODUCTS_LIMIT = 4;
+
+/**
+ * Pick the size chart that matches the product's department
+ */
+const getSizeGuideCategory = (product: Product): "women" | "men" | "kids" => {
+  if (product.category === "Kids Wear") return "kids";
+  if (product.category === "Men's Kurtas" || product.category === "Sherwanis") return "men";
+  return "women";
+};
+
+/**
+ * Rank other products by shared category and overlapping occasions
+ */
+const getRelatedProducts = (product: Product, products: Product[]): Product[] => {
+  const occasions = product.occasion || [];
+
+  return products
+    .filter(candidate => candidate.id !== product.id)
+    .map(candidate => {
+      const sharedOccasions = (candidate.occasion || []).filter(o => occasions.includes(o)).length;
+      const score = (candidate.category === product.category ? 2 : 0) + sharedOccasions;
+      return { candidate, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RELATED_PRODUCTS_LIMIT)
+    .map(({ candidate }) => candidate);
+};
 
 const ProductDetail = () => {
   const { id } = useParams();
+  const { products, isLoading, refreshProducts } = useProducts();
+  const { inventoryItems } = useInventory();
+  const { addToCart } = useCart();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const { getColorFamily } = useColorTaxonomy();
+
   const [selectedSize, setSelectedSize] = useState("");
+  const [selectedColor, setSelectedColor] = useState("");
   const [quantity, setQuantity] = useState(1);
   const [selectedImage, setSelectedImage] = useState(0);
-  const [isWishlisted, setIsWishlisted] = useState(false);
-
-  // Mock product data
-  const product = {
-    id: 1,
-    name: "Elegant Cream Dress",
-    price: 189.99,
-    description: "A timeless piece crafted from premium fabrics, this elegant cream dress combines sophistication with comfort. Perfect for both formal occasions and upscale casual events.",
-    images: [product1, product1, product1],
-    category: "Women's Wear",
-    sizes: ["XS", "S", "M", "L", "XL"],
-    colors: ["Cream", "Blush", "Charcoal"],
-    inStock: true,
-    rating: 4.5,
-    reviews: 128,
-  };
+  const [isAdding, setIsAdding] = useState(false);
+  const [freeShippingThreshold, setFreeShippingThreshold] = useState<number | null>(null);
+
+  const product = useMemo(
+    () => products.find(p => p.id === Number(id)),
+    [products, id]
+  );
+
+  const relatedProducts = useMemo(
+    () => (product ? getRelatedProducts(product, products) : []),
+    [product, products]
+  );
+
+  useEffect(() => {
+    getPricingSettings().then(settings => {
+      if (settings) setFreeShippingThreshold(settings.free_shipping_threshold);
+    });
+  }, []);
+
+  // Reset selections when navigating between products
+  useEffect(() => {
+    setSelectedSize(product?.sizes?.length === 1 ? product.sizes[0] : "");
+    setSelectedColor(product?.colors?.length === 1 ? product.colors[0] : "");
+    setQuantity(1);
+    setSelectedImage(0);
+  }, [product]);
+
+  if (isLoading && !product) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navigation />
+        <main className="flex-1">
+          <PageSkeleton />
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navigation />
+        <main className="flex-1 container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <div className="text-center max-w-md mx-auto">
+            <PackageX className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h1 className="font-heading text-3xl font-bold mb-4">Product not found</h1>
+            <p className="text-muted-foreground mb-8">
+              This product may have been removed or is no longer available.
+            </p>
+            <Link to="/shop">
+              <Button className="btn-gold">Continue Shopping</Button>
+            </Link>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const images = product.images?.length ? product.images : [product.image];
+  const sizes = product.sizes || [];
+  const colors = product.colors || [];
+  const discountedPrice = product.discount
+    ? getSalePrice(product.price, product.discount)
+    : null;
+
+  // Inventory is the source of truth when the product is tracked, otherwise fall back to the catalog flag
+  const inventoryItem = inventoryItems.find(item => item.productId === product.id);
+
+  // Stock for a size × color combination ('' when the product has no sizes/colors)
+  const getVariantStock = (size: string, color: string): number =>
+    inventoryItem ? findVariant(inventoryItem, size, color)?.availableStock ?? 0 : 0;
+
+  const isCombinationAvailable = (size: string, color: string): boolean =>
+    inventoryItem ? getVariantStock(size, color) > 0 : product.inStock !== false;
+
+  // A size/color option is selectable if it is available with the other selection (or any option of it)
+  const isSizeAvailable = (size: string): boolean =>
+    (selectedColor ? [selectedColor] : colors.length ? colors : [""]).some(color => isCombinationAvailable(size, color));
+  const isColorAvailable = (color: string): boolean =>
+    (selectedSize ? [selectedSize] : sizes.length ? sizes : [""]).some(size => isCombinationAvailable(size, color));
+
+  const isSelectionComplete = (sizes.length === 0 || !!selectedSize) && (colors.length === 0 || !!selectedColor);
+  const availableStock = !inventoryItem
+    ? null
+    : isSelectionComplete
+      ? getVariantStock(selectedSize, selectedColor)
+      : inventoryItem.availableStock;
+  const isInStock = availableStock !== null ? availableStock > 0 : product.inStock !== false;
+  const maxQuantity = availableStock !== null ? availableStock : Infinity;
+
+  const handleAddToCart = async () => {
+    if (sizes.length > 0 && !selectedSize) {
+      toast.error("Please select a size");
+      return;
+    }
+    if (colors.length > 0 && !selectedColor) {
+      toast.error("Please select a color");
+      return;
+    }
 
-  const relatedProducts = [
-    { id: 2, name: "Blush Pink Blazer", price: 249.99, image: product2, category: "Gowns" as const, subcategory: "Indo-Western" as const, discount: 20 },
-    { id: 3, name: "Gold Accessories Set", price: 129.99, image: product3, category: "Jewelry" as const, subcategory: "Accessories" as const, isNew: true },
-  ];
+    if (!isInStock) {
+      toast.error("This combination is out of stock");
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      // The chosen quantity may exceed what the newly selected variant has left
+      await addToCart(product, selectedSize || undefined, selectedColor || undefined, Math.min(quantity, maxQuantity));
+    } finally {
+      setIsAdding(false);
+    }
+  };
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -51,6 +192,10 @@ const ProductDetail = () => {
             <span className="mx-2">/</span>
             <Link to="/shop" className="hover:text-accent">Shop</Link>
             <span className="mx-2">/</span>
+            <Link to={`/shop?category=${encodeURIComponent(product.category)}`} className="hover:text-accent">
+              {product.category}
+            </Link>
+            <span className="mx-2">/</span>
             <span className="text-foreground">{product.name}</span>
           </nav>
         </div>
@@ -62,28 +207,32 @@ const ProductDetail = () => {
             <div>
               <div className="mb-4 rounded-lg overflow-hidden bg-muted aspect-[4/5]">
                 <img
-                  src={product.images[selectedImage]}
+                  src={getProductImageUrl(images[selectedImage] || product.image, "large")}
+                  srcSet={getProductImageSrcSet(images[selectedImage] || product.image)}
+                  sizes="(min-width: 1024px) 50vw, 100vw"
                   alt={product.name}
                   className="w-full h-full object-cover"
                 />
               </div>
-              <div className="grid grid-cols-3 gap-4">
-                {product.images.map((image, index) => (
-                  <button
-                    key={index}
-                    onClick={() => setSelectedImage(index)}
-                    className={`rounded-lg overflow-hidden aspect-[4/5] ${
-                      selectedImage === index ? "ring-2 ring-accent" : ""
-                    }`}
-                  >
-                    <img
-                      src={image}
-                      alt={`${product.name} view ${index + 1}`}
-                      className="w-full h-full object-cover hover:scale-110 transition-transform duration-300"
-                    />
-                  </button>
-                ))}
-              </div>
+              {images.length > 1 && (
+                <div className="grid grid-cols-3 gap-4">
+                  {images.map((image, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setSelectedImage(index)}
+                      className={`rounded-lg overflow-hidden aspect-[4/5] ${
+                        selectedImage === index ? "ring-2 ring-accent" : ""
+                      }`}
+                    >
+                      <img
+                        src={getProductImageUrl(image, "thumbnail")}
+                        alt={`${product.name} view ${index + 1}`}
+                        className="w-full h-full object-cover hover:scale-110 transition-transform duration-300"
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Product Info */}
@@ -91,50 +240,103 @@ const ProductDetail = () => {
               <div className="mb-4">
                 <p className="text-sm text-accent uppercase tracking-wide mb-2">{product.category}</p>
                 <h1 className="font-heading text-3xl md:text-4xl font-bold mb-4">{product.name}</h1>
-                
+
                 {/* Rating */}
-                <div className="flex items-center gap-2 mb-4">
-                  <div className="flex">
-                    {[...Array(5)].map((_, i) => (
-                      <Star
-                        key={i}
-                        className={`h-4 w-4 ${
-                          i < Math.floor(product.rating)
-                            ? "fill-accent text-accent"
-                            : "text-muted-foreground"
-                        }`}
-                      />
-                    ))}
+                {product.rating !== undefined && (
+                  <div className="flex items-center gap-2 mb-4">
+                    <div className="flex">
+                      {[...Array(5)].map((_, i) => (
+                        <Star
+                          key={i}
+                          className={`h-4 w-4 ${
+                            i < Math.floor(product.rating)
+                              ? "fill-accent text-accent"
+                              : "text-muted-foreground"
+                          }`}
+                        />
+                      ))}
+                    </div>
+                    <span className="text-sm text-muted-foreground">
+                      {product.rating} ({product.reviews || 0} reviews)
+                    </span>
                   </div>
-                  <span className="text-sm text-muted-foreground">
-                    {product.rating} ({product.reviews} reviews)
-                  </span>
+                )}
+
+                <div className="flex items-baseline gap-3 mb-2">
+                  {discountedPrice ? (
+                    <>
+                      <p className="font-heading text-3xl font-bold">₹{discountedPrice.toFixed(0)}</p>
+                      <p className="text-lg text-muted-foreground line-through">₹{product.price.toFixed(0)}</p>
+                      <span className="text-sm font-medium text-accent">{product.discount}% off</span>
+                    </>
+                  ) : (
+                    <p className="font-heading text-3xl font-bold">₹{product.price.toFixed(0)}</p>
+                  )}
                 </div>
 
-                <p className="font-heading text-3xl font-bold mb-6">${product.price}</p>
+                {/* Availability */}
+                <p className={`text-sm font-medium mb-6 ${isInStock ? "text-green-600" : "text-destructive"}`}>
+                  {!isInStock
+                    ? "Out of stock"
+                    : availableStock !== null && availableStock <= 5
+                      ? `Only ${availableStock} left in stock`
+                      : "In stock"}
+                </p>
               </div>
 
-              <p className="text-muted-foreground mb-6 leading-relaxed">{product.description}</p>
+              {product.description && (
+                <p className="text-muted-foreground mb-6 leading-relaxed">{product.description}</p>
+              )}
 
               {/* Size Selection */}
-              <div className="mb-6">
-                <div className="flex justify-between items-center mb-3">
-                  <label className="font-medium">Size</label>
-                  <button className="text-sm text-accent hover:underline">Size Guide</button>
+              {sizes.length > 0 && (
+                <div className="mb-6">
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="font-medium">
+                      Size{selectedSize && <span className="text-muted-foreground font-normal">: {selectedSize}</span>}
+                    </label>
+                    <SizeGuide category={getSizeGuideCategory(product)} className="text-accent" />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {sizes.map((size) => (
+                      <Button
+                        key={size}
+                        variant={selectedSize === size ? "default" : "outline"}
+                        className={selectedSize === size ? "btn-boutique" : "hover:border-accent disabled:line-through"}
+                        onClick={() => setSelectedSize(size)}
+                        disabled={selectedSize !== size && !isSizeAvailable(size)}
+                        title={isSizeAvailable(size) ? undefined : "Unavailable in this combination"}
+                      >
+                        {size}
+                      </Button>
+                    ))}
+                  </div>
                 </div>
-                <div className="flex flex-wrap gap-2">
-                  {product.sizes.map((size) => (
-                    <Button
-                      key={size}
-                      variant={selectedSize === size ? "default" : "outline"}
-                      className={selectedSize === size ? "btn-boutique" : "hover:border-accent"}
-                      onClick={() => setSelectedSize(size)}
-                    >
-                      {size}
-                    </Button>
-                  ))}
+              )}
+
+              {/* Color Selection */}
+              {colors.length > 0 && (
+                <div className="mb-6">
+                  <label className="font-medium block mb-3">
+                    Color{selectedColor && <span className="text-muted-foreground font-normal">: {selectedColor}</span>}
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {colors.map((color) => (
+                      <Button
+                        key={color}
+                        variant={selectedColor === color ? "default" : "outline"}
+                        className={selectedColor === color ? "btn-boutique" : "hover:border-accent disabled:line-through"}
+                        onClick={() => setSelectedColor(color)}
+                        disabled={selectedColor !== color && !isColorAvailable(color)}
+                        title={isColorAvailable(color) ? undefined : "Unavailable in this combination"}
+                      >
+                        <ColorSwatch hex={getColorFamily(color)?.hex ?? null} name={color} className="mr-2" />
+                        {color}
+                      </Button>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Quantity */}
               <div className="mb-6">
@@ -144,6 +346,7 @@ const ProductDetail = () => {
                     variant="outline"
                     size="icon"
                     onClick={() => setQuantity(Math.max(1, quantity - 1))}
+                    disabled={!isInStock || quantity <= 1}
                   >
                     -
                   </Button>
@@ -151,7 +354,8 @@ const ProductDetail = () => {
                   <Button
                     variant="outline"
                     size="icon"
-                    onClick={() => setQuantity(quantity + 1)}
+                    onClick={() => setQuantity(Math.min(maxQuantity, quantity + 1))}
+                    disabled={!isInStock || quantity >= maxQuantity}
                   >
                     +
                   </Button>
@@ -160,17 +364,22 @@ const ProductDetail = () => {
 
               {/* Actions */}
               <div className="flex flex-col sm:flex-row gap-4 mb-8">
-                <Button size="lg" className="btn-gold flex-1">
+                <Button
+                  size="lg"
+                  className="btn-gold flex-1"
+                  onClick={handleAddToCart}
+                  disabled={!isInStock || isAdding}
+                >
                   <ShoppingBag className="mr-2 h-5 w-5" />
-                  Add to Cart
+                  {isInStock ? "Add to Cart" : "Out of Stock"}
                 </Button>
                 <Button
                   size="lg"
                   variant="outline"
-                  onClick={() => setIsWishlisted(!isWishlisted)}
+                  onClick={() => toggleFavorite(product)}
                   className="hover:border-accent"
                 >
-                  <Heart className={`h-5 w-5 ${isWishlisted ? "fill-accent text-accent" : ""}`} />
+                  <Heart className={`h-5 w-5 ${isFavorite(product.id) ? "fill-accent text-accent" : ""}`} />
                 </Button>
               </div>
 
@@ -180,7 +389,11 @@ const ProductDetail = () => {
                   <Truck className="h-5 w-5 text-accent mt-0.5" />
                   <div>
                     <p className="font-medium">Free Shipping</p>
-                    <p className="text-sm text-muted-foreground">On orders over $100</p>
+                    <p className="text-sm text-muted-foreground">
+                      {freeShippingThreshold !== null
+                        ? `On orders over ₹${freeShippingThreshold}`
+                        : "On eligible orders"}
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
@@ -207,58 +420,53 @@ const ProductDetail = () => {
               <TabsList className="grid w-full grid-cols-3 max-w-[600px]">
                 <TabsTrigger value="description">Description</TabsTrigger>
                 <TabsTrigger value="details">Details</TabsTrigger>
-                <TabsTrigger value="reviews">Reviews ({product.reviews})</TabsTrigger>
+                <TabsTrigger value="reviews">Reviews ({product.reviews || 0})</TabsTrigger>
               </TabsList>
               <TabsContent value="description" className="mt-6">
                 <div className="prose max-w-none">
                   <p className="text-muted-foreground leading-relaxed">
-                    {product.description}
-                  </p>
-                  <p className="text-muted-foreground leading-relaxed mt-4">
-                    Crafted with meticulous attention to detail, this piece represents the pinnacle of contemporary fashion. 
-                    The premium fabric ensures both comfort and durability, while the timeless design guarantees versatility 
-                    in your wardrobe for years to come.
+                    {product.description || "No description available for this product."}
                   </p>
                 </div>
               </TabsContent>
               <TabsContent value="details" className="mt-6">
                 <div className="space-y-2">
-                  <div className="flex border-b border-border py-3">
-                    <span className="font-medium w-1/3">Material</span>
-                    <span className="text-muted-foreground">Premium Cotton Blend</span>
-                  </div>
-                  <div className="flex border-b border-border py-3">
-                    <span className="font-medium w-1/3">Care Instructions</span>
-                    <span className="text-muted-foreground">Machine wash cold, tumble dry low</span>
-                  </div>
-                  <div className="flex border-b border-border py-3">
-                    <span className="font-medium w-1/3">Origin</span>
-                    <span className="text-muted-foreground">Made in Italy</span>
-                  </div>
-                  <div className="flex border-b border-border py-3">
-                    <span className="font-medium w-1/3">SKU</span>
-                    <span className="text-muted-foreground">JB-{product.id}-2025</span>
-                  </div>
+                  {[
+                    { label: "Fabric", value: product.fabric },
+                    { label: "Occasion", value: product.occasion?.join(", ") },
+                    { label: "Care Instructions", value: product.careInstructions },
+                    { label: "Origin", value: product.origin },
+                    { label: "SKU", value: product.sku },
+                  ]
+                    .filter(detail => detail.value)
+                    .map(detail => (
+                      <div key={detail.label} className="flex border-b border-border py-3">
+                        <span className="font-medium w-1/3">{detail.label}</span>
+                        <span className="text-muted-foreground">{detail.value}</span>
+                      </div>
+                    ))}
                 </div>
               </TabsContent>
               <TabsContent value="reviews" className="mt-6">
-                <p className="text-muted-foreground">Customer reviews will be displayed here.</p>
+                <ProductReviews product={product} onReviewCreated={refreshProducts} />
               </TabsContent>
             </Tabs>
           </div>
         </section>
 
         {/* Related Products */}
-        <section className="py-16 bg-muted">
-          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
-            <h2 className="font-heading text-3xl font-bold mb-8">You May Also Like</h2>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-              {relatedProducts.map((product) => (
-                <ProductCard key={product.id} product={product} />
-              ))}
+        {relatedProducts.length > 0 && (
+          <section className="py-16 bg-muted">
+            <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+              <h2 className="font-heading text-3xl font-bold mb-8">You May Also Like</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                {relatedProducts.map((related) => (
+                  <ProductCard key={related.id} product={related} />
+                ))}
+              </div>
             </div>
-          </div>
-        </section>
+          </section>
+        )}
       </main>
 
       <Footer />
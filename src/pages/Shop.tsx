@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useSearchParams } from "react-router-dom";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import ProductCard from "@/components/ProductCard";
@@ -17,10 +17,15 @@ import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { FilterSidebar } from "@/components/filters/FilterSidebar";
 import { SearchBar } from "@/components/SearchBar";
 import { SearchResultHighlight } from "@/components/SearchResultHighlight";
-import { useSearch } from "@/hooks/useSearch";
-import { usePagination } from "@/hooks/usePagination";
-import { getFilterOptions, SORT_OPTIONS, getAllProducts } from "@/services/productService";
-import { getPopularSearches } from "@/services/searchService";
+import { DEFAULT_FILTERS, useSearch } from "@/hooks/useSearch";
+import { useColorTaxonomy } from "@/hooks/useColorTaxonomy";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { getFilterOptions, SORT_OPTIONS } from "@/services/productService";
+import { useProducts } from "@/contexts/ProductContext";
+import { trackSearchClick } from "@/services/searchService";
+import { Collection, getCollectionBySlug, getCollectionForQuery } from "@/services/collectionService";
+import { ShopUrlState, parseShopUrlState, buildShopSearchParams } from "@/utils/shopUrlState";
+import { ProductFilter } from "@/types/product";
 
 // Use string paths instead of imports to avoid Rollup build issues
 const saree1 = "/src/assets/saree-1.jpg";
@@ -36,97 +41,203 @@ const dupatta1 = "/src/assets/dupatta-1.jpg";
 const kidsLehenga = "/src/assets/kids-lehenga.jpg";
 const indoWesternGown = "/src/assets/indo-western-gown.jpg";
 
+const DEFAULT_SORT = "featured";
+
 const Shop = () => {
   const [searchParams, setSearchParams] = useSearchParams();
+  const { slug } = useParams<{ slug: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [showMobileFilters, setShowMobileFilters] = useState(false);
+  const [collection, setCollection] = useState<Collection | null>(null);
+  // Last search checked against the collections' trigger queries
+  const checkedQueryRef = useRef<string | null>(null);
   
-  // Get all products from expanded catalog
-  const allProducts = getAllProducts();
+  // Get all products from the shared catalog
+  const { products: allProducts } = useProducts();
   
-  // Use search hook for global state management
+  // Use search hook for global state management; results are paginated by the database
   const {
     query,
     setQuery,
     performSearch,
     searchResults,
     filteredProducts,
+    totalResults,
+    facets,
     filters,
     setFilters,
-    clearFilters,
     sortBy,
     setSortBy,
     suggestions,
-    isSearching
-  } = useSearch();
-  
-  // Use pagination hook
-  const {
-    currentPage,
+    popularSearches,
+    searchId,
+    isSearching,
+    page: currentPage,
     totalPages,
-    paginatedItems,
-    totalItems,
-    goToPage,
-    nextPage,
-    prevPage,
-    canGoNext,
-    canGoPrev,
-    startIndex,
-    endIndex,
-  } = usePagination({
-    items: filteredProducts,
-    itemsPerPage: 12,
-  });
-  
-  const popularSearches = getPopularSearches();
+    pageSize,
+    setPage,
+  } = useSearch({ browse: true, trackSearches: !slug });
+
+  const totalItems = totalResults;
+  const startIndex = totalItems === 0 ? 0 : (currentPage - 1) * pageSize + 1;
+  const endIndex = Math.min(currentPage * pageSize, totalItems);
+  const canGoPrev = currentPage > 1;
+  const canGoNext = currentPage < totalPages;
+
   const filterOptions = getFilterOptions(allProducts);
+  const { families: colorFamilies } = useColorTaxonomy();
 
-  // Handle URL search params
-  useEffect(() => {
-    const searchQuery = searchParams.get('search');
-    const category = searchParams.get('category');
-    
-    if (searchQuery) {
-      setQuery(searchQuery);
-      performSearch(searchQuery);
+  // The state a bare URL shows: the whole catalog, or the collection's own search and filters.
+  // The URL only records how the shopper's view differs from it.
+  const baseState = useMemo<ShopUrlState>(
+    () => collection
+      ? {
+          query: collection.search_query,
+          filters: { ...DEFAULT_FILTERS, ...collection.filters },
+          sortBy: DEFAULT_SORT,
+          page: 1,
+        }
+      : { query: "", filters: DEFAULT_FILTERS, sortBy: DEFAULT_SORT, page: 1 },
+    [collection]
+  );
+  const urlState = useMemo(() => parseShopUrlState(searchParams, baseState), [searchParams, baseState]);
+  // Collection pages wait for the collection before reading the URL
+  const isReady = !slug || collection?.slug === slug;
+
+  // Record a change of view in the URL; the URL is the source of truth for the results.
+  // Anything that changes what is listed starts again from the first page.
+  const updateUrl = useCallback((changes: Partial<ShopUrlState>, options: { replace?: boolean } = {}) => {
+    const nextState = { ...urlState, page: 1, ...changes };
+    setSearchParams(buildShopSearchParams(nextState, baseState), { replace: options.replace });
+  }, [urlState, baseState, setSearchParams]);
+
+  const goToPage = (page: number) => {
+    if (page >= 1 && page <= totalPages) {
+      updateUrl({ page });
+      window.scrollTo({ top: 0, behavior: "smooth" });
     }
-    
-    if (category) {
-      setFilters({
-        ...filters,
-        categories: [category as any]
+  };
+
+  // Load the collection for /collections/:slug
+  useEffect(() => {
+    setCollection(null);
+    if (!slug) return;
+
+    let isCurrent = true;
+    getCollectionBySlug(slug).then((found) => {
+      if (!isCurrent) return;
+      if (!found) {
+        navigate("/shop", { replace: true });
+        return;
+      }
+      setCollection(found);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [slug, navigate]);
+
+  // Show the view the URL describes, on load and on back/forward.
+  // The other dependencies change together with urlState or keep their identity.
+  useEffect(() => {
+    if (!isReady) return;
+    let isCurrent = true;
+
+    const applyUrlState = () => {
+      // The setters go back to page 1, so the page is set last
+      setQuery(urlState.query);
+      setFilters(urlState.filters);
+      setSortBy(urlState.sortBy);
+      setPage(urlState.page);
+
+      // Rewrite legacy and hand-written URLs in their canonical form
+      const normalized = buildShopSearchParams(urlState, baseState);
+      if (normalized.toString() !== searchParams.toString()) {
+        setSearchParams(normalized, { replace: true });
+      }
+    };
+
+    const searchQuery = searchParams.get("search")?.trim();
+    if (!collection && searchQuery && searchQuery !== checkedQueryRef.current) {
+      // Searches an admin has curated a collection for land on the collection
+      getCollectionForQuery(searchQuery).then((match) => {
+        if (!isCurrent) return;
+        if (match) {
+          navigate(`/collections/${match.slug}`, { replace: true });
+        } else {
+          checkedQueryRef.current = searchQuery;
+          applyUrlState();
+        }
       });
+    } else {
+      applyUrlState();
+    }
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [urlState, isReady, baseState, collection, searchParams, navigate, setSearchParams, setQuery, setFilters, setSortBy, setPage]);
+
+  // A shared link can point past the last page once products sell out
+  useEffect(() => {
+    if (!isSearching && filteredProducts.length === 0 && totalPages > 0 && currentPage > totalPages) {
+      updateUrl({ page: totalPages }, { replace: true });
     }
-  }, [searchParams]);
+  }, [isSearching, filteredProducts, totalPages, currentPage, updateUrl]);
 
   // Handle search with URL updates
   const handleSearch = (searchQuery: string) => {
-    performSearch(searchQuery);
-    const newParams = new URLSearchParams(searchParams);
-    if (searchQuery) {
-      newParams.set('search', searchQuery);
-    } else {
-      newParams.delete('search');
+    // Searching from a collection leaves it for the whole catalog
+    if (collection) {
+      navigate(searchQuery ? `/shop?search=${encodeURIComponent(searchQuery)}` : "/shop");
+      return;
     }
-    setSearchParams(newParams);
+
+    if (!searchQuery) {
+      performSearch("");
+    }
+    updateUrl({ query: searchQuery });
   };
 
   // Handle filter changes with URL updates
-  const handleFiltersChange = (newFilters: any) => {
-    setFilters(newFilters);
-    const newParams = new URLSearchParams(searchParams);
-    
-    // Update URL with active filters
-    if (newFilters.categories.length > 0) {
-      newParams.set('category', newFilters.categories[0]);
-    } else {
-      newParams.delete('category');
-    }
-    
-    setSearchParams(newParams);
+  const handleFiltersChange = (newFilters: ProductFilter) => {
+    // Dragging the price slider replaces the entry instead of adding one per step
+    const onlyPriceChanged = (Object.keys(newFilters) as (keyof ProductFilter)[]).every(
+      key => key === "priceRange" || newFilters[key] === urlState.filters[key]
+    );
+    updateUrl({ filters: newFilters }, { replace: onlyPriceChanged });
+  };
+
+  const handleClearFilters = () => {
+    updateUrl({ filters: baseState.filters });
+  };
+
+  const handleSortChange = (sort: string) => {
+    updateUrl({ sortBy: sort });
   };
 
   // Get current search query from URL
-  const currentSearchQuery = searchParams.get('search') || '';
+  const currentSearchQuery = searchParams.get("search") || "";
+
+  const pageTitle = collection
+    ? collection.title
+    : currentSearchQuery ? `Search Results for "${currentSearchQuery}"` : "Shop All Collections";
+
+  // Search engines index each filtered view once, without the sort order
+  const canonicalParams = buildShopSearchParams(urlState, baseState, { canonical: true }).toString();
+  usePageMeta({
+    title: `${pageTitle} | Swathi Botique`,
+    canonicalPath: `${location.pathname}${canonicalParams ? `?${canonicalParams}` : ""}`,
+  });
+
+  // Log which result was opened for search analytics
+  const handleProductClick = (productId: number, index: number) => {
+    if (searchId) {
+      trackSearchClick(searchId, productId, (currentPage - 1) * pageSize + index + 1);
+    }
+  };
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -137,12 +248,14 @@ const Shop = () => {
         <section className="bg-muted py-12">
           <div className="container mx-auto px-4 sm:px-6 lg:px-8">
             <h1 className="font-heading text-4xl md:text-5xl font-bold mb-4">
-              {currentSearchQuery ? `Search Results for "${currentSearchQuery}"` : "Shop All Collections"}
+              {pageTitle}
             </h1>
             <p className="text-muted-foreground">
-              {currentSearchQuery 
-                ? `Found ${totalItems} products matching your search`
-                : `Discover our exquisite range of ${totalItems} ethnic and fusion wear items`
+              {collection
+                ? collection.description || `${totalItems} handpicked pieces`
+                : currentSearchQuery 
+                  ? `Found ${totalItems} products matching your search`
+                  : `Discover our exquisite range of ${totalItems} ethnic and fusion wear items`
               }
             </p>
             
@@ -196,19 +309,20 @@ const Shop = () => {
                     <FilterSidebar
                       filters={filters}
                       onFiltersChange={handleFiltersChange}
-                      onClearFilters={clearFilters}
+                      onClearFilters={handleClearFilters}
                       availableCategories={filterOptions.categories}
                       availableSubcategories={filterOptions.subcategories}
                       availableOccasions={filterOptions.occasions}
                       availableFabrics={filterOptions.fabrics}
                       availableSizes={filterOptions.sizes}
-                      availableColors={filterOptions.colors}
+                      availableColors={colorFamilies}
+                      facets={facets}
                     />
                   </SheetContent>
                 </Sheet>
 
                 {/* Sort */}
-                <Select value={sortBy} onValueChange={setSortBy}>
+                <Select value={sortBy} onValueChange={handleSortChange}>
                   <SelectTrigger className="w-full sm:w-[180px]">
                     <SelectValue placeholder="Sort by" />
                   </SelectTrigger>
@@ -231,24 +345,29 @@ const Shop = () => {
                   <FilterSidebar
                     filters={filters}
                     onFiltersChange={handleFiltersChange}
-                    onClearFilters={clearFilters}
+                    onClearFilters={handleClearFilters}
                     availableCategories={filterOptions.categories}
                     availableSubcategories={filterOptions.subcategories}
                     availableOccasions={filterOptions.occasions}
                     availableFabrics={filterOptions.fabrics}
                     availableSizes={filterOptions.sizes}
-                    availableColors={filterOptions.colors}
+                    availableColors={colorFamilies}
+                    facets={facets}
                   />
                 </div>
               </aside>
 
               {/* Products Grid */}
               <div className="flex-1">
-                {paginatedItems.length > 0 ? (
+                {filteredProducts.length > 0 ? (
                   <>
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                      {paginatedItems.map((product) => (
-                        <ProductCard key={product.id} product={product} />
+                      {filteredProducts.map((product, index) => (
+                        <ProductCard
+                          key={product.id}
+                          product={product}
+                          onClick={() => handleProductClick(product.id, index)}
+                        />
                       ))}
                     </div>
 
@@ -259,8 +378,8 @@ const Shop = () => {
                           currentPage={currentPage}
                           totalPages={totalPages}
                           onPageChange={goToPage}
-                          onNext={nextPage}
-                          onPrev={prevPage}
+                          onNext={() => goToPage(currentPage + 1)}
+                          onPrev={() => goToPage(currentPage - 1)}
                           canGoNext={canGoNext}
                           canGoPrev={canGoPrev}
                         />
@@ -283,7 +402,7 @@ const Shop = () => {
                           Clear Search
                         </Button>
                       )}
-                      <Button onClick={clearFilters} variant="outline">
+                      <Button onClick={handleClearFilters} variant="outline">
                         Clear Filters
                       </Button>
                     </div>
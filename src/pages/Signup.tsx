@@ -4,7 +4,7 @@
  */
 
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,11 +18,13 @@ import Footer from '@/components/Footer';
 
 const Signup = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { signUp } = useAuth();
   
   const [formData, setFormData] = useState({
     full_name: '',
-    email: '',
+    // Prefilled when a guest creates an account after checkout
+    email: searchParams.get('email') || '',
     password: '',
     confirmPassword: '',
   });
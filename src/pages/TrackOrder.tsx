@@ -0,0 +1,320 @@
+/**
+ * Track Order Page
+ * Guest order lookup by order number and checkout email: status timeline, items,
+ * shipment tracking and payment for orders placed without an account
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { CheckCircle, Circle, XCircle, ExternalLink, Loader2, Search, Truck, CreditCard } from "lucide-react";
+import { toast } from "sonner";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import PaymentDialog, { PaymentOutcome } from "@/components/PaymentDialog";
+import { useOrders } from "@/contexts/OrderContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { OrderStatus } from "@/services/userActivitiesService";
+import { PAYMENT_METHOD_LABELS, isOnlinePaymentMethod } from "@/services/paymentService";
+import { getTrackingUrl } from "@/utils/carriers";
+
+// Steps of a normal delivery, shown ahead of the order's progress
+const FULFILMENT_STEPS: OrderStatus[] = ["pending", "confirmed", "processing", "shipped", "delivered"];
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Order placed",
+  confirmed: "Confirmed",
+  processing: "Being prepared",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+  }).format(amount);
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+
+const TrackOrder = () => {
+  const location = useLocation();
+  const { user } = useAuth();
+  const { currentOrder, orderStatusHistory, loadGuestOrder } = useOrders();
+  // Prefilled from the confirmation page
+  const initial = (location.state as { orderNumber?: string; email?: string } | null) || {};
+
+  const [orderNumber, setOrderNumber] = useState(initial.orderNumber || "");
+  const [email, setEmail] = useState(initial.email || "");
+  const [isSearching, setIsSearching] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  // Order number and email of the order being shown
+  const [lookup, setLookup] = useState<{ orderNumber: string; email: string } | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+
+  const findOrder = useCallback(async (number: string, address: string) => {
+    setIsSearching(true);
+    setNotFound(false);
+    const found = await loadGuestOrder(number.trim(), address.trim());
+    setIsSearching(false);
+
+    setLookup(found ? { orderNumber: number.trim().toUpperCase(), email: address.trim() } : null);
+    setNotFound(!found);
+  }, [loadGuestOrder]);
+
+  const initialOrderNumber = initial.orderNumber;
+  const initialEmail = initial.email;
+
+  useEffect(() => {
+    if (initialOrderNumber && initialEmail) {
+      findOrder(initialOrderNumber, initialEmail);
+    }
+  }, [initialOrderNumber, initialEmail, findOrder]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderNumber.trim() || !email.trim()) return;
+    findOrder(orderNumber, email);
+  };
+
+  const order = lookup && currentOrder?.order_number === lookup.orderNumber ? currentOrder : null;
+
+  const handlePaymentClose = async (outcome: PaymentOutcome, error?: string) => {
+    setIsPaying(false);
+
+    if (outcome === "paid") {
+      toast.success("Payment received");
+    } else if (outcome === "processing") {
+      toast.info("Your payment is being confirmed. We'll update your order shortly.");
+    } else if (outcome === "failed") {
+      toast.error(error || "Payment failed. Please try again.");
+    }
+    if (lookup) {
+      await loadGuestOrder(lookup.orderNumber, lookup.email);
+    }
+  };
+
+  const history = order ? orderStatusHistory.filter(entry => entry.order_id === order.id) : [];
+  const isClosed = order?.status === "cancelled" || order?.status === "refunded";
+  const upcomingSteps = !order || isClosed
+    ? []
+    : FULFILMENT_STEPS.slice(FULFILMENT_STEPS.indexOf(order.status) + 1);
+  const trackingUrl = order ? getTrackingUrl(order.carrier, order.tracking_number) : null;
+  const canPay = !!order
+    && isOnlinePaymentMethod(order.payment_method)
+    && (order.payment_status === "pending" || order.payment_status === "failed")
+    && order.status !== "cancelled";
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navigation />
+
+      <main className="flex-1 container mx-auto px-4 py-12">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="text-center">
+            <h1 className="font-heading text-3xl md:text-4xl font-bold mb-2">Track Your Order</h1>
+            <p className="text-muted-foreground">
+              Enter your order number and the email you used at checkout.
+              {user && (
+                <>
+                  {" "}Orders placed while signed in are in{" "}
+                  <Link to="/orders" className="text-accent hover:underline">My Orders</Link>.
+                </>
+              )}
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="p-6">
+              <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="track-order-number">Order Number</Label>
+                  <Input
+                    id="track-order-number"
+                    placeholder="JB-20250101-0001"
+                    value={orderNumber}
+                    onChange={(e) => setOrderNumber(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="track-email">Email</Label>
+                  <Input
+                    id="track-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" className="btn-gold" disabled={isSearching || !orderNumber.trim() || !email.trim()}>
+                  {isSearching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+                  Find Order
+                </Button>
+              </form>
+
+              {notFound && (
+                <Alert variant="destructive" className="mt-4">
+                  <AlertDescription>
+                    We couldn't find a guest order with that number and email. If the order has been added to your
+                    account, <Link to="/login" className="underline">sign in</Link> to see it.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
+          {order && (
+            <>
+              <Card>
+                <CardHeader>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <CardTitle>Order {order.order_number}</CardTitle>
+                    <Badge variant="outline">{STATUS_LABELS[order.status]}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">Placed on {formatDateTime(order.created_at)}</p>
+                </CardHeader>
+                <CardContent>
+                  <ol className="relative border-l-2 border-muted ml-2 space-y-6">
+                    <li className="pl-6 relative">
+                      <CheckCircle className="h-5 w-5 text-green-600 bg-background absolute -left-[0.7rem] top-0" />
+                      <p className="font-medium">{STATUS_LABELS.pending}</p>
+                      <p className="text-sm text-muted-foreground">{formatDateTime(order.created_at)}</p>
+                    </li>
+                    {history.map(entry => {
+                      const status = entry.new_status as OrderStatus;
+                      const isNegative = status === "cancelled" || status === "refunded";
+                      return (
+                        <li key={entry.id} className="pl-6 relative">
+                          {isNegative ? (
+                            <XCircle className="h-5 w-5 text-red-600 bg-background absolute -left-[0.7rem] top-0" />
+                          ) : (
+                            <CheckCircle className="h-5 w-5 text-green-600 bg-background absolute -left-[0.7rem] top-0" />
+                          )}
+                          <p className="font-medium">{STATUS_LABELS[status] || status}</p>
+                          <p className="text-sm text-muted-foreground">{formatDateTime(entry.created_at)}</p>
+                        </li>
+                      );
+                    })}
+                    {upcomingSteps.map(step => (
+                      <li key={step} className="pl-6 relative">
+                        <Circle className="h-5 w-5 text-muted-foreground bg-background absolute -left-[0.7rem] top-0" />
+                        <p className="text-muted-foreground">{STATUS_LABELS[step]}</p>
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Truck className="h-5 w-5" />
+                      Shipment
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-sm space-y-2">
+                    {order.tracking_number ? (
+                      <>
+                        <p>
+                          <span className="text-muted-foreground">Carrier:</span> {order.carrier || "Courier"}
+                        </p>
+                        <p>
+                          <span className="text-muted-foreground">Tracking number:</span>{" "}
+                          <span className="font-mono">{order.tracking_number}</span>
+                        </p>
+                        {trackingUrl && (
+                          <a href={trackingUrl} target="_blank" rel="noreferrer">
+                            <Button variant="outline" size="sm" className="mt-2">
+                              Track Package
+                              <ExternalLink className="ml-2 h-4 w-4" />
+                            </Button>
+                          </a>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-muted-foreground">
+                        {isClosed ? "This order will not be shipped." : "Tracking details will appear once your order ships."}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <CreditCard className="h-5 w-5" />
+                      Payment
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-sm space-y-1">
+                    <p>
+                      <span className="text-muted-foreground">Method:</span>{" "}
+                      {order.payment_method ? PAYMENT_METHOD_LABELS[order.payment_method] || order.payment_method.toUpperCase() : "—"}
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Status:</span>{" "}
+                      {order.payment_status.charAt(0).toUpperCase() + order.payment_status.slice(1)}
+                    </p>
+                    {canPay && (
+                      <Button className="btn-gold w-full mt-3" onClick={() => setIsPaying(true)} disabled={isPaying}>
+                        {order.payment_status === "failed" ? "Retry Payment" : "Pay Now"}
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Items</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {Array.isArray(order.items) && order.items.map((item, index) => (
+                    <div key={index} className="flex items-center gap-3 text-sm">
+                      {item.image && (
+                        <img src={item.image} alt={item.name} className="w-12 h-12 object-cover rounded" />
+                      )}
+                      <div className="flex-1">
+                        <p className="font-medium">{item.name}</p>
+                        <p className="text-muted-foreground">
+                          Qty: {item.quantity}
+                          {item.size && ` • Size: ${item.size}`}
+                          {item.color && ` • ${item.color}`}
+                        </p>
+                      </div>
+                      <p className="font-medium">{formatCurrency(item.price * item.quantity)}</p>
+                    </div>
+                  ))}
+                  <div className="border-t pt-3 flex justify-between font-heading text-lg font-bold">
+                    <span>Total</span>
+                    <span className="text-accent">{formatCurrency(order.total)}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+
+      <PaymentDialog
+        order={isPaying && order && lookup
+          ? { id: order.id, orderNumber: order.order_number, total: order.total, guestEmail: lookup.email }
+          : null}
+        onClose={handlePaymentClose}
+      />
+
+      <Footer />
+    </div>
+  );
+};
+
+export default TrackOrder;
@@ -12,11 +12,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, User, Mail, Phone, MapPin, Lock, CheckCircle, Shield } from 'lucide-react';
+import { Loader2, User, Mail, Phone, Lock, CheckCircle, Shield } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import Footer from '@/components/Footer';
+import AddressBook from '@/components/AddressBook';
 
 const UserProfile = () => {
   const { user, profile, updateUserProfile, updatePassword, loading, isAdmin } = useAuth();
@@ -24,11 +24,6 @@ const UserProfile = () => {
   const [profileData, setProfileData] = useState({
     full_name: profile?.full_name || '',
     phone: profile?.phone || '',
-    street: profile?.address?.street || '',
-    city: profile?.address?.city || '',
-    state: profile?.address?.state || '',
-    postal_code: profile?.address?.postal_code || '',
-    country: profile?.address?.country || 'India',
   });
 
   const [passwordData, setPasswordData] = useState({
@@ -45,11 +40,6 @@ const UserProfile = () => {
       setProfileData({
         full_name: profile.full_name || '',
         phone: profile.phone || '',
-        street: profile.address?.street || '',
-        city: profile.address?.city || '',
-        state: profile.address?.state || '',
-        postal_code: profile.address?.postal_code || '',
-        country: profile.address?.country || 'India',
       });
     }
   }, [profile]);
@@ -82,13 +72,6 @@ const UserProfile = () => {
       const result = await updateUserProfile({
         full_name: profileData.full_name,
         phone: profileData.phone,
-        address: {
-          street: profileData.street,
-          city: profileData.city,
-          state: profileData.state,
-          postal_code: profileData.postal_code,
-          country: profileData.country,
-        },
       });
 
       if (result.success) {
@@ -202,8 +185,9 @@ const UserProfile = () => {
 
           {/* Tabs for different sections */}
           <Tabs defaultValue="profile" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="profile">Profile Information</TabsTrigger>
+              <TabsTrigger value="addresses">Addresses</TabsTrigger>
               <TabsTrigger value="security">Security</TabsTrigger>
             </TabsList>
 
@@ -268,82 +252,6 @@ const UserProfile = () => {
                       </div>
                     </div>
 
-                    <Separator />
-
-                    {/* Address Information */}
-                    <div className="space-y-4">
-                      <h3 className="text-lg font-semibold flex items-center gap-2">
-                        <MapPin className="h-5 w-5" />
-                        Address
-                      </h3>
-                      
-                      <div className="space-y-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="street">Street Address</Label>
-                          <Input
-                            id="street"
-                            name="street"
-                            value={profileData.street}
-                            onChange={handleProfileChange}
-                            disabled={updating}
-                            placeholder="123 Main Street"
-                          />
-                        </div>
-
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <div className="space-y-2">
-                            <Label htmlFor="city">City</Label>
-                            <Input
-                              id="city"
-                              name="city"
-                              value={profileData.city}
-                              onChange={handleProfileChange}
-                              disabled={updating}
-                              placeholder="Mumbai"
-                            />
-                          </div>
-
-                          <div className="space-y-2">
-                            <Label htmlFor="state">State</Label>
-                            <Input
-                              id="state"
-                              name="state"
-                              value={profileData.state}
-                              onChange={handleProfileChange}
-                              disabled={updating}
-                              placeholder="Maharashtra"
-                            />
-                          </div>
-                        </div>
-
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <div className="space-y-2">
-                            <Label htmlFor="postal_code">Postal Code</Label>
-                            <Input
-                              id="postal_code"
-                              name="postal_code"
-                              value={profileData.postal_code}
-                              onChange={handleProfileChange}
-                              disabled={updating}
-                              placeholder="400001"
-                            />
-                          </div>
-
-                          <div className="space-y-2">
-                            <Label htmlFor="country">Country</Label>
-                            <Input
-                              id="country"
-                              name="country"
-                              value={profileData.country}
-                              onChange={handleProfileChange}
-                              disabled={updating}
-                              placeholder="India"
-                            />
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-
                     <Button type="submit" className="btn-gold" disabled={updating}>
                       {updating ? (
                         <>
@@ -359,6 +267,11 @@ const UserProfile = () => {
               </Card>
             </TabsContent>
 
+            {/* Addresses Tab */}
+            <TabsContent value="addresses">
+              {user && <AddressBook userId={user.id} />}
+            </TabsContent>
+
             {/* Security Tab */}
             <TabsContent value="security">
               <Card>
@@ -0,0 +1,188 @@
+/**
+ * Address Service
+ * Customer address book: labeled addresses with default shipping and billing flags
+ * Only one default of each kind is kept per customer (enforced by the database)
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+import { ShippingAddress } from '@/services/userActivitiesService';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface SavedAddress extends ShippingAddress {
+  id: string;
+  user_id: string;
+  label: string;
+  is_default_shipping: boolean;
+  is_default_billing: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AddressInput = ShippingAddress & {
+  label: string;
+  is_default_shipping?: boolean;
+  is_default_billing?: boolean;
+};
+
+export type DefaultAddressKind = 'shipping' | 'billing';
+
+export interface AddressResult {
+  success: boolean;
+  address?: SavedAddress;
+  error?: string;
+}
+
+// Suggested labels; customers can type their own
+export const ADDRESS_LABEL_SUGGESTIONS = ['Home', 'Office', 'Other'];
+
+export const EMPTY_ADDRESS: ShippingAddress = {
+  name: '',
+  address_line1: '',
+  address_line2: '',
+  city: '',
+  state: '',
+  postal_code: '',
+  country: 'India',
+  phone: '',
+};
+
+/**
+ * The ShippingAddress copied onto an order from a saved address
+ */
+export const toShippingAddress = (address: SavedAddress): ShippingAddress => ({
+  name: address.name,
+  address_line1: address.address_line1,
+  address_line2: address.address_line2 || '',
+  city: address.city,
+  state: address.state,
+  postal_code: address.postal_code,
+  country: address.country,
+  phone: address.phone,
+});
+
+const toRow = (input: AddressInput) => ({
+  label: input.label.trim(),
+  name: input.name.trim(),
+  address_line1: input.address_line1.trim(),
+  address_line2: input.address_line2?.trim() || null,
+  city: input.city.trim(),
+  state: input.state.trim(),
+  postal_code: input.postal_code.trim(),
+  country: input.country.trim() || 'India',
+  phone: input.phone.trim(),
+  ...(input.is_default_shipping !== undefined && { is_default_shipping: input.is_default_shipping }),
+  ...(input.is_default_billing !== undefined && { is_default_billing: input.is_default_billing }),
+});
+
+// ========================================
+// ADDRESS BOOK
+// ========================================
+
+/**
+ * Get the user's saved addresses, defaults first
+ */
+export const getAddresses = async (userId: string): Promise<SavedAddress[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('user_addresses')
+        .select('*')
+        .eq('user_id', userId)
+        .order('is_default_shipping', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as SavedAddress[];
+    },
+    'Get addresses'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Save a new address; the user's first address becomes their default
+ */
+export const createAddress = async (userId: string, input: AddressInput): Promise<AddressResult> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('user_addresses')
+        .insert({ user_id: userId, ...toRow(input) })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as SavedAddress;
+    },
+    'Create address'
+  );
+
+  return { success: result.success, address: result.data, error: result.error?.message };
+};
+
+/**
+ * Update a saved address
+ */
+export const updateAddress = async (addressId: string, input: AddressInput): Promise<AddressResult> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('user_addresses')
+        .update(toRow(input))
+        .eq('id', addressId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as SavedAddress;
+    },
+    'Update address'
+  );
+
+  return { success: result.success, address: result.data, error: result.error?.message };
+};
+
+/**
+ * Make an address the default for shipping or billing (clears the previous default)
+ */
+export const setDefaultAddress = async (addressId: string, kind: DefaultAddressKind): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('user_addresses')
+        .update(kind === 'shipping' ? { is_default_shipping: true } : { is_default_billing: true })
+        .eq('id', addressId);
+
+      if (error) throw error;
+      return true;
+    },
+    'Set default address'
+  );
+
+  return result.success;
+};
+
+/**
+ * Delete a saved address; orders keep their own copy
+ */
+export const deleteAddress = async (addressId: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('user_addresses')
+        .delete()
+        .eq('id', addressId);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete address'
+  );
+
+  return result.success;
+};
@@ -0,0 +1,188 @@
+/**
+ * Collection Service
+ * Curated landing pages defined by a search query and filters
+ * Searching one of a collection's trigger queries lands on the collection
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+import { ProductFilter } from '@/types/product';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface Collection {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  search_query: string;
+  // Applied over the shop's default filters
+  filters: Partial<ProductFilter>;
+  trigger_queries: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CollectionInput = Pick<
+  Collection,
+  'slug' | 'title' | 'description' | 'search_query' | 'filters' | 'trigger_queries' | 'is_active'
+>;
+
+// Same normalization as search_history.normalized_query
+export const normalizeSearchQuery = (query: string): string =>
+  query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const normalizeInput = (input: CollectionInput): CollectionInput => ({
+  ...input,
+  slug: input.slug.trim(),
+  title: input.title.trim(),
+  description: input.description?.trim() || null,
+  search_query: input.search_query.trim(),
+  trigger_queries: [...new Set(input.trigger_queries.map(normalizeSearchQuery).filter(Boolean))],
+});
+
+// ========================================
+// STOREFRONT
+// ========================================
+
+/**
+ * Get an active collection by its URL slug
+ */
+export const getCollectionBySlug = async (slug: string): Promise<Collection | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('collections')
+        .select('*')
+        .eq('slug', slug)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as Collection | null;
+    },
+    'Get collection'
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Find the active collection a search should land on, if any
+ */
+export const getCollectionForQuery = async (query: string): Promise<Collection | null> => {
+  const normalized = normalizeSearchQuery(query);
+  if (!normalized) return null;
+
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('collections')
+        .select('*')
+        .contains('trigger_queries', [normalized])
+        .eq('is_active', true)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as Collection | null;
+    },
+    'Get collection for query'
+  );
+
+  return result.data || null;
+};
+
+// ========================================
+// ADMIN
+// ========================================
+
+/**
+ * Get all collections, newest first
+ */
+export const getCollections = async (): Promise<Collection[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('collections')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as Collection[];
+    },
+    'Get collections'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Create a collection
+ */
+export const createCollection = async (input: CollectionInput): Promise<Collection | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('collections')
+        .insert(normalizeInput(input))
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Collection;
+    },
+    'Create collection'
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Update a collection
+ */
+export const updateCollection = async (id: string, updates: Partial<CollectionInput>): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('collections')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update collection'
+  );
+
+  return result.success;
+};
+
+/**
+ * Delete a collection
+ */
+export const deleteCollection = async (id: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('collections')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete collection'
+  );
+
+  return result.success;
+};
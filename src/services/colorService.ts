@@ -0,0 +1,195 @@
+/**
+ * Color Service
+ * Canonical color families with swatches, and the aliases raw product colors resolve through
+ * ("Wine" and "maroon red" are both Maroon). Filtering by color uses family slugs.
+ * Resolution matches normalize_color in 020_color_taxonomy.sql
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface ColorFamily {
+  slug: string;
+  name: string;
+  hex: string;
+  sort_order: number;
+}
+
+export interface ColorAlias {
+  alias: string;
+  family_slug: string;
+  created_at: string;
+}
+
+export interface ColorTaxonomy {
+  families: ColorFamily[];
+  aliases: ColorAlias[];
+}
+
+// A product color no family or alias covers
+export interface UnmappedColor {
+  color: string;
+  products: number;
+}
+
+const EMPTY_TAXONOMY: ColorTaxonomy = { families: [], aliases: [] };
+
+// Lowercase with single spaces; hyphens and underscores count as spaces ("off-white")
+export const normalizeColorName = (color: string): string =>
+  color.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+
+// ========================================
+// RESOLUTION
+// ========================================
+
+/**
+ * Family a raw color belongs to: by family name or slug, then alias,
+ * then its words from last to first ("dark bottle green" is Green)
+ */
+export const resolveColorFamily = (color: string, taxonomy: ColorTaxonomy): ColorFamily | null => {
+  const lookup = (name: string): ColorFamily | null => {
+    const family = taxonomy.families.find(f => f.slug === name || f.name.toLowerCase() === name);
+    if (family) return family;
+
+    const alias = taxonomy.aliases.find(a => a.alias === name);
+    return alias ? taxonomy.families.find(f => f.slug === alias.family_slug) || null : null;
+  };
+
+  const normalized = normalizeColorName(color);
+  if (!normalized) return null;
+
+  const family = lookup(normalized);
+  if (family) return family;
+
+  const words = normalized.split(' ');
+  for (let i = words.length - 1; i >= 0; i--) {
+    const wordFamily = lookup(words[i]);
+    if (wordFamily) return wordFamily;
+  }
+
+  return null;
+};
+
+// ========================================
+// STOREFRONT
+// ========================================
+
+// The taxonomy changes rarely; load it once per page load
+let taxonomyRequest: Promise<ColorTaxonomy> | null = null;
+
+/**
+ * Get the color families (in display order) and their aliases
+ */
+export const getColorTaxonomy = (): Promise<ColorTaxonomy> => {
+  if (!taxonomyRequest) {
+    taxonomyRequest = safeAsync(
+      async () => {
+        const [familiesResult, aliasesResult] = await Promise.all([
+          supabase.from('color_families').select('slug, name, hex, sort_order').order('sort_order'),
+          supabase.from('color_aliases').select('*').order('alias'),
+        ]);
+
+        if (familiesResult.error) throw familiesResult.error;
+        if (aliasesResult.error) throw aliasesResult.error;
+        return {
+          families: (familiesResult.data || []) as ColorFamily[],
+          aliases: (aliasesResult.data || []) as ColorAlias[],
+        };
+      },
+      'Get color taxonomy'
+    ).then(result => {
+      // Retry on the next call rather than caching a failure
+      if (!result.success) taxonomyRequest = null;
+      return result.data || EMPTY_TAXONOMY;
+    });
+  }
+
+  return taxonomyRequest;
+};
+
+// ========================================
+// ADMIN
+// ========================================
+
+/**
+ * Product colors no family or alias covers, most used first
+ */
+export const getUnmappedColors = async (): Promise<UnmappedColor[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('get_unmapped_colors');
+
+      if (error) throw error;
+      return (data || []) as UnmappedColor[];
+    },
+    'Get unmapped colors'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Map a color name to a family; products using it are re-filed by the database
+ */
+export const createColorAlias = async (alias: string, familySlug: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('color_aliases')
+        .upsert({ alias: normalizeColorName(alias), family_slug: familySlug });
+
+      if (error) throw error;
+      return true;
+    },
+    'Create color alias'
+  );
+
+  taxonomyRequest = null;
+  return result.success;
+};
+
+/**
+ * Delete a color alias
+ */
+export const deleteColorAlias = async (alias: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('color_aliases')
+        .delete()
+        .eq('alias', alias);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete color alias'
+  );
+
+  taxonomyRequest = null;
+  return result.success;
+};
+
+/**
+ * Change a family's swatch color
+ */
+export const updateColorFamilyHex = async (slug: string, hex: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('color_families')
+        .update({ hex: hex.toLowerCase() })
+        .eq('slug', slug);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update color family'
+  );
+
+  taxonomyRequest = null;
+  return result.success;
+};
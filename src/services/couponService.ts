@@ -0,0 +1,200 @@
+/**
+ * Coupon Service
+ * Admin management of promotion codes and customer coupon previews
+ * Discounts are always evaluated by the database (evaluate_coupon / create_order_from_cart)
+ */
+
+import { supabase } from '@/lib/supabase';
+import { CartItem } from '@/contexts/CartContext';
+import { Occasion, ProductCategory } from '@/types/product';
+import { safeAsync } from '@/utils/errorHandling';
+import { OrderDiscount } from '@/utils/orderTotals';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type CouponDiscountType = 'percentage' | 'flat' | 'free_shipping';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  max_discount?: number;
+  min_cart_value: number;
+  applicable_categories: ProductCategory[];
+  applicable_occasions: Occasion[];
+  usage_limit_per_user?: number;
+  starts_at: string;
+  expires_at?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  // Number of orders that used the coupon (admin listing only)
+  times_used?: number;
+}
+
+export type CouponInput = Omit<Coupon, 'id' | 'created_at' | 'updated_at' | 'times_used'>;
+
+export interface CouponEvaluation {
+  valid: boolean;
+  message?: string;
+  code?: string;
+  description?: string;
+  discount_type?: CouponDiscountType;
+  discount: number;
+  free_shipping: boolean;
+  eligible_subtotal?: number;
+}
+
+export const COUPON_DISCOUNT_TYPE_LABELS: Record<CouponDiscountType, string> = {
+  percentage: 'Percentage off',
+  flat: 'Flat amount off',
+  free_shipping: 'Free shipping',
+};
+
+/**
+ * Convert a valid coupon evaluation to the discount used by order totals
+ */
+export const toOrderDiscount = (evaluation: CouponEvaluation | null): OrderDiscount | null => {
+  if (!evaluation?.valid) return null;
+
+  return {
+    amount: evaluation.discount,
+    freeShipping: evaluation.free_shipping,
+  };
+};
+
+const normalizeCouponInput = (coupon: Partial<CouponInput>): Partial<CouponInput> => ({
+  ...coupon,
+  ...(coupon.code !== undefined && { code: coupon.code.trim().toUpperCase() }),
+});
+
+// ========================================
+// CUSTOMER OPERATIONS
+// ========================================
+
+/**
+ * Preview a coupon against the current cart for the signed-in user
+ * The same evaluation is repeated server-side when the order is created
+ */
+export const evaluateCoupon = async (code: string, items: CartItem[]): Promise<CouponEvaluation> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('evaluate_coupon', {
+        p_code: code.trim(),
+        p_items: items.map(item => ({ id: item.id, quantity: item.quantity })),
+      });
+
+      if (error) throw error;
+
+      return {
+        ...data,
+        discount: Number(data.discount || 0),
+        free_shipping: !!data.free_shipping,
+      } as CouponEvaluation;
+    },
+    'Evaluate coupon'
+  );
+
+  return result.data || {
+    valid: false,
+    message: 'Unable to validate coupon. Please try again.',
+    discount: 0,
+    free_shipping: false,
+  };
+};
+
+// ========================================
+// ADMIN OPERATIONS
+// ========================================
+
+/**
+ * Get all coupons with usage counts, newest first
+ */
+export const getAllCoupons = async (): Promise<Coupon[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('coupons')
+        .select('*, coupon_redemptions(count)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(({ coupon_redemptions, ...coupon }) => ({
+        ...coupon,
+        discount_value: Number(coupon.discount_value),
+        max_discount: coupon.max_discount !== null ? Number(coupon.max_discount) : undefined,
+        min_cart_value: Number(coupon.min_cart_value),
+        times_used: coupon_redemptions?.[0]?.count || 0,
+      })) as Coupon[];
+    },
+    'Get coupons'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Create a coupon
+ */
+export const createCoupon = async (coupon: CouponInput): Promise<Coupon | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('coupons')
+        .insert(normalizeCouponInput(coupon))
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Coupon;
+    },
+    'Create coupon'
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Update a coupon
+ */
+export const updateCoupon = async (id: string, updates: Partial<CouponInput>): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('coupons')
+        .update(normalizeCouponInput(updates))
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update coupon'
+  );
+
+  return result.success;
+};
+
+/**
+ * Delete a coupon
+ */
+export const deleteCoupon = async (id: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('coupons')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete coupon'
+  );
+
+  return result.success;
+};
@@ -2,11 +2,17 @@
  * Clean Data Service - No circular dependencies
  * Following Single Responsibility Principle - only handles data operations
  * Following Dependency Inversion Principle - no imports from other services
+ * Products are stored in the Supabase products table (see 003_products_schema.sql)
  */
 
 import { Product, ProductCategory, ProductSubcategory, Occasion, Fabric } from "@/types/product";
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
 
-// Static product data - no heavy imports
+// localStorage key used for admin products before the products table existed
+const LEGACY_PRODUCTS_KEY = 'adminProducts';
+
+// Static product data - seeds the products table on first import
 const STATIC_PRODUCTS: Product[] = [
   {
     id: 1,
@@ -176,23 +182,119 @@ const STATIC_PRODUCTS: Product[] = [
   }
 ];
 
+// ========================================
+// TYPES
+// ========================================
+
+export interface DBProduct {
+  id: number;
+  name: string;
+  price: number;
+  image: string;
+  images: string[];
+  category: ProductCategory;
+  subcategory: ProductSubcategory;
+  description?: string;
+  sizes: string[];
+  colors: string[];
+  fabric?: string;
+  occasion: Occasion[];
+  is_new: boolean;
+  discount: number;
+  in_stock: boolean;
+  rating: number;
+  reviews: number;
+  sku?: string;
+  care_instructions?: string;
+  origin?: string;
+  weight_grams?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+type DBProductRow = Omit<DBProduct, 'created_at' | 'updated_at'>;
+
+// ========================================
+// MAPPING
+// ========================================
+
+export const mapDBProduct = (row: DBProduct): Product => ({
+  id: row.id,
+  name: row.name,
+  price: Number(row.price),
+  image: row.image,
+  images: row.images,
+  category: row.category,
+  subcategory: row.subcategory,
+  isNew: row.is_new,
+  discount: row.discount || undefined,
+  description: row.description,
+  sizes: row.sizes,
+  colors: row.colors,
+  fabric: row.fabric,
+  occasion: row.occasion,
+  inStock: row.in_stock,
+  rating: Number(row.rating),
+  reviews: row.reviews,
+  sku: row.sku,
+  careInstructions: row.care_instructions,
+  origin: row.origin,
+  weight: row.weight_grams ?? undefined,
+});
+
+// Only fields present on the product are written, so partial updates don't clear columns
+const toDBProductRow = (product: Partial<Product>): Partial<DBProductRow> => {
+  const row: Partial<DBProductRow> = {
+    id: product.id,
+    name: product.name,
+    price: product.price,
+    image: product.image,
+    images: product.images,
+    category: product.category,
+    subcategory: product.subcategory,
+    description: product.description,
+    sizes: product.sizes,
+    colors: product.colors,
+    fabric: product.fabric,
+    occasion: product.occasion,
+    is_new: product.isNew,
+    discount: product.discount,
+    in_stock: product.inStock,
+    rating: product.rating,
+    reviews: product.reviews,
+    sku: product.sku || undefined,
+    care_instructions: product.careInstructions,
+    origin: product.origin,
+    weight_grams: product.weight,
+  };
+
+  return Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== undefined)
+  ) as Partial<DBProductRow>;
+};
+
+// ========================================
+// LEGACY LOCAL CATALOG
+// Source data for the one-time import into the products table
+// ========================================
+
 // Get static products
 export const getStaticProducts = (): Product[] => {
   return [...STATIC_PRODUCTS];
 };
 
-// Get dynamic products from localStorage (admin-added)
+// Get dynamic products from localStorage (admin-added before the products table existed)
 export const getDynamicProducts = (): Product[] => {
   if (typeof window === 'undefined' || !window.localStorage) {
     return [];
   }
 
   try {
-    const savedAdminProducts = localStorage.getItem('adminProducts');
+    const savedAdminProducts = localStorage.getItem(LEGACY_PRODUCTS_KEY);
     if (!savedAdminProducts) return [];
 
-    const adminProducts = JSON.parse(savedAdminProducts);
-    return adminProducts.map((adminProduct: any) => ({
+    const adminProducts: Product[] = JSON.parse(savedAdminProducts);
+    return adminProducts.map(adminProduct => ({
       id: adminProduct.id,
       name: adminProduct.name,
       price: adminProduct.price,
@@ -220,47 +322,119 @@ export const getDynamicProducts = (): Product[] => {
   }
 };
 
-// Get all products (static + dynamic)
-export const getAllProducts = (): Product[] => {
-  const staticProducts = getStaticProducts();
-  const dynamicProducts = getDynamicProducts();
-  
-  // Dynamic products first (newest), then static products
-  return [...dynamicProducts, ...staticProducts];
+/**
+ * Import localStorage and static products into the products table
+ * Existing ids are kept; products already in the table are skipped.
+ * Returns the number of imported products, or null on failure
+ */
+export const importLegacyProducts = async (): Promise<number | null> => {
+  const legacyProducts = [...getDynamicProducts(), ...getStaticProducts()];
+
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('import_products', {
+        p_products: legacyProducts.map(toDBProductRow),
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    'Import legacy products'
+  );
+
+  if (!result.success) return null;
+
+  // Imported products now live in the database
+  localStorage.removeItem(LEGACY_PRODUCTS_KEY);
+  return result.data;
 };
 
-// Save admin products to localStorage
-export const saveAdminProducts = (products: any[]): void => {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return;
-  }
+// ========================================
+// PRODUCT CATALOG (Supabase)
+// ========================================
 
-  try {
-    localStorage.setItem('adminProducts', JSON.stringify(products));
-  } catch (error) {
-    console.error('Error saving admin products:', error);
+/**
+ * Get all products, newest first
+ */
+export const getAllProducts = async (): Promise<Product[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapDBProduct);
+    },
+    'Get all products'
+  );
+
+  if (!result.success) {
+    throw new Error(result.error?.userMessage || 'Failed to load products');
   }
+
+  return result.data;
 };
 
-// Add new admin product
-export const addAdminProduct = (product: any): void => {
-  const existingProducts = getDynamicProducts();
-  const newProducts = [product, ...existingProducts];
-  saveAdminProducts(newProducts);
+/**
+ * Add new admin product
+ * The database assigns the id; returns the saved product or null on failure
+ */
+export const addAdminProduct = async (product: Omit<Product, 'id'>): Promise<Product | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .insert(toDBProductRow(product))
+        .select()
+        .single();
+
+      if (error) throw error;
+      return mapDBProduct(data);
+    },
+    'Add product'
+  );
+
+  return result.data || null;
 };
 
-// Update admin product
-export const updateAdminProduct = (id: number, updates: any): void => {
-  const existingProducts = getDynamicProducts();
-  const updatedProducts = existingProducts.map(product =>
-    product.id === id ? { ...product, ...updates } : product
+/**
+ * Update admin product
+ */
+export const updateAdminProduct = async (id: number, updates: Partial<Product>): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('products')
+        .update(toDBProductRow({ ...updates, id: undefined }))
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update product'
   );
-  saveAdminProducts(updatedProducts);
+
+  return result.success;
 };
 
-// Delete admin product
-export const deleteAdminProduct = (id: number): void => {
-  const existingProducts = getDynamicProducts();
-  const filteredProducts = existingProducts.filter(product => product.id !== id);
-  saveAdminProducts(filteredProducts);
+/**
+ * Delete admin product
+ */
+export const deleteAdminProduct = async (id: number): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('products')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete product'
+  );
+
+  return result.success;
 };
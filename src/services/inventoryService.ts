@@ -2,16 +2,21 @@
  * Inventory Management Service
  * Comprehensive stock management, tracking, and analytics
  * Following Single Responsibility Principle - only inventory operations
+ * Items, variants, movements and alerts are stored in Supabase (see 008_inventory.sql);
+ * stock levels only change through RPCs that write the level and its ledger movement together
  */
 
-import { 
-  InventoryItem, 
-  StockMovement, 
-  InventoryAlert, 
-  InventoryReport, 
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+import {
+  InventoryItem,
+  InventoryVariant,
+  VariantStockUpdate,
+  StockMovement,
+  StockLevelSnapshot,
+  InventoryAlert,
   ReorderSuggestion,
   InventorySettings,
-  StockAdjustment,
   InventoryAnalytics
 } from '@/types/inventory';
 import { Product } from '@/types/product';
@@ -28,311 +33,781 @@ const DEFAULT_SETTINGS: InventorySettings = {
   expiryWarningDays: 30
 };
 
-// Storage keys
+// Storage keys (settings and the guest cart id stay per browser)
 const STORAGE_KEYS = {
+  INVENTORY_SETTINGS: 'inventorySettings',
+  GUEST_CART_ID: 'guestCartId'
+};
+
+// localStorage keys used before inventory moved to Supabase
+const LEGACY_STORAGE_KEYS = {
   INVENTORY_ITEMS: 'inventoryItems',
   STOCK_MOVEMENTS: 'stockMovements',
   INVENTORY_ALERTS: 'inventoryAlerts',
-  INVENTORY_SETTINGS: 'inventorySettings',
-  STOCK_ADJUSTMENTS: 'stockAdjustments'
+  STOCK_ADJUSTMENTS: 'stockAdjustments',
+  STOCK_RESERVATIONS: 'stockReservations'
 };
 
-// Get inventory items from localStorage
-export const getInventoryItems = (): InventoryItem[] => {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return [];
-  }
+// ========================================
+// DATABASE MAPPING
+// ========================================
 
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.INVENTORY_ITEMS);
-    if (!stored) return [];
-    
-    const items = JSON.parse(stored);
-    return items.map((item: any) => ({
-      ...item,
-      lastRestocked: new Date(item.lastRestocked),
-      lastSold: new Date(item.lastSold),
-      createdAt: new Date(item.createdAt),
-      updatedAt: new Date(item.updatedAt)
-    }));
-  } catch (error) {
-    console.error('Error loading inventory items:', error);
-    return [];
-  }
+interface DBInventoryVariant {
+  id: string;
+  item_id: string;
+  product_id: number;
+  size: string;
+  color: string;
+  sku: string;
+  current_stock: number;
+  reserved_stock: number;
+  available_stock: number;
+  minimum_stock: number;
+  reorder_point: number;
+  reorder_quantity: number;
+  shelf: string;
+  bin: string;
+  last_restocked: string;
+  last_sold: string;
+  total_sold: number;
+}
+
+interface DBInventoryItem {
+  id: string;
+  product_id: number;
+  sku: string;
+  name: string;
+  category: string;
+  subcategory: string;
+  minimum_stock: number;
+  maximum_stock: number;
+  reorder_point: number;
+  reorder_quantity: number;
+  cost_price: number;
+  selling_price: number;
+  warehouse: string;
+  shelf: string;
+  bin: string;
+  status: InventoryItem['status'];
+  last_restocked: string;
+  last_sold: string;
+  total_sold: number;
+  total_revenue: number;
+  average_monthly_sales: number;
+  turnover_rate: number;
+  created_by: string;
+  notes: string;
+  created_at: string;
+  updated_at: string;
+  inventory_variants?: DBInventoryVariant[];
+}
+
+interface DBStockMovement {
+  id: string;
+  product_id: number;
+  variant_id: string;
+  sku: string;
+  type: StockMovement['type'];
+  quantity: number;
+  quantity_change: number;
+  stock_after: number;
+  reason: string;
+  reference: string;
+  location: string;
+  performed_by: string;
+  notes: string;
+  created_at: string;
+}
+
+interface DBInventoryAlert {
+  id: string;
+  product_id: number;
+  variant_id: string | null;
+  sku: string;
+  type: InventoryAlert['type'];
+  severity: InventoryAlert['severity'];
+  message: string;
+  current_value: number;
+  threshold_value: number;
+  acknowledged: boolean;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+const ITEM_SELECT = '*, inventory_variants(*)';
+
+const mapDBVariant = (row: DBInventoryVariant): InventoryVariant => ({
+  id: row.id,
+  size: row.size,
+  color: row.color,
+  sku: row.sku,
+  currentStock: row.current_stock,
+  reservedStock: row.reserved_stock,
+  availableStock: row.available_stock,
+  minimumStock: row.minimum_stock,
+  reorderPoint: row.reorder_point,
+  reorderQuantity: row.reorder_quantity,
+  shelf: row.shelf,
+  bin: row.bin,
+  lastRestocked: new Date(row.last_restocked),
+  lastSold: new Date(row.last_sold),
+  totalSold: row.total_sold
+});
+
+const mapDBItem = (row: DBInventoryItem): InventoryItem => {
+  const costPrice = Number(row.cost_price);
+  const sellingPrice = Number(row.selling_price);
+
+  const item: InventoryItem = {
+    id: row.id,
+    productId: row.product_id,
+    sku: row.sku,
+    name: row.name,
+    category: row.category,
+    subcategory: row.subcategory,
+    currentStock: 0,
+    reservedStock: 0,
+    availableStock: 0,
+    minimumStock: row.minimum_stock,
+    maximumStock: row.maximum_stock,
+    costPrice,
+    sellingPrice,
+    margin: sellingPrice - costPrice,
+    warehouse: row.warehouse,
+    shelf: row.shelf,
+    bin: row.bin,
+    status: row.status,
+    lastRestocked: new Date(row.last_restocked),
+    lastSold: new Date(row.last_sold),
+    reorderPoint: row.reorder_point,
+    reorderQuantity: row.reorder_quantity,
+    totalSold: row.total_sold,
+    totalRevenue: Number(row.total_revenue),
+    averageMonthlySales: Number(row.average_monthly_sales),
+    turnoverRate: Number(row.turnover_rate),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    createdBy: row.created_by,
+    notes: row.notes,
+    variants: (row.inventory_variants || [])
+      .map(mapDBVariant)
+      .sort((a, b) => a.sku.localeCompare(b.sku))
+  };
+
+  recalculateItemStock(item);
+  return item;
 };
 
-// Save inventory items to localStorage
-export const saveInventoryItems = (items: InventoryItem[]): void => {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return;
-  }
+// Item fields stored on inventory_items (stock totals are derived from variants)
+const toDBItemRow = (item: Partial<InventoryItem>): Partial<DBInventoryItem> => {
+  const row: Partial<DBInventoryItem> = {};
 
-  try {
-    localStorage.setItem(STORAGE_KEYS.INVENTORY_ITEMS, JSON.stringify(items));
-  } catch (error) {
-    console.error('Error saving inventory items:', error);
-  }
+  if (item.id !== undefined) row.id = item.id;
+  if (item.productId !== undefined) row.product_id = item.productId;
+  if (item.sku !== undefined) row.sku = item.sku;
+  if (item.name !== undefined) row.name = item.name;
+  if (item.category !== undefined) row.category = item.category;
+  if (item.subcategory !== undefined) row.subcategory = item.subcategory;
+  if (item.minimumStock !== undefined) row.minimum_stock = item.minimumStock;
+  if (item.maximumStock !== undefined) row.maximum_stock = item.maximumStock;
+  if (item.reorderPoint !== undefined) row.reorder_point = Math.ceil(item.reorderPoint);
+  if (item.reorderQuantity !== undefined) row.reorder_quantity = item.reorderQuantity;
+  if (item.costPrice !== undefined) row.cost_price = item.costPrice;
+  if (item.sellingPrice !== undefined) row.selling_price = item.sellingPrice;
+  if (item.warehouse !== undefined) row.warehouse = item.warehouse;
+  if (item.shelf !== undefined) row.shelf = item.shelf;
+  if (item.bin !== undefined) row.bin = item.bin;
+  if (item.status !== undefined) row.status = item.status;
+  if (item.averageMonthlySales !== undefined) row.average_monthly_sales = item.averageMonthlySales;
+  if (item.turnoverRate !== undefined) row.turnover_rate = item.turnoverRate;
+  if (item.createdBy !== undefined) row.created_by = item.createdBy;
+  if (item.notes !== undefined) row.notes = item.notes;
+
+  return row;
 };
 
-// Get stock movements from localStorage
-export const getStockMovements = (): StockMovement[] => {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return [];
-  }
+// New variants start empty; opening stock is recorded as a movement
+const toDBVariantRow = (item: Pick<InventoryItem, 'id' | 'productId'>, variant: InventoryVariant) => ({
+  id: variant.id,
+  item_id: item.id,
+  product_id: item.productId,
+  size: variant.size,
+  color: variant.color,
+  sku: variant.sku,
+  minimum_stock: variant.minimumStock,
+  reorder_point: variant.reorderPoint,
+  reorder_quantity: variant.reorderQuantity,
+  shelf: variant.shelf,
+  bin: variant.bin
+});
 
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.STOCK_MOVEMENTS);
-    if (!stored) return [];
-    
-    const movements = JSON.parse(stored);
-    return movements.map((movement: any) => ({
-      ...movement,
-      timestamp: new Date(movement.timestamp)
-    }));
-  } catch (error) {
-    console.error('Error loading stock movements:', error);
-    return [];
-  }
+const mapDBMovement = (row: DBStockMovement): StockMovement => ({
+  id: row.id,
+  productId: row.product_id,
+  variantId: row.variant_id,
+  sku: row.sku,
+  type: row.type,
+  quantity: row.quantity,
+  quantityChange: row.quantity_change,
+  stockAfter: row.stock_after,
+  reason: row.reason,
+  reference: row.reference,
+  location: row.location,
+  timestamp: new Date(row.created_at),
+  performedBy: row.performed_by,
+  notes: row.notes
+});
+
+const mapDBAlert = (row: DBInventoryAlert): InventoryAlert => ({
+  id: row.id,
+  productId: row.product_id,
+  variantId: row.variant_id || undefined,
+  sku: row.sku,
+  type: row.type,
+  severity: row.severity,
+  message: row.message,
+  currentValue: row.current_value,
+  thresholdValue: row.threshold_value,
+  createdAt: new Date(row.created_at),
+  acknowledged: row.acknowledged,
+  acknowledgedBy: row.acknowledged_by || undefined,
+  acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : undefined
+});
+
+// ========================================
+// VARIANTS
+// ========================================
+
+type VariantDefaults = Pick<InventoryItem, 'id' | 'sku' | 'shelf' | 'bin' | 'minimumStock' | 'reorderPoint' | 'reorderQuantity' | 'variants'>;
+
+const toSkuPart = (value: string): string => value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '');
+
+// SKU for a size × color combination, e.g. JB-1001-M-MAROON
+export const buildVariantSku = (baseSku: string, size: string, color: string): string =>
+  [baseSku, toSkuPart(size), toSkuPart(color)].filter(Boolean).join('-');
+
+// Display label for a variant, e.g. "M / Maroon"
+export const getVariantLabel = (variant: Pick<InventoryVariant, 'size' | 'color'>): string =>
+  [variant.size, variant.color].filter(Boolean).join(' / ') || 'All sizes & colors';
+
+// Create a variant whose thresholds are the item's thresholds split across its variants
+const createVariant = (
+  item: VariantDefaults,
+  size: string,
+  color: string,
+  currentStock: number,
+  reservedStock: number = 0,
+  variantCount: number = 1
+): InventoryVariant => {
+  const now = new Date();
+
+  return {
+    id: `${item.id}_${toSkuPart(size) || 'ANY'}_${toSkuPart(color) || 'ANY'}`,
+    size,
+    color,
+    sku: buildVariantSku(item.sku, size, color),
+    currentStock,
+    reservedStock,
+    availableStock: currentStock - reservedStock,
+    minimumStock: Math.ceil(item.minimumStock / variantCount),
+    reorderPoint: Math.ceil(item.reorderPoint / variantCount),
+    reorderQuantity: Math.ceil(item.reorderQuantity / variantCount),
+    shelf: item.shelf,
+    bin: item.bin,
+    lastRestocked: now,
+    lastSold: now,
+    totalSold: 0
+  };
 };
 
-// Save stock movements to localStorage
-export const saveStockMovements = (movements: StockMovement[]): void => {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return;
-  }
+// Every size × color combination of a product ('' when the product has no sizes or colors)
+const getProductCombinations = (product: Product): Array<{ size: string; color: string }> => {
+  const sizes = product.sizes?.length ? product.sizes : [''];
+  const colors = product.colors?.length ? product.colors : [''];
+  return sizes.flatMap(size => colors.map(color => ({ size, color })));
+};
 
-  try {
-    localStorage.setItem(STORAGE_KEYS.STOCK_MOVEMENTS, JSON.stringify(movements));
-  } catch (error) {
-    console.error('Error saving stock movements:', error);
+// Create variants for a product, splitting the opening stock evenly
+const createProductVariants = (item: VariantDefaults, product: Product, totalStock: number): InventoryVariant[] => {
+  const combinations = getProductCombinations(product);
+  const baseStock = Math.floor(totalStock / combinations.length);
+  const remainder = totalStock % combinations.length;
+
+  return combinations.map(({ size, color }, index) =>
+    createVariant(item, size, color, baseStock + (index < remainder ? 1 : 0), 0, combinations.length)
+  );
+};
+
+/**
+ * Find the variant that holds stock for a size and color
+ * Falls back to the shared variant of items created before variants existed
+ */
+export const findVariant = (item: InventoryItem, size: string = '', color: string = ''): InventoryVariant | undefined => {
+  return item.variants.find(variant => variant.size === size && variant.color === color)
+    || item.variants.find(variant => variant.size === '' && variant.color === '');
+};
+
+// Recompute item stock totals from its variants
+const recalculateItemStock = (item: InventoryItem): void => {
+  item.currentStock = item.variants.reduce((sum, variant) => sum + variant.currentStock, 0);
+  item.reservedStock = item.variants.reduce((sum, variant) => sum + variant.reservedStock, 0);
+  item.availableStock = item.currentStock - item.reservedStock;
+};
+
+/**
+ * Add variants for size/color combinations a product gained since its inventory item was created
+ * Items still using shared stock are left alone; removed combinations keep their stock history
+ */
+export const syncProductVariants = (item: InventoryItem, product: Product): InventoryItem => {
+  if (item.variants.some(variant => variant.size === '' && variant.color === '')) {
+    return item;
   }
+
+  const combinations = getProductCombinations(product);
+  const missing = combinations.filter(({ size, color }) =>
+    !item.variants.some(variant => variant.size === size && variant.color === color)
+  );
+
+  if (missing.length === 0) return item;
+
+  return {
+    ...item,
+    variants: [
+      ...item.variants,
+      ...missing.map(({ size, color }) => createVariant(item, size, color, 0, 0, combinations.length))
+    ],
+    updatedAt: new Date()
+  };
 };
 
-// Create inventory item from product
-export const createInventoryItem = (product: Product, inventoryData: Partial<InventoryItem>): InventoryItem => {
+// ========================================
+// INVENTORY ITEMS
+// ========================================
+
+// Build a new inventory item for a product (not yet saved)
+const buildInventoryItem = (product: Product, inventoryData: Partial<InventoryItem>): InventoryItem => {
   const now = new Date();
-  
-  return {
+
+  const item: InventoryItem = {
     id: `inv_${product.id}_${Date.now()}`,
     productId: product.id,
     sku: product.sku || `SKU-${product.id}`,
     name: product.name,
     category: product.category,
     subcategory: product.subcategory,
-    
+
     // Stock Information
     currentStock: inventoryData.currentStock || 0,
-    reservedStock: inventoryData.reservedStock || 0,
-    availableStock: (inventoryData.currentStock || 0) - (inventoryData.reservedStock || 0),
+    reservedStock: 0,
+    availableStock: inventoryData.currentStock || 0,
     minimumStock: inventoryData.minimumStock || 5,
     maximumStock: inventoryData.maximumStock || 100,
-    
+
     // Pricing
     costPrice: inventoryData.costPrice || product.price * 0.6, // Assume 40% margin
     sellingPrice: product.price,
     margin: product.price - (inventoryData.costPrice || product.price * 0.6),
-    
+
     // Location & Organization
     warehouse: inventoryData.warehouse || DEFAULT_SETTINGS.defaultWarehouse,
     shelf: inventoryData.shelf || 'A1',
     bin: inventoryData.bin || 'B1',
-    
+
     // Status & Tracking
     status: inventoryData.status || 'active',
     lastRestocked: inventoryData.lastRestocked || now,
     lastSold: inventoryData.lastSold || now,
-    reorderPoint: inventoryData.reorderPoint || (inventoryData.minimumStock || 5) * DEFAULT_SETTINGS.reorderPointMultiplier,
+    reorderPoint: Math.ceil(inventoryData.reorderPoint || (inventoryData.minimumStock || 5) * DEFAULT_SETTINGS.reorderPointMultiplier),
     reorderQuantity: inventoryData.reorderQuantity || 20,
-    
+
     // Analytics
-    totalSold: inventoryData.totalSold || 0,
-    totalRevenue: inventoryData.totalRevenue || 0,
+    totalSold: 0,
+    totalRevenue: 0,
     averageMonthlySales: inventoryData.averageMonthlySales || 0,
     turnoverRate: inventoryData.turnoverRate || 0,
-    
+
     // Metadata
     createdAt: now,
     updatedAt: now,
     createdBy: inventoryData.createdBy || 'admin',
-    notes: inventoryData.notes || ''
+    notes: inventoryData.notes || '',
+    variants: []
   };
+
+  item.variants = inventoryData.variants || createProductVariants(item, product, item.currentStock);
+  recalculateItemStock(item);
+
+  return item;
+};
+
+// Insert variants, then record each one's opening stock in the ledger
+const insertVariants = async (
+  item: Pick<InventoryItem, 'id' | 'productId'>,
+  variants: InventoryVariant[],
+  performedBy: string
+): Promise<void> => {
+  if (variants.length === 0) return;
+
+  const { error } = await supabase
+    .from('inventory_variants')
+    .insert(variants.map(variant => toDBVariantRow(item, variant)));
+
+  if (error) throw error;
+
+  for (const variant of variants.filter(v => v.currentStock > 0)) {
+    const { error: movementError } = await supabase.rpc('adjust_variant_stock', {
+      p_variant_id: variant.id,
+      p_type: 'in',
+      p_quantity: variant.currentStock,
+      p_reason: 'Opening stock',
+      p_reference: '',
+      p_performed_by: performedBy,
+      p_notes: ''
+    });
+
+    if (movementError) throw movementError;
+  }
+};
+
+/**
+ * Get all inventory items with their variants
+ */
+export const getInventoryItems = async (): Promise<InventoryItem[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('inventory_items')
+        .select(ITEM_SELECT)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []).map(mapDBItem);
+    },
+    'Get inventory items'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Get the inventory item for a product, or null when the product isn't tracked
+ */
+export const getInventoryItemByProduct = async (productId: number): Promise<InventoryItem | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('inventory_items')
+        .select(ITEM_SELECT)
+        .eq('product_id', productId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? mapDBItem(data) : null;
+    },
+    'Get inventory item'
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Create an inventory item with variants for every size × color of the product
+ * The opening stock is split across the variants and recorded as 'in' movements
+ */
+export const createInventoryItem = async (
+  product: Product,
+  inventoryData: Partial<InventoryItem>
+): Promise<InventoryItem | null> => {
+  const item = buildInventoryItem(product, inventoryData);
+
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('inventory_items')
+        .insert(toDBItemRow(item));
+
+      if (error) throw error;
+
+      await insertVariants(item, item.variants, item.createdBy);
+      return true;
+    },
+    'Create inventory item'
+  );
+
+  if (!result.success) return null;
+  return getInventoryItemByProduct(product.id);
+};
+
+/**
+ * Update item details (pricing, location, thresholds, status, notes)
+ */
+export const updateInventoryItem = async (itemId: string, updates: Partial<InventoryItem>): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('inventory_items')
+        .update(toDBItemRow({ ...updates, id: undefined, productId: undefined }))
+        .eq('id', itemId);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update inventory item'
+  );
+
+  return result.success;
+};
+
+/**
+ * Delete an inventory item and its variants (the movement ledger is kept)
+ */
+export const deleteInventoryItem = async (itemId: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('inventory_items')
+        .delete()
+        .eq('id', itemId);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete inventory item'
+  );
+
+  return result.success;
+};
+
+/**
+ * Save variants for size/color combinations the product gained since the item was created
+ * Returns true when nothing needed adding
+ */
+export const addProductVariants = async (item: InventoryItem, product: Product): Promise<boolean> => {
+  const syncedItem = syncProductVariants(item, product);
+  const newVariants = syncedItem.variants.filter(variant =>
+    !item.variants.some(existing => existing.id === variant.id)
+  );
+
+  if (newVariants.length === 0) return true;
+
+  const result = await safeAsync(
+    async () => {
+      await insertVariants(item, newVariants, 'system');
+      return true;
+    },
+    'Add product variants'
+  );
+
+  return result.success;
 };
 
-// Update stock for a product
-export const updateStock = (
-  productId: number, 
-  quantity: number, 
+// ========================================
+// STOCK LEVELS
+// ========================================
+
+/**
+ * Change one variant's stock; the new level and its movement are written in one transaction
+ * 'in'/'out' move the given quantity, 'adjustment' sets the counted level
+ */
+export const updateStock = async (
+  variantId: string,
+  quantity: number,
   type: 'in' | 'out' | 'adjustment',
   reason: string,
   performedBy: string = 'admin',
-  notes: string = ''
-): boolean => {
-  try {
-    const items = getInventoryItems();
-    const itemIndex = items.findIndex(item => item.productId === productId);
-    
-    if (itemIndex === -1) {
-      console.error('Inventory item not found for product:', productId);
-      return false;
-    }
+  notes: string = '',
+  reference: string = `ADJ-${Date.now()}`
+): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase.rpc('adjust_variant_stock', {
+        p_variant_id: variantId,
+        p_type: type,
+        p_quantity: Math.abs(quantity),
+        p_reason: reason,
+        p_reference: reference,
+        p_performed_by: performedBy,
+        p_notes: notes
+      });
 
-    const item = items[itemIndex];
-    const oldStock = item.currentStock;
-    
-    // Update stock based on type
-    switch (type) {
-      case 'in':
-        item.currentStock += quantity;
-        item.lastRestocked = new Date();
-        break;
-      case 'out':
-        item.currentStock = Math.max(0, item.currentStock - quantity);
-        item.lastSold = new Date();
-        item.totalSold += quantity;
-        item.totalRevenue += quantity * item.sellingPrice;
-        break;
-      case 'adjustment':
-        item.currentStock = quantity;
-        break;
-    }
+      if (error) throw error;
+      return true;
+    },
+    'Update stock'
+  );
 
-    // Update available stock
-    item.availableStock = item.currentStock - item.reservedStock;
-    item.updatedAt = new Date();
-
-    // Save updated items
-    items[itemIndex] = item;
-    saveInventoryItems(items);
-
-    // Record stock movement
-    const movement: StockMovement = {
-      id: `mov_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      productId,
-      sku: item.sku,
-      type,
-      quantity: type === 'adjustment' ? quantity : Math.abs(quantity),
-      reason,
-      reference: `ADJ-${Date.now()}`,
-      location: item.warehouse,
-      timestamp: new Date(),
-      performedBy,
-      notes
-    };
-
-    const movements = getStockMovements();
-    movements.unshift(movement);
-    saveStockMovements(movements);
-
-    // Check for alerts
-    checkAndCreateAlerts(item);
-
-    console.log(`Stock updated for ${item.name}: ${oldStock} → ${item.currentStock} (${type}: ${quantity})`);
-    return true;
-  } catch (error) {
-    console.error('Error updating stock:', error);
-    return false;
-  }
+  return result.success;
 };
 
-// Check and create inventory alerts
-export const checkAndCreateAlerts = (item: InventoryItem): void => {
-  const alerts = getInventoryAlerts();
-  const settings = getInventorySettings();
-  
-  // Remove existing alerts for this product
-  const filteredAlerts = alerts.filter(alert => alert.productId !== item.productId);
-  
-  // Check for low stock
-  if (item.currentStock <= item.minimumStock) {
-    const alert: InventoryAlert = {
-      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      productId: item.productId,
-      sku: item.sku,
-      type: item.currentStock === 0 ? 'out_of_stock' : 'low_stock',
-      severity: item.currentStock === 0 ? 'critical' : 'high',
-      message: item.currentStock === 0 
-        ? `${item.name} is out of stock!`
-        : `${item.name} is running low (${item.currentStock} remaining)`,
-      currentValue: item.currentStock,
-      thresholdValue: item.minimumStock,
-      createdAt: new Date(),
-      acknowledged: false
-    };
-    filteredAlerts.push(alert);
-  }
+/**
+ * Update a variant's reorder settings and bin location
+ */
+export const updateVariantSettings = async (variantId: string, updates: VariantStockUpdate): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('inventory_variants')
+        .update({
+          ...(updates.minimumStock !== undefined && { minimum_stock: updates.minimumStock }),
+          ...(updates.reorderPoint !== undefined && { reorder_point: updates.reorderPoint }),
+          ...(updates.reorderQuantity !== undefined && { reorder_quantity: updates.reorderQuantity }),
+          ...(updates.shelf !== undefined && { shelf: updates.shelf }),
+          ...(updates.bin !== undefined && { bin: updates.bin })
+        })
+        .eq('id', variantId);
 
-  // Check for overstock
-  if (item.currentStock > item.maximumStock) {
-    const alert: InventoryAlert = {
-      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      productId: item.productId,
-      sku: item.sku,
-      type: 'overstock',
-      severity: 'medium',
-      message: `${item.name} is overstocked (${item.currentStock} units)`,
-      currentValue: item.currentStock,
-      thresholdValue: item.maximumStock,
-      createdAt: new Date(),
-      acknowledged: false
-    };
-    filteredAlerts.push(alert);
-  }
+      if (error) throw error;
+      return true;
+    },
+    'Update variant settings'
+  );
 
-  // Check for reorder point
-  if (item.currentStock <= item.reorderPoint && item.currentStock > item.minimumStock) {
-    const alert: InventoryAlert = {
-      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      productId: item.productId,
-      sku: item.sku,
-      type: 'reorder',
-      severity: 'medium',
-      message: `${item.name} has reached reorder point (${item.currentStock} units)`,
-      currentValue: item.currentStock,
-      thresholdValue: item.reorderPoint,
-      createdAt: new Date(),
-      acknowledged: false
-    };
-    filteredAlerts.push(alert);
-  }
+  return result.success;
+};
+
+// ========================================
+// STOCK MOVEMENT LEDGER
+// ========================================
+
+/**
+ * Get the most recent stock movements, newest first
+ */
+export const getStockMovements = async (limit: number = 500): Promise<StockMovement[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('stock_movements')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map(mapDBMovement);
+    },
+    'Get stock movements'
+  );
 
-  saveInventoryAlerts(filteredAlerts);
+  return result.data || [];
 };
 
-// Get inventory alerts
-export const getInventoryAlerts = (): InventoryAlert[] => {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return [];
-  }
+/**
+ * Count all recorded stock movements
+ */
+export const getStockMovementCount = async (): Promise<number> => {
+  const result = await safeAsync(
+    async () => {
+      const { count, error } = await supabase
+        .from('stock_movements')
+        .select('id', { count: 'exact', head: true });
 
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.INVENTORY_ALERTS);
-    if (!stored) return [];
-    
-    const alerts = JSON.parse(stored);
-    return alerts.map((alert: any) => ({
-      ...alert,
-      createdAt: new Date(alert.createdAt),
-      acknowledgedAt: alert.acknowledgedAt ? new Date(alert.acknowledgedAt) : undefined
-    }));
-  } catch (error) {
-    console.error('Error loading inventory alerts:', error);
-    return [];
-  }
+      if (error) throw error;
+      return count || 0;
+    },
+    'Count stock movements'
+  );
+
+  return result.data || 0;
 };
 
-// Save inventory alerts
-export const saveInventoryAlerts = (alerts: InventoryAlert[]): void => {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return;
-  }
+/**
+ * Reconstruct every variant's stock level at a point in time from the ledger
+ * Variants with no movements before that time are omitted
+ */
+export const getStockAt = async (at: Date): Promise<StockLevelSnapshot[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('get_stock_at', { p_at: at.toISOString() });
 
-  try {
-    localStorage.setItem(STORAGE_KEYS.INVENTORY_ALERTS, JSON.stringify(alerts));
-  } catch (error) {
-    console.error('Error saving inventory alerts:', error);
-  }
+      if (error) throw error;
+
+      return (data || []).map((row: { variant_id: string; product_id: number; sku: string; stock: number; last_movement_at: string }) => ({
+        variantId: row.variant_id,
+        productId: row.product_id,
+        sku: row.sku,
+        stock: row.stock,
+        lastMovementAt: new Date(row.last_movement_at)
+      }));
+    },
+    'Get stock at time'
+  );
+
+  return result.data || [];
+};
+
+// ========================================
+// ALERTS
+// Alerts are kept in sync with stock levels by database triggers
+// ========================================
+
+/**
+ * Get current inventory alerts, newest first
+ */
+export const getInventoryAlerts = async (): Promise<InventoryAlert[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('inventory_alerts')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapDBAlert);
+    },
+    'Get inventory alerts'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Acknowledge an alert
+ */
+export const acknowledgeAlert = async (alertId: string, acknowledgedBy: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('inventory_alerts')
+        .update({
+          acknowledged: true,
+          acknowledged_by: acknowledgedBy,
+          acknowledged_at: new Date().toISOString()
+        })
+        .eq('id', alertId);
+
+      if (error) throw error;
+      return true;
+    },
+    'Acknowledge alert'
+  );
+
+  return result.success;
+};
+
+/**
+ * Dismiss an alert (it returns if the condition is still true at the next stock change)
+ */
+export const dismissAlert = async (alertId: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('inventory_alerts')
+        .delete()
+        .eq('id', alertId);
+
+      if (error) throw error;
+      return true;
+    },
+    'Dismiss alert'
+  );
+
+  return result.success;
 };
 
+// ========================================
+// SETTINGS (per browser)
+// ========================================
+
 // Get inventory settings
 export const getInventorySettings = (): InventorySettings => {
   if (typeof window === 'undefined' || !window.localStorage) {
@@ -342,7 +817,7 @@ export const getInventorySettings = (): InventorySettings => {
   try {
     const stored = localStorage.getItem(STORAGE_KEYS.INVENTORY_SETTINGS);
     if (!stored) return DEFAULT_SETTINGS;
-    
+
     return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
   } catch (error) {
     console.error('Error loading inventory settings:', error);
@@ -363,28 +838,196 @@ export const saveInventorySettings = (settings: InventorySettings): void => {
   }
 };
 
-// Get reorder suggestions
-export const getReorderSuggestions = (): ReorderSuggestion[] => {
-  const items = getInventoryItems();
+// ========================================
+// CART RESERVATIONS
+// Signed-in carts are keyed by the user id server-side; guests use a random per-browser id
+// ========================================
+
+// Get (or create) this browser's guest cart id
+export const getGuestCartId = (): string => {
+  let guestCartId = localStorage.getItem(STORAGE_KEYS.GUEST_CART_ID);
+
+  if (!guestCartId) {
+    guestCartId = crypto.randomUUID();
+    localStorage.setItem(STORAGE_KEYS.GUEST_CART_ID, guestCartId);
+  }
+
+  return guestCartId;
+};
+
+/**
+ * Hold stock for a cart line, replacing any existing hold on the same line
+ * A quantity of 0 releases the hold. Products without inventory tracking are not held.
+ * Hold lengths come from the cart_hold_settings table.
+ * Returns false when the variant doesn't have enough available stock.
+ */
+export const reserveCartItem = async (
+  cartId: string,
+  productId: number,
+  size: string = '',
+  color: string = '',
+  quantity: number
+): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('reserve_cart_item', {
+        p_cart_id: cartId,
+        p_product_id: productId,
+        p_size: size,
+        p_color: color,
+        p_quantity: quantity
+      });
+
+      if (error) throw error;
+      return data as boolean;
+    },
+    'Reserve cart item'
+  );
+
+  return result.data === true;
+};
+
+/**
+ * Release all holds for a cart
+ */
+export const releaseCartReservations = async (cartId: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase.rpc('release_cart_reservations', { p_cart_id: cartId });
+
+      if (error) throw error;
+      return true;
+    },
+    'Release cart reservations'
+  );
+
+  return result.success;
+};
+
+/**
+ * Keep a cart's holds for at least the checkout window
+ */
+export const extendCartReservations = async (cartId: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase.rpc('extend_cart_reservations', { p_cart_id: cartId });
+
+      if (error) throw error;
+      return true;
+    },
+    'Extend cart reservations'
+  );
+
+  return result.success;
+};
+
+/**
+ * Move a guest cart's holds to the signed-in user's cart, merging lines held by both
+ */
+export const transferCartReservations = async (guestCartId: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase.rpc('transfer_cart_reservations', { p_guest_cart_id: guestCartId });
+
+      if (error) throw error;
+      return true;
+    },
+    'Transfer cart reservations'
+  );
+
+  return result.success;
+};
+
+/**
+ * Release every hold whose time has run out; returns how many were released
+ */
+export const releaseExpiredReservations = async (): Promise<number> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('release_expired_reservations');
+
+      if (error) throw error;
+      return data as number;
+    },
+    'Release expired reservations'
+  );
+
+  return result.data || 0;
+};
+
+/**
+ * Return a cancelled or refunded order's sold units to stock; safe to call more than once
+ */
+export const restockOrder = async (orderId: string, reason: string, performedBy: string = 'admin'): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase.rpc('restock_order', {
+        p_order_id: orderId,
+        p_reason: reason,
+        p_performed_by: performedBy
+      });
+
+      if (error) throw error;
+      return true;
+    },
+    'Restock order'
+  );
+
+  return result.success;
+};
+
+// ========================================
+// REALTIME
+// ========================================
+
+/**
+ * Call onChange whenever items, variants, movements or alerts change for anyone
+ * Returns an unsubscribe function
+ */
+export const subscribeToInventoryChanges = (onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel('inventory-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'inventory_items' }, onChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'inventory_variants' }, onChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'stock_movements' }, onChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'inventory_alerts' }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// ========================================
+// REPORTS
+// ========================================
+
+// Get reorder suggestions (one per variant at or below its reorder point)
+export const getReorderSuggestions = (items: InventoryItem[]): ReorderSuggestion[] => {
   const suggestions: ReorderSuggestion[] = [];
 
   items.forEach(item => {
-    if (item.currentStock <= item.reorderPoint) {
-      const urgency = item.currentStock === 0 ? 'critical' :
-                     item.currentStock <= item.minimumStock ? 'high' :
-                     item.currentStock <= item.reorderPoint ? 'medium' : 'low';
+    item.variants.forEach(variant => {
+      if (variant.currentStock > variant.reorderPoint) return;
+
+      const urgency = variant.currentStock === 0 ? 'critical' :
+                     variant.currentStock <= variant.minimumStock ? 'high' : 'medium';
 
       suggestions.push({
         productId: item.productId,
-        sku: item.sku,
+        variantId: variant.id,
+        sku: variant.sku,
         name: item.name,
-        currentStock: item.currentStock,
-        reorderPoint: item.reorderPoint,
-        suggestedQuantity: item.reorderQuantity,
+        size: variant.size,
+        color: variant.color,
+        location: `${item.warehouse} / ${variant.shelf}-${variant.bin}`,
+        currentStock: variant.currentStock,
+        reorderPoint: variant.reorderPoint,
+        suggestedQuantity: variant.reorderQuantity,
         urgency,
-        estimatedCost: item.reorderQuantity * item.costPrice
+        estimatedCost: variant.reorderQuantity * item.costPrice
       });
-    }
+    });
   });
 
   return suggestions.sort((a, b) => {
@@ -394,10 +1037,7 @@ export const getReorderSuggestions = (): ReorderSuggestion[] => {
 };
 
 // Get inventory analytics
-export const getInventoryAnalytics = (): InventoryAnalytics => {
-  const items = getInventoryItems();
-  const movements = getStockMovements();
-  
+export const getInventoryAnalytics = (items: InventoryItem[], totalMovements: number): InventoryAnalytics => {
   const totalProducts = items.length;
   const totalValue = items.reduce((sum, item) => sum + (item.currentStock * item.costPrice), 0);
   const lowStockItems = items.filter(item => item.currentStock <= item.minimumStock).length;
@@ -455,29 +1095,85 @@ export const getInventoryAnalytics = (): InventoryAnalytics => {
     lowStockItems,
     outOfStockItems,
     overstockItems,
-    totalMovements: movements.length,
+    totalMovements,
     topSellingProducts,
     slowMovingProducts,
     categoryBreakdown
   };
 };
 
-// Acknowledge alert
-export const acknowledgeAlert = (alertId: string, acknowledgedBy: string): boolean => {
+// ========================================
+// LEGACY IMPORT
+// ========================================
+
+// Inventory items saved in this browser before the inventory tables existed
+const getLegacyInventoryItems = (): InventoryItem[] => {
+  if (typeof window === 'undefined' || !window.localStorage) {
+    return [];
+  }
+
   try {
-    const alerts = getInventoryAlerts();
-    const alertIndex = alerts.findIndex(alert => alert.id === alertId);
-    
-    if (alertIndex === -1) return false;
-    
-    alerts[alertIndex].acknowledged = true;
-    alerts[alertIndex].acknowledgedBy = acknowledgedBy;
-    alerts[alertIndex].acknowledgedAt = new Date();
-    
-    saveInventoryAlerts(alerts);
-    return true;
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEYS.INVENTORY_ITEMS);
+    if (!stored) return [];
+
+    return JSON.parse(stored).map((item: InventoryItem) => {
+      const legacyItem: InventoryItem = {
+        ...item,
+        variants: item.variants || []
+      };
+
+      // Items saved before variants keep their stock in one shared variant
+      if (legacyItem.variants.length === 0) {
+        legacyItem.variants = [createVariant(legacyItem, '', '', legacyItem.currentStock)];
+      }
+
+      return legacyItem;
+    });
   } catch (error) {
-    console.error('Error acknowledging alert:', error);
-    return false;
+    console.error('Error loading legacy inventory items:', error);
+    return [];
   }
 };
+
+// Whether this browser still has inventory saved before the inventory tables existed
+export const hasLegacyInventory = (): boolean => getLegacyInventoryItems().length > 0;
+
+/**
+ * Import this browser's localStorage inventory into the inventory tables
+ * Each variant's stock becomes an opening 'in' movement; products that already
+ * have an inventory item are skipped. Legacy movement history and alerts are not
+ * imported (the ledger starts from the imported levels).
+ * Returns the number of imported items, or null on failure
+ */
+export const importLegacyInventory = async (): Promise<number | null> => {
+  const legacyItems = getLegacyInventoryItems();
+  const existingItems = await getInventoryItems();
+
+  const result = await safeAsync(
+    async () => {
+      let imported = 0;
+
+      for (const legacyItem of legacyItems) {
+        if (existingItems.some(item => item.productId === legacyItem.productId)) continue;
+
+        const { error } = await supabase
+          .from('inventory_items')
+          .insert(toDBItemRow(legacyItem));
+
+        if (error) throw error;
+
+        await insertVariants(legacyItem, legacyItem.variants, 'import');
+        imported++;
+      }
+
+      return imported;
+    },
+    'Import legacy inventory'
+  );
+
+  if (!result.success) return null;
+
+  // Imported inventory now lives in the database
+  Object.values(LEGACY_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+  return result.data;
+};
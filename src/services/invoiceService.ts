@@ -0,0 +1,214 @@
+/**
+ * Invoice Service
+ * GST invoices generated from orders, seller details and HSN codes per category
+ * Numbering and tax split (CGST + SGST or IGST) happen in the generate_invoice database function
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+import { ShippingAddress } from '@/services/userActivitiesService';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface SellerDetails {
+  legal_name: string;
+  gstin: string;
+  address_line1: string;
+  address_line2?: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export interface InvoiceSettings extends SellerDetails {
+  invoice_prefix: string;
+}
+
+export interface InvoiceLine {
+  product_id: number;
+  name: string;
+  hsn_code: string;
+  size?: string | null;
+  color?: string | null;
+  quantity: number;
+  unit_price: number;
+  // Line value after its share of the order discount
+  taxable_value: number;
+  gst_rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface Invoice {
+  id: string;
+  order_id: string;
+  invoice_number: string;
+  financial_year: string;
+  version: number;
+  seller: SellerDetails;
+  billing_address: ShippingAddress;
+  shipping_address: ShippingAddress;
+  place_of_supply: string;
+  is_interstate: boolean;
+  lines: InvoiceLine[];
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  shipping: number;
+  cod_surcharge: number;
+  total: number;
+  // True when the order was edited after the invoice was generated
+  is_outdated: boolean;
+  issued_at: string;
+  regenerated_at?: string | null;
+}
+
+export interface InvoiceResult {
+  success: boolean;
+  invoice?: Invoice;
+  error?: string;
+}
+
+export interface CategoryHsnCode {
+  category: string;
+  hsn_code: string;
+  description?: string | null;
+}
+
+// Printed on packing slips until seller details are saved
+export const DEFAULT_SELLER_NAME = 'Swathi Botique';
+
+const INVOICE_AMOUNT_FIELDS = ['taxable_value', 'cgst', 'sgst', 'igst', 'shipping', 'cod_surcharge', 'total'] as const;
+
+// DECIMAL columns come back from PostgREST as strings
+const mapInvoice = (row: Invoice): Invoice => {
+  const invoice = { ...row, lines: row.lines || [] };
+  INVOICE_AMOUNT_FIELDS.forEach(field => {
+    invoice[field] = Number(row[field]);
+  });
+  return invoice;
+};
+
+// ========================================
+// INVOICES
+// ========================================
+
+/**
+ * Get the invoice for an order, or null if none has been generated yet
+ */
+export const getInvoice = async (orderId: string): Promise<Invoice | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('order_id', orderId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? mapInvoice(data) : null;
+    },
+    'Get invoice'
+  );
+
+  return result.data ?? null;
+};
+
+/**
+ * Get the order's invoice, issuing the next invoice number the first time
+ * With regenerate (admin only) the invoice is rebuilt from the current order and keeps its number
+ */
+export const generateInvoice = async (orderId: string, regenerate = false): Promise<InvoiceResult> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('generate_invoice', {
+        p_order_id: orderId,
+        p_regenerate: regenerate,
+      });
+
+      if (error) throw error;
+      return mapInvoice(data);
+    },
+    regenerate ? 'Regenerate invoice' : 'Generate invoice'
+  );
+
+  return { success: result.success, invoice: result.data, error: result.error?.message };
+};
+
+// ========================================
+// SELLER DETAILS & HSN CODES (admin)
+// ========================================
+
+export const getInvoiceSettings = async (): Promise<InvoiceSettings | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('invoice_settings')
+        .select('legal_name, gstin, address_line1, address_line2, city, state, postal_code, phone, email, invoice_prefix')
+        .single();
+
+      if (error) throw error;
+      return data as InvoiceSettings;
+    },
+    'Get invoice settings'
+  );
+
+  return result.data ?? null;
+};
+
+export const updateInvoiceSettings = async (settings: InvoiceSettings): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('invoice_settings')
+        .update({ ...settings, gstin: settings.gstin.trim().toUpperCase() })
+        .eq('id', true);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update invoice settings'
+  );
+
+  return result.success;
+};
+
+export const getHsnCodes = async (): Promise<CategoryHsnCode[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('category_hsn_codes')
+        .select('category, hsn_code, description')
+        .order('category');
+
+      if (error) throw error;
+      return (data || []) as CategoryHsnCode[];
+    },
+    'Get HSN codes'
+  );
+
+  return result.data || [];
+};
+
+export const saveHsnCode = async (code: CategoryHsnCode): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('category_hsn_codes')
+        .upsert(code, { onConflict: 'category' });
+
+      if (error) throw error;
+      return true;
+    },
+    'Save HSN code'
+  );
+
+  return result.success;
+};
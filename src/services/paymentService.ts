@@ -0,0 +1,172 @@
+/**
+ * Payment Service
+ * Talks to the payments edge function, which owns the provider secrets
+ * Orders are marked paid by verified provider events, never directly from the browser
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+import { PaymentMethod } from '@/services/userActivitiesService';
+import { ReturnRequest } from '@/services/returnService';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type PaymentProviderName = 'razorpay' | 'cod' | 'mock';
+
+export type PaymentRecordStatus = 'created' | 'pending' | 'succeeded' | 'failed' | 'partially_refunded' | 'refunded';
+
+export interface Payment {
+  id: string;
+  order_id: string;
+  provider: PaymentProviderName;
+  method: PaymentMethod;
+  status: PaymentRecordStatus;
+  amount: number;
+  currency: string;
+  provider_payment_id: string;
+  provider_charge_id?: string | null;
+  refunded_amount: number;
+  failure_reason?: string | null;
+  created_at: string;
+  updated_at: string;
+  succeeded_at?: string | null;
+}
+
+export interface PaymentIntent {
+  payment: Payment;
+  provider: PaymentProviderName;
+  // Options for the provider's checkout (Razorpay key and order id, mock payment id)
+  clientData: Record<string, unknown>;
+}
+
+export interface PaymentActionResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cod: 'Cash on Delivery',
+  upi: 'UPI',
+  card: 'Credit / Debit Card',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentRecordStatus, string> = {
+  created: 'Awaiting payment',
+  pending: 'Pending',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+};
+
+/**
+ * Methods paid online before the order ships
+ */
+export const isOnlinePaymentMethod = (method?: string): boolean => method === 'upi' || method === 'card';
+
+const mapPayment = (row: Payment): Payment => ({
+  ...row,
+  amount: Number(row.amount),
+  refunded_amount: Number(row.refunded_amount),
+});
+
+// Call the payments function and surface the error message it returns
+const invokePayments = async <T>(body: Record<string, unknown>, context: string): Promise<PaymentActionResult<T>> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.functions.invoke('payments', { body });
+
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+      return data as T;
+    },
+    context
+  );
+
+  return { success: result.success, data: result.data, error: result.error?.message };
+};
+
+// ========================================
+// PAYMENTS
+// ========================================
+
+/**
+ * Start (or resume) paying an order with its payment method
+ * Guests without a session identify their order with its checkout email
+ */
+export const createPaymentIntent = async (
+  orderId: string,
+  guestEmail?: string
+): Promise<PaymentActionResult<PaymentIntent>> => {
+  const result = await invokePayments<PaymentIntent>({ action: 'create_intent', orderId, guestEmail }, 'Create payment intent');
+  if (result.data) {
+    result.data = { ...result.data, payment: mapPayment(result.data.payment) };
+  }
+  return result;
+};
+
+/**
+ * Report the checkout outcome for verification (provider response, or { outcome } for the mock provider)
+ * For Cash on Delivery, admins call this to record the cash as collected
+ */
+export const confirmPayment = async (
+  orderId: string,
+  payload: Record<string, unknown> = {},
+  guestEmail?: string
+): Promise<PaymentActionResult<Payment>> => {
+  const result = await invokePayments<{ payment: Payment }>({ action: 'confirm', orderId, payload, guestEmail }, 'Confirm payment');
+  return { ...result, data: result.data ? mapPayment(result.data.payment) : undefined };
+};
+
+/**
+ * Refund a captured payment through its provider (admin only); defaults to the full remaining amount
+ */
+export const refundPayment = async (orderId: string, amount?: number): Promise<PaymentActionResult<Payment>> => {
+  const result = await invokePayments<{ payment: Payment }>({ action: 'refund', orderId, amount }, 'Refund payment');
+  return { ...result, data: result.data ? mapPayment(result.data.payment) : undefined };
+};
+
+/**
+ * Refund a received return through the order's payment provider (admin only)
+ * Without an amount, the returned items' share of what was paid is refunded
+ */
+export const refundReturnPayment = async (
+  orderId: string,
+  returnId: string,
+  amount?: number
+): Promise<PaymentActionResult<{ returnRequest: ReturnRequest; payment: Payment }>> => {
+  const result = await invokePayments<{ returnRequest: ReturnRequest; payment: Payment }>(
+    { action: 'refund_return', orderId, returnId, amount },
+    'Refund return'
+  );
+  return {
+    ...result,
+    data: result.data ? { ...result.data, payment: mapPayment(result.data.payment) } : undefined,
+  };
+};
+
+/**
+ * Get an order's payment attempts, newest first
+ */
+export const getOrderPayments = async (orderId: string): Promise<Payment[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapPayment);
+    },
+    'Get order payments'
+  );
+
+  return result.data || [];
+};
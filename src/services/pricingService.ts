@@ -0,0 +1,318 @@
+/**
+ * Pricing Service
+ * Order price quotes (GST, zone/weight shipping, COD surcharge) and admin pricing configuration
+ * Quotes come from calculate_order_pricing, the same function create_order_from_cart uses
+ */
+
+import { supabase } from '@/lib/supabase';
+import { CartItem } from '@/contexts/CartContext';
+import { safeAsync } from '@/utils/errorHandling';
+import { OrderDiscount, ShippingMethod } from '@/utils/orderTotals';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface PricingSettings {
+  free_shipping_threshold: number;
+  cod_surcharge: number;
+  default_weight_grams: number;
+  default_gst_rate: number;
+  updated_at?: string;
+}
+
+export interface ShippingZone {
+  code: string;
+  name: string;
+  pincode_prefixes: string[];
+  is_default: boolean;
+  base_rate: number;
+  base_weight_grams: number;
+  additional_rate: number;
+  express_surcharge: number;
+  sort_order: number;
+}
+
+export interface GstSlab {
+  id?: string;
+  category: string;
+  // Highest taxable unit price covered by this slab (null = no limit)
+  max_unit_price: number | null;
+  rate: number;
+}
+
+export interface OrderPricing {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  cod_surcharge: number;
+  tax: number;
+  total: number;
+  shipping_zone: string;
+  shipping_zone_name: string;
+  weight_grams: number;
+  shipping_options: Record<ShippingMethod, number>;
+  free_shipping_threshold: number;
+  // Surcharge that applies if the customer pays cash on delivery
+  cod_surcharge_amount: number;
+}
+
+export interface PricingOptions {
+  pincode?: string;
+  shippingMethod?: ShippingMethod;
+  paymentMethod?: string;
+  discount?: OrderDiscount | null;
+}
+
+const toNumber = (value: unknown): number => Number(value || 0);
+
+const mapPricing = (data: Record<string, unknown>): OrderPricing => {
+  const options = (data.shipping_options || {}) as Record<ShippingMethod, unknown>;
+
+  return {
+    subtotal: toNumber(data.subtotal),
+    discount: toNumber(data.discount),
+    shipping: toNumber(data.shipping),
+    cod_surcharge: toNumber(data.cod_surcharge),
+    tax: toNumber(data.tax),
+    total: toNumber(data.total),
+    shipping_zone: data.shipping_zone as string,
+    shipping_zone_name: data.shipping_zone_name as string,
+    weight_grams: toNumber(data.weight_grams),
+    shipping_options: {
+      standard: toNumber(options.standard),
+      express: toNumber(options.express),
+    },
+    free_shipping_threshold: toNumber(data.free_shipping_threshold),
+    cod_surcharge_amount: toNumber(data.cod_surcharge_amount),
+  };
+};
+
+// ========================================
+// QUOTES
+// ========================================
+
+/**
+ * Price cart items for a destination pincode, shipping method, payment method and coupon discount
+ * Without a pincode the store's default shipping zone is used
+ */
+export const getOrderPricing = async (
+  items: CartItem[],
+  options: PricingOptions = {}
+): Promise<OrderPricing | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('calculate_order_pricing', {
+        p_items: items.map(item => ({ id: item.id, quantity: item.quantity })),
+        p_pincode: options.pincode || null,
+        p_shipping_method: options.shippingMethod || 'standard',
+        p_payment_method: options.paymentMethod || null,
+        p_discount: options.discount?.amount || 0,
+        p_free_shipping: !!options.discount?.freeShipping,
+      });
+
+      if (error) throw error;
+      return mapPricing(data);
+    },
+    'Calculate order pricing'
+  );
+
+  return result.data || null;
+};
+
+// ========================================
+// SETTINGS
+// ========================================
+
+/**
+ * Get the store pricing settings
+ */
+export const getPricingSettings = async (): Promise<PricingSettings | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('pricing_settings')
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      return {
+        free_shipping_threshold: Number(data.free_shipping_threshold),
+        cod_surcharge: Number(data.cod_surcharge),
+        default_weight_grams: data.default_weight_grams,
+        default_gst_rate: Number(data.default_gst_rate),
+        updated_at: data.updated_at,
+      } as PricingSettings;
+    },
+    'Get pricing settings'
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Update the store pricing settings
+ */
+export const updatePricingSettings = async (settings: PricingSettings): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('pricing_settings')
+        .update({
+          free_shipping_threshold: settings.free_shipping_threshold,
+          cod_surcharge: settings.cod_surcharge,
+          default_weight_grams: settings.default_weight_grams,
+          default_gst_rate: settings.default_gst_rate,
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update pricing settings'
+  );
+
+  return result.success;
+};
+
+// ========================================
+// SHIPPING ZONES
+// ========================================
+
+/**
+ * Get all shipping zones in display order
+ */
+export const getShippingZones = async (): Promise<ShippingZone[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('shipping_zones')
+        .select('*')
+        .order('sort_order');
+
+      if (error) throw error;
+
+      return (data || []).map(zone => ({
+        ...zone,
+        base_rate: Number(zone.base_rate),
+        additional_rate: Number(zone.additional_rate),
+        express_surcharge: Number(zone.express_surcharge),
+      })) as ShippingZone[];
+    },
+    'Get shipping zones'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Create or update a shipping zone (keyed by code)
+ */
+export const saveShippingZone = async (zone: ShippingZone): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('shipping_zones')
+        .upsert({
+          ...zone,
+          pincode_prefixes: zone.pincode_prefixes.map(prefix => prefix.trim()).filter(Boolean),
+        });
+
+      if (error) throw error;
+      return true;
+    },
+    'Save shipping zone'
+  );
+
+  return result.success;
+};
+
+/**
+ * Delete a shipping zone
+ */
+export const deleteShippingZone = async (code: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('shipping_zones')
+        .delete()
+        .eq('code', code);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete shipping zone'
+  );
+
+  return result.success;
+};
+
+// ========================================
+// GST SLABS
+// ========================================
+
+/**
+ * Get all GST slabs grouped by category, lowest price slab first
+ */
+export const getGstSlabs = async (): Promise<GstSlab[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('gst_slabs')
+        .select('id, category, max_unit_price, rate')
+        .order('category')
+        .order('max_unit_price', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+
+      return (data || []).map(slab => ({
+        ...slab,
+        max_unit_price: slab.max_unit_price !== null ? Number(slab.max_unit_price) : null,
+        rate: Number(slab.rate),
+      })) as GstSlab[];
+    },
+    'Get GST slabs'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Create or update a GST slab
+ */
+export const saveGstSlab = async (slab: GstSlab): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('gst_slabs')
+        .upsert(slab);
+
+      if (error) throw error;
+      return true;
+    },
+    'Save GST slab'
+  );
+
+  return result.success;
+};
+
+/**
+ * Delete a GST slab
+ */
+export const deleteGstSlab = async (id: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('gst_slabs')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete GST slab'
+  );
+
+  return result.success;
+};
@@ -0,0 +1,166 @@
+/**
+ * Product Image Service
+ * Uploads compressed product images to Supabase Storage in responsive renditions
+ * and removes them again when they are no longer referenced by a product
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+import { compressImage, dataUrlToBlob } from '@/utils/imageUtils';
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+export const PRODUCT_IMAGES_BUCKET = 'product-images';
+
+export type ImageRendition = 'thumbnail' | 'medium' | 'large';
+
+// Max width (px) of each rendition; the large rendition URL is what gets stored on Product.images
+export const IMAGE_RENDITIONS: Record<ImageRendition, number> = {
+  thumbnail: 400,
+  medium: 800,
+  large: 1600,
+};
+
+const PRIMARY_RENDITION: ImageRendition = 'large';
+const IMAGE_QUALITY = 0.8;
+
+const RENDITION_SUFFIX = /-(thumbnail|medium|large)\.jpg$/;
+const PUBLIC_URL_MARKER = `/storage/v1/object/public/${PRODUCT_IMAGES_BUCKET}/`;
+
+// ========================================
+// URL HELPERS
+// ========================================
+
+/**
+ * Get the storage path of an uploaded image from its public URL
+ * Returns null for images that don't live in the product images bucket
+ */
+const getStoragePath = (url: string): string | null => {
+  const markerIndex = url.indexOf(PUBLIC_URL_MARKER);
+  if (markerIndex === -1) return null;
+
+  const path = url.slice(markerIndex + PUBLIC_URL_MARKER.length);
+  return RENDITION_SUFFIX.test(path) ? path : null;
+};
+
+const getRenditionPath = (path: string, rendition: ImageRendition): string => {
+  return path.replace(RENDITION_SUFFIX, `-${rendition}.jpg`);
+};
+
+/**
+ * Get the URL of a specific rendition of a product image
+ * Images outside the bucket (static assets, legacy data URLs) are returned unchanged
+ */
+export const getProductImageUrl = (url: string, rendition: ImageRendition): string => {
+  if (!url || !getStoragePath(url)) return url;
+  return url.replace(RENDITION_SUFFIX, `-${rendition}.jpg`);
+};
+
+/**
+ * Build an <img srcSet> value covering every rendition of a product image
+ */
+export const getProductImageSrcSet = (url: string): string | undefined => {
+  if (!url || !getStoragePath(url)) return undefined;
+
+  return (Object.keys(IMAGE_RENDITIONS) as ImageRendition[])
+    .map(rendition => `${getProductImageUrl(url, rendition)} ${IMAGE_RENDITIONS[rendition]}w`)
+    .join(', ');
+};
+
+// ========================================
+// UPLOAD & CLEANUP
+// ========================================
+
+/**
+ * Compress and upload one image in every rendition
+ * Returns the public URL of the primary rendition
+ */
+const uploadProductImage = async (file: File): Promise<string> => {
+  const folder = `products/${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  const uploadedPaths: string[] = [];
+
+  try {
+    for (const [rendition, maxWidth] of Object.entries(IMAGE_RENDITIONS)) {
+      const compressed = await compressImage(file, maxWidth, IMAGE_QUALITY);
+      const path = `${folder}/image-${rendition}.jpg`;
+
+      const { error } = await supabase.storage
+        .from(PRODUCT_IMAGES_BUCKET)
+        .upload(path, dataUrlToBlob(compressed), {
+          contentType: 'image/jpeg',
+          cacheControl: '31536000',
+        });
+
+      if (error) throw error;
+      uploadedPaths.push(path);
+    }
+  } catch (error) {
+    // Don't leave a partial set of renditions behind
+    if (uploadedPaths.length > 0) {
+      await supabase.storage.from(PRODUCT_IMAGES_BUCKET).remove(uploadedPaths);
+    }
+    throw error;
+  }
+
+  const { data } = supabase.storage
+    .from(PRODUCT_IMAGES_BUCKET)
+    .getPublicUrl(`${folder}/image-${PRIMARY_RENDITION}.jpg`);
+
+  return data.publicUrl;
+};
+
+/**
+ * Upload product images, preserving their order
+ * Either all images are uploaded or none are kept; returns null on failure
+ */
+export const uploadProductImages = async (files: File[]): Promise<string[] | null> => {
+  const uploadedUrls: string[] = [];
+
+  const result = await safeAsync(
+    async () => {
+      for (const file of files) {
+        uploadedUrls.push(await uploadProductImage(file));
+      }
+      return uploadedUrls;
+    },
+    'Upload product images'
+  );
+
+  if (!result.success) {
+    await deleteProductImages(uploadedUrls);
+    return null;
+  }
+
+  return result.data;
+};
+
+/**
+ * Delete every rendition of the given product images from storage
+ * URLs outside the product images bucket are ignored
+ */
+export const deleteProductImages = async (imageUrls: string[]): Promise<boolean> => {
+  const paths = imageUrls
+    .map(getStoragePath)
+    .filter((path): path is string => path !== null)
+    .flatMap(path =>
+      (Object.keys(IMAGE_RENDITIONS) as ImageRendition[]).map(rendition => getRenditionPath(path, rendition))
+    );
+
+  if (paths.length === 0) return true;
+
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase.storage
+        .from(PRODUCT_IMAGES_BUCKET)
+        .remove(paths);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete product images'
+  );
+
+  return result.success;
+};
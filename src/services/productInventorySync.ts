@@ -5,40 +5,43 @@
  */
 
 import { Product } from '@/types/product';
-import { InventoryItem } from '@/types/inventory';
 import {
   getInventoryItems,
-  saveInventoryItems,
-  createInventoryItem as createInventoryItemService
+  getInventoryItemByProduct,
+  createInventoryItem as createInventoryItemService,
+  addProductVariants
 } from '@/services/inventoryService';
-import { getAllProducts } from '@/services/productService';
+import { getAllProducts, updateAdminProduct } from '@/services/dataService';
 
 /**
  * Synchronize a single product with inventory
- * Creates inventory item if it doesn't exist
+ * Creates inventory item if it doesn't exist, otherwise adds variants for new sizes/colors
  */
-export const syncProductToInventory = (product: Product): boolean => {
+export const syncProductToInventory = async (product: Product): Promise<boolean> => {
   try {
-    const inventoryItems = getInventoryItems();
-    const existingItem = inventoryItems.find(item => item.productId === product.id);
+    const existingItem = await getInventoryItemByProduct(product.id);
     
     if (existingItem) {
-      console.log(`Product ${product.id} already has inventory item`);
-      return true;
+      const success = await addProductVariants(existingItem, product);
+      if (success) {
+        console.log(`✅ Synced variants for product: ${product.name}`);
+      }
+      return success;
     }
     
-    // Create new inventory item with sensible defaults
-    const newInventoryItem = createInventoryItemService(product, {
-      currentStock: product.inStock ? 10 : 0, // Default to 10 if in stock
-      minimumStock: 5,
-      maximumStock: 100,
-      costPrice: product.price * 0.6, // 40% margin assumption
-      status: product.inStock ? 'active' : 'inactive',
-      createdBy: 'system'
-    });
+    // Create new inventory item from the product's inventory data, or sensible defaults
+    const newInventoryItem = await createInventoryItemService(product, product.inventory
+      ? { ...product.inventory, createdBy: 'admin' }
+      : {
+          currentStock: product.inStock ? 10 : 0, // Default to 10 if in stock
+          minimumStock: 5,
+          maximumStock: 100,
+          costPrice: product.price * 0.6, // 40% margin assumption
+          status: product.inStock ? 'active' : 'inactive',
+          createdBy: 'system'
+        });
     
-    inventoryItems.push(newInventoryItem);
-    saveInventoryItems(inventoryItems);
+    if (!newInventoryItem) return false;
     
     console.log(`✅ Created inventory item for product: ${product.name}`);
     return true;
@@ -52,27 +55,20 @@ export const syncProductToInventory = (product: Product): boolean => {
  * Synchronize inventory back to product
  * Updates product's inStock status based on inventory
  */
-export const syncInventoryToProduct = (inventoryItem: InventoryItem): boolean => {
+export const syncInventoryToProduct = async (productId: number): Promise<boolean> => {
   try {
-    const products = getAllProducts();
-    const productIndex = products.findIndex(p => p.id === inventoryItem.productId);
+    const inventoryItem = await getInventoryItemByProduct(productId);
     
-    if (productIndex === -1) {
-      console.warn(`Product ${inventoryItem.productId} not found for inventory sync`);
+    if (!inventoryItem) {
+      console.warn(`No inventory item for product ${productId}`);
       return false;
     }
     
-    // Update product's inStock status
-    products[productIndex].inStock = inventoryItem.currentStock > 0;
-    
-    // Save products (only for admin-added products in localStorage)
-    const adminProducts = products.filter(p => p.id > 1000);
-    if (adminProducts.length > 0) {
-      localStorage.setItem('adminProducts', JSON.stringify(adminProducts));
+    const success = await updateAdminProduct(productId, { inStock: inventoryItem.currentStock > 0 });
+    if (success) {
+      console.log(`✅ Synced inventory to product: ${inventoryItem.name}`);
     }
-    
-    console.log(`✅ Synced inventory to product: ${products[productIndex].name}`);
-    return true;
+    return success;
   } catch (error) {
     console.error(`❌ Error syncing inventory to product:`, error);
     return false;
@@ -83,21 +79,21 @@ export const syncInventoryToProduct = (inventoryItem: InventoryItem): boolean =>
  * Bulk synchronization: Sync all products to inventory
  * Creates missing inventory items
  */
-export const syncAllProductsToInventory = (): { created: number; errors: number } => {
+export const syncAllProductsToInventory = async (): Promise<{ created: number; errors: number }> => {
   console.log('🔄 Starting bulk product-to-inventory sync...');
   
-  const products = getAllProducts();
+  const products = await getAllProducts();
   let created = 0;
   let errors = 0;
   
-  products.forEach(product => {
-    const result = syncProductToInventory(product);
+  for (const product of products) {
+    const result = await syncProductToInventory(product);
     if (result) {
       created++;
     } else {
       errors++;
     }
-  });
+  }
   
   console.log(`✅ Bulk sync complete: ${created} created, ${errors} errors`);
   return { created, errors };
@@ -107,21 +103,21 @@ export const syncAllProductsToInventory = (): { created: number; errors: number
  * Bulk synchronization: Sync all inventory items to products
  * Updates product stock status
  */
-export const syncAllInventoryToProducts = (): { updated: number; errors: number } => {
+export const syncAllInventoryToProducts = async (): Promise<{ updated: number; errors: number }> => {
   console.log('🔄 Starting bulk inventory-to-product sync...');
   
-  const inventoryItems = getInventoryItems();
+  const inventoryItems = await getInventoryItems();
   let updated = 0;
   let errors = 0;
   
-  inventoryItems.forEach(item => {
-    const result = syncInventoryToProduct(item);
+  for (const item of inventoryItems) {
+    const result = await syncInventoryToProduct(item.productId);
     if (result) {
       updated++;
     } else {
       errors++;
     }
-  });
+  }
   
   console.log(`✅ Bulk sync complete: ${updated} updated, ${errors} errors`);
   return { updated, errors };
@@ -139,9 +135,8 @@ export interface SyncInconsistency {
   details: string;
 }
 
-export const validateSync = (): SyncInconsistency[] => {
-  const products = getAllProducts();
-  const inventoryItems = getInventoryItems();
+export const validateSync = async (): Promise<SyncInconsistency[]> => {
+  const [products, inventoryItems] = await Promise.all([getAllProducts(), getInventoryItems()]);
   const inconsistencies: SyncInconsistency[] = [];
   
   // Check for products without inventory
@@ -194,19 +189,19 @@ export const validateSync = (): SyncInconsistency[] => {
 /**
  * Auto-fix all synchronization issues
  */
-export const autoFixSync = (): { fixed: number; errors: number } => {
+export const autoFixSync = async (): Promise<{ fixed: number; errors: number }> => {
   console.log('🔧 Auto-fixing synchronization issues...');
   
   let fixed = 0;
   let errors = 0;
   
   // Sync products to inventory
-  const productSync = syncAllProductsToInventory();
+  const productSync = await syncAllProductsToInventory();
   fixed += productSync.created;
   errors += productSync.errors;
   
   // Sync inventory back to products
-  const inventorySync = syncAllInventoryToProducts();
+  const inventorySync = await syncAllInventoryToProducts();
   fixed += inventorySync.updated;
   errors += inventorySync.errors;
   
@@ -4,7 +4,7 @@
  * Following DRY Principle - reusable across all components
  */
 
-import { Product, ProductFilter, SortOption, Occasion, ProductCategory, ProductSubcategory, Fabric } from "@/types/product";
+import { Product, ProductFilter, SortOption, Occasion, ProductCategory, ProductSubcategory } from "@/types/product";
 
 // Use string paths instead of imports to avoid Rollup build issues
 const saree1 = "/src/assets/saree-1.jpg";
@@ -558,7 +558,7 @@ export const filterProducts = (products: Product[], filter: ProductFilter): Prod
     }
     
     // Fabric filter
-    if (filter.fabrics.length > 0 && product.fabric && !filter.fabrics.includes(product.fabric as any)) {
+    if (filter.fabrics.length > 0 && product.fabric && !filter.fabrics.includes(formatFabric(product.fabric))) {
       return false;
     }
     
@@ -634,12 +634,16 @@ export const searchProducts = (products: Product[], query: string): Product[] =>
   });
 };
 
+// Fabric names as the search facets list them: trimmed and title-cased ("raw silk" -> "Raw Silk")
+export const formatFabric = (fabric: string): string =>
+  fabric.trim().toLowerCase().replace(/(^|[^a-z0-9])([a-z])/g, (_, before: string, letter: string) => before + letter.toUpperCase());
+
 // Get unique values for filter options
 export const getFilterOptions = (products: Product[]) => {
   const categories = [...new Set(products.map(p => p.category))];
   const subcategories = [...new Set(products.map(p => p.subcategory))];
   const occasions = [...new Set(products.flatMap(p => p.occasion || []))];
-  const fabrics = [...new Set(products.map(p => p.fabric).filter(Boolean))] as Fabric[];
+  const fabrics = [...new Set(products.map(p => p.fabric && formatFabric(p.fabric)).filter(Boolean))];
   const sizes = [...new Set(products.flatMap(p => p.sizes || []))];
   const colors = [...new Set(products.flatMap(p => p.colors || []))];
   
@@ -647,7 +651,7 @@ export const getFilterOptions = (products: Product[]) => {
     categories: categories.sort(),
     subcategories: subcategories.sort(),
     occasions: occasions.sort(),
-    fabrics: fabrics.sort() as Fabric[],
+    fabrics: fabrics.sort(),
     sizes: sizes.sort(),
     colors: colors.sort()
   };
@@ -0,0 +1,338 @@
+/**
+ * Return Service
+ * Customer return/exchange requests (RMAs) and the admin RMA queue
+ * Stock movements, refunds and order status changes happen in the database functions;
+ * return refunds go through the payments edge function so the provider pays them out
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+import { compressImage, dataUrlToBlob } from '@/utils/imageUtils';
+import { Order } from '@/services/userActivitiesService';
+import { refundReturnPayment } from '@/services/paymentService';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type ReturnRequestType = 'return' | 'exchange';
+
+export type ReturnRequestStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded' | 'exchanged';
+
+export interface ReturnItem {
+  id: number;
+  name: string;
+  image?: string;
+  price: number;
+  size?: string;
+  color?: string;
+  quantity: number;
+  // Replacement size for exchanges
+  exchange_size?: string | null;
+}
+
+export interface ReturnRequest {
+  id: string;
+  rma_number: string;
+  order_id: string;
+  user_id: string;
+  type: ReturnRequestType;
+  status: ReturnRequestStatus;
+  items: ReturnItem[];
+  reason: string;
+  comments?: string;
+  // Storage paths in the return-photos bucket
+  photos: string[];
+  refund_amount?: number;
+  admin_notes?: string;
+  created_at: string;
+  updated_at: string;
+  approved_at?: string;
+  received_at?: string;
+  resolved_at?: string;
+  // Order number of the request's order (admin listing only)
+  order_number?: string;
+}
+
+export interface ReturnRequestInput {
+  orderId: string;
+  type: ReturnRequestType;
+  items: Array<Pick<ReturnItem, 'id' | 'size' | 'color' | 'quantity' | 'exchange_size'>>;
+  reason: string;
+  comments?: string;
+  photos?: string[];
+}
+
+export interface ReturnActionResult {
+  success: boolean;
+  request?: ReturnRequest;
+  error?: string;
+}
+
+export const RETURN_PHOTOS_BUCKET = 'return-photos';
+
+export const MAX_RETURN_PHOTOS = 4;
+
+export const DEFAULT_RETURN_WINDOW_DAYS = 7;
+
+export const RETURN_REASONS = [
+  'Size too small',
+  'Size too large',
+  'Damaged or defective',
+  'Different from the pictures',
+  'Wrong item received',
+  'Changed my mind',
+];
+
+export const RETURN_STATUS_LABELS: Record<ReturnRequestStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  received: 'Received',
+  refunded: 'Refunded',
+  exchanged: 'Exchanged',
+};
+
+type DBReturnRequest = ReturnRequest & { orders?: { order_number: string } | null };
+
+const mapReturnRequest = ({ orders, ...row }: DBReturnRequest): ReturnRequest => ({
+  ...row,
+  refund_amount: row.refund_amount !== null && row.refund_amount !== undefined ? Number(row.refund_amount) : undefined,
+  order_number: orders?.order_number ?? row.order_number,
+});
+
+// Run an RMA database function and surface its error message
+const runReturnFunction = async (
+  fn: string,
+  params: Record<string, unknown>,
+  context: string
+): Promise<ReturnActionResult> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc(fn, params);
+
+      if (error) throw error;
+      return mapReturnRequest(data);
+    },
+    context
+  );
+
+  return { success: result.success, request: result.data, error: result.error?.message };
+};
+
+// ========================================
+// RETURN WINDOW
+// ========================================
+
+/**
+ * Get the number of days after delivery during which returns are accepted
+ */
+export const getReturnWindowDays = async (): Promise<number> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('return_settings')
+        .select('return_window_days')
+        .single();
+
+      if (error) throw error;
+      return data.return_window_days as number;
+    },
+    'Get return settings'
+  );
+
+  return result.data ?? DEFAULT_RETURN_WINDOW_DAYS;
+};
+
+/**
+ * Update the return window (admin only)
+ */
+export const updateReturnWindowDays = async (days: number): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('return_settings')
+        .update({ return_window_days: days })
+        .eq('id', true);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update return settings'
+  );
+
+  return result.success;
+};
+
+/**
+ * Last moment a delivered order can be returned, or null if it hasn't been delivered
+ */
+export const getReturnDeadline = (order: Order, windowDays: number): Date | null => {
+  if (order.status !== 'delivered' || !order.delivered_at) return null;
+
+  const deadline = new Date(order.delivered_at);
+  deadline.setDate(deadline.getDate() + windowDays);
+  return deadline;
+};
+
+export const isWithinReturnWindow = (order: Order, windowDays: number): boolean => {
+  const deadline = getReturnDeadline(order, windowDays);
+  return !!deadline && deadline >= new Date();
+};
+
+// ========================================
+// PHOTOS
+// ========================================
+
+/**
+ * Compress and upload return photos into the user's folder
+ * Either all photos are uploaded or none are kept; returns the storage paths or null on failure
+ */
+export const uploadReturnPhotos = async (userId: string, files: File[]): Promise<string[] | null> => {
+  const uploadedPaths: string[] = [];
+
+  const result = await safeAsync(
+    async () => {
+      for (const file of files) {
+        const compressed = await compressImage(file, 1200, 0.8);
+        const path = `${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 10)}.jpg`;
+
+        const { error } = await supabase.storage
+          .from(RETURN_PHOTOS_BUCKET)
+          .upload(path, dataUrlToBlob(compressed), { contentType: 'image/jpeg' });
+
+        if (error) throw error;
+        uploadedPaths.push(path);
+      }
+      return uploadedPaths;
+    },
+    'Upload return photos'
+  );
+
+  if (!result.success && uploadedPaths.length > 0) {
+    await supabase.storage.from(RETURN_PHOTOS_BUCKET).remove(uploadedPaths);
+  }
+
+  return result.success ? uploadedPaths : null;
+};
+
+/**
+ * Get short-lived URLs for viewing return photos
+ */
+export const getReturnPhotoUrls = async (paths: string[]): Promise<string[]> => {
+  if (paths.length === 0) return [];
+
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.storage
+        .from(RETURN_PHOTOS_BUCKET)
+        .createSignedUrls(paths, 60 * 60);
+
+      if (error) throw error;
+      return (data || []).map(entry => entry.signedUrl).filter(Boolean) as string[];
+    },
+    'Get return photo URLs'
+  );
+
+  return result.data || [];
+};
+
+// ========================================
+// CUSTOMER REQUESTS
+// ========================================
+
+/**
+ * Request a return or size exchange for items of a delivered order
+ */
+export const requestReturn = async (input: ReturnRequestInput): Promise<ReturnActionResult> => {
+  return runReturnFunction('request_return', {
+    p_order_id: input.orderId,
+    p_type: input.type,
+    p_items: input.items,
+    p_reason: input.reason,
+    p_comments: input.comments || null,
+    p_photos: input.photos || [],
+  }, 'Request return');
+};
+
+/**
+ * Get the user's return requests, newest first
+ */
+export const getUserReturns = async (userId: string): Promise<ReturnRequest[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('return_requests')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapReturnRequest);
+    },
+    'Get user returns'
+  );
+
+  return result.data || [];
+};
+
+// ========================================
+// RMA QUEUE (admin)
+// ========================================
+
+/**
+ * Get return requests, optionally by status, oldest first so the queue is worked in order
+ */
+export const getAllReturns = async (status?: ReturnRequestStatus): Promise<ReturnRequest[]> => {
+  const result = await safeAsync(
+    async () => {
+      let query = supabase
+        .from('return_requests')
+        .select('*, orders(order_number)')
+        .order('created_at', { ascending: true });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []).map(mapReturnRequest);
+    },
+    'Get all returns (admin)'
+  );
+
+  return result.data || [];
+};
+
+export const approveReturn = (returnId: string, adminNotes?: string) =>
+  runReturnFunction('approve_return', { p_return_id: returnId, p_admin_notes: adminNotes || null }, 'Approve return');
+
+export const rejectReturn = (returnId: string, reason: string) =>
+  runReturnFunction('reject_return', { p_return_id: returnId, p_reason: reason }, 'Reject return');
+
+/**
+ * Mark returned items as received; they go back into stock as 'in' movements
+ */
+export const receiveReturn = (returnId: string, performedBy: string) =>
+  runReturnFunction('receive_return', { p_return_id: returnId, p_performed_by: performedBy }, 'Receive return');
+
+/**
+ * Refund a received return through the order's payment provider
+ * Defaults to the returned items' value after the order discount, capped at what is left to refund
+ */
+export const refundReturn = async (request: ReturnRequest, amount?: number): Promise<ReturnActionResult> => {
+  const result = await refundReturnPayment(request.order_id, request.id, amount);
+  return {
+    success: result.success,
+    request: result.data ? mapReturnRequest(result.data.returnRequest) : undefined,
+    error: result.error,
+  };
+};
+
+/**
+ * Ship the replacement sizes for a received exchange
+ */
+export const completeExchange = (returnId: string, performedBy: string) =>
+  runReturnFunction('complete_exchange', { p_return_id: returnId, p_performed_by: performedBy }, 'Complete exchange');
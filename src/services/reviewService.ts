@@ -0,0 +1,198 @@
+/**
+ * Review Service
+ * Database operations for product reviews and helpful votes
+ * Verified purchase and product rating aggregates are maintained by database triggers
+ */
+
+import { supabase } from '@/lib/supabase';
+import { ProductReview, ReviewFit } from '@/types/product';
+import { safeAsync } from '@/utils/errorHandling';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface DBProductReview {
+  id: string;
+  product_id: number;
+  user_id: string;
+  user_name: string;
+  rating: number;
+  title: string;
+  comment: string;
+  images: string[];
+  size?: string;
+  fit?: ReviewFit;
+  occasion?: string;
+  verified: boolean;
+  helpful: number;
+  created_at: string;
+}
+
+export interface CreateReviewInput {
+  productId: number;
+  rating: number;
+  title: string;
+  comment: string;
+  size?: string;
+  fit?: ReviewFit;
+  occasion?: string;
+  images?: string[];
+}
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  // Number of reviews per star rating (1-5)
+  distribution: Record<number, number>;
+}
+
+export const REVIEW_FIT_LABELS: Record<ReviewFit, string> = {
+  runs_small: 'Runs small',
+  true_to_size: 'True to size',
+  runs_large: 'Runs large',
+};
+
+const mapDBReview = (row: DBProductReview): ProductReview => ({
+  id: row.id,
+  productId: row.product_id,
+  userId: row.user_id,
+  userName: row.user_name,
+  rating: row.rating,
+  title: row.title,
+  comment: row.comment,
+  images: row.images,
+  verified: row.verified,
+  helpful: row.helpful,
+  createdAt: new Date(row.created_at),
+  size: row.size,
+  fit: row.fit,
+  occasion: row.occasion,
+});
+
+// ========================================
+// REVIEW OPERATIONS
+// ========================================
+
+/**
+ * Get all reviews for a product, newest first
+ */
+export const getProductReviews = async (productId: number): Promise<ProductReview[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('product_reviews')
+        .select('*')
+        .eq('product_id', productId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapDBReview);
+    },
+    'Get product reviews'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Create a review
+ * The verified flag is set by the database from the user's delivered orders
+ */
+export const createReview = async (
+  userId: string,
+  userName: string,
+  input: CreateReviewInput
+): Promise<ProductReview | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('product_reviews')
+        .insert({
+          product_id: input.productId,
+          user_id: userId,
+          user_name: userName,
+          rating: input.rating,
+          title: input.title.trim(),
+          comment: input.comment.trim(),
+          images: input.images || [],
+          size: input.size || null,
+          fit: input.fit || null,
+          occasion: input.occasion || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return mapDBReview(data);
+    },
+    'Create review'
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Mark a review as helpful (one vote per user)
+ * Returns the updated helpful count, or null on failure
+ */
+export const markReviewHelpful = async (reviewId: string): Promise<number | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('mark_review_helpful', {
+        p_review_id: reviewId,
+      });
+
+      if (error) throw error;
+      return data as number;
+    },
+    'Mark review helpful'
+  );
+
+  return result.success ? result.data : null;
+};
+
+/**
+ * Get the ids of reviews the user has already marked helpful
+ */
+export const getUserHelpfulVotes = async (userId: string, reviewIds: string[]): Promise<string[]> => {
+  if (reviewIds.length === 0) return [];
+
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('review_helpful_votes')
+        .select('review_id')
+        .eq('user_id', userId)
+        .in('review_id', reviewIds);
+
+      if (error) throw error;
+      return (data || []).map(vote => vote.review_id as string);
+    },
+    'Get helpful votes'
+  );
+
+  return result.data || [];
+};
+
+// ========================================
+// AGGREGATES
+// ========================================
+
+/**
+ * Summarise ratings for display (average rounded to one decimal, like products.rating)
+ */
+export const getRatingSummary = (reviews: ProductReview[]): RatingSummary => {
+  const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  reviews.forEach(review => {
+    distribution[review.rating] = (distribution[review.rating] || 0) + 1;
+  });
+
+  const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+
+  return {
+    average: reviews.length > 0 ? Math.round((total / reviews.length) * 10) / 10 : 0,
+    count: reviews.length,
+    distribution,
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * Search Analytics Service
+ * Admin report over the search log: top, zero-result and low click-through queries
+ * Searches and result clicks are logged by searchService
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  // Searches for the query in the period before, for comparison
+  previous_searches: number;
+  clicked_searches: number;
+  zero_result_searches: number;
+  avg_results: number;
+  last_searched_at: string;
+}
+
+export interface SearchTrendPoint {
+  day: string;
+  searches: number;
+  zero_result_searches: number;
+  clicked_searches: number;
+}
+
+export interface SearchAnalytics {
+  summary: {
+    searches: number;
+    unique_queries: number;
+    zero_result_searches: number;
+    clicked_searches: number;
+    previous_searches: number;
+  };
+  top_queries: SearchQueryStats[];
+  zero_result_queries: SearchQueryStats[];
+  low_click_queries: SearchQueryStats[];
+  trend: SearchTrendPoint[];
+}
+
+export const ANALYTICS_PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+// Share of searches where a result was opened
+export const getClickRate = (stats: { searches: number; clicked_searches: number }): number =>
+  stats.searches > 0 ? stats.clicked_searches / stats.searches : 0;
+
+// ========================================
+// REPORT
+// ========================================
+
+/**
+ * Get the search analytics report for the last `days` days
+ */
+export const getSearchAnalytics = async (days: number = 30): Promise<SearchAnalytics | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('get_search_analytics', { p_days: days });
+
+      if (error) throw error;
+      return data as SearchAnalytics;
+    },
+    'Get search analytics'
+  );
+
+  return result.data || null;
+};
@@ -0,0 +1,73 @@
+/**
+ * Search Ranking Service
+ * Settings for the learned search boosts computed from clicks, add-to-carts and purchases
+ * Boosts are applied by the database (search_catalog in 018_search_ranking.sql)
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface SearchRankingSettings {
+  boosts_enabled: boolean;
+  // An event counts half as much after this many days
+  half_life_days: number;
+  // Events older than this are ignored
+  window_days: number;
+  // Largest possible rank multiplier above 1
+  boost_strength: number;
+}
+
+export const DEFAULT_SEARCH_RANKING_SETTINGS: SearchRankingSettings = {
+  boosts_enabled: true,
+  half_life_days: 14,
+  window_days: 90,
+  boost_strength: 1,
+};
+
+// ========================================
+// SETTINGS
+// ========================================
+
+/**
+ * Get the learned ranking settings
+ */
+export const getSearchRankingSettings = async (): Promise<SearchRankingSettings> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('search_ranking_settings')
+        .select('boosts_enabled, half_life_days, window_days, boost_strength')
+        .single();
+
+      if (error) throw error;
+      return { ...data, boost_strength: Number(data.boost_strength) } as SearchRankingSettings;
+    },
+    'Get search ranking settings'
+  );
+
+  return result.data ?? DEFAULT_SEARCH_RANKING_SETTINGS;
+};
+
+/**
+ * Update the learned ranking settings (admin only)
+ */
+export const updateSearchRankingSettings = async (settings: Partial<SearchRankingSettings>): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('search_ranking_settings')
+        .update(settings)
+        .eq('id', true);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update search ranking settings'
+  );
+
+  return result.success;
+};
@@ -1,56 +1,16 @@
 /**
- * Advanced Search Service with Elastic-like Features
- * Following Single Responsibility Principle - only handles search operations
- * Following Open/Closed Principle - easily extensible for new search features
+ * Catalog Search Service
+ * Ranking, typo tolerance, filtering, facets and pagination run in Postgres
+ * (search_catalog in 016_search_synonyms.sql), including synonym expansion;
+ * this module maps the response for the storefront
+ * Facets are counted against every active filter except their own (019_facet_counts.sql)
  */
 
-import { Product } from "@/types/product";
-
-// Hindi to English mapping for better search
-const HINDI_TO_ENGLISH_MAP: Record<string, string[]> = {
-  "साड़ी": ["saree", "sari"],
-  "लेहंगा": ["lehenga", "lehenga choli"],
-  "कुर्ता": ["kurta", "kurti"],
-  "सलवार": ["salwar", "salwar suit"],
-  "अनारकली": ["anarkali", "anarkali suit"],
-  "शेरवानी": ["sherwani"],
-  "दुपट्टा": ["dupatta", "stole"],
-  "गाउन": ["gown", "dress"],
-  "ज्वेलरी": ["jewelry", "jewellery"],
-  "बैग": ["bag", "clutch"],
-  "शादी": ["wedding", "bridal"],
-  "त्योहार": ["festival", "celebration"],
-  "पार्टी": ["party"],
-  "ऑफिस": ["office", "formal"],
-  "कैजुअल": ["casual"],
-  "रेशम": ["silk"],
-  "कॉटन": ["cotton"],
-  "जॉर्जेट": ["georgette"],
-  "चिफॉन": ["chiffon"],
-  "लाल": ["red"],
-  "नीला": ["blue"],
-  "हरा": ["green"],
-  "गुलाबी": ["pink"],
-  "सफेद": ["white"],
-  "काला": ["black"],
-  "सोना": ["gold", "golden"],
-  "चांदी": ["silver"]
-};
-
-// Search configuration
-interface SearchConfig {
-  fuzzyMatch: boolean;
-  includeSynonyms: boolean;
-  minScore: number;
-  maxResults: number;
-}
-
-const DEFAULT_SEARCH_CONFIG: SearchConfig = {
-  fuzzyMatch: true,
-  includeSynonyms: true,
-  minScore: 0.3,
-  maxResults: 50
-};
+import { Product, ProductFilter } from "@/types/product";
+import { supabase } from "@/lib/supabase";
+import { safeAsync } from "@/utils/errorHandling";
+import { DBProduct, mapDBProduct } from "@/services/dataService";
+import { getGuestCartId } from "@/services/inventoryService";
 
 // Search result with relevance score
 export interface SearchResult {
@@ -58,445 +18,357 @@ export interface SearchResult {
   score: number;
   matchedFields: string[];
   highlights: string[];
+  // Learned boost applied to the score (0 when none)
+  boost: number;
 }
 
-// Search term processing
-const processSearchTerm = (query: string): string[] => {
-  const terms = query.toLowerCase().trim().split(/\s+/);
-  const processedTerms: string[] = [];
-  
-  terms.forEach(term => {
-    processedTerms.push(term);
-    
-    // Add Hindi synonyms
-    if (HINDI_TO_ENGLISH_MAP[term]) {
-      processedTerms.push(...HINDI_TO_ENGLISH_MAP[term]);
-    }
-    
-    // Add English synonyms
-    Object.entries(HINDI_TO_ENGLISH_MAP).forEach(([hindi, english]) => {
-      if (english.includes(term)) {
-        processedTerms.push(hindi);
-        processedTerms.push(...english);
-      }
-    });
-  });
-  
-  return [...new Set(processedTerms)];
-};
+export interface SearchFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PriceRangeFacet {
+  min: number;
+  // null for the open-ended top range
+  max: number | null;
+  count: number;
+}
+
+// Products each quick filter would leave when switched on
+export interface QuickFilterCounts {
+  inStock: number;
+  isNew: number;
+  hasDiscount: number;
+}
+
+export interface SearchFacets {
+  categories: SearchFacetCount[];
+  subcategories: SearchFacetCount[];
+  fabrics: SearchFacetCount[];
+  occasions: SearchFacetCount[];
+  sizes: SearchFacetCount[];
+  colors: SearchFacetCount[];
+  quickFilters: QuickFilterCounts;
+  priceRanges: PriceRangeFacet[];
+  // Equal-width bars across the price slider's range
+  priceHistogram: PriceRangeFacet[];
+}
+
+export interface SearchOptions {
+  filters?: ProductFilter;
+  sortBy?: string;
+  page?: number;
+  pageSize?: number;
+  // Force boosted (true) or base (false) ranking; the ranking settings decide by default
+  useBoosts?: boolean;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  facets: SearchFacets;
+}
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 24;
 
-// Calculate relevance score with advanced elastic search-like scoring
-const calculateScore = (
-  product: Product, 
-  searchTerms: string[], 
-  matchedFields: string[]
-): number => {
-  let score = 0;
-  
-  // Field weights (higher = more important)
-  const fieldWeights = {
-    name: 20,           // Product name is most important
-    category: 15,       // Category is very important
-    subcategory: 12,    // Subcategory is important
-    description: 8,     // Description is moderately important
-    fabric: 6,          // Fabric is somewhat important
-    occasion: 5,        // Occasion is somewhat important
-    colors: 3,          // Colors are less important
-    sku: 2             // SKU is least important
+interface DBSearchProduct extends DBProduct {
+  rank: number;
+  boost: number;
+  matched_fields: string[];
+  headline: string | null;
+}
+
+interface DBSearchResponse {
+  total: number;
+  page: number;
+  page_size: number;
+  products: DBSearchProduct[];
+  facets: {
+    categories: SearchFacetCount[];
+    subcategories: SearchFacetCount[];
+    fabrics: SearchFacetCount[];
+    occasions: SearchFacetCount[];
+    sizes: SearchFacetCount[];
+    colors: SearchFacetCount[];
+    quick_filters: { in_stock: number; is_new: number; has_discount: number };
+    price_ranges: PriceRangeFacet[];
+    price_histogram: PriceRangeFacet[];
   };
-  
-  // Calculate base score from matched fields
-  matchedFields.forEach(field => {
-    const weight = fieldWeights[field as keyof typeof fieldWeights] || 1;
-    score += weight;
-  });
-  
-  // Advanced scoring based on match quality
-  searchTerms.forEach(term => {
-    const termLower = term.toLowerCase();
-    
-    // Exact match in name (highest priority)
-    if (product.name.toLowerCase() === termLower) {
-      score += 50; // Very high boost for exact name match
-    } else if (product.name.toLowerCase().startsWith(termLower)) {
-      score += 30; // High boost for name starting with term
-    } else if (product.name.toLowerCase().includes(termLower)) {
-      score += 20; // Good boost for name containing term
-    }
-    
-    // Exact match in category
-    if (product.category.toLowerCase() === termLower) {
-      score += 25; // High boost for exact category match
-    } else if (product.category.toLowerCase().includes(termLower)) {
-      score += 15; // Good boost for category containing term
-    }
-    
-    // Exact match in subcategory
-    if (product.subcategory.toLowerCase() === termLower) {
-      score += 20; // Good boost for exact subcategory match
-    } else if (product.subcategory.toLowerCase().includes(termLower)) {
-      score += 10; // Moderate boost for subcategory containing term
-    }
-    
-    // Word boundary matches (more precise)
-    const nameWords = product.name.toLowerCase().split(/\s+/);
-    if (nameWords.some(word => word.startsWith(termLower))) {
-      score += 15; // Boost for word boundary match in name
-    }
-    
-    // Description matches
-    if (product.description?.toLowerCase().includes(termLower)) {
-      score += 8; // Moderate boost for description match
-    }
-    
-    // Fabric matches
-    if (product.fabric?.toLowerCase() === termLower) {
-      score += 12; // Good boost for exact fabric match
-    } else if (product.fabric?.toLowerCase().includes(termLower)) {
-      score += 6; // Moderate boost for fabric containing term
-    }
-    
-    // Occasion matches
-    if (product.occasion?.some(occ => occ.toLowerCase() === termLower)) {
-      score += 10; // Good boost for exact occasion match
-    } else if (product.occasion?.some(occ => occ.toLowerCase().includes(termLower))) {
-      score += 5; // Moderate boost for occasion containing term
-    }
-    
-    // Color matches
-    if (product.colors?.some(color => color.toLowerCase() === termLower)) {
-      score += 8; // Good boost for exact color match
-    } else if (product.colors?.some(color => color.toLowerCase().includes(termLower))) {
-      score += 4; // Moderate boost for color containing term
-    }
-  });
-  
-  // Boost factors for product quality and popularity
-  if (product.isNew) score += 5; // New items get a boost
-  if (product.rating && product.rating >= 4.5) score += 8; // High-rated items get boost
-  if (product.rating && product.rating >= 4.0) score += 4; // Good-rated items get smaller boost
-  if (product.discount && product.discount > 0) score += 3; // Discounted items get boost
-  if (product.reviews && product.reviews > 100) score += 2; // Popular items get boost
-  if (product.inStock) score += 2; // In-stock items get boost
-  
-  // Penalize out-of-stock items
-  if (!product.inStock) score *= 0.5;
-  
-  return score;
-};
+}
 
-// Generate search highlights
-const generateHighlights = (product: Product, searchTerms: string[]): string[] => {
+// Highlights shown under the best match, from the fields the query matched
+const buildHighlights = (product: DBSearchProduct): string[] => {
   const highlights: string[] = [];
-  
-  searchTerms.forEach(term => {
-    if (product.name.toLowerCase().includes(term)) {
-      highlights.push(`Name: ${product.name}`);
-    }
-    if (product.description?.toLowerCase().includes(term)) {
-      highlights.push(`Description: ${product.description.substring(0, 100)}...`);
-    }
-    if (product.category.toLowerCase().includes(term)) {
-      highlights.push(`Category: ${product.category}`);
-    }
-  });
-  
-  return highlights.slice(0, 3); // Limit to 3 highlights
-};
 
-// Advanced fuzzy string matching with multiple algorithms
-const fuzzyMatch = (str1: string, str2: string, threshold: number = 0.7): boolean => {
-  const s1 = str1.toLowerCase().trim();
-  const s2 = str2.toLowerCase().trim();
-  
-  if (s1 === s2) return true; // Exact match
-  
-  // Check for substring matches first (faster)
-  if (s1.includes(s2) || s2.includes(s1)) return true;
-  
-  // Check for word-level matches
-  const words1 = s1.split(/\s+/);
-  const words2 = s2.split(/\s+/);
-  
-  // If any word from search term matches any word in product text
-  for (const word1 of words1) {
-    for (const word2 of words2) {
-      if (word1 === word2) return true;
-      if (word1.includes(word2) || word2.includes(word1)) return true;
-      if (word1.length >= 3 && word2.length >= 3 && 
-          levenshteinSimilarity(word1, word2) >= threshold) return true;
-    }
+  if (product.matched_fields.includes("name")) {
+    highlights.push(`Name: ${product.name}`);
   }
-  
-  // Full string fuzzy matching for shorter strings
-  if (s1.length <= 20 && s2.length <= 20) {
-    return levenshteinSimilarity(s1, s2) >= threshold;
+  if (product.matched_fields.includes("description") && product.headline) {
+    highlights.push(`Description: ${product.headline}...`);
+  }
+  if (product.matched_fields.includes("category")) {
+    highlights.push(`Category: ${product.category}`);
+  }
+
+  return highlights;
+};
+
+const mapSearchResponse = (response: DBSearchResponse): SearchResponse => ({
+  results: response.products.map(product => ({
+    product: mapDBProduct(product),
+    score: product.rank,
+    matchedFields: product.matched_fields,
+    highlights: buildHighlights(product),
+    boost: product.boost,
+  })),
+  total: response.total,
+  page: response.page,
+  pageSize: response.page_size,
+  totalPages: Math.ceil(response.total / response.page_size),
+  facets: {
+    categories: response.facets.categories,
+    subcategories: response.facets.subcategories,
+    fabrics: response.facets.fabrics,
+    occasions: response.facets.occasions,
+    sizes: response.facets.sizes,
+    colors: response.facets.colors,
+    quickFilters: {
+      inStock: response.facets.quick_filters.in_stock,
+      isNew: response.facets.quick_filters.is_new,
+      hasDiscount: response.facets.quick_filters.has_discount,
+    },
+    priceRanges: response.facets.price_ranges,
+    priceHistogram: response.facets.price_histogram,
+  },
+});
+
+/**
+ * Search the catalog
+ * An empty query lists every product matching the filters. Returns null on failure.
+ */
+export const searchProducts = async (
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchResponse | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc("search_catalog", {
+        p_query: query,
+        p_filters: options.filters || {},
+        p_sort: options.sortBy || "relevance",
+        p_page: options.page || 1,
+        p_page_size: options.pageSize || DEFAULT_SEARCH_PAGE_SIZE,
+        p_use_boosts: options.useBoosts ?? null,
+      });
+
+      if (error) throw error;
+      return mapSearchResponse(data as DBSearchResponse);
+    },
+    "Search products"
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Autocomplete suggestions for the search box
+ */
+export const getSearchSuggestions = async (query: string, limit: number = 5): Promise<string[]> => {
+  if (query.trim().length < 2) return [];
+
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc("search_suggestions", {
+        p_query: query,
+        p_limit: limit,
+      });
+
+      if (error) throw error;
+      return (data || []) as string[];
+    },
+    "Get search suggestions"
+  );
+
+  return result.data || [];
+};
+
+// Shown until enough searches have been logged to rank queries
+const DEFAULT_POPULAR_SEARCHES = [
+  "saree",
+  "lehenga",
+  "kurta",
+  "wedding",
+  "festival",
+  "party",
+  "silk",
+  "cotton",
+  "red",
+  "blue",
+  "gold",
+  "bridal",
+  "anarkali",
+  "sherwani",
+  "jewelry"
+];
+
+// Popular searches change slowly; load them once per page load
+let popularSearchesRequest: Promise<string[]> | null = null;
+
+/**
+ * Most searched queries that found products, from the search log
+ */
+export const getPopularSearches = (limit: number = 10): Promise<string[]> => {
+  if (!popularSearchesRequest) {
+    popularSearchesRequest = safeAsync(
+      async () => {
+        const { data, error } = await supabase.rpc("get_popular_searches", { p_limit: 15 });
+
+        if (error) throw error;
+        return (data || []) as string[];
+      },
+      "Get popular searches"
+    ).then(result => (result.data && result.data.length >= 5 ? result.data : DEFAULT_POPULAR_SEARCHES));
   }
-  
-  return false;
+
+  return popularSearchesRequest.then(searches => searches.slice(0, limit));
 };
 
-// Calculate similarity ratio (0-1) using Levenshtein distance
-const levenshteinSimilarity = (str1: string, str2: string): number => {
-  const longer = str1.length > str2.length ? str1 : str2;
-  const shorter = str1.length > str2.length ? str2 : str1;
-  
-  if (longer.length === 0) return 1;
-  
-  const distance = levenshteinDistance(longer, shorter);
-  return (longer.length - distance) / longer.length;
+/**
+ * Log a search for analytics; the database counts its results itself
+ * Returns the search id to attribute result clicks to, or null when nothing was logged
+ */
+export const trackSearch = async (
+  query: string,
+  options: Pick<SearchOptions, "filters" | "sortBy"> = {}
+): Promise<string | null> => {
+  if (!query.trim()) return null;
+
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc("record_search", {
+        p_session_id: getGuestCartId(),
+        p_query: query,
+        p_filters: options.filters || null,
+        p_sort: options.sortBy || null,
+      });
+
+      if (error) throw error;
+      return data as string | null;
+    },
+    "Track search"
+  );
+
+  return result.data || null;
 };
 
-// Levenshtein distance calculation
-const levenshteinDistance = (str1: string, str2: string): number => {
-  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-  
-  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-  
-  for (let j = 1; j <= str2.length; j++) {
-    for (let i = 1; i <= str1.length; i++) {
-      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-      matrix[j][i] = Math.min(
-        matrix[j][i - 1] + 1,
-        matrix[j - 1][i] + 1,
-        matrix[j - 1][i - 1] + indicator
-      );
-    }
+// ========================================
+// RESULT ATTRIBUTION
+// Products opened or added from search results remember the search, so a
+// later add-to-cart or purchase can be credited to the query that found them
+// ========================================
+
+const SEARCH_ATTRIBUTION_KEY = "searchAttribution";
+const SEARCH_ATTRIBUTION_DAYS = 7;
+
+type SearchAttribution = Record<string, { searchId: string; at: number }>;
+
+const loadAttribution = (): SearchAttribution => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SEARCH_ATTRIBUTION_KEY) || "{}") as SearchAttribution;
+    const cutoff = Date.now() - SEARCH_ATTRIBUTION_DAYS * 24 * 60 * 60 * 1000;
+    return Object.fromEntries(Object.entries(stored).filter(([, entry]) => entry.at > cutoff));
+  } catch (error) {
+    console.error("Error loading search attribution:", error);
+    return {};
   }
-  
-  return matrix[str2.length][str1.length];
 };
 
-// Enhanced search function with better matching logic
-export const searchProducts = (
-  products: Product[], 
-  query: string, 
-  config: Partial<SearchConfig> = {}
-): SearchResult[] => {
-  const searchConfig = { ...DEFAULT_SEARCH_CONFIG, ...config };
-  
-  if (!query.trim()) {
-    return products.map(product => ({
-      product,
-      score: 1,
-      matchedFields: [],
-      highlights: []
-    }));
+const saveAttribution = (attribution: SearchAttribution): void => {
+  try {
+    localStorage.setItem(SEARCH_ATTRIBUTION_KEY, JSON.stringify(attribution));
+  } catch (error) {
+    console.error("Error saving search attribution:", error);
   }
-  
-  const searchTerms = processSearchTerm(query);
-  const results: SearchResult[] = [];
-  
-  products.forEach(product => {
-    const matchedFields: string[] = [];
-    let hasMatch = false;
-    
-    // Check each search term against product fields with improved matching
-    searchTerms.forEach(term => {
-      const termLower = term.toLowerCase();
-      
-      // Exact and partial name matching
-      if (product.name.toLowerCase().includes(termLower) || 
-          fuzzyMatch(product.name, term)) {
-        matchedFields.push("name");
-        hasMatch = true;
-      }
-      
-      // Description matching with fuzzy support
-      if (product.description && 
-          (product.description.toLowerCase().includes(termLower) ||
-           fuzzyMatch(product.description, term))) {
-        matchedFields.push("description");
-        hasMatch = true;
-      }
-      
-      // Category matching
-      if (product.category.toLowerCase().includes(termLower) ||
-          fuzzyMatch(product.category, term)) {
-        matchedFields.push("category");
-        hasMatch = true;
-      }
-      
-      // Subcategory matching
-      if (product.subcategory.toLowerCase().includes(termLower) ||
-          fuzzyMatch(product.subcategory, term)) {
-        matchedFields.push("subcategory");
-        hasMatch = true;
-      }
-      
-      // Fabric matching
-      if (product.fabric && 
-          (product.fabric.toLowerCase().includes(termLower) ||
-           fuzzyMatch(product.fabric, term))) {
-        matchedFields.push("fabric");
-        hasMatch = true;
-      }
-      
-      // Occasion matching
-      if (product.occasion?.some(occ => 
-          occ.toLowerCase().includes(termLower) ||
-          fuzzyMatch(occ, term))) {
-        matchedFields.push("occasion");
-        hasMatch = true;
-      }
-      
-      // Color matching
-      if (product.colors?.some(color => 
-          color.toLowerCase().includes(termLower) ||
-          fuzzyMatch(color, term))) {
-        matchedFields.push("colors");
-        hasMatch = true;
-      }
-      
-      // SKU matching (exact only)
-      if (product.sku?.toLowerCase().includes(termLower)) {
-        matchedFields.push("sku");
-        hasMatch = true;
-      }
-      
-      // Multi-word phrase matching
-      if (searchTerms.length > 1) {
-        const phrase = searchTerms.join(' ');
-        if (product.name.toLowerCase().includes(phrase) ||
-            product.description?.toLowerCase().includes(phrase)) {
-          matchedFields.push("name");
-          hasMatch = true;
-        }
-      }
-    });
-    
-    if (hasMatch) {
-      const score = calculateScore(product, searchTerms, matchedFields);
-      const highlights = generateHighlights(product, searchTerms);
-      
-      if (score >= searchConfig.minScore) {
-        results.push({
-          product,
-          score,
-          matchedFields: [...new Set(matchedFields)],
-          highlights
-        });
-      }
-    }
-  });
-  
-  // Sort by relevance score and limit results
-  return results
-    .sort((a, b) => {
-      // Primary sort by score
-      if (b.score !== a.score) {
-        return b.score - a.score;
-      }
-      
-      // Secondary sort by rating for same scores
-      if (b.product.rating !== a.product.rating) {
-        return (b.product.rating || 0) - (a.product.rating || 0);
-      }
-      
-      // Tertiary sort by reviews for same scores and ratings
-      return (b.product.reviews || 0) - (a.product.reviews || 0);
-    })
-    .slice(0, searchConfig.maxResults);
 };
 
-// Enhanced auto-complete suggestions with scoring
-export const getSearchSuggestions = (products: Product[], query: string, limit: number = 5): string[] => {
-  if (!query.trim()) return [];
-  
-  const suggestions = new Map<string, number>();
-  const searchTerm = query.toLowerCase();
-  
-  products.forEach(product => {
-    // Product names with scoring
-    const nameWords = product.name.toLowerCase().split(/\s+/);
-    nameWords.forEach(word => {
-      if (word.startsWith(searchTerm)) {
-        const currentScore = suggestions.get(product.name) || 0;
-        suggestions.set(product.name, currentScore + 10); // High score for product names
-      } else if (word.includes(searchTerm)) {
-        const currentScore = suggestions.get(product.name) || 0;
-        suggestions.set(product.name, currentScore + 5);
-      }
-    });
-    
-    // Categories with scoring
-    if (product.category.toLowerCase().startsWith(searchTerm)) {
-      const currentScore = suggestions.get(product.category) || 0;
-      suggestions.set(product.category, currentScore + 8);
-    } else if (product.category.toLowerCase().includes(searchTerm)) {
-      const currentScore = suggestions.get(product.category) || 0;
-      suggestions.set(product.category, currentScore + 4);
-    }
-    
-    // Subcategories with scoring
-    if (product.subcategory.toLowerCase().startsWith(searchTerm)) {
-      const currentScore = suggestions.get(product.subcategory) || 0;
-      suggestions.set(product.subcategory, currentScore + 6);
-    }
-    
-    // Fabrics with scoring
-    if (product.fabric?.toLowerCase().startsWith(searchTerm)) {
-      const currentScore = suggestions.get(product.fabric) || 0;
-      suggestions.set(product.fabric, currentScore + 5);
-    }
-    
-    // Occasions with scoring
-    product.occasion?.forEach(occ => {
-      if (occ.toLowerCase().startsWith(searchTerm)) {
-        const currentScore = suggestions.get(occ) || 0;
-        suggestions.set(occ, currentScore + 4);
-      } else if (occ.toLowerCase().includes(searchTerm)) {
-        const currentScore = suggestions.get(occ) || 0;
-        suggestions.set(occ, currentScore + 2);
-      }
-    });
-    
-    // Colors with scoring
-    product.colors?.forEach(color => {
-      if (color.toLowerCase().startsWith(searchTerm)) {
-        const currentScore = suggestions.get(color) || 0;
-        suggestions.set(color, currentScore + 3);
-      }
-    });
-    
-    // Add fuzzy matches for better suggestions
-    if (fuzzyMatch(product.name, searchTerm, 0.6)) {
-      const currentScore = suggestions.get(product.name) || 0;
-      suggestions.set(product.name, currentScore + 2);
-    }
-  });
-  
-  // Sort by score and return top suggestions
-  return Array.from(suggestions.entries())
-    .sort((a, b) => b[1] - a[1])
-    .map(([suggestion]) => suggestion)
-    .slice(0, limit);
+/**
+ * Log a click on a search result
+ * position is the product's 1-based position across all result pages
+ */
+export const trackSearchClick = async (
+  searchId: string,
+  productId: number,
+  position?: number
+): Promise<void> => {
+  saveAttribution({ ...loadAttribution(), [productId]: { searchId, at: Date.now() } });
+
+  await safeAsync(
+    async () => {
+      const { error } = await supabase.rpc("record_search_click", {
+        p_session_id: getGuestCartId(),
+        p_search_id: searchId,
+        p_product_id: productId,
+        p_position: position ?? null,
+      });
+
+      if (error) throw error;
+    },
+    "Track search click"
+  );
 };
 
-// Popular search terms
-export const getPopularSearches = (): string[] => {
-  return [
-    "saree",
-    "lehenga",
-    "kurta",
-    "wedding",
-    "festival",
-    "party",
-    "silk",
-    "cotton",
-    "red",
-    "blue",
-    "gold",
-    "bridal",
-    "anarkali",
-    "sherwani",
-    "jewelry"
-  ];
+/**
+ * Credit an add-to-cart to the search that found the product, if any
+ */
+export const trackSearchAddToCart = async (productId: number): Promise<void> => {
+  const attribution = loadAttribution()[productId];
+  if (!attribution) return;
+
+  await safeAsync(
+    async () => {
+      const { error } = await supabase.rpc("record_search_add_to_cart", {
+        p_session_id: getGuestCartId(),
+        p_search_id: attribution.searchId,
+        p_product_id: productId,
+      });
+
+      if (error) throw error;
+    },
+    "Track search add to cart"
+  );
 };
 
-// Search analytics (for future use)
-export const trackSearch = (query: string, resultsCount: number): void => {
-  // In a real app, this would send analytics data
-  console.log(`Search: "${query}" returned ${resultsCount} results`);
+/**
+ * Credit the products in a new order to the searches that found them
+ */
+export const trackSearchPurchases = async (orderId: string): Promise<void> => {
+  const attribution = loadAttribution();
+  if (Object.keys(attribution).length === 0) return;
+
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc("record_search_purchases", {
+        p_session_id: getGuestCartId(),
+        p_order_id: orderId,
+        p_attributions: Object.entries(attribution).map(([productId, entry]) => ({
+          product_id: Number(productId),
+          search_id: entry.searchId,
+        })),
+      });
+
+      if (error) throw error;
+      return (data || []) as number[];
+    },
+    "Track search purchases"
+  );
+
+  // Bought products are no longer waiting for a conversion
+  if (result.data && result.data.length > 0) {
+    const remaining = loadAttribution();
+    result.data.forEach(productId => delete remaining[productId]);
+    saveAttribution(remaining);
+  }
 };
@@ -0,0 +1,151 @@
+/**
+ * Search Synonym Service
+ * Admin management of the search synonym dictionary and query expansion previews
+ * Queries are expanded by the database (expand_search_query) when customers search
+ */
+
+import { supabase } from '@/lib/supabase';
+import { safeAsync } from '@/utils/errorHandling';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface SearchSynonym {
+  id: string;
+  term: string;
+  synonyms: string[];
+  two_way: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SearchSynonymInput = Pick<SearchSynonym, 'term' | 'synonyms' | 'two_way'>;
+
+export interface QueryExpansion {
+  // One group per word or matched phrase; any term in a group can match
+  groups: string[][];
+  rules: { phrase: string; term: string; synonyms: string[] }[];
+  transliterations: { from: string; to: string }[];
+}
+
+const normalizeInput = (input: SearchSynonymInput): SearchSynonymInput => ({
+  term: input.term.trim().toLowerCase().replace(/\s+/g, ' '),
+  synonyms: [...new Set(
+    input.synonyms.map(synonym => synonym.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean)
+  )],
+  two_way: input.two_way,
+});
+
+// ========================================
+// SYNONYM DICTIONARY (admin)
+// ========================================
+
+/**
+ * Get all synonym rules, alphabetically by term
+ */
+export const getSearchSynonyms = async (): Promise<SearchSynonym[]> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('search_synonyms')
+        .select('*')
+        .order('term', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as SearchSynonym[];
+    },
+    'Get search synonyms'
+  );
+
+  return result.data || [];
+};
+
+/**
+ * Add a synonym rule
+ */
+export const createSearchSynonym = async (input: SearchSynonymInput): Promise<SearchSynonym | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase
+        .from('search_synonyms')
+        .insert(normalizeInput(input))
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as SearchSynonym;
+    },
+    'Create search synonym'
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Update a synonym rule
+ */
+export const updateSearchSynonym = async (id: string, input: SearchSynonymInput): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('search_synonyms')
+        .update(normalizeInput(input))
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update search synonym'
+  );
+
+  return result.success;
+};
+
+/**
+ * Delete a synonym rule
+ */
+export const deleteSearchSynonym = async (id: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('search_synonyms')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return true;
+    },
+    'Delete search synonym'
+  );
+
+  return result.success;
+};
+
+// ========================================
+// PREVIEW
+// ========================================
+
+/**
+ * Show how a query is expanded, optionally as if an unsaved rule were saved
+ * Pass the rule's id when editing so the saved version is replaced
+ */
+export const previewQueryExpansion = async (
+  query: string,
+  draft?: SearchSynonymInput & { id?: string }
+): Promise<QueryExpansion | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('expand_search_query', {
+        p_query: query,
+        p_draft: draft ? { ...normalizeInput(draft), id: draft.id } : null,
+      });
+
+      if (error) throw error;
+      return data as QueryExpansion;
+    },
+    'Preview query expansion'
+  );
+
+  return result.data || null;
+};
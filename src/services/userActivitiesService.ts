@@ -8,6 +8,7 @@ import { supabase } from '@/lib/supabase';
 import { Product } from '@/types/product';
 import { CartItem } from '@/contexts/CartContext';
 import { createAppError, logError, safeAsync } from '@/utils/errorHandling';
+import { ShippingMethod, getSalePrice } from '@/utils/orderTotals';
 
 // ========================================
 // TYPES
@@ -48,17 +49,23 @@ export interface SearchHistoryEntry {
 
 export interface Order {
   id: string;
-  user_id: string;
+  // Null for guest orders until they are claimed by an account
+  user_id: string | null;
+  guest_email?: string | null;
+  guest_phone?: string | null;
   order_number: string;
   items: CartItem[];
   subtotal: number;
   tax: number;
   shipping_cost: number;
   discount: number;
+  cod_surcharge?: number;
   total: number;
   status: OrderStatus;
   payment_status: PaymentStatus;
-  payment_method?: string;
+  payment_method?: PaymentMethod;
+  shipping_method?: ShippingMethod;
+  shipping_zone?: string;
   shipping_address: ShippingAddress;
   billing_address?: ShippingAddress;
   tracking_number?: string;
@@ -71,10 +78,26 @@ export interface Order {
   cancelled_at?: string;
   customer_notes?: string;
   admin_notes?: string;
+  coupon_code?: string;
 }
 
 export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
 export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+export type PaymentMethod = 'cod' | 'upi' | 'card';
+
+// Allowed next statuses; mirrors is_valid_order_status_transition in the database
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: ['refunded'],
+  refunded: [],
+};
+
+// Statuses that need a reason, stored in order_status_history.notes
+export const REASON_REQUIRED_STATUSES: OrderStatus[] = ['cancelled', 'refunded'];
 
 export interface ShippingAddress {
   name: string;
@@ -87,6 +110,32 @@ export interface ShippingAddress {
   phone: string;
 }
 
+export interface OrderFilters {
+  status?: OrderStatus;
+  paymentStatus?: PaymentStatus;
+  // Inclusive ISO date range on created_at
+  from?: string;
+  to?: string;
+  // Matches order number or customer name
+  search?: string;
+}
+
+export interface OrderPage {
+  orders: Order[];
+  total: number;
+}
+
+// Contact details collected from shoppers checking out without an account
+export interface GuestContact {
+  email: string;
+  phone: string;
+}
+
+export interface GuestOrderLookup {
+  order: Order;
+  history: OrderStatusHistoryEntry[];
+}
+
 export interface OrderStatusHistoryEntry {
   id: string;
   order_id: string;
@@ -152,7 +201,7 @@ export const addToCartDB = async (
           user_id: userId,
           product_id: product.id,
           product_name: product.name,
-          product_price: product.price,
+          product_price: getSalePrice(product.price, product.discount),
           product_image: product.image,
           product_category: product.category,
           size,
@@ -287,6 +336,44 @@ export const mergeGuestCartToUserCart = async (
   return result.success;
 };
 
+/**
+ * Get a guest cart stored under the browser's guest cart id
+ */
+export const getGuestCart = async (sessionId: string): Promise<CartItem[] | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('get_guest_cart', { p_session_id: sessionId });
+
+      if (error) throw error;
+      return ((data || []) as CartItem[]).map(item => ({ ...item, price: Number(item.price) }));
+    },
+    'Get guest cart'
+  );
+
+  return result.success ? result.data : null;
+};
+
+/**
+ * Replace the stored guest cart with the browser's cart
+ * ACID: Delete and re-insert in one database function
+ */
+export const saveGuestCart = async (sessionId: string, items: CartItem[]): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase.rpc('save_guest_cart', {
+        p_session_id: sessionId,
+        p_items: items,
+      });
+
+      if (error) throw error;
+      return true;
+    },
+    'Save guest cart'
+  );
+
+  return result.success;
+};
+
 // ========================================
 // FAVORITES OPERATIONS (ACID-Compliant)
 // ========================================
@@ -397,39 +484,9 @@ export const isInFavoritesDB = async (
 
 // ========================================
 // SEARCH HISTORY OPERATIONS
+// Searches are logged by searchService.trackSearch
 // ========================================
 
-/**
- * Add search to history
- */
-export const addSearchToHistory = async (
-  searchQuery: string,
-  resultsCount: number,
-  filtersApplied?: any,
-  userId?: string,
-  sessionId?: string
-): Promise<boolean> => {
-  const result = await safeAsync(
-    async () => {
-      const { error } = await supabase
-        .from('search_history')
-        .insert({
-          user_id: userId,
-          session_id: sessionId,
-          search_query: searchQuery,
-          results_count: resultsCount,
-          filters_applied: filtersApplied,
-        });
-
-      if (error) throw error;
-      return true;
-    },
-    'Add search to history'
-  );
-
-  return result.success;
-};
-
 /**
  * Get user's search history
  */
@@ -455,30 +512,6 @@ export const getUserSearchHistory = async (
   return result.data || [];
 };
 
-/**
- * Get popular searches (for suggestions)
- */
-export const getPopularSearches = async (limit: number = 10): Promise<string[]> => {
-  const result = await safeAsync(
-    async () => {
-      const { data, error } = await supabase
-        .from('search_history')
-        .select('search_query')
-        .order('created_at', { ascending: false })
-        .limit(limit * 5); // Get more to find unique
-
-      if (error) throw error;
-
-      // Get unique searches
-      const unique = [...new Set((data || []).map(item => item.search_query))];
-      return unique.slice(0, limit);
-    },
-    'Get popular searches'
-  );
-
-  return result.data || [];
-};
-
 // ========================================
 // ORDER OPERATIONS (ACID-Compliant)
 // ========================================
@@ -491,8 +524,10 @@ export const createOrder = async (
   userId: string,
   shippingAddress: ShippingAddress,
   billingAddress: ShippingAddress,
-  paymentMethod: string,
-  customerNotes?: string
+  paymentMethod: PaymentMethod,
+  customerNotes?: string,
+  shippingMethod: ShippingMethod = 'standard',
+  couponCode?: string
 ): Promise<{ success: boolean; orderId?: string; orderNumber?: string }> => {
   const result = await safeAsync(
     async () => {
@@ -503,6 +538,8 @@ export const createOrder = async (
         p_billing_address: billingAddress,
         p_payment_method: paymentMethod,
         p_customer_notes: customerNotes,
+        p_shipping_method: shippingMethod,
+        p_coupon_code: couponCode || null,
       });
 
       if (error) throw error;
@@ -600,35 +637,93 @@ export const getOrderByNumber = async (orderNumber: string): Promise<Order | nul
   return result.data || null;
 };
 
+/**
+ * Check a status change against the transition graph
+ * Returns an error message for illegal changes, otherwise null
+ */
+export const validateOrderStatusTransition = (
+  currentStatus: OrderStatus,
+  newStatus: OrderStatus,
+  notes?: string
+): string | null => {
+  if (currentStatus === newStatus) {
+    return `Order is already ${newStatus}`;
+  }
+  if (!ORDER_STATUS_TRANSITIONS[currentStatus].includes(newStatus)) {
+    return `Cannot change order status from ${currentStatus} to ${newStatus}`;
+  }
+  if (REASON_REQUIRED_STATUSES.includes(newStatus) && !notes?.trim()) {
+    return `A reason is required to mark an order as ${newStatus}`;
+  }
+  return null;
+};
+
 /**
  * Update order status
- * ACID: Atomic update with status history tracking
+ * ACID: transition_order_status locks the order, enforces the transition graph,
+ * stamps the lifecycle timestamp and records the reason in the status history
  */
 export const updateOrderStatus = async (
-  orderId: string,
+  order: Order,
   newStatus: OrderStatus,
   notes?: string
-): Promise<boolean> => {
+): Promise<{ success: boolean; order?: Order; error?: string }> => {
+  const validationError = validateOrderStatusTransition(order.status, newStatus, notes);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
   const result = await safeAsync(
     async () => {
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          status: newStatus,
-          updated_at: new Date().toISOString(),
-          ...(newStatus === 'shipped' && { shipped_at: new Date().toISOString() }),
-          ...(newStatus === 'delivered' && { delivered_at: new Date().toISOString() }),
-          ...(newStatus === 'cancelled' && { cancelled_at: new Date().toISOString() }),
-        })
-        .eq('id', orderId);
+      const { data, error } = await supabase.rpc('transition_order_status', {
+        p_order_id: order.id,
+        p_new_status: newStatus,
+        p_notes: notes?.trim() || null,
+      });
 
       if (error) throw error;
-      return true;
+      return data as Order;
     },
     'Update order status'
   );
 
-  return result.success;
+  return {
+    success: result.success,
+    order: result.data,
+    error: result.error?.message,
+  };
+};
+
+/**
+ * Cancel the user's own pending or confirmed order
+ * The database records the reason in the status history and returns the order's units to stock
+ */
+export const cancelOrder = async (
+  orderId: string,
+  reason: string
+): Promise<{ success: boolean; order?: Order; error?: string }> => {
+  if (!reason.trim()) {
+    return { success: false, error: 'A reason is required to cancel an order' };
+  }
+
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('cancel_order', {
+        p_order_id: orderId,
+        p_reason: reason.trim(),
+      });
+
+      if (error) throw error;
+      return data as Order;
+    },
+    'Cancel order'
+  );
+
+  return {
+    success: result.success,
+    order: result.data,
+    error: result.error?.message,
+  };
 };
 
 /**
@@ -654,6 +749,7 @@ export const getOrderStatusHistory = async (orderId: string): Promise<OrderStatu
 
 /**
  * Update payment status
+ * paid_at is stamped by the database the first time an order is paid
  */
 export const updatePaymentStatus = async (
   orderId: string,
@@ -663,10 +759,7 @@ export const updatePaymentStatus = async (
     async () => {
       const { error } = await supabase
         .from('orders')
-        .update({
-          payment_status: paymentStatus,
-          ...(paymentStatus === 'paid' && { paid_at: new Date().toISOString() }),
-        })
+        .update({ payment_status: paymentStatus })
         .eq('id', orderId);
 
       if (error) throw error;
@@ -678,39 +771,140 @@ export const updatePaymentStatus = async (
   return result.success;
 };
 
+// ========================================
+// GUEST ORDER OPERATIONS
+// ========================================
+
+/**
+ * Create order from a guest cart with the shopper's contact details
+ * ACID: Transactional order creation with guest cart clearing
+ */
+export const createGuestOrder = async (
+  sessionId: string,
+  contact: GuestContact,
+  shippingAddress: ShippingAddress,
+  billingAddress: ShippingAddress,
+  paymentMethod: PaymentMethod,
+  customerNotes?: string,
+  shippingMethod: ShippingMethod = 'standard',
+  couponCode?: string
+): Promise<{ success: boolean; orderId?: string; orderNumber?: string; error?: string }> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('create_guest_order', {
+        p_session_id: sessionId,
+        p_email: contact.email.trim(),
+        p_phone: contact.phone.trim(),
+        p_shipping_address: shippingAddress,
+        p_billing_address: billingAddress,
+        p_payment_method: paymentMethod,
+        p_customer_notes: customerNotes,
+        p_shipping_method: shippingMethod,
+        p_coupon_code: couponCode || null,
+      });
+
+      if (error) throw error;
+
+      // Guests can't read the orders table, so the function returns the number too
+      return data as { id: string; order_number: string };
+    },
+    'Create guest order'
+  );
+
+  return {
+    success: result.success,
+    orderId: result.data?.id,
+    orderNumber: result.data?.order_number,
+    error: result.error?.message,
+  };
+};
+
+/**
+ * Look up a guest order and its status history by order number and checkout email
+ */
+export const getGuestOrder = async (orderNumber: string, email: string): Promise<GuestOrderLookup | null> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('get_guest_order', {
+        p_order_number: orderNumber,
+        p_email: email,
+      });
+
+      if (error) throw error;
+      return (data as GuestOrderLookup | null) || null;
+    },
+    'Get guest order'
+  );
+
+  return result.data || null;
+};
+
+/**
+ * Attach guest orders placed with the signed-in user's verified email to their account
+ * Returns how many orders were attached
+ */
+export const claimGuestOrders = async (): Promise<number> => {
+  const result = await safeAsync(
+    async () => {
+      const { data, error } = await supabase.rpc('claim_guest_orders');
+
+      if (error) throw error;
+      return (data as number) || 0;
+    },
+    'Claim guest orders'
+  );
+
+  return result.data || 0;
+};
+
 // ========================================
 // ADMIN OPERATIONS
 // ========================================
 
 /**
- * Get all orders (admin only)
+ * Get a page of orders matching the filters, newest first (admin only)
  */
 export const getAllOrders = async (
-  status?: OrderStatus,
+  filters: OrderFilters = {},
   limit: number = 50,
   offset: number = 0
-): Promise<Order[]> => {
+): Promise<OrderPage> => {
   const result = await safeAsync(
     async () => {
       let query = supabase
         .from('orders')
-        .select('*')
+        .select('*', { count: 'exact' })
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
-      if (status) {
-        query = query.eq('status', status);
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.paymentStatus) {
+        query = query.eq('payment_status', filters.paymentStatus);
+      }
+      if (filters.from) {
+        query = query.gte('created_at', filters.from);
+      }
+      if (filters.to) {
+        query = query.lte('created_at', filters.to);
+      }
+
+      // Strip characters that would break the PostgREST or() filter syntax
+      const search = filters.search?.replace(/[,()%*]/g, ' ').trim();
+      if (search) {
+        query = query.or(`order_number.ilike.%${search}%,shipping_address->>name.ilike.%${search}%`);
       }
 
-      const { data, error } = await query;
+      const { data, error, count } = await query;
 
       if (error) throw error;
-      return data || [];
+      return { orders: data || [], total: count || 0 };
     },
     'Get all orders (admin)'
   );
 
-  return result.data || [];
+  return result.data || { orders: [], total: 0 };
 };
 
 /**
@@ -741,3 +935,25 @@ export const updateTrackingInfo = async (
   return result.success;
 };
 
+/**
+ * Update internal admin notes on an order
+ */
+export const updateAdminNotes = async (orderId: string, adminNotes: string): Promise<boolean> => {
+  const result = await safeAsync(
+    async () => {
+      const { error } = await supabase
+        .from('orders')
+        .update({
+          admin_notes: adminNotes || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', orderId);
+
+      if (error) throw error;
+      return true;
+    },
+    'Update admin notes'
+  );
+
+  return result.success;
+};
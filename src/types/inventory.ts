@@ -11,7 +11,7 @@ export interface InventoryItem {
   category: string;
   subcategory: string;
   
-  // Stock Information
+  // Stock Information (totals across variants)
   currentStock: number;
   reservedStock: number;
   availableStock: number;
@@ -46,25 +46,74 @@ export interface InventoryItem {
   updatedAt: Date;
   createdBy: string;
   notes: string;
+  
+  // Size × color variants, each with its own stock
+  variants: InventoryVariant[];
+}
+
+/**
+ * Stock for one size × color combination of a product
+ * Size and color are empty strings when the product has none; a variant with
+ * both empty holds stock shared by every combination (items created before variants)
+ */
+export interface InventoryVariant {
+  id: string;
+  size: string;
+  color: string;
+  sku: string;
+  
+  // Stock Information
+  currentStock: number;
+  reservedStock: number;
+  availableStock: number;
+  minimumStock: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  
+  // Location
+  shelf: string;
+  bin: string;
+  
+  // Tracking
+  lastRestocked: Date;
+  lastSold: Date;
+  totalSold: number;
 }
 
+export type VariantStockUpdate = Partial<Pick<InventoryVariant,
+  'minimumStock' | 'reorderPoint' | 'reorderQuantity' | 'shelf' | 'bin'
+>>;
+
 export interface StockMovement {
   id: string;
   productId: number;
+  variantId?: string;
   sku: string;
   type: 'in' | 'out' | 'adjustment' | 'transfer';
-  quantity: number;
+  quantity: number; // units moved; the counted level for adjustments
+  quantityChange: number; // signed change to on-hand stock
+  stockAfter: number; // variant level after this movement
   reason: string;
-  reference: string; // PO number, sale ID, etc.
+  reference: string; // PO number, order number, etc.
   location: string;
   timestamp: Date;
   performedBy: string;
   notes: string;
 }
 
+// A variant's stock level at a point in time, reconstructed from the movement ledger
+export interface StockLevelSnapshot {
+  variantId: string;
+  productId: number;
+  sku: string;
+  stock: number;
+  lastMovementAt: Date;
+}
+
 export interface InventoryAlert {
   id: string;
   productId: number;
+  variantId?: string;
   sku: string;
   type: 'low_stock' | 'out_of_stock' | 'overstock' | 'reorder' | 'expiry';
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -91,8 +140,12 @@ export interface InventoryReport {
 
 export interface ReorderSuggestion {
   productId: number;
+  variantId: string;
   sku: string;
   name: string;
+  size: string;
+  color: string;
+  location: string;
   currentStock: number;
   reorderPoint: number;
   suggestedQuantity: number;
@@ -117,6 +170,7 @@ export interface InventorySettings {
 export interface StockAdjustment {
   id: string;
   productId: number;
+  variantId?: string;
   sku: string;
   adjustmentType: 'increase' | 'decrease' | 'set';
   quantity: number;
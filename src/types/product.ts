@@ -24,6 +24,8 @@ export interface Product {
   sku?: string;
   careInstructions?: string;
   origin?: string;
+  // Shipping weight in grams (store default when not set)
+  weight?: number;
   
   // Inventory Management Fields
   inventory?: {
@@ -82,6 +84,7 @@ export type Occasion =
   | "Traditional"
   | "Modern";
 
+// Common fabrics offered when adding a product; products may use others
 export type Fabric =
   | "Silk"
   | "Cotton"
@@ -97,9 +100,10 @@ export interface ProductFilter {
   categories: ProductCategory[];
   subcategories: ProductSubcategory[];
   occasions: Occasion[];
-  fabrics: Fabric[];
+  fabrics: string[];
   priceRange: [number, number];
   sizes: string[];
+  // Color family slugs (see colorService)
   colors: string[];
   inStock?: boolean;
   isNew?: boolean;
@@ -125,5 +129,8 @@ export interface ProductReview {
   helpful: number;
   createdAt: Date;
   size?: string;
+  fit?: ReviewFit;
   occasion?: string;
 }
+
+export type ReviewFit = "runs_small" | "true_to_size" | "runs_large";
@@ -0,0 +1,29 @@
+/**
+ * Carrier Utilities
+ * Courier partners offered in the admin order console and their public tracking pages
+ */
+
+export interface Carrier {
+  name: string;
+  // Tracking page URL; {tracking} is replaced with the tracking number
+  trackingUrl: string;
+}
+
+export const CARRIERS: Carrier[] = [
+  { name: 'Delhivery', trackingUrl: 'https://www.delhivery.com/track/package/{tracking}' },
+  { name: 'Blue Dart', trackingUrl: 'https://www.bluedart.com/tracking?trackFor=0&trackNo={tracking}' },
+  { name: 'DTDC', trackingUrl: 'https://www.dtdc.in/tracking.asp?strCnno={tracking}' },
+  { name: 'Ecom Express', trackingUrl: 'https://ecomexpress.in/tracking/?awb_field={tracking}' },
+  { name: 'India Post', trackingUrl: 'https://www.indiapost.gov.in/_layouts/15/dop.portal.tracking/trackconsignment.aspx?consignment={tracking}' },
+  { name: 'Xpressbees', trackingUrl: 'https://www.xpressbees.com/shipment/tracking?awbNo={tracking}' },
+];
+
+/**
+ * Tracking page for a shipment, or null for carriers without a known tracking page
+ */
+export const getTrackingUrl = (carrierName: string | undefined, trackingNumber: string | undefined): string | null => {
+  if (!carrierName || !trackingNumber) return null;
+
+  const carrier = CARRIERS.find(c => c.name.toLowerCase() === carrierName.trim().toLowerCase());
+  return carrier ? carrier.trackingUrl.replace('{tracking}', encodeURIComponent(trackingNumber)) : null;
+};
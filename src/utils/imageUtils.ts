@@ -10,8 +10,8 @@ export const compressImage = (file: File, maxWidth: number = 800, quality: numbe
     const img = new Image();
 
     img.onload = () => {
-      // Calculate new dimensions
-      const ratio = Math.min(maxWidth / img.width, maxWidth / img.height);
+      // Calculate new dimensions (never upscale smaller images)
+      const ratio = Math.min(1, maxWidth / img.width, maxWidth / img.height);
       canvas.width = img.width * ratio;
       canvas.height = img.height * ratio;
 
@@ -26,6 +26,20 @@ export const compressImage = (file: File, maxWidth: number = 800, quality: numbe
   });
 };
 
+// Convert a data URL (e.g. from compressImage) to a Blob for uploading
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/data:(.*?);/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return new Blob([bytes], { type: mimeType });
+};
+
 // Check if image is too large
 export const validateImageSize = (file: File, maxSizeMB: number = 2): boolean => {
   const maxSizeBytes = maxSizeMB * 1024 * 1024;
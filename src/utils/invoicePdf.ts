@@ -0,0 +1,311 @@
+/**
+ * Invoice PDF Utilities
+ * Builds the printable GST invoice and the packing slip for an order
+ */
+
+import { jsPDF } from 'jspdf';
+import { Order, ShippingAddress } from '@/services/userActivitiesService';
+import { Invoice, SellerDetails } from '@/services/invoiceService';
+
+const MARGIN = 15;
+const LINE_HEIGHT = 5;
+
+// The built-in PDF fonts have no rupee sign
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitsInWords = (n: number) =>
+  n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ''}`;
+
+// Indian numbering: crore, lakh, thousand, hundred
+const integerInWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const hundred = Math.floor((n % 1000) / 100);
+  const rest = n % 100;
+
+  if (crore) parts.push(`${integerInWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigitsInWords(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigitsInWords(thousand)} Thousand`);
+  if (hundred) parts.push(`${ONES[hundred]} Hundred`);
+  if (rest) parts.push(twoDigitsInWords(rest));
+
+  return parts.join(' ');
+};
+
+export const amountInWords = (amount: number): string => {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+  return `Rupees ${integerInWords(rupees)}${paise ? ` and ${twoDigitsInWords(paise)} Paise` : ''} Only`;
+};
+
+const addressLines = (address: ShippingAddress): string[] => [
+  address.name,
+  address.address_line1,
+  address.address_line2,
+  `${address.city}, ${address.state} ${address.postal_code}`,
+  address.phone ? `Phone: ${address.phone}` : '',
+].filter(Boolean) as string[];
+
+const sellerLines = (seller: SellerDetails): string[] => [
+  seller.address_line1,
+  seller.address_line2,
+  `${seller.city}, ${seller.state} ${seller.postal_code}`,
+  [seller.phone, seller.email].filter(Boolean).join(' | '),
+  `GSTIN: ${seller.gstin}`,
+].filter(Boolean) as string[];
+
+// Print lines of text and return the y position below them
+const writeLines = (doc: jsPDF, lines: string[], x: number, y: number): number => {
+  lines.forEach((line, index) => doc.text(line, x, y + index * LINE_HEIGHT));
+  return y + lines.length * LINE_HEIGHT;
+};
+
+const ensureSpace = (doc: jsPDF, y: number, needed: number): number => {
+  if (y + needed <= doc.internal.pageSize.getHeight() - MARGIN) return y;
+  doc.addPage();
+  return MARGIN;
+};
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const drawTableRow = (doc: jsPDF, columns: Column[], cells: string[], y: number, bold = false): number => {
+  doc.setFont('helvetica', bold ? 'bold' : 'normal');
+
+  let x = MARGIN;
+  let rowLines = 1;
+  columns.forEach((column, index) => {
+    const text = doc.splitTextToSize(cells[index] || '', column.width - 2) as string[];
+    rowLines = Math.max(rowLines, text.length);
+    if (column.align === 'right') {
+      doc.text(text, x + column.width - 1, y, { align: 'right' });
+    } else {
+      doc.text(text, x + 1, y);
+    }
+    x += column.width;
+  });
+
+  return y + rowLines * LINE_HEIGHT + 1;
+};
+
+const drawTable = (doc: jsPDF, columns: Column[], rows: string[][], startY: number): number => {
+  const width = doc.internal.pageSize.getWidth() - MARGIN * 2;
+
+  doc.setFillColor(240, 240, 240);
+  doc.rect(MARGIN, startY - 4, width, LINE_HEIGHT + 2, 'F');
+  let y = drawTableRow(doc, columns, columns.map(column => column.header), startY, true);
+
+  rows.forEach(row => {
+    y = ensureSpace(doc, y, LINE_HEIGHT * 2);
+    y = drawTableRow(doc, columns, row, y);
+  });
+
+  doc.line(MARGIN, y - 3, MARGIN + width, y - 3);
+  return y + 2;
+};
+
+// ========================================
+// GST INVOICE
+// ========================================
+
+export const buildInvoicePdf = (invoice: Invoice, order: Order): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const rightEdge = pageWidth - MARGIN;
+
+  // Seller
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(invoice.seller.legal_name, MARGIN, 20);
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  let y = writeLines(doc, sellerLines(invoice.seller), MARGIN, 26);
+
+  // Invoice details
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text('TAX INVOICE', rightEdge, 20, { align: 'right' });
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  writeLines(doc, [
+    `Invoice No: ${invoice.invoice_number}`,
+    `Invoice Date: ${formatDate(invoice.issued_at)}`,
+    `Order No: ${order.order_number}`,
+    `Order Date: ${formatDate(order.created_at)}`,
+    ...(invoice.version > 1 && invoice.regenerated_at
+      ? [`Revised: ${formatDate(invoice.regenerated_at)} (v${invoice.version})`]
+      : []),
+  ], rightEdge - 60, 26);
+
+  // Buyer
+  y = Math.max(y, 52) + 4;
+  doc.line(MARGIN, y - 4, rightEdge, y - 4);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill To', MARGIN, y);
+  doc.text('Ship To', pageWidth / 2, y);
+  doc.setFont('helvetica', 'normal');
+  const billEnd = writeLines(doc, addressLines(invoice.billing_address), MARGIN, y + LINE_HEIGHT);
+  const shipEnd = writeLines(doc, addressLines(invoice.shipping_address), pageWidth / 2, y + LINE_HEIGHT);
+  y = Math.max(billEnd, shipEnd) + 2;
+  doc.text(`Place of Supply: ${invoice.place_of_supply}`, MARGIN, y);
+  y += LINE_HEIGHT * 2;
+
+  // Lines
+  const taxColumns: Column[] = invoice.is_interstate
+    ? [{ header: 'IGST', width: 28, align: 'right' }]
+    : [
+      { header: 'CGST', width: 14, align: 'right' },
+      { header: 'SGST', width: 14, align: 'right' },
+    ];
+  const columns: Column[] = [
+    { header: '#', width: 7 },
+    { header: 'Item', width: 0 },
+    { header: 'HSN', width: 15 },
+    { header: 'Qty', width: 10, align: 'right' },
+    { header: 'Rate', width: 18, align: 'right' },
+    { header: 'Taxable', width: 20, align: 'right' },
+    { header: 'GST %', width: 12, align: 'right' },
+    ...taxColumns,
+    { header: 'Total', width: 20, align: 'right' },
+  ];
+  // The item column takes the remaining width
+  columns[1].width = rightEdge - MARGIN - columns.reduce((sum, column) => sum + column.width, 0);
+
+  const rows = invoice.lines.map((line, index) => [
+    String(index + 1),
+    [line.name, [line.size && `Size ${line.size}`, line.color].filter(Boolean).join(', ')].filter(Boolean).join(' - '),
+    line.hsn_code,
+    String(line.quantity),
+    formatAmount(line.unit_price),
+    formatAmount(line.taxable_value),
+    `${line.gst_rate}%`,
+    ...(invoice.is_interstate ? [formatAmount(line.igst)] : [formatAmount(line.cgst), formatAmount(line.sgst)]),
+    formatAmount(line.total),
+  ]);
+
+  doc.setFontSize(8);
+  y = drawTable(doc, columns, rows, y);
+  doc.setFontSize(9);
+
+  // Totals
+  const totals: Array<[string, number]> = [
+    ['Taxable Value', invoice.taxable_value],
+    ...(invoice.is_interstate
+      ? [['IGST', invoice.igst] as [string, number]]
+      : [['CGST', invoice.cgst] as [string, number], ['SGST', invoice.sgst] as [string, number]]),
+    ['Shipping', invoice.shipping],
+    ...(invoice.cod_surcharge > 0 ? [['COD Charges', invoice.cod_surcharge] as [string, number]] : []),
+  ];
+
+  y = ensureSpace(doc, y, (totals.length + 4) * LINE_HEIGHT);
+  totals.forEach(([label, amount]) => {
+    doc.text(label, rightEdge - 60, y);
+    doc.text(formatAmount(amount), rightEdge, y, { align: 'right' });
+    y += LINE_HEIGHT;
+  });
+  doc.setFont('helvetica', 'bold');
+  doc.text('Invoice Total (INR)', rightEdge - 60, y + 1);
+  doc.text(formatAmount(invoice.total), rightEdge, y + 1, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  y += LINE_HEIGHT * 2;
+
+  doc.text(amountInWords(invoice.total), MARGIN, y);
+  y += LINE_HEIGHT * 3;
+
+  y = ensureSpace(doc, y, LINE_HEIGHT * 4);
+  doc.setFontSize(8);
+  doc.text(`Payment: ${(order.payment_method || '').toUpperCase()} (${order.payment_status})`, MARGIN, y);
+  doc.text('Tax is not payable on reverse charge basis.', MARGIN, y + LINE_HEIGHT);
+  doc.text('This is a computer generated invoice and does not require a signature.', MARGIN, y + LINE_HEIGHT * 2);
+
+  return doc;
+};
+
+export const downloadInvoicePdf = (invoice: Invoice, order: Order) => {
+  buildInvoicePdf(invoice, order).save(`${invoice.invoice_number.replace(/\//g, '-')}.pdf`);
+};
+
+// ========================================
+// PACKING SLIP
+// ========================================
+
+export const buildPackingSlipPdf = (order: Order, sellerName: string, invoiceNumber?: string): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const rightEdge = doc.internal.pageSize.getWidth() - MARGIN;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(sellerName, MARGIN, 20);
+  doc.setFontSize(14);
+  doc.text('PACKING SLIP', rightEdge, 20, { align: 'right' });
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  writeLines(doc, [
+    `Order No: ${order.order_number}`,
+    `Order Date: ${formatDate(order.created_at)}`,
+    ...(invoiceNumber ? [`Invoice No: ${invoiceNumber}`] : []),
+    ...(order.tracking_number ? [`${order.carrier || 'Courier'}: ${order.tracking_number}`] : []),
+  ], rightEdge - 60, 26);
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Ship To', MARGIN, 30);
+  doc.setFont('helvetica', 'normal');
+  let y = writeLines(doc, addressLines(order.shipping_address), MARGIN, 30 + LINE_HEIGHT);
+  y = Math.max(y, 52) + LINE_HEIGHT;
+
+  const columns: Column[] = [
+    { header: '#', width: 8 },
+    { header: 'Item', width: 0 },
+    { header: 'Size', width: 20 },
+    { header: 'Color', width: 30 },
+    { header: 'Qty', width: 14, align: 'right' },
+    { header: 'Packed', width: 16, align: 'right' },
+  ];
+  // The item column takes the remaining width
+  columns[1].width = rightEdge - MARGIN - columns.reduce((sum, column) => sum + column.width, 0);
+
+  const items = Array.isArray(order.items) ? order.items : [];
+  y = drawTable(doc, columns, items.map((item, index) => [
+    String(index + 1),
+    item.name,
+    item.size || '-',
+    item.color || '-',
+    String(item.quantity),
+    '[   ]',
+  ]), y);
+
+  const units = items.reduce((sum, item) => sum + item.quantity, 0);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Total units: ${units}`, rightEdge, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+
+  if (order.customer_notes) {
+    y = ensureSpace(doc, y + LINE_HEIGHT * 2, LINE_HEIGHT * 3);
+    doc.text('Customer notes:', MARGIN, y);
+    doc.text(doc.splitTextToSize(order.customer_notes, rightEdge - MARGIN) as string[], MARGIN, y + LINE_HEIGHT);
+  }
+
+  return doc;
+};
+
+export const downloadPackingSlipPdf = (order: Order, sellerName: string, invoiceNumber?: string) => {
+  buildPackingSlipPdf(order, sellerName, invoiceNumber).save(`packing-slip-${order.order_number}.pdf`);
+};
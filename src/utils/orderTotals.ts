@@ -0,0 +1,36 @@
+/**
+ * Order Totals Utilities
+ * Shipping methods, discount types and sale prices shared by cart, checkout and pricing
+ * Amounts are computed by the calculate_order_pricing database function (see services/pricingService)
+ */
+
+export type ShippingMethod = 'standard' | 'express';
+
+export interface ShippingMethodOption {
+  value: ShippingMethod;
+  label: string;
+  description: string;
+}
+
+// Discount from an applied coupon (see services/couponService)
+export interface OrderDiscount {
+  amount: number;
+  freeShipping: boolean;
+}
+
+// Price after the product's own percentage discount; matches product_sale_price in the database
+export const getSalePrice = (price: number, discount?: number): number =>
+  Math.round(price * (100 - (discount || 0))) / 100;
+
+export const SHIPPING_METHODS: ShippingMethodOption[] = [
+  {
+    value: 'standard',
+    label: 'Standard Delivery',
+    description: '5-7 business days',
+  },
+  {
+    value: 'express',
+    label: 'Express Delivery',
+    description: '2-3 business days',
+  },
+];
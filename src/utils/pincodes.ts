@@ -0,0 +1,238 @@
+/**
+ * Pincode Utilities
+ * Bundled India Post pincode prefixes for validating PIN codes and filling in city/state
+ * The first two digits identify the postal circle (state), the first three the sorting district
+ */
+
+export interface PincodeInfo {
+  state: string;
+  // Only known for the sorting districts of larger cities
+  city?: string;
+}
+
+// PIN codes are six digits and never start with 0
+export const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+
+// Postal circles by two-digit prefix; three-digit entries override them.
+// null marks districts shared by two states, where guessing would be wrong.
+const PINCODE_STATES: Record<string, string | null> = {
+  '11': 'Delhi',
+  '12': 'Haryana',
+  '13': 'Haryana',
+  '14': 'Punjab',
+  '15': 'Punjab',
+  '16': 'Punjab',
+  '160': 'Chandigarh',
+  '17': 'Himachal Pradesh',
+  '18': 'Jammu and Kashmir',
+  '19': 'Jammu and Kashmir',
+  '194': 'Ladakh',
+  '20': 'Uttar Pradesh',
+  '21': 'Uttar Pradesh',
+  '22': 'Uttar Pradesh',
+  '23': 'Uttar Pradesh',
+  '24': 'Uttar Pradesh',
+  '246': 'Uttarakhand',
+  '247': null,
+  '248': 'Uttarakhand',
+  '249': 'Uttarakhand',
+  '25': 'Uttar Pradesh',
+  '26': 'Uttar Pradesh',
+  '262': null,
+  '263': 'Uttarakhand',
+  '27': 'Uttar Pradesh',
+  '28': 'Uttar Pradesh',
+  '30': 'Rajasthan',
+  '31': 'Rajasthan',
+  '32': 'Rajasthan',
+  '33': 'Rajasthan',
+  '34': 'Rajasthan',
+  '36': 'Gujarat',
+  '37': 'Gujarat',
+  '38': 'Gujarat',
+  '39': 'Gujarat',
+  '396': null,
+  '40': 'Maharashtra',
+  '403': 'Goa',
+  '41': 'Maharashtra',
+  '42': 'Maharashtra',
+  '43': 'Maharashtra',
+  '44': 'Maharashtra',
+  '45': 'Madhya Pradesh',
+  '46': 'Madhya Pradesh',
+  '47': 'Madhya Pradesh',
+  '48': 'Madhya Pradesh',
+  '49': 'Chhattisgarh',
+  '50': 'Telangana',
+  '51': 'Andhra Pradesh',
+  '52': 'Andhra Pradesh',
+  '53': 'Andhra Pradesh',
+  '56': 'Karnataka',
+  '57': 'Karnataka',
+  '58': 'Karnataka',
+  '59': 'Karnataka',
+  '60': 'Tamil Nadu',
+  '605': null,
+  '609': null,
+  '61': 'Tamil Nadu',
+  '62': 'Tamil Nadu',
+  '63': 'Tamil Nadu',
+  '64': 'Tamil Nadu',
+  '67': 'Kerala',
+  '68': 'Kerala',
+  '69': 'Kerala',
+  '70': 'West Bengal',
+  '71': 'West Bengal',
+  '72': 'West Bengal',
+  '73': 'West Bengal',
+  '737': 'Sikkim',
+  '74': 'West Bengal',
+  '744': 'Andaman and Nicobar Islands',
+  '75': 'Odisha',
+  '76': 'Odisha',
+  '77': 'Odisha',
+  '78': 'Assam',
+  '790': 'Arunachal Pradesh',
+  '791': 'Arunachal Pradesh',
+  '792': 'Arunachal Pradesh',
+  '793': 'Meghalaya',
+  '794': 'Meghalaya',
+  '795': 'Manipur',
+  '796': 'Mizoram',
+  '797': 'Nagaland',
+  '798': 'Nagaland',
+  '799': 'Tripura',
+  '80': 'Bihar',
+  '81': 'Bihar',
+  '814': 'Jharkhand',
+  '815': 'Jharkhand',
+  '816': 'Jharkhand',
+  '82': 'Jharkhand',
+  '821': 'Bihar',
+  '823': 'Bihar',
+  '824': 'Bihar',
+  '83': 'Jharkhand',
+  '84': 'Bihar',
+  '85': 'Bihar',
+};
+
+// Cities by sorting district
+const PINCODE_CITIES: Record<string, string> = {
+  '110': 'Delhi',
+  '121': 'Faridabad',
+  '122': 'Gurugram',
+  '141': 'Ludhiana',
+  '143': 'Amritsar',
+  '144': 'Jalandhar',
+  '147': 'Patiala',
+  '160': 'Chandigarh',
+  '171': 'Shimla',
+  '180': 'Jammu',
+  '190': 'Srinagar',
+  '202': 'Aligarh',
+  '208': 'Kanpur',
+  '211': 'Prayagraj',
+  '221': 'Varanasi',
+  '226': 'Lucknow',
+  '243': 'Bareilly',
+  '244': 'Moradabad',
+  '248': 'Dehradun',
+  '250': 'Meerut',
+  '273': 'Gorakhpur',
+  '281': 'Mathura',
+  '282': 'Agra',
+  '302': 'Jaipur',
+  '305': 'Ajmer',
+  '313': 'Udaipur',
+  '324': 'Kota',
+  '334': 'Bikaner',
+  '342': 'Jodhpur',
+  '360': 'Rajkot',
+  '361': 'Jamnagar',
+  '364': 'Bhavnagar',
+  '380': 'Ahmedabad',
+  '390': 'Vadodara',
+  '395': 'Surat',
+  '400': 'Mumbai',
+  '411': 'Pune',
+  '413': 'Solapur',
+  '416': 'Kolhapur',
+  '422': 'Nashik',
+  '431': 'Chhatrapati Sambhajinagar',
+  '440': 'Nagpur',
+  '452': 'Indore',
+  '456': 'Ujjain',
+  '462': 'Bhopal',
+  '474': 'Gwalior',
+  '482': 'Jabalpur',
+  '492': 'Raipur',
+  '500': 'Hyderabad',
+  '506': 'Warangal',
+  '520': 'Vijayawada',
+  '522': 'Guntur',
+  '524': 'Nellore',
+  '530': 'Visakhapatnam',
+  '560': 'Bengaluru',
+  '570': 'Mysuru',
+  '575': 'Mangaluru',
+  '580': 'Hubballi',
+  '590': 'Belagavi',
+  '600': 'Chennai',
+  '620': 'Tiruchirappalli',
+  '625': 'Madurai',
+  '627': 'Tirunelveli',
+  '632': 'Vellore',
+  '636': 'Salem',
+  '638': 'Erode',
+  '641': 'Coimbatore',
+  '673': 'Kozhikode',
+  '680': 'Thrissur',
+  '682': 'Kochi',
+  '686': 'Kottayam',
+  '691': 'Kollam',
+  '695': 'Thiruvananthapuram',
+  '700': 'Kolkata',
+  '711': 'Howrah',
+  '737': 'Gangtok',
+  '751': 'Bhubaneswar',
+  '753': 'Cuttack',
+  '769': 'Rourkela',
+  '781': 'Guwahati',
+  '793': 'Shillong',
+  '795': 'Imphal',
+  '796': 'Aizawl',
+  '799': 'Agartala',
+  '800': 'Patna',
+  '812': 'Bhagalpur',
+  '823': 'Gaya',
+  '826': 'Dhanbad',
+  '831': 'Jamshedpur',
+  '834': 'Ranchi',
+  '842': 'Muzaffarpur',
+};
+
+/**
+ * Whether a PIN code is well formed and belongs to a postal circle
+ * (Army Postal Service and unallocated prefixes are rejected)
+ */
+export const isValidPincode = (pincode: string | undefined): boolean => {
+  if (!pincode || !PINCODE_PATTERN.test(pincode.trim())) return false;
+
+  const code = pincode.trim();
+  return code.slice(0, 2) in PINCODE_STATES || code.slice(0, 3) in PINCODE_STATES;
+};
+
+/**
+ * State (and city where known) for a PIN code
+ * Returns null for invalid codes and districts shared by two states
+ */
+export const lookupPincode = (pincode: string | undefined): PincodeInfo | null => {
+  if (!isValidPincode(pincode)) return null;
+
+  const code = pincode.trim();
+  const district = code.slice(0, 3);
+  const state = district in PINCODE_STATES ? PINCODE_STATES[district] : PINCODE_STATES[code.slice(0, 2)];
+  if (!state) return null;
+
+  return { state, city: PINCODE_CITIES[district] };
+};
@@ -0,0 +1,141 @@
+/**
+ * Shop URL State
+ * Serializes the shop's search, filters, sort and page to query parameters and back,
+ * so any view of the catalog can be reloaded, shared or revisited with back/forward
+ * Values equal to the page's base state are left out, which keeps URLs short and canonical
+ */
+
+import { ProductFilter } from '@/types/product';
+import { SORT_OPTIONS } from '@/services/productService';
+
+export interface ShopUrlState {
+  query: string;
+  filters: ProductFilter;
+  sortBy: string;
+  page: number;
+}
+
+type ListFilterKey = 'categories' | 'subcategories' | 'occasions' | 'fabrics' | 'sizes' | 'colors';
+type FlagFilterKey = 'inStock' | 'isNew' | 'hasDiscount';
+
+// List filters and their parameter names, repeated once per value (?occasion=Party&occasion=Wedding).
+// An empty value clears a list the base state sets.
+const LIST_PARAMS: [ListFilterKey, string][] = [
+  ['categories', 'category'],
+  ['subcategories', 'subcategory'],
+  ['occasions', 'occasion'],
+  ['fabrics', 'fabric'],
+  ['sizes', 'size'],
+  ['colors', 'color'],
+];
+
+// Yes/no filters, written as 1 or 0 and left out when not set
+const FLAG_PARAMS: [FlagFilterKey, string][] = [
+  ['inStock', 'in_stock'],
+  ['isNew', 'new'],
+  ['hasDiscount', 'sale'],
+];
+
+const SORT_VALUES = SORT_OPTIONS.map(option => option.value);
+
+const sameList = (a: readonly string[], b: readonly string[]) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+const parseFlag = (value: string | null): boolean | undefined => {
+  if (value === '1' || value === 'true') return true;
+  if (value === '0' || value === 'false') return false;
+  return undefined;
+};
+
+// "1000-5000"; either end may be left empty to keep the base value
+const parsePriceRange = (value: string | null, base: [number, number]): [number, number] => {
+  const match = value?.match(/^(\d*)-(\d*)$/);
+  if (!match) return base;
+
+  const min = match[1] ? Number(match[1]) : base[0];
+  const max = match[2] ? Number(match[2]) : base[1];
+  return min <= max ? [min, max] : base;
+};
+
+/**
+ * Read the shop state from the URL; anything missing or invalid keeps the base value
+ */
+export const parseShopUrlState = (params: URLSearchParams, base: ShopUrlState): ShopUrlState => {
+  const filters: ProductFilter = { ...base.filters };
+
+  LIST_PARAMS.forEach(([key, param]) => {
+    if (params.has(param)) {
+      const values = params.getAll(param).map(value => value.trim()).filter(Boolean);
+      (filters[key] as string[]) = [...new Set(values)];
+    }
+  });
+
+  FLAG_PARAMS.forEach(([key, param]) => {
+    const flag = parseFlag(params.get(param));
+    if (flag !== undefined) filters[key] = flag;
+  });
+
+  filters.priceRange = parsePriceRange(params.get('price'), base.filters.priceRange);
+
+  const sort = params.get('sort');
+  const page = Number(params.get('page'));
+
+  return {
+    query: params.get('search')?.trim() || base.query,
+    filters,
+    sortBy: sort && SORT_VALUES.includes(sort) ? sort : base.sortBy,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+/**
+ * Write the shop state as query parameters, in a fixed order and without base values
+ * The canonical form also leaves out the sort, since sorted views list the same products
+ */
+export const buildShopSearchParams = (
+  state: ShopUrlState,
+  base: ShopUrlState,
+  options: { canonical?: boolean } = {}
+): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  const query = state.query.trim();
+  if (query && query !== base.query) {
+    params.set('search', query);
+  }
+
+  LIST_PARAMS.forEach(([key, param]) => {
+    const values = [...(state.filters[key] as string[])].sort();
+    const baseValues = [...(base.filters[key] as string[])].sort();
+    if (sameList(values, baseValues)) return;
+
+    if (values.length === 0) {
+      params.set(param, '');
+    } else {
+      values.forEach(value => params.append(param, value));
+    }
+  });
+
+  const [min, max] = state.filters.priceRange;
+  const [baseMin, baseMax] = base.filters.priceRange;
+  if (min !== baseMin || max !== baseMax) {
+    params.set('price', `${min !== baseMin ? min : ''}-${max !== baseMax ? max : ''}`);
+  }
+
+  FLAG_PARAMS.forEach(([key, param]) => {
+    const flag = state.filters[key];
+    if (flag !== undefined && flag !== base.filters[key]) {
+      params.set(param, flag ? '1' : '0');
+    }
+  });
+
+  if (!options.canonical && state.sortBy !== base.sortBy) {
+    params.set('sort', state.sortBy);
+  }
+
+  if (state.page > 1) {
+    params.set('page', String(state.page));
+  }
+
+  return params;
+};
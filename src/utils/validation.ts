@@ -6,6 +6,16 @@
 
 import { Product } from '@/types/product';
 import { InventoryItem } from '@/types/inventory';
+import { GuestContact, ShippingAddress } from '@/services/userActivitiesService';
+import { CreateReviewInput } from '@/services/reviewService';
+import { CouponInput } from '@/services/couponService';
+import { PricingSettings, ShippingZone } from '@/services/pricingService';
+import { InvoiceSettings } from '@/services/invoiceService';
+import { AddressInput } from '@/services/addressService';
+import { SearchSynonymInput } from '@/services/searchSynonymService';
+import { CollectionInput } from '@/services/collectionService';
+import { SearchRankingSettings } from '@/services/searchRankingService';
+import { isValidPincode, lookupPincode } from '@/utils/pincodes';
 
 // Validation Result Interface
 export interface ValidationResult {
@@ -229,6 +239,442 @@ export const validateInventoryItem = (item: Partial<InventoryItem>): ValidationR
   };
 };
 
+/**
+ * Validate Shipping/Billing Address
+ */
+export const validateShippingAddress = (address: Partial<ShippingAddress>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!address.name || address.name.trim().length === 0) {
+    errors.push('Full name is required');
+  }
+
+  if (!address.address_line1 || address.address_line1.trim().length === 0) {
+    errors.push('Address line 1 is required');
+  } else if (address.address_line1.trim().length < 5) {
+    warnings.push('Address line 1 looks very short - please double-check it');
+  }
+
+  if (!address.city || address.city.trim().length === 0) {
+    errors.push('City is required');
+  }
+
+  if (!address.state || address.state.trim().length === 0) {
+    errors.push('State is required');
+  }
+
+  if (!address.postal_code || address.postal_code.trim().length === 0) {
+    errors.push('PIN code is required');
+  } else if (!isValidPincode(address.postal_code)) {
+    errors.push('PIN code must be a valid 6-digit Indian PIN code');
+  } else {
+    const pincodeInfo = lookupPincode(address.postal_code);
+    if (pincodeInfo && address.state && pincodeInfo.state.toLowerCase() !== address.state.trim().toLowerCase()) {
+      warnings.push(`PIN code ${address.postal_code.trim()} is in ${pincodeInfo.state}, not ${address.state.trim()}`);
+    }
+  }
+
+  if (!address.country || address.country.trim().length === 0) {
+    errors.push('Country is required');
+  }
+
+  if (!address.phone || address.phone.trim().length === 0) {
+    errors.push('Phone number is required');
+  } else if (!/^(\+91-?)?[6-9][0-9]{9}$/.test(address.phone.replace(/\s+/g, ''))) {
+    errors.push('Phone number must be a valid 10-digit mobile number');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate Address Book Entry
+ */
+export const validateAddressInput = (input: Partial<AddressInput>): ValidationResult => {
+  const { errors, warnings } = validateShippingAddress(input);
+
+  if (!input.label || input.label.trim().length === 0) {
+    errors.unshift('Label is required (e.g. Home, Office)');
+  } else if (input.label.trim().length > 40) {
+    errors.unshift('Label must be 40 characters or less');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate Guest Checkout Contact Details
+ */
+export const validateGuestContact = (contact: Partial<GuestContact>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!contact.email || contact.email.trim().length === 0) {
+    errors.push('Email address is required');
+  } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contact.email.trim())) {
+    errors.push('Please enter a valid email address');
+  }
+
+  if (!contact.phone || contact.phone.trim().length === 0) {
+    errors.push('Contact phone number is required');
+  } else if (!/^(\+91-?)?[6-9][0-9]{9}$/.test(contact.phone.replace(/\s+/g, ''))) {
+    errors.push('Contact phone number must be a valid 10-digit mobile number');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate Product Review
+ */
+export const validateReview = (review: Partial<CreateReviewInput>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!review.rating || review.rating < 1 || review.rating > 5) {
+    errors.push('Please select a rating between 1 and 5 stars');
+  }
+
+  if (!review.title || review.title.trim().length === 0) {
+    errors.push('Review title is required');
+  } else if (review.title.trim().length > 100) {
+    errors.push('Review title must be 100 characters or less');
+  }
+
+  if (!review.comment || review.comment.trim().length === 0) {
+    errors.push('Review comment is required');
+  } else if (review.comment.trim().length < 10) {
+    errors.push('Review comment must be at least 10 characters');
+  } else if (review.comment.trim().length > 2000) {
+    errors.push('Review comment must be 2000 characters or less');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate Coupon Data
+ */
+export const validateCoupon = (coupon: Partial<CouponInput>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!coupon.code || coupon.code.trim().length === 0) {
+    errors.push('Coupon code is required');
+  } else if (!/^[A-Za-z0-9_-]{3,20}$/.test(coupon.code.trim())) {
+    errors.push('Coupon code must be 3-20 letters, numbers, dashes or underscores');
+  }
+
+  if (!coupon.discount_type) {
+    errors.push('Discount type is required');
+  } else if (coupon.discount_type !== 'free_shipping') {
+    if (!coupon.discount_value || coupon.discount_value <= 0) {
+      errors.push('Discount value must be greater than 0');
+    } else if (coupon.discount_type === 'percentage' && coupon.discount_value > 100) {
+      errors.push('Percentage discount cannot exceed 100%');
+    } else if (coupon.discount_type === 'percentage' && coupon.discount_value > 70) {
+      warnings.push('Percentage discount is unusually high');
+    }
+  }
+
+  if (coupon.max_discount !== undefined && coupon.max_discount <= 0) {
+    errors.push('Maximum discount must be greater than 0');
+  }
+
+  if (coupon.min_cart_value !== undefined && coupon.min_cart_value < 0) {
+    errors.push('Minimum cart value cannot be negative');
+  }
+
+  if (coupon.discount_type === 'flat' && coupon.discount_value && coupon.min_cart_value !== undefined
+      && coupon.min_cart_value > 0 && coupon.discount_value > coupon.min_cart_value) {
+    warnings.push('Flat discount is larger than the minimum cart value');
+  }
+
+  if (coupon.usage_limit_per_user !== undefined && coupon.usage_limit_per_user < 1) {
+    errors.push('Usage limit per user must be at least 1');
+  }
+
+  if (coupon.starts_at && coupon.expires_at && new Date(coupon.expires_at) <= new Date(coupon.starts_at)) {
+    errors.push('Expiry date must be after the start date');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate store pricing settings
+ */
+export const validatePricingSettings = (settings: Partial<PricingSettings>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (settings.free_shipping_threshold === undefined || settings.free_shipping_threshold < 0) {
+    errors.push('Free shipping threshold cannot be negative');
+  }
+
+  if (settings.cod_surcharge === undefined || settings.cod_surcharge < 0) {
+    errors.push('COD surcharge cannot be negative');
+  } else if (settings.cod_surcharge > 200) {
+    warnings.push('COD surcharge is unusually high');
+  }
+
+  if (!settings.default_weight_grams || settings.default_weight_grams <= 0) {
+    errors.push('Default weight must be greater than 0');
+  }
+
+  if (settings.default_gst_rate === undefined || settings.default_gst_rate < 0 || settings.default_gst_rate > 28) {
+    errors.push('Default GST rate must be between 0% and 28%');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate a shipping zone
+ */
+export const validateShippingZone = (zone: Partial<ShippingZone>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!zone.code || !/^[a-z0-9_]+$/.test(zone.code)) {
+    errors.push('Zone code must use lowercase letters, numbers or underscores');
+  }
+
+  if (!zone.name || zone.name.trim().length === 0) {
+    errors.push('Zone name is required');
+  }
+
+  const invalidPrefixes = (zone.pincode_prefixes || []).filter(prefix => !/^\d{1,6}$/.test(prefix.trim()));
+  if (invalidPrefixes.length > 0) {
+    errors.push(`Invalid pincode prefixes: ${invalidPrefixes.join(', ')}`);
+  }
+
+  if (!zone.is_default && (zone.pincode_prefixes || []).length === 0) {
+    warnings.push('Zone has no pincode prefixes and is not the default, so it will never be used');
+  }
+
+  if (zone.base_rate === undefined || zone.base_rate < 0) {
+    errors.push('Base rate cannot be negative');
+  }
+
+  if (!zone.base_weight_grams || zone.base_weight_grams <= 0) {
+    errors.push('Base weight must be greater than 0');
+  }
+
+  if ((zone.additional_rate ?? 0) < 0 || (zone.express_surcharge ?? 0) < 0) {
+    errors.push('Rates cannot be negative');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate seller details printed on invoices
+ */
+export const validateInvoiceSettings = (settings: Partial<InvoiceSettings>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!settings.legal_name || settings.legal_name.trim().length === 0) {
+    errors.push('Legal name is required');
+  }
+
+  // 2-digit state code, 10-character PAN, entity number, 'Z', checksum
+  const gstin = (settings.gstin || '').trim().toUpperCase();
+  if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin)) {
+    errors.push('Enter a valid 15-character GSTIN');
+  }
+
+  if (!settings.address_line1 || !settings.city || !settings.state) {
+    errors.push('Address, city and state are required');
+  }
+
+  if (!settings.postal_code || !/^\d{6}$/.test(settings.postal_code)) {
+    errors.push('Postal code must be 6 digits');
+  }
+
+  if (!settings.invoice_prefix || !/^[A-Z0-9-]+$/.test(settings.invoice_prefix)) {
+    errors.push('Invoice prefix may only use capital letters, numbers and hyphens');
+  }
+
+  if (!settings.phone && !settings.email) {
+    warnings.push('Add a phone number or email so customers can reach you about invoices');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate a search synonym rule
+ */
+export const validateSearchSynonym = (input: Partial<SearchSynonymInput>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const term = (input.term || '').trim().toLowerCase();
+  const synonyms = (input.synonyms || []).map(synonym => synonym.trim().toLowerCase()).filter(Boolean);
+
+  if (!term) {
+    errors.push('Search term is required');
+  } else if (term.length > 60) {
+    errors.push('Search term must be 60 characters or less');
+  } else if (term.split(/\s+/).length > 3) {
+    errors.push('Search term can be at most 3 words');
+  }
+
+  if (synonyms.length === 0) {
+    errors.push('Add at least one synonym');
+  } else if (synonyms.length > 20) {
+    errors.push('A term can have at most 20 synonyms');
+  }
+
+  if (synonyms.some(synonym => synonym.length > 60)) {
+    errors.push('Synonyms must be 60 characters or less');
+  }
+
+  if (term && synonyms.includes(term)) {
+    warnings.push('The term is listed as its own synonym');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate a collection
+ */
+export const validateCollection = (input: Partial<CollectionInput>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input.title?.trim()) {
+    errors.push('Collection title is required');
+  } else if (input.title.trim().length > 80) {
+    errors.push('Collection title must be 80 characters or less');
+  }
+
+  if (!input.slug?.trim()) {
+    errors.push('URL slug is required');
+  } else if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(input.slug.trim())) {
+    errors.push('URL slug can only contain lowercase letters, numbers and single hyphens');
+  }
+
+  const filters = input.filters || {};
+  const hasFilters = Object.values(filters).some(value => (Array.isArray(value) ? value.length > 0 : value !== undefined));
+  if (!input.search_query?.trim() && !hasFilters) {
+    errors.push('Add search terms or filters to choose the collection\'s products');
+  }
+
+  if (!input.trigger_queries || input.trigger_queries.length === 0) {
+    warnings.push('No searches will land on this collection');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate learned search ranking settings
+ */
+export const validateSearchRankingSettings = (settings: Partial<SearchRankingSettings>): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!settings.half_life_days || settings.half_life_days < 1) {
+    errors.push('Half-life must be at least 1 day');
+  }
+
+  if (!settings.window_days || settings.window_days < 1) {
+    errors.push('Window must be at least 1 day');
+  } else if (settings.half_life_days && settings.window_days < settings.half_life_days) {
+    warnings.push('The window is shorter than the half-life, so events are cut off before they fade');
+  }
+
+  if (settings.boost_strength === undefined || settings.boost_strength < 0 || settings.boost_strength > 5) {
+    errors.push('Boost strength must be between 0 and 5');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Validate a color alias
+ */
+export const validateColorAlias = (
+  input: { alias?: string; family_slug?: string },
+  familyNames: string[] = []
+): ValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const alias = (input.alias || '').trim().toLowerCase();
+
+  if (!alias) {
+    errors.push('Color name is required');
+  } else if (alias.length > 40) {
+    errors.push('Color name must be 40 characters or less');
+  } else if (alias.split(/\s+/).length > 4) {
+    errors.push('Color name can be at most 4 words');
+  }
+
+  if (!input.family_slug) {
+    errors.push('Choose a color family');
+  }
+
+  if (alias && familyNames.some(name => name.toLowerCase() === alias)) {
+    warnings.push('This is already the name of a color family');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+};
+
 /**
  * Validate SKU uniqueness
  */
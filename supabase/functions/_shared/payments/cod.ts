@@ -0,0 +1,50 @@
+/**
+ * Cash on Delivery Provider
+ * Nothing is charged online: the payment stays pending until an admin records the cash
+ * as collected, and refunds are paid out by hand
+ */
+
+import { PaymentProvider } from './types.ts';
+
+export const createCodProvider = (): PaymentProvider => ({
+  name: 'cod',
+
+  async createIntent(input) {
+    return {
+      providerPaymentId: `cod_${input.orderId}`,
+      status: 'pending',
+      clientData: {},
+    };
+  },
+
+  // Called when an admin records the cash as collected
+  async confirm(payment, payload) {
+    return {
+      eventId: `payment.succeeded:${payment.providerPaymentId}`,
+      type: 'payment.succeeded',
+      providerPaymentId: payment.providerPaymentId,
+      chargeId: payment.providerPaymentId,
+      amount: payment.amount,
+      payload: { collected_by: payload.performed_by ?? null },
+    };
+  },
+
+  async refund(payment, amount) {
+    const refundId = `cod_refund_${Date.now()}`;
+    return {
+      refundId,
+      event: {
+        eventId: `refund.succeeded:${refundId}`,
+        type: 'refund.succeeded',
+        providerPaymentId: payment.providerPaymentId,
+        amount,
+        payload: { refund_id: refundId, manual: true },
+      },
+    };
+  },
+
+  // Cash on Delivery has no webhooks
+  async verifyWebhook() {
+    return null;
+  },
+});
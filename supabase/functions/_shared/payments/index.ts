@@ -0,0 +1,77 @@
+/**
+ * Payment Providers
+ * Picks the provider for an order's payment method and applies verified events
+ *
+ * Environment:
+ *   PAYMENT_GATEWAY          'razorpay' or 'mock' for UPI and card payments (required)
+ *   RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET
+ *   ENABLE_MOCK_PAYMENTS     'true' to allow the mock provider (development only)
+ *   MOCK_PAYMENT_SECRET      signing secret for mock webhooks (required with the mock)
+ */
+
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { PaymentEvent, PaymentMethod, PaymentProvider } from './types.ts';
+import { createRazorpayProvider } from './razorpay.ts';
+import { createCodProvider } from './cod.ts';
+import { createMockProvider } from './mock.ts';
+
+export * from './types.ts';
+
+const env = (name: string, fallback = '') => Deno.env.get(name) ?? fallback;
+
+// The mock marks orders paid without money moving, so it only exists where
+// explicitly switched on and given its own secret
+const isMockEnabled = () => env('ENABLE_MOCK_PAYMENTS') === 'true' && env('MOCK_PAYMENT_SECRET') !== '';
+
+export const getProvider = (name: string): PaymentProvider | null => {
+  switch (name) {
+    case 'razorpay':
+      return createRazorpayProvider({
+        keyId: env('RAZORPAY_KEY_ID'),
+        keySecret: env('RAZORPAY_KEY_SECRET'),
+        webhookSecret: env('RAZORPAY_WEBHOOK_SECRET'),
+      });
+    case 'cod':
+      return createCodProvider();
+    case 'mock':
+      return isMockEnabled() ? createMockProvider(env('MOCK_PAYMENT_SECRET')) : null;
+    default:
+      return null;
+  }
+};
+
+export const getProviderForMethod = (method: PaymentMethod): PaymentProvider => {
+  if (method === 'cod') return createCodProvider();
+
+  const gateway = env('PAYMENT_GATEWAY');
+  if (!gateway) {
+    throw new Error('PAYMENT_GATEWAY is not set');
+  }
+
+  const provider = getProvider(gateway);
+  if (!provider) {
+    throw new Error(gateway === 'mock'
+      ? 'The mock gateway needs ENABLE_MOCK_PAYMENTS=true and MOCK_PAYMENT_SECRET'
+      : `Unknown PAYMENT_GATEWAY ${gateway}`);
+  }
+  return provider;
+};
+
+/**
+ * Record a verified event; repeated events are ignored by the database
+ * Requires a service role client
+ */
+export const applyPaymentEvent = async (supabase: SupabaseClient, provider: string, event: PaymentEvent) => {
+  const { data, error } = await supabase.rpc('apply_payment_event', {
+    p_provider: provider,
+    p_event_id: event.eventId,
+    p_event_type: event.type,
+    p_provider_payment_id: event.providerPaymentId ?? null,
+    p_charge_id: event.chargeId ?? null,
+    p_amount: event.amount,
+    p_payload: event.payload,
+  });
+
+  if (error) throw error;
+  return data;
+};
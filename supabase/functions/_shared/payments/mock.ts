@@ -0,0 +1,89 @@
+/**
+ * Mock Provider
+ * Local stand-in for an online gateway during development and tests
+ * Confirmations are turned into signed webhook bodies and go through the same
+ * verification as real webhooks, so the whole paid flow can be exercised offline
+ */
+
+import { PaymentEvent, PaymentProvider } from './types.ts';
+import { hmacSha256Hex, verifyHmacSignature } from './signature.ts';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+export interface MockWebhookBody {
+  type: PaymentEvent['type'];
+  id: string;
+  payment_id?: string;
+  charge_id?: string;
+  amount: number;
+  reason?: string;
+}
+
+const randomId = (prefix: string) => `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 14)}`;
+
+export const createMockProvider = (secret: string): PaymentProvider => {
+  const toEvents = async (body: MockWebhookBody): Promise<PaymentEvent[] | null> => {
+    const rawBody = JSON.stringify(body);
+    const headers = new Headers({ [MOCK_SIGNATURE_HEADER]: await hmacSha256Hex(secret, rawBody) });
+    return provider.verifyWebhook(rawBody, headers);
+  };
+
+  const provider: PaymentProvider = {
+    name: 'mock',
+
+    async createIntent() {
+      const providerPaymentId = randomId('mock_pay');
+      return {
+        providerPaymentId,
+        status: 'created',
+        clientData: { paymentId: providerPaymentId },
+      };
+    },
+
+    // payload.outcome: 'success' (default) or 'failure'
+    async confirm(payment, payload) {
+      const succeeded = payload.outcome !== 'failure';
+      const chargeId = randomId('mock_charge');
+
+      const events = await toEvents({
+        type: succeeded ? 'payment.succeeded' : 'payment.failed',
+        id: chargeId,
+        payment_id: payment.providerPaymentId,
+        charge_id: chargeId,
+        amount: payment.amount,
+        reason: succeeded ? undefined : 'Declined by mock provider',
+      });
+      return events?.[0] ?? null;
+    },
+
+    async refund(payment, amount) {
+      const refundId = randomId('mock_refund');
+      const events = await toEvents({
+        type: 'refund.succeeded',
+        id: refundId,
+        charge_id: payment.chargeId ?? undefined,
+        payment_id: payment.providerPaymentId,
+        amount,
+      });
+      return { refundId, event: events?.[0] };
+    },
+
+    async verifyWebhook(rawBody, headers) {
+      if (!(await verifyHmacSignature(secret, rawBody, headers.get(MOCK_SIGNATURE_HEADER)))) {
+        return null;
+      }
+
+      const body = JSON.parse(rawBody) as MockWebhookBody;
+      return [{
+        eventId: `${body.type}:${body.id}`,
+        type: body.type,
+        providerPaymentId: body.payment_id ?? null,
+        chargeId: body.charge_id ?? null,
+        amount: Number(body.amount),
+        payload: body.reason ? { reason: body.reason } : {},
+      }];
+    },
+  };
+
+  return provider;
+};
@@ -0,0 +1,178 @@
+/**
+ * Razorpay Provider
+ * UPI and card payments through Razorpay Orders + Checkout
+ * https://razorpay.com/docs/payments/server-integration/
+ */
+
+import { PaymentEvent, PaymentProvider } from './types.ts';
+import { verifyHmacSignature } from './signature.ts';
+
+const API_BASE = 'https://api.razorpay.com/v1';
+
+export interface RazorpayConfig {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+}
+
+// Razorpay amounts are in paise
+const toPaise = (amount: number) => Math.round(amount * 100);
+const fromPaise = (amount: number) => amount / 100;
+
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  amount: number;
+  status: string;
+  method?: string;
+  error_description?: string | null;
+}
+
+interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount: number;
+  status: string;
+}
+
+const paymentEvent = (entity: RazorpayPaymentEntity): PaymentEvent | null => {
+  if (entity.status === 'captured') {
+    return {
+      eventId: `payment.succeeded:${entity.id}`,
+      type: 'payment.succeeded',
+      providerPaymentId: entity.order_id,
+      chargeId: entity.id,
+      amount: fromPaise(entity.amount),
+      payload: { method: entity.method },
+    };
+  }
+
+  if (entity.status === 'failed') {
+    return {
+      eventId: `payment.failed:${entity.id}`,
+      type: 'payment.failed',
+      providerPaymentId: entity.order_id,
+      chargeId: entity.id,
+      amount: fromPaise(entity.amount),
+      payload: { reason: entity.error_description || 'Payment failed' },
+    };
+  }
+
+  // 'authorized' payments are captured automatically and reported by webhook
+  return null;
+};
+
+const refundEvent = (entity: RazorpayRefundEntity): PaymentEvent => ({
+  eventId: `refund.succeeded:${entity.id}`,
+  type: 'refund.succeeded',
+  chargeId: entity.payment_id,
+  amount: fromPaise(entity.amount),
+  payload: { refund_id: entity.id },
+});
+
+export const createRazorpayProvider = (config: RazorpayConfig): PaymentProvider => {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Basic ${btoa(`${config.keyId}:${config.keySecret}`)}`,
+      },
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      throw new Error(body?.error?.description || `Razorpay request failed (${response.status})`);
+    }
+    return body as T;
+  };
+
+  return {
+    name: 'razorpay',
+
+    async createIntent(input) {
+      const order = await request<{ id: string; amount: number; currency: string }>('/orders', {
+        method: 'POST',
+        body: JSON.stringify({
+          amount: toPaise(input.amount),
+          currency: input.currency,
+          receipt: input.orderNumber,
+          notes: { order_id: input.orderId },
+        }),
+      });
+
+      return {
+        providerPaymentId: order.id,
+        status: 'created',
+        clientData: {
+          keyId: config.keyId,
+          orderId: order.id,
+          amount: order.amount,
+          currency: order.currency,
+          method: input.method,
+          prefill: {
+            name: input.customer.name,
+            email: input.customer.email,
+            contact: input.customer.phone,
+          },
+        },
+      };
+    },
+
+    // Checkout returns razorpay_order_id, razorpay_payment_id and razorpay_signature
+    async confirm(payment, payload) {
+      const paymentId = String(payload.razorpay_payment_id || '');
+      const signature = String(payload.razorpay_signature || '');
+
+      const isValid = await verifyHmacSignature(
+        config.keySecret,
+        `${payment.providerPaymentId}|${paymentId}`,
+        signature
+      );
+      if (!isValid) {
+        throw new Error('Payment signature verification failed');
+      }
+
+      const entity = await request<RazorpayPaymentEntity>(`/payments/${paymentId}`);
+      return paymentEvent(entity);
+    },
+
+    async refund(payment, amount) {
+      if (!payment.chargeId) {
+        throw new Error('Payment has not been captured');
+      }
+
+      const refund = await request<RazorpayRefundEntity>(`/payments/${payment.chargeId}/refund`, {
+        method: 'POST',
+        body: JSON.stringify({ amount: toPaise(amount) }),
+      });
+
+      return {
+        refundId: refund.id,
+        event: refund.status === 'processed' ? refundEvent(refund) : undefined,
+      };
+    },
+
+    async verifyWebhook(rawBody, headers) {
+      const isValid = await verifyHmacSignature(
+        config.webhookSecret,
+        rawBody,
+        headers.get('x-razorpay-signature')
+      );
+      if (!isValid) return null;
+
+      const body = JSON.parse(rawBody);
+      switch (body.event) {
+        case 'payment.captured':
+        case 'payment.failed': {
+          const event = paymentEvent(body.payload.payment.entity);
+          return event ? [event] : [];
+        }
+        case 'refund.processed':
+          return [refundEvent(body.payload.refund.entity)];
+        default:
+          return [];
+      }
+    },
+  };
+};
@@ -0,0 +1,37 @@
+/**
+ * Signature Helpers
+ * HMAC-SHA256 signing used by gateway webhooks and checkout confirmations
+ */
+
+const encoder = new TextEncoder();
+
+export const hmacSha256Hex = async (secret: string, message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Constant-time comparison so signatures can't be guessed byte by byte
+export const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const verifyHmacSignature = async (secret: string, message: string, signature: string | null): Promise<boolean> => {
+  if (!secret || !signature) return false;
+  return safeEqual(await hmacSha256Hex(secret, message), signature.trim().toLowerCase());
+};
@@ -0,0 +1,72 @@
+/**
+ * Payment Provider Types
+ * Contract every payment gateway implements; amounts are in rupees
+ */
+
+export type PaymentMethod = 'cod' | 'upi' | 'card';
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded';
+
+export interface PaymentIntentInput {
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  customer: {
+    name: string;
+    email?: string;
+    phone?: string;
+  };
+}
+
+export interface PaymentIntent {
+  providerPaymentId: string;
+  status: 'created' | 'pending';
+  // Passed to the browser to open the provider's checkout
+  clientData: Record<string, unknown>;
+}
+
+// The stored payment a confirmation or refund applies to
+export interface PaymentRecord {
+  providerPaymentId: string;
+  chargeId?: string | null;
+  amount: number;
+}
+
+// A verified provider event, applied with apply_payment_event
+export interface PaymentEvent {
+  // '<type>:<provider resource id>' so each outcome is applied once
+  eventId: string;
+  type: PaymentEventType;
+  providerPaymentId?: string | null;
+  chargeId?: string | null;
+  amount: number;
+  payload: Record<string, unknown>;
+}
+
+export interface RefundResult {
+  refundId: string;
+  // Present when the refund completed immediately; otherwise it arrives by webhook
+  event?: PaymentEvent;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  createIntent(input: PaymentIntentInput): Promise<PaymentIntent>;
+
+  /**
+   * Verify what the browser (or an admin, for COD) reports after checkout
+   * Returns the event to apply, or null when the outcome will arrive by webhook
+   */
+  confirm(payment: PaymentRecord, payload: Record<string, unknown>): Promise<PaymentEvent | null>;
+
+  refund(payment: PaymentRecord, amount: number): Promise<RefundResult>;
+
+  /**
+   * Check a webhook's signature and translate it into events
+   * Returns null when the signature is invalid; unrelated events give an empty list
+   */
+  verifyWebhook(rawBody: string, headers: Headers): Promise<PaymentEvent[] | null>;
+}
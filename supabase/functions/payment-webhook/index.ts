@@ -0,0 +1,47 @@
+/**
+ * Payment Webhook
+ * Receives provider webhooks at /functions/v1/payment-webhook/<provider>
+ * (e.g. .../payment-webhook/razorpay), verifies the signature and applies the events
+ * Gateways call it without a Supabase session, so deploy it with --no-verify-jwt
+ * /payment-webhook/mock only exists where the mock provider is enabled
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { jsonResponse } from '../_shared/cors.ts';
+import { applyPaymentEvent, getProvider } from '../_shared/payments/index.ts';
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const providerName = new URL(req.url).pathname.split('/').filter(Boolean).pop() || '';
+  // getProvider returns null for the mock unless it is enabled
+  const provider = getProvider(providerName);
+  if (!provider) {
+    return jsonResponse({ error: `Unknown provider ${providerName}` }, 404);
+  }
+
+  // Signatures are computed over the exact bytes received
+  const rawBody = await req.text();
+  const events = await provider.verifyWebhook(rawBody, req.headers);
+  if (!events) {
+    return jsonResponse({ error: 'Invalid signature' }, 401);
+  }
+
+  try {
+    for (const event of events) {
+      await applyPaymentEvent(admin, provider.name, event);
+    }
+    return jsonResponse({ received: events.length });
+  } catch (error) {
+    // A non-2xx response makes the gateway retry the delivery
+    console.error('Payment webhook error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to apply event' }, 500);
+  }
+});
@@ -0,0 +1,245 @@
+/**
+ * Payments Function
+ * POST { action, orderId, ... } from the storefront with the user's session
+ *   create_intent  customer starts (or resumes) paying their order
+ *   confirm        customer reports checkout success/failure; admins record COD cash as collected
+ *   refund         admin refunds a captured payment, optionally partially ({ amount })
+ *   refund_return  admin refunds a received return ({ returnId, amount? }): refund_return records
+ *                  the amount, then it is refunded through the order's payment provider
+ * Guests without a session send { guestEmail } instead; it must match the guest order's checkout email
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { applyPaymentEvent, getProvider, getProviderForMethod, PaymentMethod } from '../_shared/payments/index.ts';
+
+const OPEN_PAYMENT_STATUSES = ['created', 'pending'];
+const REFUNDABLE_PAYMENT_STATUSES = ['succeeded', 'partially_refunded'];
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface OrderRow {
+  id: string;
+  user_id: string | null;
+  guest_email: string | null;
+  order_number: string;
+  status: string;
+  payment_status: string;
+  payment_method: PaymentMethod | null;
+  total: number;
+  shipping_address: { name?: string; phone?: string } | null;
+}
+
+class RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const getLatestPayment = async (orderId: string) => {
+  const { data, error } = await admin
+    .from('payments')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const getPaymentProvider = (name: string) => {
+  const provider = getProvider(name);
+  if (!provider) throw new Error(`Unknown payment provider ${name}`);
+  return provider;
+};
+
+// Guest orders are identified by their checkout email until claimed by an account
+const isGuestOrderFor = (order: OrderRow | null, email: unknown) =>
+  !!order && !order.user_id && !!order.guest_email && typeof email === 'string'
+  && order.guest_email.toLowerCase() === email.trim().toLowerCase();
+
+const getPayment = async (paymentId: string) => {
+  const { data, error } = await admin.from('payments').select('*').eq('id', paymentId).single();
+  if (error) throw error;
+  return data;
+};
+
+// Reuse an unfinished payment for the same provider so retries don't create duplicate gateway orders
+const createIntent = async (order: OrderRow, email?: string) => {
+  const method = order.payment_method || 'cod';
+  const provider = getProviderForMethod(method);
+
+  const existing = await getLatestPayment(order.id);
+  if (existing && existing.provider === provider.name && OPEN_PAYMENT_STATUSES.includes(existing.status)) {
+    return { payment: existing, provider: provider.name, clientData: existing.client_data };
+  }
+
+  const intent = await provider.createIntent({
+    orderId: order.id,
+    orderNumber: order.order_number,
+    amount: Number(order.total),
+    currency: 'INR',
+    method,
+    customer: {
+      name: order.shipping_address?.name,
+      email,
+      phone: order.shipping_address?.phone,
+    },
+  });
+
+  const { data: payment, error } = await admin
+    .from('payments')
+    .insert({
+      order_id: order.id,
+      provider: provider.name,
+      method,
+      status: intent.status,
+      amount: Number(order.total),
+      provider_payment_id: intent.providerPaymentId,
+      client_data: intent.clientData,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { payment, provider: provider.name, clientData: intent.clientData };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+    const { data: { user } } = await admin.auth.getUser(token);
+
+    const isAdmin = user?.app_metadata?.is_super_admin === true;
+    const { action, orderId, payload = {}, amount, guestEmail, returnId } = await req.json();
+    if (!user && !guestEmail) throw new RequestError('Please sign in', 401);
+
+    const { data: order } = await admin.from('orders').select('*').eq('id', orderId).maybeSingle<OrderRow>();
+
+    const isOwner = user ? order?.user_id === user.id : isGuestOrderFor(order, guestEmail);
+    if (!order || (!isOwner && !isAdmin)) {
+      throw new RequestError('Order not found', 404);
+    }
+    // The signed-in user's email, or the checkout email for guests
+    const contactEmail = user?.email ?? order.guest_email ?? undefined;
+
+    switch (action) {
+      case 'create_intent': {
+        if (order.status === 'cancelled') throw new RequestError('This order was cancelled');
+        if (!['pending', 'failed'].includes(order.payment_status)) {
+          throw new RequestError('This order has already been paid');
+        }
+        return jsonResponse(await createIntent(order, contactEmail));
+      }
+
+      case 'confirm': {
+        const isCod = (order.payment_method || 'cod') === 'cod';
+        if (isCod && !isAdmin) throw new RequestError('Only admins can record cash payments', 403);
+
+        let payment = await getLatestPayment(order.id);
+        if (!payment && isCod) {
+          payment = (await createIntent(order, contactEmail)).payment;
+        }
+        if (!payment) throw new RequestError('No payment has been started for this order');
+
+        const provider = getPaymentProvider(payment.provider);
+        const event = await provider.confirm(
+          { providerPaymentId: payment.provider_payment_id, chargeId: payment.provider_charge_id, amount: Number(payment.amount) },
+          { ...payload, performed_by: contactEmail }
+        );
+        if (event) {
+          await applyPaymentEvent(admin, provider.name, event);
+        }
+        return jsonResponse({ payment: await getPayment(payment.id) });
+      }
+
+      case 'refund': {
+        if (!isAdmin) throw new RequestError('Only admins can refund payments', 403);
+
+        const payment = await getLatestPayment(order.id);
+        if (!payment || !REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+          throw new RequestError('There is no captured payment to refund');
+        }
+
+        const remaining = Number(payment.amount) - Number(payment.refunded_amount);
+        const refundAmount = amount === undefined || amount === null ? remaining : Number(amount);
+        if (!(refundAmount > 0) || refundAmount > remaining) {
+          throw new RequestError(`Refund must be between 0 and ${remaining.toFixed(2)}`);
+        }
+
+        const provider = getPaymentProvider(payment.provider);
+        const result = await provider.refund(
+          { providerPaymentId: payment.provider_payment_id, chargeId: payment.provider_charge_id, amount: Number(payment.amount) },
+          refundAmount
+        );
+        if (result.event) {
+          await applyPaymentEvent(admin, provider.name, result.event);
+        }
+        return jsonResponse({ payment: await getPayment(payment.id), refundId: result.refundId });
+      }
+
+      case 'refund_return': {
+        if (!isAdmin) throw new RequestError('Only admins can refund returns', 403);
+
+        const { data: returnRequest } = await admin
+          .from('return_requests')
+          .select('order_id')
+          .eq('id', returnId)
+          .maybeSingle();
+        if (!returnRequest || returnRequest.order_id !== order.id) {
+          throw new RequestError('Return request not found', 404);
+        }
+
+        const payment = await getLatestPayment(order.id);
+        if (!payment || !REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+          throw new RequestError('There is no captured payment to refund');
+        }
+
+        // Recording first locks the RMA, so a repeated request cannot refund twice
+        const { data: refunded, error } = await admin.rpc('refund_return', {
+          p_return_id: returnId,
+          p_amount: amount ?? null,
+        });
+        if (error) throw new RequestError(error.message);
+
+        const refundAmount = Number(refunded.refund_amount);
+        if (refundAmount === 0) {
+          return jsonResponse({ returnRequest: refunded, payment, refundId: null });
+        }
+
+        const provider = getPaymentProvider(payment.provider);
+        try {
+          const result = await provider.refund(
+            { providerPaymentId: payment.provider_payment_id, chargeId: payment.provider_charge_id, amount: Number(payment.amount) },
+            refundAmount
+          );
+          if (result.event) {
+            await applyPaymentEvent(admin, provider.name, result.event);
+          }
+          return jsonResponse({ returnRequest: refunded, payment: await getPayment(payment.id), refundId: result.refundId });
+        } catch (refundError) {
+          console.error('Return refund error:', refundError);
+          throw new Error(
+            `${refunded.rma_number} was recorded as refunded but the ${provider.name} refund failed; refund the payment from the order`
+          );
+        }
+      }
+
+      default:
+        throw new RequestError(`Unknown action ${action}`);
+    }
+  } catch (error) {
+    const status = error instanceof RequestError ? error.status : 500;
+    console.error('Payments error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Payment request failed' }, status);
+  }
+});
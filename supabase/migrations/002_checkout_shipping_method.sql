@@ -0,0 +1,127 @@
+-- ========================================
+-- CHECKOUT SHIPPING METHOD
+-- Records the shipping method chosen at checkout and prices it
+-- inside create_order_from_cart (see src/utils/orderTotals.ts)
+-- ========================================
+
+-- ========================================
+-- 1. SHIPPING METHOD COLUMN
+-- ========================================
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS shipping_method TEXT NOT NULL DEFAULT 'standard'
+  CHECK (shipping_method IN ('standard', 'express'));
+
+-- ========================================
+-- 2. CREATE ORDER FROM CART (with shipping method)
+-- Replaces the 5-argument version from 001
+-- ========================================
+DROP FUNCTION IF EXISTS create_order_from_cart(UUID, JSONB, JSONB, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION create_order_from_cart(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method TEXT,
+  p_customer_notes TEXT DEFAULT NULL,
+  p_shipping_method TEXT DEFAULT 'standard'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_cart_items JSONB;
+  v_subtotal DECIMAL(10, 2);
+  v_tax DECIMAL(10, 2);
+  v_shipping DECIMAL(10, 2);
+  v_total DECIMAL(10, 2);
+BEGIN
+  IF p_shipping_method NOT IN ('standard', 'express') THEN
+    RAISE EXCEPTION 'Invalid shipping method: %', p_shipping_method;
+  END IF;
+
+  -- Get cart items
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', product_id,
+        'name', product_name,
+        'price', product_price,
+        'quantity', quantity,
+        'size', size,
+        'color', color,
+        'image', product_image
+      )
+    ),
+    '[]'::jsonb
+  ) INTO v_cart_items
+  FROM user_carts
+  WHERE user_id = p_user_id;
+
+  -- Check if cart is empty
+  IF jsonb_array_length(v_cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  -- Calculate totals
+  SELECT SUM(product_price * quantity) INTO v_subtotal
+  FROM user_carts
+  WHERE user_id = p_user_id;
+
+  -- Calculate tax (10%)
+  v_tax := ROUND(v_subtotal * 0.10, 2);
+
+  -- Calculate shipping (express: flat ₹150, standard: free from ₹500, else ₹50)
+  IF p_shipping_method = 'express' THEN
+    v_shipping := 150;
+  ELSIF v_subtotal >= 500 THEN
+    v_shipping := 0;
+  ELSE
+    v_shipping := 50;
+  END IF;
+
+  v_total := v_subtotal + v_tax + v_shipping;
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+
+  -- Create order
+  INSERT INTO orders (
+    user_id,
+    order_number,
+    items,
+    subtotal,
+    tax,
+    shipping_cost,
+    total,
+    shipping_address,
+    billing_address,
+    payment_method,
+    shipping_method,
+    customer_notes,
+    status,
+    payment_status
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    v_cart_items,
+    v_subtotal,
+    v_tax,
+    v_shipping,
+    v_total,
+    p_shipping_address,
+    p_billing_address,
+    p_payment_method,
+    p_shipping_method,
+    p_customer_notes,
+    'pending',
+    'pending'
+  ) RETURNING id INTO v_order_id;
+
+  -- Clear user cart
+  DELETE FROM user_carts WHERE user_id = p_user_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_order_from_cart IS 'Creates order from user cart items with automatic total calculation and shipping method pricing';
@@ -0,0 +1,169 @@
+-- ========================================
+-- PRODUCTS CATALOG SCHEMA
+-- Shared product catalog replacing the per-browser localStorage('adminProducts')
+-- store; readable by everyone, writable by admins only
+-- ========================================
+
+-- ========================================
+-- 1. PRODUCTS TABLE
+-- ========================================
+CREATE TABLE IF NOT EXISTS products (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  image TEXT NOT NULL DEFAULT '/placeholder.svg',
+  images TEXT[] NOT NULL DEFAULT '{}',
+  category TEXT NOT NULL,
+  subcategory TEXT NOT NULL,
+  description TEXT,
+  sizes TEXT[] NOT NULL DEFAULT '{}',
+  colors TEXT[] NOT NULL DEFAULT '{}',
+  fabric TEXT,
+  occasion TEXT[] NOT NULL DEFAULT '{}',
+  is_new BOOLEAN NOT NULL DEFAULT false,
+  discount INTEGER NOT NULL DEFAULT 0 CHECK (discount >= 0 AND discount <= 100),
+  in_stock BOOLEAN NOT NULL DEFAULT true,
+  rating DECIMAL(2, 1) NOT NULL DEFAULT 0 CHECK (rating >= 0 AND rating <= 5),
+  reviews INTEGER NOT NULL DEFAULT 0 CHECK (reviews >= 0),
+  sku TEXT UNIQUE,
+  care_instructions TEXT,
+  origin TEXT DEFAULT 'Made in India',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
+CREATE INDEX IF NOT EXISTS idx_products_subcategory ON products(subcategory);
+CREATE INDEX IF NOT EXISTS idx_products_created_at ON products(created_at DESC);
+
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. WIDEN PRODUCT REFERENCES
+-- Legacy admin products used Date.now() ids, which overflow INTEGER
+-- ========================================
+ALTER TABLE user_carts ALTER COLUMN product_id TYPE BIGINT;
+ALTER TABLE user_favorites ALTER COLUMN product_id TYPE BIGINT;
+
+-- ========================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- ========================================
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view products"
+  ON products FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can add products"
+  ON products FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can update products"
+  ON products FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can delete products"
+  ON products FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 4. ONE-TIME IMPORT OF LEGACY PRODUCTS
+-- Keeps existing ids so carts, favorites and inventory stay linked
+-- ========================================
+CREATE OR REPLACE FUNCTION import_products(p_products JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_imported INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can import products';
+  END IF;
+
+  INSERT INTO products (
+    id,
+    name,
+    price,
+    image,
+    images,
+    category,
+    subcategory,
+    description,
+    sizes,
+    colors,
+    fabric,
+    occasion,
+    is_new,
+    discount,
+    in_stock,
+    rating,
+    reviews,
+    sku,
+    care_instructions,
+    origin
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.price,
+    COALESCE(p.image, '/placeholder.svg'),
+    COALESCE(p.images, '{}'),
+    p.category,
+    p.subcategory,
+    p.description,
+    COALESCE(p.sizes, '{}'),
+    COALESCE(p.colors, '{}'),
+    p.fabric,
+    COALESCE(p.occasion, '{}'),
+    COALESCE(p.is_new, false),
+    COALESCE(p.discount, 0),
+    COALESCE(p.in_stock, true),
+    COALESCE(p.rating, 0),
+    COALESCE(p.reviews, 0),
+    p.sku,
+    p.care_instructions,
+    COALESCE(p.origin, 'Made in India')
+  FROM jsonb_populate_recordset(NULL::products, p_products) AS p
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_imported = ROW_COUNT;
+
+  -- Move the id sequence past imported ids so new products don't collide
+  PERFORM setval(
+    pg_get_serial_sequence('products', 'id'),
+    GREATEST((SELECT MAX(id) FROM products), 1)
+  );
+
+  RETURN v_imported;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 5. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON TABLE products IS 'Shared product catalog managed from the admin panel';
+COMMENT ON FUNCTION import_products IS 'Admin-only one-time import of legacy localStorage/static products, preserving ids';
@@ -0,0 +1,42 @@
+-- ========================================
+-- PRODUCT IMAGES STORAGE
+-- Public bucket for product image renditions uploaded from the admin panel
+-- (see src/services/productImageService.ts)
+-- ========================================
+
+-- ========================================
+-- 1. STORAGE BUCKET
+-- ========================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('product-images', 'product-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- ========================================
+-- 2. STORAGE POLICIES
+-- Anyone can view, only admins can upload or delete
+-- ========================================
+CREATE POLICY "Anyone can view product images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'product-images');
+
+CREATE POLICY "Admins can upload product images"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'product-images'
+    AND EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can delete product images"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'product-images'
+    AND EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
@@ -0,0 +1,171 @@
+-- ========================================
+-- PRODUCT REVIEWS SCHEMA
+-- Customer reviews with verified-purchase detection, helpful votes
+-- and automatic product rating aggregation
+-- ========================================
+
+-- ========================================
+-- 1. PRODUCT REVIEWS TABLE
+-- ========================================
+CREATE TABLE IF NOT EXISTS product_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_name TEXT NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 5),
+  title TEXT NOT NULL,
+  comment TEXT NOT NULL,
+  images TEXT[] NOT NULL DEFAULT '{}',
+  size TEXT,
+  fit TEXT CHECK (fit IN ('runs_small', 'true_to_size', 'runs_large')),
+  occasion TEXT,
+  verified BOOLEAN NOT NULL DEFAULT false,
+  helpful INTEGER NOT NULL DEFAULT 0 CHECK (helpful >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- One review per customer per product
+  UNIQUE(product_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product_id ON product_reviews(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_user_id ON product_reviews(user_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_created_at ON product_reviews(created_at DESC);
+
+-- ========================================
+-- 2. HELPFUL VOTES TABLE
+-- One helpful vote per user per review
+-- ========================================
+CREATE TABLE IF NOT EXISTS review_helpful_votes (
+  review_id UUID NOT NULL REFERENCES product_reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (review_id, user_id)
+);
+
+-- ========================================
+-- 3. VERIFIED PURCHASE DETECTION
+-- A review is verified when the reviewer has a delivered order containing the product
+-- ========================================
+CREATE OR REPLACE FUNCTION set_review_verified_purchase()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.verified := EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.user_id = NEW.user_id
+    AND orders.status = 'delivered'
+    AND orders.items @> jsonb_build_array(jsonb_build_object('id', NEW.product_id))
+  );
+  NEW.helpful := 0;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_product_review_verified
+  BEFORE INSERT ON product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION set_review_verified_purchase();
+
+-- ========================================
+-- 4. AGGREGATE RATING RECOMPUTATION
+-- Keeps products.rating and products.reviews in sync with product_reviews
+-- ========================================
+CREATE OR REPLACE FUNCTION refresh_product_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id BIGINT;
+BEGIN
+  v_product_id := COALESCE(NEW.product_id, OLD.product_id);
+
+  UPDATE products
+  SET
+    rating = COALESCE((
+      SELECT ROUND(AVG(rating), 1) FROM product_reviews WHERE product_id = v_product_id
+    ), 0),
+    reviews = (
+      SELECT COUNT(*) FROM product_reviews WHERE product_id = v_product_id
+    )
+  WHERE id = v_product_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_product_rating_on_review
+  AFTER INSERT OR UPDATE OF rating OR DELETE ON product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_product_rating();
+
+-- ========================================
+-- 5. MARK REVIEW HELPFUL
+-- Records a vote and returns the review's helpful count
+-- ========================================
+CREATE OR REPLACE FUNCTION mark_review_helpful(p_review_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_helpful INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in to vote';
+  END IF;
+
+  INSERT INTO review_helpful_votes (review_id, user_id)
+  VALUES (p_review_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  UPDATE product_reviews
+  SET helpful = (SELECT COUNT(*) FROM review_helpful_votes WHERE review_id = p_review_id)
+  WHERE id = p_review_id
+  RETURNING helpful INTO v_helpful;
+
+  IF v_helpful IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  RETURN v_helpful;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 6. ROW LEVEL SECURITY (RLS) POLICIES
+-- Reviews are immutable once posted; helpful counts change only via mark_review_helpful
+-- ========================================
+ALTER TABLE product_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_helpful_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reviews"
+  ON product_reviews FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create own reviews"
+  ON product_reviews FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reviews"
+  ON product_reviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can delete reviews"
+  ON product_reviews FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Users can view own helpful votes"
+  ON review_helpful_votes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ========================================
+-- 7. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON TABLE product_reviews IS 'Customer product reviews with verified purchase flag';
+COMMENT ON TABLE review_helpful_votes IS 'Per-user helpful votes on product reviews';
+
+COMMENT ON FUNCTION set_review_verified_purchase IS 'Marks a review verified when the reviewer has a delivered order containing the product';
+COMMENT ON FUNCTION refresh_product_rating IS 'Recomputes products.rating and products.reviews from product_reviews';
+COMMENT ON FUNCTION mark_review_helpful IS 'Records one helpful vote per user and returns the updated count';
@@ -0,0 +1,381 @@
+-- ========================================
+-- COUPONS & PROMOTIONS
+-- Percentage, flat and free-shipping coupons with cart minimums,
+-- category/occasion scoping, per-user limits and expiry.
+-- Discounts are evaluated in the database so they can't be forged client-side
+-- ========================================
+
+-- ========================================
+-- 1. COUPONS TABLE
+-- ========================================
+CREATE TABLE IF NOT EXISTS coupons (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'flat', 'free_shipping')),
+  discount_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  max_discount DECIMAL(10, 2) CHECK (max_discount > 0), -- Cap for percentage coupons
+  min_cart_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (min_cart_value >= 0),
+  applicable_categories TEXT[] NOT NULL DEFAULT '{}', -- Empty = all categories
+  applicable_occasions TEXT[] NOT NULL DEFAULT '{}', -- Empty = all occasions
+  usage_limit_per_user INTEGER CHECK (usage_limit_per_user > 0), -- NULL = unlimited
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (expires_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_code ON coupons(code);
+
+CREATE TRIGGER update_coupons_updated_at
+  BEFORE UPDATE ON coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. COUPON REDEMPTIONS TABLE
+-- One row per order that used a coupon; drives per-user limits
+-- ========================================
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  discount_amount DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user ON coupon_redemptions(coupon_id, user_id);
+
+-- Record the applied code on the order
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS coupon_code TEXT;
+
+-- ========================================
+-- 3. COUPON EVALUATION
+-- p_items: [{ "id": product_id, "quantity": number }]
+-- Prices and category/occasion scoping use the products table, not client data
+-- ========================================
+
+-- Selling price after the product's own discount, as shown in the storefront
+CREATE OR REPLACE FUNCTION product_sale_price(p_price DECIMAL, p_discount INTEGER)
+RETURNS DECIMAL AS $$
+  SELECT ROUND(p_price * (100 - COALESCE(p_discount, 0)) / 100, 2);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION evaluate_coupon_for_user(
+  p_user_id UUID,
+  p_code TEXT,
+  p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_coupon coupons%ROWTYPE;
+  v_subtotal DECIMAL(10, 2);
+  v_eligible_subtotal DECIMAL(10, 2);
+  v_discount DECIMAL(10, 2) := 0;
+  v_used INTEGER;
+BEGIN
+  SELECT * INTO v_coupon FROM coupons WHERE code = UPPER(TRIM(p_code));
+
+  IF NOT FOUND OR NOT v_coupon.is_active THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Invalid coupon code');
+  END IF;
+
+  IF NOW() < v_coupon.starts_at THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'This coupon is not active yet');
+  END IF;
+
+  IF v_coupon.expires_at IS NOT NULL AND NOW() >= v_coupon.expires_at THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'This coupon has expired');
+  END IF;
+
+  IF v_coupon.usage_limit_per_user IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_used
+    FROM coupon_redemptions
+    WHERE coupon_id = v_coupon.id AND user_id = p_user_id;
+
+    IF v_used >= v_coupon.usage_limit_per_user THEN
+      RETURN jsonb_build_object('valid', false, 'message', 'You have already used this coupon');
+    END IF;
+  END IF;
+
+  SELECT COALESCE(SUM(product_sale_price(products.price, products.discount) * (item->>'quantity')::INTEGER), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item
+  JOIN products ON products.id = (item->>'id')::BIGINT;
+
+  IF v_subtotal < v_coupon.min_cart_value THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'message', format('Add items worth ₹%s more to use this coupon', v_coupon.min_cart_value - v_subtotal)
+    );
+  END IF;
+
+  -- Subtotal of items the coupon applies to
+  SELECT COALESCE(SUM(product_sale_price(products.price, products.discount) * (item->>'quantity')::INTEGER), 0)
+  INTO v_eligible_subtotal
+  FROM jsonb_array_elements(p_items) AS item
+  JOIN products ON products.id = (item->>'id')::BIGINT
+  WHERE (
+    cardinality(v_coupon.applicable_categories) = 0
+    OR products.category = ANY(v_coupon.applicable_categories)
+  )
+  AND (
+    cardinality(v_coupon.applicable_occasions) = 0
+    OR products.occasion && v_coupon.applicable_occasions
+  );
+
+  IF v_eligible_subtotal = 0 THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'This coupon does not apply to the items in your cart');
+  END IF;
+
+  IF v_coupon.discount_type = 'percentage' THEN
+    v_discount := ROUND(v_eligible_subtotal * v_coupon.discount_value / 100, 2);
+    IF v_coupon.max_discount IS NOT NULL THEN
+      v_discount := LEAST(v_discount, v_coupon.max_discount);
+    END IF;
+  ELSIF v_coupon.discount_type = 'flat' THEN
+    v_discount := LEAST(v_coupon.discount_value, v_eligible_subtotal);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'coupon_id', v_coupon.id,
+    'code', v_coupon.code,
+    'description', v_coupon.description,
+    'discount_type', v_coupon.discount_type,
+    'discount', v_discount,
+    'free_shipping', v_coupon.discount_type = 'free_shipping',
+    'eligible_subtotal', v_eligible_subtotal
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only callable from other database functions (takes an arbitrary user id)
+REVOKE EXECUTE ON FUNCTION evaluate_coupon_for_user(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Client-facing preview for the signed-in user
+CREATE OR REPLACE FUNCTION evaluate_coupon(p_code TEXT, p_items JSONB)
+RETURNS JSONB AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Please sign in to use coupons');
+  END IF;
+
+  RETURN evaluate_coupon_for_user(auth.uid(), p_code, p_items);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 4. CREATE ORDER FROM CART (with coupon)
+-- Replaces the 6-argument version from 002
+-- ========================================
+DROP FUNCTION IF EXISTS create_order_from_cart(UUID, JSONB, JSONB, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION create_order_from_cart(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method TEXT,
+  p_customer_notes TEXT DEFAULT NULL,
+  p_shipping_method TEXT DEFAULT 'standard',
+  p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_cart_items JSONB;
+  v_subtotal DECIMAL(10, 2);
+  v_discount DECIMAL(10, 2) := 0;
+  v_tax DECIMAL(10, 2);
+  v_shipping DECIMAL(10, 2);
+  v_total DECIMAL(10, 2);
+  v_coupon JSONB;
+BEGIN
+  IF p_shipping_method NOT IN ('standard', 'express') THEN
+    RAISE EXCEPTION 'Invalid shipping method: %', p_shipping_method;
+  END IF;
+
+  -- The function runs as its owner, so it may only order the caller's own cart
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not authorized to create this order';
+  END IF;
+
+  -- Get cart items, priced from the products table rather than the client-written cart
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', user_carts.product_id,
+        'name', user_carts.product_name,
+        'price', product_sale_price(products.price, products.discount),
+        'quantity', user_carts.quantity,
+        'size', user_carts.size,
+        'color', user_carts.color,
+        'image', user_carts.product_image
+      )
+    ),
+    '[]'::jsonb
+  ) INTO v_cart_items
+  FROM user_carts
+  JOIN products ON products.id = user_carts.product_id
+  WHERE user_carts.user_id = p_user_id;
+
+  -- Check if cart is empty
+  IF jsonb_array_length(v_cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF jsonb_array_length(v_cart_items) < (SELECT COUNT(*) FROM user_carts WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Some products in your cart are no longer available';
+  END IF;
+
+  -- Calculate totals
+  SELECT SUM((item->>'price')::DECIMAL * (item->>'quantity')::INTEGER) INTO v_subtotal
+  FROM jsonb_array_elements(v_cart_items) AS item;
+
+  -- Calculate shipping (express: flat ₹150, standard: free from ₹500, else ₹50)
+  IF p_shipping_method = 'express' THEN
+    v_shipping := 150;
+  ELSIF v_subtotal >= 500 THEN
+    v_shipping := 0;
+  ELSE
+    v_shipping := 50;
+  END IF;
+
+  -- Re-validate the coupon against the stored cart
+  IF p_coupon_code IS NOT NULL AND TRIM(p_coupon_code) <> '' THEN
+    v_coupon := evaluate_coupon_for_user(p_user_id, p_coupon_code, v_cart_items);
+
+    IF NOT (v_coupon->>'valid')::boolean THEN
+      RAISE EXCEPTION 'Coupon not applied: %', v_coupon->>'message';
+    END IF;
+
+    v_discount := (v_coupon->>'discount')::DECIMAL;
+    IF (v_coupon->>'free_shipping')::boolean THEN
+      v_shipping := 0;
+    END IF;
+  END IF;
+
+  -- Calculate tax (10%) on the discounted subtotal
+  v_tax := ROUND((v_subtotal - v_discount) * 0.10, 2);
+
+  v_total := v_subtotal - v_discount + v_tax + v_shipping;
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+
+  -- Create order
+  INSERT INTO orders (
+    user_id,
+    order_number,
+    items,
+    subtotal,
+    discount,
+    tax,
+    shipping_cost,
+    total,
+    shipping_address,
+    billing_address,
+    payment_method,
+    shipping_method,
+    coupon_code,
+    customer_notes,
+    status,
+    payment_status
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    v_cart_items,
+    v_subtotal,
+    v_discount,
+    v_tax,
+    v_shipping,
+    v_total,
+    p_shipping_address,
+    p_billing_address,
+    p_payment_method,
+    p_shipping_method,
+    v_coupon->>'code',
+    p_customer_notes,
+    'pending',
+    'pending'
+  ) RETURNING id INTO v_order_id;
+
+  -- Record the redemption for per-user limits
+  IF v_coupon IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+    VALUES ((v_coupon->>'coupon_id')::UUID, p_user_id, v_order_id, v_discount);
+  END IF;
+
+  -- Clear user cart
+  DELETE FROM user_carts WHERE user_id = p_user_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 5. ROW LEVEL SECURITY (RLS) POLICIES
+-- Coupon definitions are admin-only; customers validate codes via evaluate_coupon
+-- ========================================
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Orders are only created through create_order_from_cart, which prices them server-side
+DROP POLICY IF EXISTS "Users can create own orders" ON orders;
+
+CREATE POLICY "Admins can manage coupons"
+  ON coupons FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Users can view own coupon redemptions"
+  ON coupon_redemptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all coupon redemptions"
+  ON coupon_redemptions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 6. SAMPLE PROMOTION
+-- ========================================
+INSERT INTO coupons (code, description, discount_type, discount_value, applicable_categories, usage_limit_per_user)
+VALUES ('FESTIVE20', '20% off Lehengas this festive season', 'percentage', 20, ARRAY['Lehengas'], 1)
+ON CONFLICT (code) DO NOTHING;
+
+-- ========================================
+-- 7. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON TABLE coupons IS 'Promotion codes managed from the admin panel';
+COMMENT ON TABLE coupon_redemptions IS 'Coupon usage per order, used for per-user limits';
+
+COMMENT ON FUNCTION product_sale_price IS 'Product price less its percentage discount, rounded to paise';
+COMMENT ON FUNCTION evaluate_coupon_for_user IS 'Validates a coupon for a user and cart items and computes the discount';
+COMMENT ON FUNCTION evaluate_coupon IS 'Coupon preview for the signed-in user';
+COMMENT ON FUNCTION create_order_from_cart IS 'Creates order from user cart items with shipping method pricing and server-side coupon validation';
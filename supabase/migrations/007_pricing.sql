@@ -0,0 +1,448 @@
+-- ========================================
+-- PRICING: GST, SHIPPING ZONES AND COD
+-- Admin-editable pricing settings and a single calculate_order_pricing
+-- function used for cart/checkout quotes and by create_order_from_cart
+-- ========================================
+
+-- ========================================
+-- 1. PRICING SETTINGS (single row)
+-- ========================================
+CREATE TABLE IF NOT EXISTS pricing_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  free_shipping_threshold DECIMAL(10, 2) NOT NULL DEFAULT 500 CHECK (free_shipping_threshold >= 0),
+  cod_surcharge DECIMAL(10, 2) NOT NULL DEFAULT 49 CHECK (cod_surcharge >= 0),
+  default_weight_grams INTEGER NOT NULL DEFAULT 500 CHECK (default_weight_grams > 0),
+  default_gst_rate DECIMAL(5, 2) NOT NULL DEFAULT 12 CHECK (default_gst_rate >= 0 AND default_gst_rate <= 100),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO pricing_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_pricing_settings_updated_at
+  BEFORE UPDATE ON pricing_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. SHIPPING ZONES
+-- A pincode belongs to the zone with the longest matching prefix,
+-- otherwise to the default zone. Rates cover base_weight_grams, then
+-- additional_rate is charged per extra 500g (or part of it).
+-- ========================================
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[a-z0-9_]+$'),
+  name TEXT NOT NULL,
+  pincode_prefixes TEXT[] NOT NULL DEFAULT '{}',
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  base_rate DECIMAL(10, 2) NOT NULL CHECK (base_rate >= 0),
+  base_weight_grams INTEGER NOT NULL DEFAULT 500 CHECK (base_weight_grams > 0),
+  additional_rate DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (additional_rate >= 0),
+  express_surcharge DECIMAL(10, 2) NOT NULL DEFAULT 100 CHECK (express_surcharge >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one default zone
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipping_zones_default ON shipping_zones(is_default) WHERE is_default;
+
+CREATE TRIGGER update_shipping_zones_updated_at
+  BEFORE UPDATE ON shipping_zones
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO shipping_zones (code, name, pincode_prefixes, is_default, base_rate, additional_rate, express_surcharge, sort_order)
+VALUES
+  ('metro', 'Metro Cities', ARRAY['110', '400', '560', '600', '700', '500'], FALSE, 50, 20, 100, 1),
+  ('rest_of_india', 'Rest of India', '{}', TRUE, 70, 30, 120, 2),
+  ('remote', 'North East, J&K and Islands', ARRAY['78', '79', '18', '19', '744', '682555'], FALSE, 120, 50, 180, 3)
+ON CONFLICT (code) DO NOTHING;
+
+-- ========================================
+-- 3. GST SLABS
+-- The slab for an item is the one with the smallest max_unit_price that
+-- covers its taxable unit price (NULL = no upper limit)
+-- ========================================
+CREATE TABLE IF NOT EXISTS gst_slabs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  category TEXT NOT NULL,
+  max_unit_price DECIMAL(10, 2) CHECK (max_unit_price > 0),
+  rate DECIMAL(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (category, max_unit_price)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gst_slabs_category ON gst_slabs(category);
+
+-- Apparel: 5% up to ₹1000 per piece, 12% above. Jewelry: 3%. Bags: 18%.
+INSERT INTO gst_slabs (category, max_unit_price, rate)
+SELECT category, slab.max_unit_price, slab.rate
+FROM unnest(ARRAY[
+  'Sarees', 'Lehengas', 'Salwar Suits', 'Kurtis & Kurtas', 'Gowns',
+  'Dupattas & Stoles', 'Men''s Kurtas', 'Sherwanis', 'Kids Wear'
+]) AS category
+CROSS JOIN (VALUES (1000::DECIMAL, 5::DECIMAL), (NULL::DECIMAL, 12::DECIMAL)) AS slab(max_unit_price, rate)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO gst_slabs (category, max_unit_price, rate)
+VALUES
+  ('Jewelry', NULL, 3),
+  ('Bags & Clutches', NULL, 18)
+ON CONFLICT DO NOTHING;
+
+-- ========================================
+-- 4. PRODUCT WEIGHT AND ORDER COLUMNS
+-- ========================================
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS weight_grams INTEGER CHECK (weight_grams > 0);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS cod_surcharge DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS shipping_zone TEXT;
+
+-- ========================================
+-- 5. ORDER PRICING
+-- p_items: [{ "id": product_id, "quantity": number }]
+-- Price, category and weight come from the products table, not client data;
+-- prices are after each product's own discount (product_sale_price, 006).
+-- The coupon discount is spread across items in proportion to their value
+-- before GST is applied; free shipping compares the discounted subtotal.
+-- items echoes p_items with each line's price, gst_rate and tax, which
+-- orders store so invoices show the tax that was charged.
+-- ========================================
+CREATE OR REPLACE FUNCTION calculate_order_pricing(
+  p_items JSONB,
+  p_pincode TEXT DEFAULT NULL,
+  p_shipping_method TEXT DEFAULT 'standard',
+  p_payment_method TEXT DEFAULT NULL,
+  p_discount DECIMAL DEFAULT 0,
+  p_free_shipping BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_settings pricing_settings%ROWTYPE;
+  v_zone shipping_zones%ROWTYPE;
+  v_pincode TEXT := NULLIF(REGEXP_REPLACE(COALESCE(p_pincode, ''), '\D', '', 'g'), '');
+  v_subtotal DECIMAL(10, 2);
+  v_discount DECIMAL(10, 2);
+  v_discount_ratio DECIMAL;
+  v_weight INTEGER;
+  v_tax DECIMAL(10, 2);
+  v_items JSONB;
+  v_standard_shipping DECIMAL(10, 2);
+  v_express_shipping DECIMAL(10, 2);
+  v_shipping DECIMAL(10, 2);
+  v_cod_surcharge DECIMAL(10, 2) := 0;
+BEGIN
+  IF p_shipping_method NOT IN ('standard', 'express') THEN
+    RAISE EXCEPTION 'Invalid shipping method: %', p_shipping_method;
+  END IF;
+
+  SELECT * INTO v_settings FROM pricing_settings WHERE id;
+
+  -- Zone: longest matching pincode prefix, else the default zone
+  SELECT zone.* INTO v_zone
+  FROM shipping_zones AS zone
+  LEFT JOIN LATERAL (
+    SELECT MAX(LENGTH(prefix)) AS match_length
+    FROM unnest(zone.pincode_prefixes) AS prefix
+    WHERE v_pincode LIKE prefix || '%'
+  ) AS match ON TRUE
+  WHERE match.match_length IS NOT NULL OR zone.is_default
+  ORDER BY match.match_length DESC NULLS LAST, zone.sort_order
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No shipping zone configured';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(product_sale_price(products.price, products.discount) * (item->>'quantity')::INTEGER), 0),
+    COALESCE(SUM(COALESCE(products.weight_grams, v_settings.default_weight_grams) * (item->>'quantity')::INTEGER), 0)
+  INTO v_subtotal, v_weight
+  FROM jsonb_array_elements(p_items) AS item
+  JOIN products ON products.id = (item->>'id')::BIGINT;
+
+  v_discount := LEAST(GREATEST(COALESCE(p_discount, 0), 0), v_subtotal);
+  v_discount_ratio := CASE WHEN v_subtotal > 0 THEN 1 - v_discount / v_subtotal ELSE 0 END;
+
+  -- GST per item on its discounted value, using the category slab for the discounted unit price
+  SELECT
+    COALESCE(SUM(line.tax), 0),
+    COALESCE(jsonb_agg(
+      line.item || jsonb_build_object('price', line.price, 'gst_rate', line.gst_rate, 'tax', line.tax)
+      ORDER BY line.ordinality
+    ), '[]'::jsonb)
+  INTO v_tax, v_items
+  FROM (
+    SELECT
+      item.ordinality,
+      item.value AS item,
+      product_sale_price(products.price, products.discount) AS price,
+      COALESCE(slab.rate, v_settings.default_gst_rate) AS gst_rate,
+      ROUND(
+        product_sale_price(products.price, products.discount) * v_discount_ratio * (item.value->>'quantity')::INTEGER
+        * COALESCE(slab.rate, v_settings.default_gst_rate) / 100,
+        2
+      ) AS tax
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item
+    JOIN products ON products.id = (item.value->>'id')::BIGINT
+    LEFT JOIN LATERAL (
+      SELECT gst_slabs.rate
+      FROM gst_slabs
+      WHERE gst_slabs.category = products.category
+      AND (gst_slabs.max_unit_price IS NULL
+        OR gst_slabs.max_unit_price >= product_sale_price(products.price, products.discount) * v_discount_ratio)
+      ORDER BY gst_slabs.max_unit_price ASC NULLS LAST
+      LIMIT 1
+    ) AS slab ON TRUE
+  ) AS line;
+
+  -- Shipping by zone and weight; standard is free above the threshold
+  v_standard_shipping := v_zone.base_rate
+    + CEIL(GREATEST(v_weight - v_zone.base_weight_grams, 0) / 500.0) * v_zone.additional_rate;
+
+  IF p_free_shipping THEN
+    v_standard_shipping := 0;
+    v_express_shipping := 0;
+  ELSE
+    v_express_shipping := v_standard_shipping + v_zone.express_surcharge;
+    IF v_subtotal - v_discount >= v_settings.free_shipping_threshold THEN
+      v_standard_shipping := 0;
+    END IF;
+  END IF;
+
+  v_shipping := CASE WHEN p_shipping_method = 'express' THEN v_express_shipping ELSE v_standard_shipping END;
+
+  IF p_payment_method = 'cod' THEN
+    v_cod_surcharge := v_settings.cod_surcharge;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discount', v_discount,
+    'shipping', v_shipping,
+    'cod_surcharge', v_cod_surcharge,
+    'tax', v_tax,
+    'items', v_items,
+    'total', v_subtotal - v_discount + v_shipping + v_cod_surcharge + v_tax,
+    'shipping_zone', v_zone.code,
+    'shipping_zone_name', v_zone.name,
+    'weight_grams', v_weight,
+    'shipping_options', jsonb_build_object('standard', v_standard_shipping, 'express', v_express_shipping),
+    'free_shipping_threshold', v_settings.free_shipping_threshold,
+    'cod_surcharge_amount', v_settings.cod_surcharge
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ========================================
+-- 6. CREATE ORDER FROM CART (with configurable pricing)
+-- Same signature as 006; totals now come from calculate_order_pricing
+-- ========================================
+CREATE OR REPLACE FUNCTION create_order_from_cart(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method TEXT,
+  p_customer_notes TEXT DEFAULT NULL,
+  p_shipping_method TEXT DEFAULT 'standard',
+  p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_cart_items JSONB;
+  v_coupon JSONB;
+  v_pricing JSONB;
+BEGIN
+  IF p_shipping_method NOT IN ('standard', 'express') THEN
+    RAISE EXCEPTION 'Invalid shipping method: %', p_shipping_method;
+  END IF;
+
+  -- The function runs as its owner, so it may only order the caller's own cart
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not authorized to create this order';
+  END IF;
+
+  -- Get cart items, priced from the products table rather than the client-written cart
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', user_carts.product_id,
+        'name', user_carts.product_name,
+        'price', product_sale_price(products.price, products.discount),
+        'quantity', user_carts.quantity,
+        'size', user_carts.size,
+        'color', user_carts.color,
+        'image', user_carts.product_image
+      )
+    ),
+    '[]'::jsonb
+  ) INTO v_cart_items
+  FROM user_carts
+  JOIN products ON products.id = user_carts.product_id
+  WHERE user_carts.user_id = p_user_id;
+
+  -- Check if cart is empty
+  IF jsonb_array_length(v_cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF jsonb_array_length(v_cart_items) < (SELECT COUNT(*) FROM user_carts WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Some products in your cart are no longer available';
+  END IF;
+
+  -- Re-validate the coupon against the stored cart
+  IF p_coupon_code IS NOT NULL AND TRIM(p_coupon_code) <> '' THEN
+    v_coupon := evaluate_coupon_for_user(p_user_id, p_coupon_code, v_cart_items);
+
+    IF NOT (v_coupon->>'valid')::boolean THEN
+      RAISE EXCEPTION 'Coupon not applied: %', v_coupon->>'message';
+    END IF;
+  END IF;
+
+  v_pricing := calculate_order_pricing(
+    v_cart_items,
+    p_shipping_address->>'postal_code',
+    p_shipping_method,
+    p_payment_method,
+    COALESCE((v_coupon->>'discount')::DECIMAL, 0),
+    COALESCE((v_coupon->>'free_shipping')::boolean, FALSE)
+  );
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+
+  -- Create order
+  INSERT INTO orders (
+    user_id,
+    order_number,
+    items,
+    subtotal,
+    discount,
+    tax,
+    shipping_cost,
+    cod_surcharge,
+    total,
+    shipping_address,
+    billing_address,
+    payment_method,
+    shipping_method,
+    shipping_zone,
+    coupon_code,
+    customer_notes,
+    status,
+    payment_status
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    v_pricing->'items',
+    (v_pricing->>'subtotal')::DECIMAL,
+    (v_pricing->>'discount')::DECIMAL,
+    (v_pricing->>'tax')::DECIMAL,
+    (v_pricing->>'shipping')::DECIMAL,
+    (v_pricing->>'cod_surcharge')::DECIMAL,
+    (v_pricing->>'total')::DECIMAL,
+    p_shipping_address,
+    p_billing_address,
+    p_payment_method,
+    p_shipping_method,
+    v_pricing->>'shipping_zone',
+    v_coupon->>'code',
+    p_customer_notes,
+    'pending',
+    'pending'
+  ) RETURNING id INTO v_order_id;
+
+  -- Record the redemption for per-user limits
+  IF v_coupon IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+    VALUES ((v_coupon->>'coupon_id')::UUID, p_user_id, v_order_id, (v_pricing->>'discount')::DECIMAL);
+  END IF;
+
+  -- Held stock becomes sold stock in the same transaction (commit_order_stock, 008)
+  PERFORM commit_order_stock(v_order_id);
+
+  -- Clear user cart
+  DELETE FROM user_carts WHERE user_id = p_user_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 7. ROW LEVEL SECURITY (RLS) POLICIES
+-- Pricing configuration is public (shown in cart); admins edit it
+-- ========================================
+ALTER TABLE pricing_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gst_slabs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing settings"
+  ON pricing_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update pricing settings"
+  ON pricing_settings FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Anyone can view shipping zones"
+  ON shipping_zones FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage shipping zones"
+  ON shipping_zones FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Anyone can view GST slabs"
+  ON gst_slabs FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage GST slabs"
+  ON gst_slabs FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 8. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON TABLE pricing_settings IS 'Single-row store pricing configuration (free shipping, COD, defaults)';
+COMMENT ON TABLE shipping_zones IS 'Shipping rates by pincode prefix and parcel weight';
+COMMENT ON TABLE gst_slabs IS 'GST rate per product category and unit price slab';
+COMMENT ON COLUMN products.weight_grams IS 'Shipping weight; pricing_settings.default_weight_grams when null';
+
+COMMENT ON FUNCTION calculate_order_pricing IS 'Computes subtotal, discount, shipping, COD surcharge, GST and total for cart items';
+COMMENT ON FUNCTION create_order_from_cart IS 'Creates order from user cart items with zone/weight shipping, GST, COD surcharge and server-side coupon validation';
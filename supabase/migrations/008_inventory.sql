@@ -0,0 +1,969 @@
+-- ========================================
+-- INVENTORY SCHEMA
+-- Shared inventory replacing the per-browser localStorage store: items,
+-- size × color variants, an append-only stock movement ledger, alerts and
+-- cart stock holds. Stock levels only change by recording a movement, so
+-- the ledger can reconstruct any variant's stock at any point in time.
+-- ========================================
+
+-- ========================================
+-- 1. INVENTORY ITEMS (one per product)
+-- ========================================
+CREATE TABLE IF NOT EXISTS inventory_items (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  product_id BIGINT NOT NULL UNIQUE REFERENCES products(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  subcategory TEXT NOT NULL DEFAULT '',
+  minimum_stock INTEGER NOT NULL DEFAULT 5 CHECK (minimum_stock >= 0),
+  maximum_stock INTEGER NOT NULL DEFAULT 100 CHECK (maximum_stock >= 0),
+  reorder_point INTEGER NOT NULL DEFAULT 8 CHECK (reorder_point >= 0),
+  reorder_quantity INTEGER NOT NULL DEFAULT 20 CHECK (reorder_quantity >= 0),
+  cost_price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (cost_price >= 0),
+  selling_price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (selling_price >= 0),
+  warehouse TEXT NOT NULL DEFAULT 'Main Warehouse',
+  shelf TEXT NOT NULL DEFAULT 'A1',
+  bin TEXT NOT NULL DEFAULT 'B1',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive', 'discontinued')),
+  last_restocked TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_sold TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  total_sold INTEGER NOT NULL DEFAULT 0,
+  total_revenue DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  average_monthly_sales DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  turnover_rate DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_by TEXT NOT NULL DEFAULT 'admin',
+  notes TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_category ON inventory_items(category);
+
+CREATE TRIGGER update_inventory_items_updated_at
+  BEFORE UPDATE ON inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. INVENTORY VARIANTS (stock per size × color)
+-- Empty size and color = stock shared by every combination
+-- ========================================
+CREATE TABLE IF NOT EXISTS inventory_variants (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  item_id TEXT NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  size TEXT NOT NULL DEFAULT '',
+  color TEXT NOT NULL DEFAULT '',
+  sku TEXT NOT NULL,
+  current_stock INTEGER NOT NULL DEFAULT 0 CHECK (current_stock >= 0),
+  reserved_stock INTEGER NOT NULL DEFAULT 0 CHECK (reserved_stock >= 0),
+  available_stock INTEGER GENERATED ALWAYS AS (current_stock - reserved_stock) STORED,
+  minimum_stock INTEGER NOT NULL DEFAULT 0 CHECK (minimum_stock >= 0),
+  reorder_point INTEGER NOT NULL DEFAULT 0 CHECK (reorder_point >= 0),
+  reorder_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reorder_quantity >= 0),
+  shelf TEXT NOT NULL DEFAULT 'A1',
+  bin TEXT NOT NULL DEFAULT 'B1',
+  last_restocked TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_sold TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  total_sold INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(item_id, size, color)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_variants_product_id ON inventory_variants(product_id);
+
+CREATE TRIGGER update_inventory_variants_updated_at
+  BEFORE UPDATE ON inventory_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Stock levels may only be written by record_stock_movement, which sets
+-- inventory.ledger_write for the duration of its update
+CREATE OR REPLACE FUNCTION guard_variant_stock_level()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('inventory.ledger_write', true), '') <> 'on' THEN
+    IF TG_OP = 'INSERT' AND NEW.current_stock <> 0 THEN
+      RAISE EXCEPTION 'New variants start with no stock; record opening stock as a movement';
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.current_stock <> OLD.current_stock THEN
+      RAISE EXCEPTION 'Stock levels can only change through stock movements';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_inventory_variant_stock
+  BEFORE INSERT OR UPDATE ON inventory_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_variant_stock_level();
+
+-- ========================================
+-- 3. STOCK MOVEMENT LEDGER (append-only)
+-- No foreign key on variant_id: the ledger outlives deleted variants
+-- ========================================
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id BIGINT NOT NULL,
+  variant_id TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('in', 'out', 'adjustment', 'transfer')),
+  quantity INTEGER NOT NULL CHECK (quantity >= 0), -- units moved; the counted level for adjustments
+  quantity_change INTEGER NOT NULL, -- signed change to on-hand stock
+  stock_after INTEGER NOT NULL CHECK (stock_after >= 0),
+  reason TEXT NOT NULL,
+  reference TEXT NOT NULL DEFAULT '', -- order number, PO number, etc.
+  location TEXT NOT NULL DEFAULT '',
+  performed_by TEXT NOT NULL DEFAULT 'admin',
+  performed_by_user UUID DEFAULT auth.uid(),
+  notes TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_variant_created ON stock_movements(variant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_created_at ON stock_movements(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference);
+
+CREATE OR REPLACE FUNCTION prevent_stock_movement_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Stock movements are an append-only ledger; record a correcting movement instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stock_movements_immutable
+  BEFORE UPDATE OR DELETE ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_stock_movement_changes();
+
+CREATE TRIGGER stock_movements_no_truncate
+  BEFORE TRUNCATE ON stock_movements
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_stock_movement_changes();
+
+-- ========================================
+-- 4. INVENTORY ALERTS
+-- ========================================
+CREATE TABLE IF NOT EXISTS inventory_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id TEXT REFERENCES inventory_variants(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('low_stock', 'out_of_stock', 'overstock', 'reorder', 'expiry')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  message TEXT NOT NULL,
+  current_value INTEGER NOT NULL,
+  threshold_value INTEGER NOT NULL,
+  acknowledged BOOLEAN NOT NULL DEFAULT false,
+  acknowledged_by TEXT,
+  acknowledged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_alerts_product_id ON inventory_alerts(product_id);
+
+-- ========================================
+-- 5. CART STOCK HOLDS
+-- cart_id is the user id, or a random per-browser id for guest carts
+-- ========================================
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_id TEXT NOT NULL,
+  product_id BIGINT NOT NULL,
+  variant_id TEXT NOT NULL REFERENCES inventory_variants(id) ON DELETE CASCADE,
+  size TEXT NOT NULL DEFAULT '',
+  color TEXT NOT NULL DEFAULT '',
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE(cart_id, product_id, size, color)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_expires_at ON stock_reservations(expires_at);
+
+-- Hold lengths are set here, not by the browser; a line is never held
+-- longer than max_hold_minutes after it was first added
+CREATE TABLE IF NOT EXISTS cart_hold_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  cart_hold_minutes INTEGER NOT NULL DEFAULT 30 CHECK (cart_hold_minutes BETWEEN 1 AND 240),
+  checkout_hold_minutes INTEGER NOT NULL DEFAULT 15 CHECK (checkout_hold_minutes BETWEEN 1 AND 60),
+  max_hold_minutes INTEGER NOT NULL DEFAULT 120 CHECK (max_hold_minutes BETWEEN 1 AND 1440),
+  -- Hold changes one guest client address may make per minute
+  guest_requests_per_minute INTEGER NOT NULL DEFAULT 30 CHECK (guest_requests_per_minute > 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO cart_hold_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_cart_hold_settings_updated_at
+  BEFORE UPDATE ON cart_hold_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Anonymous requests per client address and minute, for rate limiting
+CREATE TABLE IF NOT EXISTS guest_request_counts (
+  client TEXT NOT NULL,
+  action TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  requests INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (client, action, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_request_counts_window_start ON guest_request_counts(window_start);
+
+-- ========================================
+-- 6. ALERTS
+-- Mirrors the previous client rules: low/out-of-stock and reorder alerts
+-- per variant, overstock per item
+-- ========================================
+CREATE OR REPLACE FUNCTION refresh_inventory_alerts(p_item_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_item inventory_items;
+  v_variant_count INTEGER;
+  v_total_stock INTEGER;
+BEGIN
+  SELECT * INTO v_item FROM inventory_items WHERE id = p_item_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM inventory_alerts WHERE product_id = v_item.product_id;
+
+  SELECT COUNT(*), COALESCE(SUM(current_stock), 0)
+  INTO v_variant_count, v_total_stock
+  FROM inventory_variants
+  WHERE item_id = p_item_id;
+
+  INSERT INTO inventory_alerts (product_id, variant_id, sku, type, severity, message, current_value, threshold_value)
+  SELECT
+    v.product_id,
+    v.id,
+    v.sku,
+    CASE WHEN v.current_stock = 0 THEN 'out_of_stock' ELSE 'low_stock' END,
+    CASE WHEN v.current_stock = 0 THEN 'critical' ELSE 'high' END,
+    CASE
+      WHEN v.current_stock = 0 THEN format('%s is out of stock!', label.name)
+      ELSE format('%s is running low (%s remaining)', label.name, v.current_stock)
+    END,
+    v.current_stock,
+    v.minimum_stock
+  FROM inventory_variants v
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN v_variant_count > 1 THEN format('%s (%s)', v_item.name,
+        COALESCE(NULLIF(concat_ws(' / ', NULLIF(v.size, ''), NULLIF(v.color, '')), ''), 'All sizes & colors'))
+      ELSE v_item.name
+    END AS name
+  ) label
+  WHERE v.item_id = p_item_id
+  AND v.current_stock <= v.minimum_stock;
+
+  INSERT INTO inventory_alerts (product_id, variant_id, sku, type, severity, message, current_value, threshold_value)
+  SELECT
+    v.product_id,
+    v.id,
+    v.sku,
+    'reorder',
+    'medium',
+    format('%s has reached reorder point (%s units)', label.name, v.current_stock),
+    v.current_stock,
+    v.reorder_point
+  FROM inventory_variants v
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN v_variant_count > 1 THEN format('%s (%s)', v_item.name,
+        COALESCE(NULLIF(concat_ws(' / ', NULLIF(v.size, ''), NULLIF(v.color, '')), ''), 'All sizes & colors'))
+      ELSE v_item.name
+    END AS name
+  ) label
+  WHERE v.item_id = p_item_id
+  AND v.current_stock <= v.reorder_point
+  AND v.current_stock > v.minimum_stock;
+
+  IF v_total_stock > v_item.maximum_stock THEN
+    INSERT INTO inventory_alerts (product_id, sku, type, severity, message, current_value, threshold_value)
+    VALUES (
+      v_item.product_id,
+      v_item.sku,
+      'overstock',
+      'medium',
+      format('%s is overstocked (%s units)', v_item.name, v_total_stock),
+      v_total_stock,
+      v_item.maximum_stock
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Re-evaluate alerts whenever stock or thresholds change
+CREATE OR REPLACE FUNCTION refresh_inventory_alerts_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'inventory_items' THEN
+    PERFORM refresh_inventory_alerts(NEW.id);
+  ELSE
+    PERFORM refresh_inventory_alerts(NEW.item_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_alerts_on_variant_change
+  AFTER INSERT OR UPDATE OF current_stock, minimum_stock, reorder_point ON inventory_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_inventory_alerts_trigger();
+
+CREATE TRIGGER refresh_alerts_on_item_change
+  AFTER UPDATE OF name, maximum_stock ON inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_inventory_alerts_trigger();
+
+-- ========================================
+-- 7. STOCK MOVEMENTS
+-- record_stock_movement locks the variant, writes the new level and the
+-- ledger entry in one transaction; adjust_variant_stock is its admin entry point
+-- ========================================
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_variant_id TEXT,
+  p_type TEXT,
+  p_quantity INTEGER,
+  p_reason TEXT,
+  p_reference TEXT DEFAULT '',
+  p_performed_by TEXT DEFAULT 'admin',
+  p_notes TEXT DEFAULT ''
+)
+RETURNS stock_movements AS $$
+DECLARE
+  v_variant inventory_variants;
+  v_item inventory_items;
+  v_new_stock INTEGER;
+  v_sold INTEGER;
+  v_movement stock_movements;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity < 0 THEN
+    RAISE EXCEPTION 'Movement quantity must be zero or more';
+  END IF;
+
+  SELECT * INTO v_variant FROM inventory_variants WHERE id = p_variant_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory variant not found: %', p_variant_id;
+  END IF;
+
+  SELECT * INTO v_item FROM inventory_items WHERE id = v_variant.item_id FOR UPDATE;
+
+  -- An out movement never takes more than is on hand, so the ledger and restocks stay exact
+  IF p_type = 'out' AND p_quantity > v_variant.current_stock THEN
+    RAISE EXCEPTION 'Only % of % in stock, cannot remove %', v_variant.current_stock, v_variant.sku, p_quantity;
+  END IF;
+
+  v_new_stock := CASE p_type
+    WHEN 'in' THEN v_variant.current_stock + p_quantity
+    WHEN 'out' THEN v_variant.current_stock - p_quantity
+    WHEN 'adjustment' THEN p_quantity
+  END;
+
+  IF v_new_stock IS NULL THEN
+    RAISE EXCEPTION 'Invalid movement type: %', p_type;
+  END IF;
+
+  v_sold := CASE WHEN p_type = 'out' THEN p_quantity ELSE 0 END;
+
+  PERFORM set_config('inventory.ledger_write', 'on', true);
+
+  UPDATE inventory_variants SET
+    current_stock = v_new_stock,
+    last_restocked = CASE WHEN p_type = 'in' THEN NOW() ELSE last_restocked END,
+    last_sold = CASE WHEN p_type = 'out' THEN NOW() ELSE last_sold END,
+    total_sold = total_sold + v_sold
+  WHERE id = p_variant_id;
+
+  PERFORM set_config('inventory.ledger_write', 'off', true);
+
+  UPDATE inventory_items SET
+    last_restocked = CASE WHEN p_type = 'in' THEN NOW() ELSE last_restocked END,
+    last_sold = CASE WHEN p_type = 'out' THEN NOW() ELSE last_sold END,
+    total_sold = total_sold + v_sold,
+    total_revenue = total_revenue + v_sold * selling_price
+  WHERE id = v_item.id;
+
+  INSERT INTO stock_movements (
+    product_id,
+    variant_id,
+    sku,
+    type,
+    quantity,
+    quantity_change,
+    stock_after,
+    reason,
+    reference,
+    location,
+    performed_by,
+    notes
+  ) VALUES (
+    v_variant.product_id,
+    v_variant.id,
+    v_variant.sku,
+    p_type,
+    p_quantity,
+    v_new_stock - v_variant.current_stock,
+    v_new_stock,
+    p_reason,
+    COALESCE(p_reference, ''),
+    format('%s / %s-%s', v_item.warehouse, v_variant.shelf, v_variant.bin),
+    COALESCE(p_performed_by, 'admin'),
+    COALESCE(p_notes, '')
+  ) RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION adjust_variant_stock(
+  p_variant_id TEXT,
+  p_type TEXT,
+  p_quantity INTEGER,
+  p_reason TEXT,
+  p_reference TEXT DEFAULT '',
+  p_performed_by TEXT DEFAULT 'admin',
+  p_notes TEXT DEFAULT ''
+)
+RETURNS stock_movements AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change stock levels';
+  END IF;
+
+  RETURN record_stock_movement(p_variant_id, p_type, p_quantity, p_reason, p_reference, p_performed_by, p_notes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Variant holding stock for a size and color: exact match, else the shared variant
+CREATE OR REPLACE FUNCTION find_inventory_variant(p_product_id BIGINT, p_size TEXT, p_color TEXT)
+RETURNS TEXT AS $$
+  SELECT id
+  FROM inventory_variants
+  WHERE product_id = p_product_id
+  AND (
+    (size = COALESCE(p_size, '') AND color = COALESCE(p_color, ''))
+    OR (size = '' AND color = '')
+  )
+  ORDER BY (size = COALESCE(p_size, '') AND color = COALESCE(p_color, '')) DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- ========================================
+-- 8. POINT-IN-TIME STOCK
+-- Each variant's level after its last movement at or before p_at
+-- ========================================
+CREATE OR REPLACE FUNCTION get_stock_at(p_at TIMESTAMPTZ)
+RETURNS TABLE (variant_id TEXT, product_id BIGINT, sku TEXT, stock INTEGER, last_movement_at TIMESTAMPTZ) AS $$
+  SELECT DISTINCT ON (m.variant_id)
+    m.variant_id,
+    m.product_id,
+    m.sku,
+    m.stock_after,
+    m.created_at
+  FROM stock_movements m
+  WHERE m.created_at <= p_at
+  ORDER BY m.variant_id, m.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- ========================================
+-- 9. CART STOCK HOLDS
+-- Signed-in carts are always keyed by auth.uid(); p_cart_id is only used for guests
+-- ========================================
+
+-- Guest cart ids are unguessable UUIDs; anything else is rejected
+CREATE OR REPLACE FUNCTION assert_guest_session_id(p_session_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_session_id IS NULL OR p_session_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RAISE EXCEPTION 'Invalid guest session';
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Count an anonymous request against its client address (first X-Forwarded-For hop)
+-- and raise once it passes p_limit requests for p_action in the current minute
+CREATE OR REPLACE FUNCTION assert_guest_rate_limit(p_action TEXT, p_limit INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_client TEXT := COALESCE(
+    NULLIF(TRIM(split_part(NULLIF(current_setting('request.headers', true), '')::json->>'x-forwarded-for', ',', 1)), ''),
+    'unknown'
+  );
+  v_window TIMESTAMPTZ := date_trunc('minute', NOW());
+  v_requests INTEGER;
+BEGIN
+  DELETE FROM guest_request_counts WHERE window_start < v_window - INTERVAL '1 hour';
+
+  INSERT INTO guest_request_counts (client, action, window_start, requests)
+  VALUES (v_client, p_action, v_window, 1)
+  ON CONFLICT (client, action, window_start)
+  DO UPDATE SET requests = guest_request_counts.requests + 1
+  RETURNING requests INTO v_requests;
+
+  IF v_requests > p_limit THEN
+    RAISE EXCEPTION 'Too many requests, please try again in a minute';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Guests must use a valid cart id and stay within the hold rate limit
+CREATE OR REPLACE FUNCTION assert_guest_cart_request(p_cart_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM assert_guest_session_id(p_cart_id);
+  PERFORM assert_guest_rate_limit('cart_hold', (SELECT guest_requests_per_minute FROM cart_hold_settings WHERE id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION release_cart_holds(p_cart_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  WITH released AS (
+    DELETE FROM stock_reservations
+    WHERE cart_id = p_cart_id
+    RETURNING variant_id, quantity
+  )
+  UPDATE inventory_variants v
+  SET reserved_stock = GREATEST(v.reserved_stock - r.quantity, 0)
+  FROM (SELECT variant_id, SUM(quantity) AS quantity FROM released GROUP BY variant_id) r
+  WHERE v.id = r.variant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION release_expired_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+  v_released INTEGER;
+BEGIN
+  WITH expired AS (
+    DELETE FROM stock_reservations
+    WHERE expires_at <= NOW()
+    RETURNING variant_id, quantity
+  ),
+  released AS (
+    UPDATE inventory_variants v
+    SET reserved_stock = GREATEST(v.reserved_stock - e.quantity, 0)
+    FROM (SELECT variant_id, SUM(quantity) AS quantity FROM expired GROUP BY variant_id) e
+    WHERE v.id = e.variant_id
+    RETURNING v.id
+  )
+  SELECT COUNT(*) INTO v_released FROM expired;
+
+  RETURN v_released;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Hold p_quantity units of a cart line, replacing any existing hold on it (0 releases)
+-- Returns false when the variant doesn't have enough available stock
+CREATE OR REPLACE FUNCTION reserve_cart_item(
+  p_cart_id TEXT,
+  p_product_id BIGINT,
+  p_size TEXT,
+  p_color TEXT,
+  p_quantity INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_cart_id TEXT := COALESCE(auth.uid()::text, p_cart_id);
+  v_settings cart_hold_settings;
+  v_existing stock_reservations;
+  v_variant_id TEXT;
+  v_available INTEGER;
+BEGIN
+  PERFORM assert_guest_cart_request(p_cart_id);
+
+  SELECT * INTO v_settings FROM cart_hold_settings WHERE id;
+
+  PERFORM release_expired_reservations();
+
+  SELECT * INTO v_existing
+  FROM stock_reservations
+  WHERE cart_id = v_cart_id
+  AND product_id = p_product_id
+  AND size = COALESCE(p_size, '')
+  AND color = COALESCE(p_color, '')
+  FOR UPDATE;
+
+  -- Products without inventory tracking are not held
+  IF p_quantity > 0 AND EXISTS (SELECT 1 FROM inventory_items WHERE product_id = p_product_id) THEN
+    v_variant_id := find_inventory_variant(p_product_id, p_size, p_color);
+    IF v_variant_id IS NULL THEN
+      RETURN FALSE;
+    END IF;
+
+    SELECT available_stock INTO v_available FROM inventory_variants WHERE id = v_variant_id FOR UPDATE;
+
+    -- The line's current hold counts towards what it may keep
+    IF v_existing.variant_id = v_variant_id THEN
+      v_available := v_available + v_existing.quantity;
+    END IF;
+
+    IF v_available < p_quantity THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  IF v_existing.id IS NOT NULL THEN
+    UPDATE inventory_variants
+    SET reserved_stock = GREATEST(reserved_stock - v_existing.quantity, 0)
+    WHERE id = v_existing.variant_id;
+
+    DELETE FROM stock_reservations WHERE id = v_existing.id;
+  END IF;
+
+  IF v_variant_id IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  UPDATE inventory_variants
+  SET reserved_stock = reserved_stock + p_quantity
+  WHERE id = v_variant_id;
+
+  INSERT INTO stock_reservations (cart_id, product_id, variant_id, size, color, quantity, created_at, expires_at)
+  VALUES (
+    v_cart_id,
+    p_product_id,
+    v_variant_id,
+    COALESCE(p_size, ''),
+    COALESCE(p_color, ''),
+    p_quantity,
+    COALESCE(v_existing.created_at, NOW()),
+    LEAST(
+      NOW() + make_interval(mins => v_settings.cart_hold_minutes),
+      COALESCE(v_existing.created_at, NOW()) + make_interval(mins => v_settings.max_hold_minutes)
+    )
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION release_cart_reservations(p_cart_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM assert_guest_cart_request(p_cart_id);
+  PERFORM release_cart_holds(COALESCE(auth.uid()::text, p_cart_id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep a cart's holds for the checkout window, within each line's maximum hold
+CREATE OR REPLACE FUNCTION extend_cart_reservations(p_cart_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_settings cart_hold_settings;
+BEGIN
+  PERFORM assert_guest_cart_request(p_cart_id);
+
+  SELECT * INTO v_settings FROM cart_hold_settings WHERE id;
+
+  UPDATE stock_reservations
+  SET expires_at = GREATEST(
+    expires_at,
+    LEAST(
+      NOW() + make_interval(mins => v_settings.checkout_hold_minutes),
+      created_at + make_interval(mins => v_settings.max_hold_minutes)
+    )
+  )
+  WHERE cart_id = COALESCE(auth.uid()::text, p_cart_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move a guest cart's holds to the signed-in user's cart, merging shared lines
+CREATE OR REPLACE FUNCTION transfer_cart_reservations(p_guest_cart_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_user_cart_id TEXT := auth.uid()::text;
+BEGIN
+  IF v_user_cart_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to transfer cart holds';
+  END IF;
+
+  PERFORM assert_guest_session_id(p_guest_cart_id);
+
+  UPDATE stock_reservations u
+  SET
+    quantity = u.quantity + g.quantity,
+    expires_at = GREATEST(u.expires_at, g.expires_at)
+  FROM stock_reservations g
+  WHERE g.cart_id = p_guest_cart_id
+  AND u.cart_id = v_user_cart_id
+  AND u.product_id = g.product_id
+  AND u.size = g.size
+  AND u.color = g.color;
+
+  DELETE FROM stock_reservations g
+  WHERE g.cart_id = p_guest_cart_id
+  AND EXISTS (
+    SELECT 1 FROM stock_reservations u
+    WHERE u.cart_id = v_user_cart_id
+    AND u.product_id = g.product_id
+    AND u.size = g.size
+    AND u.color = g.color
+  );
+
+  UPDATE stock_reservations
+  SET cart_id = v_user_cart_id
+  WHERE cart_id = p_guest_cart_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 10. ORDER STOCK
+-- ========================================
+
+-- Turn an order's cart holds into sales; safe to call more than once
+CREATE OR REPLACE FUNCTION commit_order_stock(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order orders;
+  v_line JSONB;
+  v_variant_id TEXT;
+  v_recorded INTEGER := 0;
+BEGIN
+  -- Locked so concurrent calls queue behind the ledger check below
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.user_id IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to update stock for this order';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM stock_movements WHERE type = 'out' AND reference = v_order.order_number) THEN
+    RETURN 0;
+  END IF;
+
+  -- Every ordered line is sold whether or not its hold survived; lines removed before ordering are released
+  PERFORM release_cart_holds(v_order.user_id::text);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_order.items) LOOP
+    v_variant_id := find_inventory_variant((v_line->>'id')::BIGINT, v_line->>'size', v_line->>'color');
+    CONTINUE WHEN v_variant_id IS NULL;
+
+    PERFORM record_stock_movement(
+      v_variant_id,
+      'out',
+      (v_line->>'quantity')::INTEGER,
+      'Sale',
+      v_order.order_number,
+      'customer',
+      'Order ' || v_order.order_number
+    );
+    v_recorded := v_recorded + 1;
+  END LOOP;
+
+  RETURN v_recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Return a cancelled or refunded order's sold units to stock; safe to call more than once
+CREATE OR REPLACE FUNCTION restock_order(p_order_id UUID, p_reason TEXT, p_performed_by TEXT DEFAULT 'admin')
+RETURNS INTEGER AS $$
+DECLARE
+  v_order orders;
+  v_sale stock_movements;
+  v_restocked INTEGER := 0;
+BEGIN
+  -- Locked so concurrent calls queue behind the ledger check below
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.user_id IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to update stock for this order';
+  END IF;
+
+  IF v_order.status NOT IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Only cancelled or refunded orders can be restocked';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM stock_movements WHERE type = 'in' AND reference = v_order.order_number) THEN
+    RETURN 0;
+  END IF;
+
+  -- Restock exactly what was sold, so orders placed before the ledger add nothing
+  FOR v_sale IN
+    SELECT m.* FROM stock_movements m
+    JOIN inventory_variants v ON v.id = m.variant_id
+    WHERE m.type = 'out' AND m.reference = v_order.order_number
+  LOOP
+    PERFORM record_stock_movement(
+      v_sale.variant_id,
+      'in',
+      v_sale.quantity,
+      p_reason,
+      v_order.order_number,
+      p_performed_by,
+      'Order ' || v_order.order_number
+    );
+    v_restocked := v_restocked + 1;
+  END LOOP;
+
+  RETURN v_restocked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal building blocks are only callable from the functions above
+REVOKE EXECUTE ON FUNCTION record_stock_movement(TEXT, TEXT, INTEGER, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_cart_holds(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_inventory_alerts(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION assert_guest_rate_limit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ========================================
+-- 11. ROW LEVEL SECURITY (RLS) POLICIES
+-- Items and variants are public so product pages can show availability
+-- ========================================
+ALTER TABLE inventory_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cart_hold_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE guest_request_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view inventory items"
+  ON inventory_items FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage inventory items"
+  ON inventory_items FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Anyone can view inventory variants"
+  ON inventory_variants FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage inventory variants"
+  ON inventory_variants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- Movements are written only by the ledger functions
+CREATE POLICY "Admins can view stock movements"
+  ON stock_movements FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can manage inventory alerts"
+  ON inventory_alerts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can view stock reservations"
+  ON stock_reservations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Anyone can view cart hold settings"
+  ON cart_hold_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update cart hold settings"
+  ON cart_hold_settings FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- guest_request_counts has no policies: only the rate limit function writes it
+
+-- ========================================
+-- 12. REALTIME
+-- ========================================
+ALTER PUBLICATION supabase_realtime ADD TABLE inventory_items, inventory_variants, stock_movements, inventory_alerts;
+
+-- ========================================
+-- 13. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON TABLE inventory_items IS 'Inventory record per product; stock totals are the sum of its variants';
+COMMENT ON TABLE inventory_variants IS 'Stock per size × color; current_stock only changes through record_stock_movement';
+COMMENT ON TABLE stock_movements IS 'Append-only stock ledger; stock_after is the variant level after each movement';
+COMMENT ON TABLE inventory_alerts IS 'Low stock, reorder and overstock alerts kept in sync by triggers';
+COMMENT ON TABLE stock_reservations IS 'Time-limited cart holds counted in inventory_variants.reserved_stock';
+COMMENT ON TABLE cart_hold_settings IS 'Single-row cart and checkout hold lengths and the guest hold rate limit';
+COMMENT ON TABLE guest_request_counts IS 'Anonymous requests per client address and minute, used by assert_guest_rate_limit';
+
+COMMENT ON FUNCTION adjust_variant_stock IS 'Admin stock change: updates the level and records the movement atomically';
+COMMENT ON FUNCTION get_stock_at IS 'Reconstructs every variant''s stock level at a point in time from the ledger';
+COMMENT ON FUNCTION reserve_cart_item IS 'Holds stock for a cart line for cart_hold_settings.cart_hold_minutes, replacing the line''s previous hold';
+COMMENT ON FUNCTION release_expired_reservations IS 'Returns expired cart holds to available stock; safe to run on a schedule';
+COMMENT ON FUNCTION commit_order_stock IS 'Records sale movements for a placed order and clears its cart holds; called when the order is created';
+COMMENT ON FUNCTION restock_order IS 'Records restock movements for a cancelled or refunded order''s sold units';
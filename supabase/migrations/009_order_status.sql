@@ -0,0 +1,137 @@
+-- ========================================
+-- ORDER STATUS STATE MACHINE
+-- Allowed status transitions, automatic lifecycle timestamps and
+-- required reasons for cancellations and refunds
+-- ========================================
+
+-- ========================================
+-- 1. TRANSITION GRAPH
+-- Mirrors ORDER_STATUS_TRANSITIONS in userActivitiesService
+-- ========================================
+CREATE OR REPLACE FUNCTION is_valid_order_status_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN p_to IN ('processing', 'cancelled')
+    WHEN 'processing' THEN p_to IN ('shipped', 'cancelled')
+    WHEN 'shipped' THEN p_to IN ('delivered')
+    WHEN 'delivered' THEN p_to IN ('refunded')
+    WHEN 'cancelled' THEN p_to IN ('refunded')
+    ELSE FALSE
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ========================================
+-- 2. ENFORCEMENT AND TIMESTAMPS
+-- Runs on every update so direct table edits follow the same rules.
+-- The reason for a change is passed in the transaction-local setting
+-- orders.status_note (set by transition_order_status).
+-- ========================================
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_note TEXT := NULLIF(TRIM(current_setting('orders.status_note', true)), '');
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT is_valid_order_status_transition(OLD.status, NEW.status) THEN
+      RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status IN ('cancelled', 'refunded') AND v_note IS NULL THEN
+      RAISE EXCEPTION 'A reason is required to mark an order as %', NEW.status;
+    END IF;
+
+    CASE NEW.status
+      WHEN 'shipped' THEN NEW.shipped_at := NOW();
+      WHEN 'delivered' THEN NEW.delivered_at := NOW();
+      WHEN 'cancelled' THEN NEW.cancelled_at := NOW();
+      WHEN 'refunded' THEN
+        IF NEW.payment_status = 'paid' THEN
+          NEW.payment_status := 'refunded';
+        END IF;
+      ELSE NULL;
+    END CASE;
+  END IF;
+
+  -- First time an order is paid
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid' THEN
+    NEW.paid_at := COALESCE(NEW.paid_at, NOW());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_order_status
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+-- History entries carry the change reason and who made it
+CREATE OR REPLACE FUNCTION track_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only track if status actually changed
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO order_status_history (order_id, old_status, new_status, changed_by, notes)
+    VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      auth.uid(),
+      COALESCE(NULLIF(TRIM(current_setting('orders.status_note', true)), ''), 'Status changed')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 3. TRANSITION FUNCTION
+-- ========================================
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id UUID,
+  p_new_status TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change order status';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = p_new_status THEN
+    RAISE EXCEPTION 'Order is already %', p_new_status;
+  END IF;
+
+  PERFORM set_config('orders.status_note', COALESCE(p_notes, ''), true);
+
+  UPDATE orders
+  SET status = p_new_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  -- Later updates in the same transaction must supply their own reason
+  PERFORM set_config('orders.status_note', '', true);
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 4. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON FUNCTION is_valid_order_status_transition IS 'Order status transition graph shared by the trigger and transition_order_status';
+COMMENT ON FUNCTION enforce_order_status_transition IS 'Rejects illegal status changes and stamps shipped_at, delivered_at, cancelled_at and paid_at';
+COMMENT ON FUNCTION transition_order_status IS 'Admin status change with an optional reason (required for cancelled and refunded) written to order_status_history.notes';
@@ -0,0 +1,615 @@
+-- ========================================
+-- ORDER CANCELLATION, RETURNS AND EXCHANGES
+-- Customers cancel unshipped orders and request returns or size exchanges
+-- for delivered orders; admins work the RMA queue (approve, receive, refund)
+-- ========================================
+
+-- ========================================
+-- 1. RETURN SETTINGS (single row)
+-- ========================================
+CREATE TABLE IF NOT EXISTS return_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  -- Days after delivery during which a return or exchange can be requested
+  return_window_days INTEGER NOT NULL DEFAULT 7 CHECK (return_window_days >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO return_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_return_settings_updated_at
+  BEFORE UPDATE ON return_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. RETURN REQUESTS (RMAs)
+-- items: [{ id, name, image, price, size, color, quantity, exchange_size }]
+-- Lifecycle: requested -> approved | rejected
+--            approved -> received -> refunded (returns) | exchanged (exchanges)
+-- ========================================
+CREATE SEQUENCE IF NOT EXISTS return_request_number_seq;
+
+CREATE TABLE IF NOT EXISTS return_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  rma_number TEXT UNIQUE NOT NULL DEFAULT 'RMA-' || LPAD(nextval('return_request_number_seq')::TEXT, 6, '0'),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('return', 'exchange')),
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (
+    status IN ('requested', 'approved', 'rejected', 'received', 'refunded', 'exchanged')
+  ),
+  items JSONB NOT NULL CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  reason TEXT NOT NULL,
+  comments TEXT,
+  -- Storage paths in the return-photos bucket
+  photos TEXT[] NOT NULL DEFAULT '{}',
+  refund_amount DECIMAL(10, 2) CHECK (refund_amount >= 0),
+  admin_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_requests_order_id ON return_requests(order_id);
+CREATE INDEX IF NOT EXISTS idx_return_requests_user_id ON return_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_return_requests_status ON return_requests(status);
+
+CREATE TRIGGER update_return_requests_updated_at
+  BEFORE UPDATE ON return_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 3. CUSTOMER CANCELLATION
+-- ========================================
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id UUID, p_reason TEXT)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Order % can no longer be cancelled because it is %', v_order.order_number, v_order.status;
+  END IF;
+
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to cancel an order';
+  END IF;
+
+  PERFORM set_config('orders.status_note', 'Cancelled by customer: ' || TRIM(p_reason), true);
+
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('orders.status_note', '', true);
+
+  PERFORM restock_order(p_order_id, 'Order cancelled', 'customer');
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 4. RETURN REQUESTS
+-- ========================================
+
+-- Units of an order line (product, size, color) already in open or completed RMAs
+CREATE OR REPLACE FUNCTION get_returned_quantity(p_order_id UUID, p_product_id TEXT, p_size TEXT, p_color TEXT)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM((line->>'quantity')::INTEGER), 0)::INTEGER
+  FROM return_requests r, jsonb_array_elements(r.items) AS line
+  WHERE r.order_id = p_order_id
+  AND r.status <> 'rejected'
+  AND line->>'id' = p_product_id
+  AND COALESCE(line->>'size', '') = COALESCE(p_size, '')
+  AND COALESCE(line->>'color', '') = COALESCE(p_color, '');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION request_return(
+  p_order_id UUID,
+  p_type TEXT,
+  p_items JSONB,
+  p_reason TEXT,
+  p_comments TEXT DEFAULT NULL,
+  p_photos TEXT[] DEFAULT '{}'
+)
+RETURNS return_requests AS $$
+DECLARE
+  v_order orders;
+  v_window INTEGER;
+  v_line JSONB;
+  v_ordered JSONB;
+  v_items JSONB := '[]'::JSONB;
+  v_quantity INTEGER;
+  v_request return_requests;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Only delivered orders can be returned or exchanged';
+  END IF;
+
+  SELECT return_window_days INTO v_window FROM return_settings;
+  IF v_order.delivered_at IS NULL OR v_order.delivered_at + make_interval(days => v_window) < NOW() THEN
+    RAISE EXCEPTION 'The % day return window for order % has closed', v_window, v_order.order_number;
+  END IF;
+
+  IF p_type NOT IN ('return', 'exchange') THEN
+    RAISE EXCEPTION 'Invalid request type: %', p_type;
+  END IF;
+
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item';
+  END IF;
+
+  -- Rebuild each line from the order so prices and names can't be altered
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_ordered := NULL;
+    SELECT line INTO v_ordered
+    FROM jsonb_array_elements(v_order.items) AS line
+    WHERE line->>'id' = v_line->>'id'
+    AND COALESCE(line->>'size', '') = COALESCE(v_line->>'size', '')
+    AND COALESCE(line->>'color', '') = COALESCE(v_line->>'color', '');
+
+    IF v_ordered IS NULL THEN
+      RAISE EXCEPTION 'Item is not part of order %', v_order.order_number;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::INTEGER;
+    IF v_quantity IS NULL OR v_quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    IF v_quantity > (v_ordered->>'quantity')::INTEGER
+      - get_returned_quantity(p_order_id, v_ordered->>'id', v_ordered->>'size', v_ordered->>'color') THEN
+      RAISE EXCEPTION 'Only % of % can still be returned',
+        (v_ordered->>'quantity')::INTEGER - get_returned_quantity(p_order_id, v_ordered->>'id', v_ordered->>'size', v_ordered->>'color'),
+        v_ordered->>'name';
+    END IF;
+
+    IF p_type = 'exchange' AND (
+      NULLIF(v_line->>'exchange_size', '') IS NULL
+      OR v_line->>'exchange_size' = COALESCE(v_ordered->>'size', '')
+    ) THEN
+      RAISE EXCEPTION 'Choose a different size to exchange % for', v_ordered->>'name';
+    END IF;
+
+    v_items := v_items || jsonb_build_array(
+      jsonb_build_object(
+        'id', v_ordered->'id',
+        'name', v_ordered->'name',
+        'image', v_ordered->'image',
+        'price', v_ordered->'price',
+        'size', v_ordered->'size',
+        'color', v_ordered->'color',
+        'quantity', v_quantity,
+        'exchange_size', CASE WHEN p_type = 'exchange' THEN v_line->'exchange_size' ELSE 'null'::JSONB END
+      )
+    );
+  END LOOP;
+
+  INSERT INTO return_requests (order_id, user_id, type, items, reason, comments, photos)
+  VALUES (p_order_id, auth.uid(), p_type, v_items, TRIM(p_reason), NULLIF(TRIM(p_comments), ''), COALESCE(p_photos, '{}'))
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 5. RMA QUEUE (admin)
+-- ========================================
+
+-- Lock an RMA for an admin action and check it is in the expected status
+CREATE OR REPLACE FUNCTION lock_return_request(p_return_id UUID, p_expected_status TEXT)
+RETURNS return_requests AS $$
+DECLARE
+  v_request return_requests;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can process returns';
+  END IF;
+
+  SELECT * INTO v_request FROM return_requests WHERE id = p_return_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF v_request.status <> p_expected_status THEN
+    RAISE EXCEPTION 'Return % is % and cannot be processed from that status', v_request.rma_number, v_request.status;
+  END IF;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION approve_return(p_return_id UUID, p_admin_notes TEXT DEFAULT NULL)
+RETURNS return_requests AS $$
+DECLARE
+  v_request return_requests;
+  v_line JSONB;
+  v_variant_id TEXT;
+BEGIN
+  v_request := lock_return_request(p_return_id, 'requested');
+
+  -- Exchanges need the replacement size in stock
+  IF v_request.type = 'exchange' THEN
+    FOR v_line IN SELECT * FROM jsonb_array_elements(v_request.items) LOOP
+      v_variant_id := find_inventory_variant((v_line->>'id')::BIGINT, v_line->>'exchange_size', v_line->>'color');
+      IF v_variant_id IS NOT NULL AND (
+        SELECT available_stock FROM inventory_variants WHERE id = v_variant_id
+      ) < (v_line->>'quantity')::INTEGER THEN
+        RAISE EXCEPTION 'Size % of % is out of stock for the exchange', v_line->>'exchange_size', v_line->>'name';
+      END IF;
+    END LOOP;
+  END IF;
+
+  UPDATE return_requests
+  SET status = 'approved',
+    approved_at = NOW(),
+    admin_notes = COALESCE(NULLIF(TRIM(p_admin_notes), ''), admin_notes)
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reject_return(p_return_id UUID, p_reason TEXT)
+RETURNS return_requests AS $$
+DECLARE
+  v_request return_requests;
+BEGIN
+  v_request := lock_return_request(p_return_id, 'requested');
+
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reject a return';
+  END IF;
+
+  UPDATE return_requests
+  SET status = 'rejected',
+    resolved_at = NOW(),
+    admin_notes = TRIM(p_reason)
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Returned items go back into stock as 'in' movements referencing the RMA
+CREATE OR REPLACE FUNCTION receive_return(p_return_id UUID, p_performed_by TEXT DEFAULT 'admin')
+RETURNS return_requests AS $$
+DECLARE
+  v_request return_requests;
+  v_order orders;
+  v_line JSONB;
+  v_variant_id TEXT;
+BEGIN
+  v_request := lock_return_request(p_return_id, 'approved');
+  SELECT * INTO v_order FROM orders WHERE id = v_request.order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_request.items) LOOP
+    v_variant_id := find_inventory_variant((v_line->>'id')::BIGINT, v_line->>'size', v_line->>'color');
+    CONTINUE WHEN v_variant_id IS NULL;
+
+    PERFORM record_stock_movement(
+      v_variant_id,
+      'in',
+      (v_line->>'quantity')::INTEGER,
+      CASE WHEN v_request.type = 'exchange' THEN 'Exchange return' ELSE 'Customer return' END,
+      v_request.rma_number,
+      p_performed_by,
+      'Order ' || v_order.order_number
+    );
+  END LOOP;
+
+  UPDATE return_requests
+  SET status = 'received', received_at = NOW()
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refund a received return; a fully returned order moves to refunded.
+-- Called by the payments edge function, which checks the caller is an admin
+-- and refunds the recorded amount through the payment provider.
+-- The default amount is the items' share of the discounted subtotal plus their
+-- GST; refunds never exceed what was paid less earlier return refunds
+CREATE OR REPLACE FUNCTION refund_return(p_return_id UUID, p_amount DECIMAL DEFAULT NULL)
+RETURNS return_requests AS $$
+DECLARE
+  v_request return_requests;
+  v_order orders;
+  v_amount DECIMAL(10, 2);
+  v_refundable DECIMAL(10, 2);
+  v_ordered_units INTEGER;
+  v_refunded_units INTEGER;
+BEGIN
+  SELECT * INTO v_request FROM return_requests WHERE id = p_return_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF v_request.status <> 'received' THEN
+    RAISE EXCEPTION 'Return % is % and cannot be processed from that status', v_request.rma_number, v_request.status;
+  END IF;
+
+  IF v_request.type <> 'return' THEN
+    RAISE EXCEPTION 'Exchanges are completed by shipping the replacement, not refunded';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_request.order_id FOR UPDATE;
+
+  IF v_order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Order % has no payment left to refund', v_order.order_number;
+  END IF;
+
+  SELECT v_order.total - COALESCE(SUM(refund_amount), 0) INTO v_refundable
+  FROM return_requests
+  WHERE order_id = v_order.id AND status = 'refunded';
+
+  -- Each line's GST is the tax stored on the ordered line, prorated by the returned quantity
+  v_amount := COALESCE(p_amount, LEAST(v_refundable, (
+    SELECT ROUND(
+      SUM((line->>'price')::DECIMAL * (line->>'quantity')::INTEGER)
+        * CASE WHEN v_order.subtotal > 0 THEN 1 - COALESCE(v_order.discount, 0) / v_order.subtotal ELSE 0 END
+      + COALESCE(SUM(
+        (ordered.line->>'tax')::DECIMAL * (line->>'quantity')::INTEGER / NULLIF((ordered.line->>'quantity')::INTEGER, 0)
+      ), 0), 2)
+    FROM jsonb_array_elements(v_request.items) AS line
+    LEFT JOIN LATERAL (
+      SELECT order_line AS line
+      FROM jsonb_array_elements(v_order.items) AS order_line
+      WHERE order_line->>'id' = line->>'id'
+      AND COALESCE(order_line->>'size', '') = COALESCE(line->>'size', '')
+      AND COALESCE(order_line->>'color', '') = COALESCE(line->>'color', '')
+      LIMIT 1
+    ) AS ordered ON TRUE
+  )));
+
+  IF v_amount < 0 THEN
+    RAISE EXCEPTION 'Refund amount must be zero or more';
+  END IF;
+
+  IF v_amount > v_refundable THEN
+    RAISE EXCEPTION 'Refund cannot exceed the % left on order %', v_refundable, v_order.order_number;
+  END IF;
+
+  UPDATE return_requests
+  SET status = 'refunded', refund_amount = v_amount, resolved_at = NOW()
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  SELECT COALESCE(SUM((line->>'quantity')::INTEGER), 0) INTO v_ordered_units
+  FROM jsonb_array_elements(v_order.items) AS line;
+
+  SELECT COALESCE(SUM((line->>'quantity')::INTEGER), 0) INTO v_refunded_units
+  FROM return_requests r, jsonb_array_elements(r.items) AS line
+  WHERE r.order_id = v_order.id AND r.status = 'refunded';
+
+  -- Partial returns keep the order paid; the payment record tracks the refunded amount
+  IF v_refunded_units >= v_ordered_units AND v_order.status = 'delivered' THEN
+    PERFORM set_config('orders.status_note', 'Refunded after return ' || v_request.rma_number, true);
+    UPDATE orders SET status = 'refunded' WHERE id = v_order.id;
+    PERFORM set_config('orders.status_note', '', true);
+  END IF;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ship the replacement sizes for a received exchange
+CREATE OR REPLACE FUNCTION complete_exchange(p_return_id UUID, p_performed_by TEXT DEFAULT 'admin')
+RETURNS return_requests AS $$
+DECLARE
+  v_request return_requests;
+  v_order orders;
+  v_line JSONB;
+  v_variant_id TEXT;
+BEGIN
+  v_request := lock_return_request(p_return_id, 'received');
+
+  IF v_request.type <> 'exchange' THEN
+    RAISE EXCEPTION 'Only exchanges ship replacement items';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_request.order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_request.items) LOOP
+    v_variant_id := find_inventory_variant((v_line->>'id')::BIGINT, v_line->>'exchange_size', v_line->>'color');
+    CONTINUE WHEN v_variant_id IS NULL;
+
+    PERFORM record_stock_movement(
+      v_variant_id,
+      'out',
+      (v_line->>'quantity')::INTEGER,
+      'Exchange',
+      v_request.rma_number,
+      p_performed_by,
+      'Order ' || v_order.order_number
+    );
+  END LOOP;
+
+  UPDATE return_requests
+  SET status = 'exchanged', resolved_at = NOW()
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Units already returned through an RMA are not restocked again when an order is refunded
+CREATE OR REPLACE FUNCTION restock_order(p_order_id UUID, p_reason TEXT, p_performed_by TEXT DEFAULT 'admin')
+RETURNS INTEGER AS $$
+DECLARE
+  v_order orders;
+  v_sale stock_movements;
+  v_returned INTEGER;
+  v_restocked INTEGER := 0;
+BEGIN
+  -- Locked so concurrent calls queue behind the ledger check below
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.user_id IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to update stock for this order';
+  END IF;
+
+  IF v_order.status NOT IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Only cancelled or refunded orders can be restocked';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM stock_movements WHERE type = 'in' AND reference = v_order.order_number) THEN
+    RETURN 0;
+  END IF;
+
+  -- Restock exactly what was sold, so orders placed before the ledger add nothing
+  FOR v_sale IN
+    SELECT m.* FROM stock_movements m
+    JOIN inventory_variants v ON v.id = m.variant_id
+    WHERE m.type = 'out' AND m.reference = v_order.order_number
+  LOOP
+    SELECT COALESCE(SUM(m.quantity), 0) INTO v_returned
+    FROM stock_movements m
+    JOIN return_requests r ON r.rma_number = m.reference
+    WHERE m.type = 'in' AND m.variant_id = v_sale.variant_id AND r.order_id = v_order.id;
+
+    CONTINUE WHEN v_sale.quantity - v_returned <= 0;
+
+    PERFORM record_stock_movement(
+      v_sale.variant_id,
+      'in',
+      v_sale.quantity - v_returned,
+      p_reason,
+      v_order.order_number,
+      p_performed_by,
+      'Order ' || v_order.order_number
+    );
+    v_restocked := v_restocked + 1;
+  END LOOP;
+
+  RETURN v_restocked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION lock_return_request(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_return(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- ========================================
+-- 6. RETURN PHOTOS STORAGE
+-- Private bucket; customers upload into a folder named after their user id
+-- ========================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('return-photos', 'return-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own return photos"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'return-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can view own return photos"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'return-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Admins can view all return photos"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'return-photos'
+    AND EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 7. ROW LEVEL SECURITY (RLS) POLICIES
+-- Requests are created and progressed only through the functions above
+-- ========================================
+ALTER TABLE return_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE return_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view return settings"
+  ON return_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update return settings"
+  ON return_settings FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Users can view own return requests"
+  ON return_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all return requests"
+  ON return_requests FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can update return requests"
+  ON return_requests FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 8. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON TABLE return_settings IS 'Store return policy; return_window_days counts from delivered_at';
+COMMENT ON TABLE return_requests IS 'Customer return and exchange requests (RMAs) worked through the admin queue';
+
+COMMENT ON FUNCTION cancel_order IS 'Customer cancellation of a pending or confirmed order; restocks its sold units';
+COMMENT ON FUNCTION request_return IS 'Creates an RMA for delivered items within the return window';
+COMMENT ON FUNCTION receive_return IS 'Records returned items as in movements referencing the RMA number';
+COMMENT ON FUNCTION refund_return IS 'Records the refund of a received return, capped at what was paid; the payments edge function refunds it through the provider';
+COMMENT ON FUNCTION complete_exchange IS 'Records the replacement sizes for a received exchange as out movements';
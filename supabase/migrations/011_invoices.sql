@@ -0,0 +1,356 @@
+-- ========================================
+-- GST INVOICES
+-- Seller details, HSN codes per product category, sequential invoice
+-- numbers per financial year and invoice snapshots generated from orders
+-- ========================================
+
+-- ========================================
+-- 1. SELLER DETAILS (single row)
+-- ========================================
+CREATE TABLE IF NOT EXISTS invoice_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  legal_name TEXT NOT NULL DEFAULT 'Swathi Botique',
+  gstin TEXT NOT NULL DEFAULT '' CHECK (gstin = '' OR gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+  address_line1 TEXT NOT NULL DEFAULT '',
+  address_line2 TEXT,
+  city TEXT NOT NULL DEFAULT '',
+  -- Seller state decides CGST + SGST (same state) or IGST (other states)
+  state TEXT NOT NULL DEFAULT '',
+  postal_code TEXT NOT NULL DEFAULT '',
+  phone TEXT,
+  email TEXT,
+  invoice_prefix TEXT NOT NULL DEFAULT 'INV' CHECK (invoice_prefix ~ '^[A-Z0-9-]+$'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO invoice_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_invoice_settings_updated_at
+  BEFORE UPDATE ON invoice_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. HSN CODES PER CATEGORY
+-- ========================================
+CREATE TABLE IF NOT EXISTS category_hsn_codes (
+  category TEXT PRIMARY KEY,
+  hsn_code TEXT NOT NULL CHECK (hsn_code ~ '^[0-9]{4,8}$'),
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_category_hsn_codes_updated_at
+  BEFORE UPDATE ON category_hsn_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO category_hsn_codes (category, hsn_code, description)
+VALUES
+  ('Sarees', '5407', 'Woven fabrics of synthetic filament yarn'),
+  ('Lehengas', '6204', 'Women''s ensembles and skirts'),
+  ('Salwar Suits', '6204', 'Women''s suits and ensembles'),
+  ('Kurtis & Kurtas', '6206', 'Women''s blouses and shirts'),
+  ('Gowns', '6204', 'Women''s dresses'),
+  ('Dupattas & Stoles', '6214', 'Shawls, scarves and stoles'),
+  ('Men''s Kurtas', '6205', 'Men''s shirts'),
+  ('Sherwanis', '6203', 'Men''s suits and jackets'),
+  ('Kids Wear', '6209', 'Children''s garments'),
+  ('Jewelry', '7117', 'Imitation jewellery'),
+  ('Bags & Clutches', '4202', 'Handbags and clutches')
+ON CONFLICT (category) DO NOTHING;
+
+-- ========================================
+-- 3. INVOICE NUMBERS
+-- One gapless counter per Indian financial year (April to March)
+-- ========================================
+CREATE TABLE IF NOT EXISTS invoice_counters (
+  financial_year TEXT PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE OR REPLACE FUNCTION get_financial_year(p_at TIMESTAMPTZ)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN EXTRACT(MONTH FROM p_at AT TIME ZONE 'Asia/Kolkata') >= 4
+      THEN TO_CHAR(p_at AT TIME ZONE 'Asia/Kolkata', 'YYYY') || '-' || TO_CHAR((p_at AT TIME ZONE 'Asia/Kolkata') + INTERVAL '1 year', 'YY')
+    ELSE TO_CHAR((p_at AT TIME ZONE 'Asia/Kolkata') - INTERVAL '1 year', 'YYYY') || '-' || TO_CHAR(p_at AT TIME ZONE 'Asia/Kolkata', 'YY')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ========================================
+-- 4. INVOICES
+-- lines: [{ product_id, name, hsn_code, size, color, quantity, unit_price,
+--           taxable_value, gst_rate, cgst, sgst, igst, total }]
+-- ========================================
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  invoice_number TEXT NOT NULL UNIQUE,
+  financial_year TEXT NOT NULL,
+  -- Bumped every time the invoice is regenerated from its order
+  version INTEGER NOT NULL DEFAULT 1,
+  seller JSONB NOT NULL,
+  billing_address JSONB NOT NULL,
+  shipping_address JSONB NOT NULL,
+  place_of_supply TEXT NOT NULL,
+  is_interstate BOOLEAN NOT NULL,
+  lines JSONB NOT NULL,
+  taxable_value DECIMAL(10, 2) NOT NULL,
+  cgst DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sgst DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  igst DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  shipping DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  cod_surcharge DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL,
+  -- Set when the order changes after the invoice was generated
+  is_outdated BOOLEAN NOT NULL DEFAULT FALSE,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  regenerated_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_financial_year ON invoices(financial_year);
+
+-- Flag the invoice when invoiced order details are edited
+CREATE OR REPLACE FUNCTION mark_invoice_outdated()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.items IS DISTINCT FROM OLD.items
+    OR NEW.shipping_address IS DISTINCT FROM OLD.shipping_address
+    OR NEW.billing_address IS DISTINCT FROM OLD.billing_address
+    OR NEW.total IS DISTINCT FROM OLD.total THEN
+    UPDATE invoices SET is_outdated = TRUE WHERE order_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER mark_order_invoice_outdated
+  AFTER UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_invoice_outdated();
+
+-- ========================================
+-- 5. GENERATE / REGENERATE
+-- Taxable values spread the order discount across lines the same way
+-- calculate_order_pricing does. GST rates and amounts are the ones stored on
+-- the order's items when it was priced; orders from before items kept their
+-- tax split the order's tax across lines by taxable value
+-- ========================================
+CREATE OR REPLACE FUNCTION generate_invoice(p_order_id UUID, p_regenerate BOOLEAN DEFAULT FALSE)
+RETURNS invoices AS $$
+DECLARE
+  v_is_admin BOOLEAN;
+  v_order orders;
+  v_settings invoice_settings;
+  v_invoice invoices;
+  v_year TEXT;
+  v_number INTEGER;
+  v_discount_ratio DECIMAL;
+  v_place_of_supply TEXT;
+  v_is_interstate BOOLEAN;
+  v_lines JSONB;
+BEGIN
+  v_is_admin := EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  );
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  IF NOT FOUND OR (v_order.user_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders are not invoiced';
+  END IF;
+
+  -- Invoice numbers are gapless, so customers only take one for a paid or delivered order
+  IF NOT v_is_admin AND v_order.payment_status NOT IN ('paid', 'refunded') AND v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'The invoice is available once the order is paid';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE order_id = p_order_id FOR UPDATE;
+  IF FOUND AND NOT p_regenerate THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF FOUND AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Only admins can regenerate invoices';
+  END IF;
+
+  SELECT * INTO v_settings FROM invoice_settings WHERE id;
+
+  IF v_settings.gstin = '' OR v_settings.state = '' THEN
+    RAISE EXCEPTION 'Add the seller GSTIN and state in invoice settings before generating invoices';
+  END IF;
+
+  v_place_of_supply := TRIM(v_order.shipping_address->>'state');
+  v_is_interstate := LOWER(v_place_of_supply) IS DISTINCT FROM LOWER(TRIM(v_settings.state));
+  v_discount_ratio := CASE WHEN v_order.subtotal > 0 THEN 1 - v_order.discount / v_order.subtotal ELSE 0 END;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'product_id', line.product_id,
+      'name', line.name,
+      'hsn_code', line.hsn_code,
+      'size', line.size,
+      'color', line.color,
+      'quantity', line.quantity,
+      'unit_price', line.unit_price,
+      'taxable_value', line.taxable_value,
+      'gst_rate', line.gst_rate,
+      'cgst', CASE WHEN v_is_interstate THEN 0 ELSE ROUND(line.tax / 2, 2) END,
+      'sgst', CASE WHEN v_is_interstate THEN 0 ELSE line.tax - ROUND(line.tax / 2, 2) END,
+      'igst', CASE WHEN v_is_interstate THEN line.tax ELSE 0 END,
+      'total', line.taxable_value + line.tax
+    )
+    ORDER BY line.ordinality
+  )
+  INTO v_lines
+  FROM (
+    SELECT
+      taxed.*,
+      COALESCE(
+        taxed.stored_gst_rate,
+        CASE WHEN taxed.taxable_value > 0 THEN ROUND(taxed.tax * 100 / taxed.taxable_value, 2) ELSE 0 END
+      ) AS gst_rate
+    FROM (
+      SELECT
+        base.*,
+        COALESCE(
+          base.stored_tax,
+          ROUND(v_order.tax * base.taxable_value / NULLIF(SUM(base.taxable_value) OVER (), 0), 2),
+          0
+        ) AS tax
+      FROM (
+        SELECT
+          item.ordinality,
+          (item.value->>'id')::BIGINT AS product_id,
+          item.value->>'name' AS name,
+          COALESCE(hsn.hsn_code, '') AS hsn_code,
+          item.value->>'size' AS size,
+          item.value->>'color' AS color,
+          (item.value->>'quantity')::INTEGER AS quantity,
+          (item.value->>'price')::DECIMAL AS unit_price,
+          ROUND((item.value->>'price')::DECIMAL * v_discount_ratio * (item.value->>'quantity')::INTEGER, 2) AS taxable_value,
+          (item.value->>'gst_rate')::DECIMAL AS stored_gst_rate,
+          (item.value->>'tax')::DECIMAL AS stored_tax
+        FROM jsonb_array_elements(v_order.items) WITH ORDINALITY AS item
+        LEFT JOIN products ON products.id = (item.value->>'id')::BIGINT
+        LEFT JOIN category_hsn_codes AS hsn ON hsn.category = products.category
+      ) AS base
+    ) AS taxed
+  ) AS line;
+
+  IF v_invoice.id IS NULL THEN
+    v_year := get_financial_year(NOW());
+
+    INSERT INTO invoice_counters (financial_year, last_number)
+    VALUES (v_year, 1)
+    ON CONFLICT (financial_year) DO UPDATE SET last_number = invoice_counters.last_number + 1
+    RETURNING last_number INTO v_number;
+
+    INSERT INTO invoices (
+      order_id, invoice_number, financial_year, seller, billing_address, shipping_address,
+      place_of_supply, is_interstate, lines, taxable_value, cgst, sgst, igst, shipping, cod_surcharge, total
+    ) VALUES (
+      p_order_id,
+      v_settings.invoice_prefix || '/' || v_year || '/' || LPAD(v_number::TEXT, 5, '0'),
+      v_year,
+      '{}'::JSONB, '{}'::JSONB, '{}'::JSONB, '', FALSE, '[]'::JSONB, 0, 0, 0, 0, 0, 0, 0
+    )
+    RETURNING * INTO v_invoice;
+  END IF;
+
+  UPDATE invoices SET
+    seller = to_jsonb(v_settings) - 'id' - 'invoice_prefix' - 'updated_at',
+    billing_address = COALESCE(v_order.billing_address, v_order.shipping_address),
+    shipping_address = v_order.shipping_address,
+    place_of_supply = v_place_of_supply,
+    is_interstate = v_is_interstate,
+    lines = COALESCE(v_lines, '[]'::JSONB),
+    taxable_value = (SELECT COALESCE(SUM((l->>'taxable_value')::DECIMAL), 0) FROM jsonb_array_elements(v_lines) AS l),
+    cgst = (SELECT COALESCE(SUM((l->>'cgst')::DECIMAL), 0) FROM jsonb_array_elements(v_lines) AS l),
+    sgst = (SELECT COALESCE(SUM((l->>'sgst')::DECIMAL), 0) FROM jsonb_array_elements(v_lines) AS l),
+    igst = (SELECT COALESCE(SUM((l->>'igst')::DECIMAL), 0) FROM jsonb_array_elements(v_lines) AS l),
+    shipping = v_order.shipping_cost,
+    cod_surcharge = COALESCE(v_order.cod_surcharge, 0),
+    total = v_order.total,
+    is_outdated = FALSE,
+    version = CASE WHEN p_regenerate THEN version + 1 ELSE version END,
+    regenerated_at = CASE WHEN p_regenerate THEN NOW() ELSE regenerated_at END
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 6. ROW LEVEL SECURITY (RLS) POLICIES
+-- Invoices are written only by generate_invoice
+-- ========================================
+ALTER TABLE invoice_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE category_hsn_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view invoice settings"
+  ON invoice_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update invoice settings"
+  ON invoice_settings FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Anyone can view HSN codes"
+  ON category_hsn_codes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage HSN codes"
+  ON category_hsn_codes FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Users can view own invoices"
+  ON invoices FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = invoices.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all invoices"
+  ON invoices FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 7. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON TABLE invoice_settings IS 'Seller name, GSTIN and address printed on invoices';
+COMMENT ON TABLE category_hsn_codes IS 'HSN code printed on invoice lines for each product category';
+COMMENT ON TABLE invoice_counters IS 'Last invoice number issued in each financial year';
+COMMENT ON TABLE invoices IS 'GST invoice snapshot per order; the number is kept when it is regenerated';
+
+COMMENT ON FUNCTION generate_invoice IS 'Returns the order''s invoice, issuing the next number on first use once the order is paid or delivered; p_regenerate rebuilds it from the current order (admin only)';
@@ -0,0 +1,226 @@
+-- ========================================
+-- PAYMENTS
+-- One payment record per attempt to pay an order through a provider
+-- (razorpay for UPI/cards, cod, mock for development). Provider events from
+-- webhooks and client confirmations are applied once by apply_payment_event,
+-- which marks the order paid (paid_at is stamped by enforce_order_status).
+-- Written only by the payments / payment-webhook edge functions (service role).
+-- ========================================
+
+-- ========================================
+-- 1. PAYMENT METHODS
+-- NOT VALID keeps older free-form values on existing orders
+-- ========================================
+ALTER TABLE orders
+  ADD CONSTRAINT orders_payment_method_check
+  CHECK (payment_method IN ('cod', 'upi', 'card')) NOT VALID;
+
+-- ========================================
+-- 2. PAYMENTS
+-- ========================================
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('razorpay', 'cod', 'mock')),
+  method TEXT NOT NULL CHECK (method IN ('cod', 'upi', 'card')),
+  status TEXT NOT NULL DEFAULT 'created' CHECK (
+    status IN ('created', 'pending', 'succeeded', 'failed', 'partially_refunded', 'refunded')
+  ),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  -- Provider's id for the intent (e.g. Razorpay order id)
+  provider_payment_id TEXT NOT NULL,
+  -- Provider's id for the captured payment, used for refunds
+  provider_charge_id TEXT,
+  -- Data the browser needs to open the provider's checkout
+  client_data JSONB NOT NULL DEFAULT '{}'::JSONB,
+  refunded_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  failure_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  succeeded_at TIMESTAMP WITH TIME ZONE,
+
+  UNIQUE(provider, provider_payment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_payments_charge_id ON payments(provider, provider_charge_id);
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 3. PAYMENT EVENTS
+-- event_id is '<type>:<provider resource id>' so a webhook and the matching
+-- client confirmation for the same payment are applied only once
+-- ========================================
+CREATE TABLE IF NOT EXISTS payment_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('payment.succeeded', 'payment.failed', 'refund.succeeded')),
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2),
+  payload JSONB NOT NULL DEFAULT '{}'::JSONB,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment_id ON payment_events(payment_id);
+
+-- ========================================
+-- 4. APPLY PROVIDER EVENTS
+-- ========================================
+CREATE OR REPLACE FUNCTION apply_payment_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_provider_payment_id TEXT,
+  p_charge_id TEXT,
+  p_amount DECIMAL,
+  p_payload JSONB DEFAULT '{}'::JSONB
+)
+RETURNS payments AS $$
+DECLARE
+  v_payment payments;
+  v_event_id UUID;
+BEGIN
+  SELECT * INTO v_payment
+  FROM payments
+  WHERE provider = p_provider
+  AND (provider_payment_id = p_provider_payment_id OR provider_charge_id = p_charge_id)
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown % payment %', p_provider, COALESCE(p_provider_payment_id, p_charge_id);
+  END IF;
+
+  INSERT INTO payment_events (provider, event_id, event_type, payment_id, amount, payload)
+  VALUES (p_provider, p_event_id, p_event_type, v_payment.id, p_amount, COALESCE(p_payload, '{}'::JSONB))
+  ON CONFLICT (provider, event_id) DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  -- Already applied (webhook retry or confirmation racing its webhook)
+  IF v_event_id IS NULL THEN
+    RETURN v_payment;
+  END IF;
+
+  CASE p_event_type
+    WHEN 'payment.succeeded' THEN
+      IF v_payment.status IN ('succeeded', 'partially_refunded', 'refunded') THEN
+        RETURN v_payment;
+      END IF;
+
+      IF p_amount IS DISTINCT FROM v_payment.amount THEN
+        UPDATE payments
+        SET status = 'failed',
+            provider_charge_id = COALESCE(p_charge_id, provider_charge_id),
+            failure_reason = 'Paid amount ' || COALESCE(p_amount::TEXT, 'unknown') || ' does not match ' || v_payment.amount
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+        RETURN v_payment;
+      END IF;
+
+      UPDATE payments
+      SET status = 'succeeded',
+          provider_charge_id = COALESCE(p_charge_id, provider_charge_id),
+          failure_reason = NULL,
+          succeeded_at = NOW()
+      WHERE id = v_payment.id
+      RETURNING * INTO v_payment;
+
+      UPDATE orders
+      SET payment_status = 'paid'
+      WHERE id = v_payment.order_id
+      AND payment_status IN ('pending', 'failed');
+
+    WHEN 'payment.failed' THEN
+      IF v_payment.status IN ('created', 'pending', 'failed') THEN
+        UPDATE payments
+        SET status = 'failed',
+            provider_charge_id = COALESCE(p_charge_id, provider_charge_id),
+            failure_reason = COALESCE(p_payload->>'reason', 'Payment failed')
+        WHERE id = v_payment.id
+        RETURNING * INTO v_payment;
+
+        UPDATE orders
+        SET payment_status = 'failed'
+        WHERE id = v_payment.order_id
+        AND payment_status = 'pending';
+      END IF;
+
+    WHEN 'refund.succeeded' THEN
+      UPDATE payments
+      SET refunded_amount = LEAST(amount, refunded_amount + COALESCE(p_amount, 0)),
+          status = CASE
+            WHEN refunded_amount + COALESCE(p_amount, 0) >= amount THEN 'refunded'
+            ELSE 'partially_refunded'
+          END
+      WHERE id = v_payment.id
+      RETURNING * INTO v_payment;
+
+      IF v_payment.status = 'refunded' THEN
+        UPDATE orders
+        SET payment_status = 'refunded'
+        WHERE id = v_payment.order_id
+        AND payment_status = 'paid';
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unsupported payment event %', p_event_type;
+  END CASE;
+
+  RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_payment_event(TEXT, TEXT, TEXT, TEXT, TEXT, DECIMAL, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ========================================
+-- 5. ROW LEVEL SECURITY (RLS) POLICIES
+-- ========================================
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payments"
+  ON payments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all payments"
+  ON payments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can view payment events"
+  ON payment_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 6. COMMENTS FOR DOCUMENTATION
+-- ========================================
+COMMENT ON TABLE payments IS 'Payment attempts per order and their provider ids, written by the payments edge functions';
+COMMENT ON TABLE payment_events IS 'Provider events already applied, keyed by provider and event_id for idempotency';
+
+COMMENT ON FUNCTION apply_payment_event IS 'Applies a verified provider event once: marks payments succeeded/failed/refunded and updates the order payment_status';
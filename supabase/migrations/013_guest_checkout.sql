@@ -0,0 +1,493 @@
+-- ========================================
+-- GUEST CHECKOUT
+-- Shoppers can check out without an account. Their cart is stored against
+-- the per-browser guest cart id (the same id that keys their stock holds),
+-- the order keeps their email and phone instead of a user_id, and they can
+-- look it up again with the order number and email. Signing up later with
+-- that (verified) email attaches the guest orders to the new account.
+-- Guest carts and orders are only reachable through the functions below.
+-- ========================================
+
+-- ========================================
+-- 1. GUEST ORDERS
+-- ========================================
+ALTER TABLE orders ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS guest_email TEXT,
+  ADD COLUMN IF NOT EXISTS guest_phone TEXT,
+  ADD COLUMN IF NOT EXISTS guest_session_id TEXT;
+
+-- Every order belongs to an account or to a guest email
+ALTER TABLE orders
+  ADD CONSTRAINT orders_customer_check
+  CHECK (user_id IS NOT NULL OR guest_email IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_orders_guest_email ON orders(LOWER(guest_email)) WHERE guest_email IS NOT NULL;
+
+-- Guest redemptions count towards per-customer limits by email
+ALTER TABLE coupon_redemptions ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE coupon_redemptions ADD COLUMN IF NOT EXISTS guest_email TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_guest_email
+  ON coupon_redemptions(coupon_id, LOWER(guest_email))
+  WHERE guest_email IS NOT NULL;
+
+-- ========================================
+-- 2. GUEST CARTS
+-- session_id is the browser's guest cart id (a random UUID kept in localStorage),
+-- checked with assert_guest_session_id from 008
+-- ========================================
+CREATE TABLE IF NOT EXISTS guest_carts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id TEXT NOT NULL,
+  product_id BIGINT NOT NULL,
+  product_name TEXT NOT NULL,
+  product_price DECIMAL(10, 2) NOT NULL,
+  product_image TEXT NOT NULL,
+  product_category TEXT NOT NULL,
+  size TEXT,
+  color TEXT,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(session_id, product_id, size, color)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_carts_session_id ON guest_carts(session_id);
+CREATE INDEX IF NOT EXISTS idx_guest_carts_updated_at ON guest_carts(updated_at);
+
+-- Cart lines in the same shape as the browser's cart items
+CREATE OR REPLACE FUNCTION get_guest_cart(p_session_id TEXT)
+RETURNS JSONB AS $$
+BEGIN
+  PERFORM assert_guest_session_id(p_session_id);
+
+  RETURN COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', product_id,
+          'name', product_name,
+          'price', product_price,
+          'image', product_image,
+          'category', product_category,
+          'size', size,
+          'color', color,
+          'quantity', quantity
+        )
+        ORDER BY created_at
+      )
+      FROM guest_carts
+      WHERE session_id = p_session_id
+    ),
+    '[]'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the stored cart with the browser's current cart
+-- Prices come from the products table; lines for unknown products are dropped
+CREATE OR REPLACE FUNCTION save_guest_cart(p_session_id TEXT, p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  cart_item JSONB;
+  v_price DECIMAL(10, 2);
+BEGIN
+  PERFORM assert_guest_session_id(p_session_id);
+
+  DELETE FROM guest_carts WHERE session_id = p_session_id;
+
+  FOR cart_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    SELECT product_sale_price(price, discount) INTO v_price FROM products WHERE id = (cart_item->>'id')::BIGINT;
+    CONTINUE WHEN NOT FOUND;
+
+    INSERT INTO guest_carts (
+      session_id,
+      product_id,
+      product_name,
+      product_price,
+      product_image,
+      product_category,
+      size,
+      color,
+      quantity
+    ) VALUES (
+      p_session_id,
+      (cart_item->>'id')::BIGINT,
+      cart_item->>'name',
+      v_price,
+      COALESCE(cart_item->>'image', ''),
+      COALESCE(cart_item->>'category', ''),
+      cart_item->>'size',
+      cart_item->>'color',
+      (cart_item->>'quantity')::INTEGER
+    )
+    ON CONFLICT (session_id, product_id, size, color)
+    DO UPDATE SET
+      quantity = guest_carts.quantity + EXCLUDED.quantity,
+      updated_at = NOW();
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Carts left untouched this long are dropped (schedule with pg_cron)
+CREATE OR REPLACE FUNCTION purge_stale_guest_carts(p_days INTEGER DEFAULT 30)
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM guest_carts
+  WHERE session_id IN (
+    SELECT session_id FROM guest_carts
+    GROUP BY session_id
+    HAVING MAX(updated_at) < NOW() - make_interval(days => p_days)
+  );
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION purge_stale_guest_carts(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ========================================
+-- 3. GUEST COUPONS
+-- Per-customer limits count earlier redemptions by the guest's email
+-- ========================================
+CREATE OR REPLACE FUNCTION evaluate_coupon_for_guest(
+  p_email TEXT,
+  p_code TEXT,
+  p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_coupon coupons%ROWTYPE;
+  v_used INTEGER;
+BEGIN
+  SELECT * INTO v_coupon FROM coupons WHERE code = UPPER(TRIM(p_code));
+
+  IF FOUND AND v_coupon.usage_limit_per_user IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_used
+    FROM coupon_redemptions
+    WHERE coupon_id = v_coupon.id AND LOWER(guest_email) = LOWER(TRIM(p_email));
+
+    IF v_used >= v_coupon.usage_limit_per_user THEN
+      RETURN jsonb_build_object('valid', false, 'message', 'You have already used this coupon');
+    END IF;
+  END IF;
+
+  -- No user: the per-user count there is always zero
+  RETURN evaluate_coupon_for_user(NULL, p_code, p_items);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION evaluate_coupon_for_guest(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Guests can preview coupons too; their per-customer limit is checked when the order is placed
+CREATE OR REPLACE FUNCTION evaluate_coupon(p_code TEXT, p_items JSONB)
+RETURNS JSONB AS $$
+BEGIN
+  RETURN evaluate_coupon_for_user(auth.uid(), p_code, p_items);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 4. CREATE GUEST ORDER
+-- Mirrors create_order_from_cart, reading the guest cart instead of user_carts
+-- ========================================
+CREATE OR REPLACE FUNCTION create_guest_order(
+  p_session_id TEXT,
+  p_email TEXT,
+  p_phone TEXT,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method TEXT,
+  p_customer_notes TEXT DEFAULT NULL,
+  p_shipping_method TEXT DEFAULT 'standard',
+  p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_email TEXT := LOWER(TRIM(p_email));
+  v_cart_items JSONB;
+  v_coupon JSONB;
+  v_pricing JSONB;
+BEGIN
+  PERFORM assert_guest_session_id(p_session_id);
+
+  IF v_email IS NULL OR v_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+    RAISE EXCEPTION 'A valid email address is required';
+  END IF;
+
+  IF p_phone IS NULL OR TRIM(p_phone) = '' THEN
+    RAISE EXCEPTION 'A phone number is required';
+  END IF;
+
+  IF p_shipping_method NOT IN ('standard', 'express') THEN
+    RAISE EXCEPTION 'Invalid shipping method: %', p_shipping_method;
+  END IF;
+
+  -- Priced from the products table rather than the stored cart
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', guest_carts.product_id,
+        'name', guest_carts.product_name,
+        'price', product_sale_price(products.price, products.discount),
+        'quantity', guest_carts.quantity,
+        'size', guest_carts.size,
+        'color', guest_carts.color,
+        'image', guest_carts.product_image
+      )
+    ),
+    '[]'::jsonb
+  ) INTO v_cart_items
+  FROM guest_carts
+  JOIN products ON products.id = guest_carts.product_id
+  WHERE guest_carts.session_id = p_session_id;
+
+  IF jsonb_array_length(v_cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF jsonb_array_length(v_cart_items) < (SELECT COUNT(*) FROM guest_carts WHERE session_id = p_session_id) THEN
+    RAISE EXCEPTION 'Some products in your cart are no longer available';
+  END IF;
+
+  IF p_coupon_code IS NOT NULL AND TRIM(p_coupon_code) <> '' THEN
+    v_coupon := evaluate_coupon_for_guest(v_email, p_coupon_code, v_cart_items);
+
+    IF NOT (v_coupon->>'valid')::boolean THEN
+      RAISE EXCEPTION 'Coupon not applied: %', v_coupon->>'message';
+    END IF;
+  END IF;
+
+  v_pricing := calculate_order_pricing(
+    v_cart_items,
+    p_shipping_address->>'postal_code',
+    p_shipping_method,
+    p_payment_method,
+    COALESCE((v_coupon->>'discount')::DECIMAL, 0),
+    COALESCE((v_coupon->>'free_shipping')::boolean, FALSE)
+  );
+
+  v_order_number := generate_order_number();
+
+  INSERT INTO orders (
+    user_id,
+    guest_email,
+    guest_phone,
+    guest_session_id,
+    order_number,
+    items,
+    subtotal,
+    discount,
+    tax,
+    shipping_cost,
+    cod_surcharge,
+    total,
+    shipping_address,
+    billing_address,
+    payment_method,
+    shipping_method,
+    shipping_zone,
+    coupon_code,
+    customer_notes,
+    status,
+    payment_status
+  ) VALUES (
+    NULL,
+    v_email,
+    TRIM(p_phone),
+    p_session_id,
+    v_order_number,
+    v_pricing->'items',
+    (v_pricing->>'subtotal')::DECIMAL,
+    (v_pricing->>'discount')::DECIMAL,
+    (v_pricing->>'tax')::DECIMAL,
+    (v_pricing->>'shipping')::DECIMAL,
+    (v_pricing->>'cod_surcharge')::DECIMAL,
+    (v_pricing->>'total')::DECIMAL,
+    p_shipping_address,
+    p_billing_address,
+    p_payment_method,
+    p_shipping_method,
+    v_pricing->>'shipping_zone',
+    v_coupon->>'code',
+    p_customer_notes,
+    'pending',
+    'pending'
+  ) RETURNING id INTO v_order_id;
+
+  IF v_coupon IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, user_id, guest_email, order_id, discount_amount)
+    VALUES ((v_coupon->>'coupon_id')::UUID, NULL, v_email, v_order_id, (v_pricing->>'discount')::DECIMAL);
+  END IF;
+
+  -- Held stock becomes sold stock in the same transaction
+  PERFORM commit_order_stock(v_order_id);
+
+  DELETE FROM guest_carts WHERE session_id = p_session_id;
+
+  RETURN jsonb_build_object('id', v_order_id, 'order_number', v_order_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 5. GUEST ORDER LOOKUP
+-- The order number and checkout email together stand in for a login
+-- ========================================
+CREATE OR REPLACE FUNCTION get_guest_order(p_order_number TEXT, p_email TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE order_number = UPPER(TRIM(p_order_number))
+  AND guest_email IS NOT NULL
+  AND LOWER(guest_email) = LOWER(TRIM(p_email));
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(v_order) - 'admin_notes' - 'guest_session_id',
+    'history', COALESCE(
+      (
+        SELECT jsonb_agg(to_jsonb(h) - 'changed_by' ORDER BY h.created_at)
+        FROM order_status_history h
+        WHERE h.order_id = v_order.id
+      ),
+      '[]'::jsonb
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 6. ORDER STOCK
+-- Replaces the 008 version so guest orders can commit their stock and release
+-- the holds kept under their guest cart id
+-- ========================================
+CREATE OR REPLACE FUNCTION commit_order_stock(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order orders;
+  v_line JSONB;
+  v_variant_id TEXT;
+  v_recorded INTEGER := 0;
+BEGIN
+  -- Locked so concurrent calls queue behind the ledger check below
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Guest orders have no owner to check; committing is idempotent and only records what was ordered
+  IF v_order.user_id IS NOT NULL AND v_order.user_id IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to update stock for this order';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM stock_movements WHERE type = 'out' AND reference = v_order.order_number) THEN
+    RETURN 0;
+  END IF;
+
+  -- Every ordered line is sold whether or not its hold survived; lines removed before ordering are released
+  PERFORM release_cart_holds(COALESCE(v_order.user_id::text, v_order.guest_session_id));
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_order.items) LOOP
+    v_variant_id := find_inventory_variant((v_line->>'id')::BIGINT, v_line->>'size', v_line->>'color');
+    CONTINUE WHEN v_variant_id IS NULL;
+
+    PERFORM record_stock_movement(
+      v_variant_id,
+      'out',
+      (v_line->>'quantity')::INTEGER,
+      'Sale',
+      v_order.order_number,
+      'customer',
+      'Order ' || v_order.order_number
+    );
+    v_recorded := v_recorded + 1;
+  END LOOP;
+
+  RETURN v_recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 7. CLAIM GUEST ORDERS
+-- Attaches guest orders placed with the signed-in user's email to their account.
+-- Only verified emails can claim, so nobody can sign up with someone else's address.
+-- ========================================
+CREATE OR REPLACE FUNCTION claim_guest_orders()
+RETURNS INTEGER AS $$
+DECLARE
+  v_email TEXT;
+  v_claimed INTEGER;
+BEGIN
+  SELECT LOWER(email) INTO v_email
+  FROM auth.users
+  WHERE id = auth.uid()
+  AND email_confirmed_at IS NOT NULL;
+
+  IF v_email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE coupon_redemptions
+  SET user_id = auth.uid()
+  WHERE user_id IS NULL
+  AND order_id IN (
+    SELECT id FROM orders WHERE user_id IS NULL AND LOWER(guest_email) = v_email
+  );
+
+  UPDATE orders
+  SET user_id = auth.uid()
+  WHERE user_id IS NULL
+  AND LOWER(guest_email) = v_email;
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+  RETURN v_claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 8. ROW LEVEL SECURITY (RLS) POLICIES
+-- No direct access to guest carts; guest orders stay hidden from other users
+-- because the existing order policies match on user_id
+-- ========================================
+ALTER TABLE guest_carts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view guest carts"
+  ON guest_carts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 9. COMMENTS
+-- ========================================
+COMMENT ON TABLE guest_carts IS 'Carts of shoppers without an account, keyed by the browser''s guest cart id';
+COMMENT ON COLUMN orders.guest_email IS 'Checkout email of a guest order; with the order number it unlocks get_guest_order';
+COMMENT ON COLUMN orders.guest_session_id IS 'Guest cart id the order was placed from, used to release its stock holds';
+
+COMMENT ON FUNCTION save_guest_cart IS 'Replaces the stored guest cart with the browser''s cart';
+COMMENT ON FUNCTION create_guest_order IS 'Creates an order from a guest cart with contact email and phone; same pricing and coupon rules as create_order_from_cart';
+COMMENT ON FUNCTION get_guest_order IS 'Returns a guest order and its status history for a matching order number and email';
+COMMENT ON FUNCTION claim_guest_orders IS 'Attaches guest orders placed with the caller''s verified email to their account';
@@ -0,0 +1,139 @@
+-- ========================================
+-- USER ADDRESS BOOK
+-- Customers keep several labeled addresses (Home, Office, Mom's place) with
+-- one default for shipping and one for billing. Checkout picks from these and
+-- copies the chosen address onto the order as a ShippingAddress snapshot.
+-- ========================================
+
+-- ========================================
+-- 1. USER ADDRESSES
+-- ========================================
+CREATE TABLE IF NOT EXISTS user_addresses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(TRIM(label)) BETWEEN 1 AND 40),
+  name TEXT NOT NULL,
+  address_line1 TEXT NOT NULL,
+  address_line2 TEXT,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL,
+  postal_code TEXT NOT NULL CHECK (postal_code ~ '^[1-9][0-9]{5}$'),
+  country TEXT NOT NULL DEFAULT 'India',
+  phone TEXT NOT NULL,
+  is_default_shipping BOOLEAN NOT NULL DEFAULT FALSE,
+  is_default_billing BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_addresses_user_id ON user_addresses(user_id);
+
+-- At most one default of each kind per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_default_shipping
+  ON user_addresses(user_id) WHERE is_default_shipping;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_default_billing
+  ON user_addresses(user_id) WHERE is_default_billing;
+
+CREATE TRIGGER update_user_addresses_updated_at
+  BEFORE UPDATE ON user_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. DEFAULT ADDRESSES
+-- Making an address the default clears the flag on the customer's other addresses;
+-- their first address becomes the default for both
+-- ========================================
+CREATE OR REPLACE FUNCTION maintain_default_addresses()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT EXISTS (SELECT 1 FROM user_addresses WHERE user_id = NEW.user_id) THEN
+    NEW.is_default_shipping := TRUE;
+    NEW.is_default_billing := TRUE;
+  END IF;
+
+  IF NEW.is_default_shipping THEN
+    UPDATE user_addresses
+    SET is_default_shipping = FALSE
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default_shipping;
+  END IF;
+
+  IF NEW.is_default_billing THEN
+    UPDATE user_addresses
+    SET is_default_billing = FALSE
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default_billing;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER maintain_default_addresses
+  BEFORE INSERT OR UPDATE OF is_default_shipping, is_default_billing ON user_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION maintain_default_addresses();
+
+-- ========================================
+-- 3. EXISTING PROFILE ADDRESSES
+-- Carry each profile's single address over as its "Home" address
+-- ========================================
+INSERT INTO user_addresses (
+  user_id,
+  label,
+  name,
+  address_line1,
+  city,
+  state,
+  postal_code,
+  country,
+  phone,
+  is_default_shipping,
+  is_default_billing
+)
+SELECT
+  p.id,
+  'Home',
+  COALESCE(NULLIF(TRIM(p.full_name), ''), p.email),
+  TRIM(p.address->>'street'),
+  TRIM(p.address->>'city'),
+  TRIM(p.address->>'state'),
+  TRIM(p.address->>'postal_code'),
+  COALESCE(NULLIF(TRIM(p.address->>'country'), ''), 'India'),
+  COALESCE(p.phone, ''),
+  TRUE,
+  TRUE
+FROM profiles p
+WHERE NULLIF(TRIM(p.address->>'street'), '') IS NOT NULL
+AND NULLIF(TRIM(p.address->>'city'), '') IS NOT NULL
+AND NULLIF(TRIM(p.address->>'state'), '') IS NOT NULL
+AND TRIM(p.address->>'postal_code') ~ '^[1-9][0-9]{5}$'
+AND NOT EXISTS (SELECT 1 FROM user_addresses a WHERE a.user_id = p.id);
+
+-- ========================================
+-- 4. ROW LEVEL SECURITY (RLS) POLICIES
+-- ========================================
+ALTER TABLE user_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own addresses"
+  ON user_addresses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own addresses"
+  ON user_addresses FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own addresses"
+  ON user_addresses FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own addresses"
+  ON user_addresses FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ========================================
+-- 5. COMMENTS
+-- ========================================
+COMMENT ON TABLE user_addresses IS 'Customer address book; checkout copies the chosen address onto the order';
+COMMENT ON COLUMN user_addresses.label IS 'Customer''s name for the address, e.g. Home, Office';
+COMMENT ON FUNCTION maintain_default_addresses IS 'Keeps one default shipping and one default billing address per customer';
@@ -0,0 +1,352 @@
+-- ========================================
+-- PRODUCT SEARCH
+-- Catalog search in Postgres instead of scoring every product in the browser:
+-- weighted tsvector ranking, trigram matching for typos ("lehnga"),
+-- filters, facet counts and pagination in a single search_products call
+-- ========================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ========================================
+-- 1. SEARCH COLUMNS
+-- Name ranks highest (A), then category/subcategory (B), then fabric,
+-- occasions, colors and SKU (C), then the description (D)
+-- ========================================
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS search_text TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION update_product_search_fields()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_attributes TEXT := CONCAT_WS(' ',
+    NEW.fabric,
+    ARRAY_TO_STRING(NEW.occasion, ' '),
+    ARRAY_TO_STRING(NEW.colors, ' '),
+    NEW.sku
+  );
+BEGIN
+  NEW.search_text := LOWER(CONCAT_WS(' ', NEW.name, NEW.category, NEW.subcategory, v_attributes, NEW.description));
+  NEW.search_vector :=
+    SETWEIGHT(TO_TSVECTOR('english', COALESCE(NEW.name, '')), 'A')
+    || SETWEIGHT(TO_TSVECTOR('english', CONCAT_WS(' ', NEW.category, NEW.subcategory)), 'B')
+    || SETWEIGHT(TO_TSVECTOR('english', v_attributes), 'C')
+    || SETWEIGHT(TO_TSVECTOR('english', COALESCE(NEW.description, '')), 'D');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_product_search_fields
+  BEFORE INSERT OR UPDATE OF name, category, subcategory, description, fabric, occasion, colors, sku ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_search_fields();
+
+-- Backfill existing products without touching updated_at
+ALTER TABLE products DISABLE TRIGGER update_products_updated_at;
+UPDATE products SET name = name;
+ALTER TABLE products ENABLE TRIGGER update_products_updated_at;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON products USING GIN (LOWER(name) gin_trgm_ops);
+
+-- ========================================
+-- 2. SEARCH VOCABULARY
+-- Every word in the catalog, so a misspelled query word can be swapped
+-- for the catalog words it most resembles. Rebuilt when products change.
+-- ========================================
+CREATE TABLE IF NOT EXISTS product_search_words (
+  word TEXT PRIMARY KEY
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_search_words_trgm ON product_search_words USING GIN (word gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION refresh_product_search_words()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM product_search_words;
+
+  INSERT INTO product_search_words (word)
+  SELECT stat.word
+  FROM ts_stat('SELECT TO_TSVECTOR(''simple'', search_text) FROM products') AS stat
+  WHERE LENGTH(stat.word) >= 3;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_product_search_words
+  AFTER INSERT OR DELETE OR UPDATE OF name, category, subcategory, description, fabric, occasion, colors, sku ON products
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_product_search_words();
+
+INSERT INTO product_search_words (word)
+SELECT stat.word
+FROM ts_stat('SELECT TO_TSVECTOR(''simple'', search_text) FROM products') AS stat
+WHERE LENGTH(stat.word) >= 3
+ON CONFLICT (word) DO NOTHING;
+
+-- ========================================
+-- 3. QUERY BUILDING
+-- p_terms: one array per query word holding the word and its synonyms,
+-- e.g. [["साड़ी", "saree", "sari"], ["red"]]. Words are ANDed, synonyms ORed.
+-- A term is matched as a prefix ("sil" finds silk); a single word that isn't
+-- in the catalog also matches its three closest catalog words.
+-- Returns NULL when there is nothing to search for.
+-- ========================================
+CREATE OR REPLACE FUNCTION build_search_tsquery(p_terms JSONB)
+RETURNS TSQUERY AS $$
+DECLARE
+  v_group JSONB;
+  v_term TEXT;
+  v_word TEXT;
+  v_group_query TSQUERY;
+  v_term_query TSQUERY;
+  v_query TSQUERY;
+BEGIN
+  FOR v_group IN SELECT value FROM jsonb_array_elements(COALESCE(p_terms, '[]'::JSONB)) LOOP
+    v_group_query := NULL;
+
+    FOR v_term IN SELECT jsonb_array_elements_text(v_group) LOOP
+      -- Drop tsquery operators so customer input can't change the query's meaning
+      v_term := TRIM(REGEXP_REPLACE(LOWER(v_term), '[&|!():*<>''\\]+', ' ', 'g'));
+      CONTINUE WHEN v_term = '';
+
+      IF v_term ~ '\s' THEN
+        v_term_query := PHRASETO_TSQUERY('english', v_term);
+      ELSE
+        v_term_query := TO_TSQUERY('english', QUOTE_LITERAL(v_term) || ':*');
+
+        IF LENGTH(v_term) >= 4 AND NOT EXISTS (SELECT 1 FROM product_search_words WHERE word = v_term) THEN
+          FOR v_word IN
+            SELECT word
+            FROM product_search_words
+            WHERE word % v_term
+            ORDER BY SIMILARITY(word, v_term) DESC, word
+            LIMIT 3
+          LOOP
+            v_term_query := v_term_query || TO_TSQUERY('english', QUOTE_LITERAL(v_word));
+          END LOOP;
+        END IF;
+      END IF;
+
+      -- Stop words ("the", "for") produce empty queries and are skipped
+      CONTINUE WHEN NUMNODE(v_term_query) = 0;
+      v_group_query := CASE WHEN v_group_query IS NULL THEN v_term_query ELSE v_group_query || v_term_query END;
+    END LOOP;
+
+    CONTINUE WHEN v_group_query IS NULL;
+    v_query := CASE WHEN v_query IS NULL THEN v_group_query ELSE v_query && v_group_query END;
+  END LOOP;
+
+  RETURN v_query;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ========================================
+-- 4. SEARCH
+-- p_filters uses the storefront's ProductFilter keys: categories, subcategories,
+-- occasions, fabrics, priceRange [min, max], sizes, colors, inStock, isNew, hasDiscount.
+-- p_sort: relevance | featured | price-low | price-high | newest | popular | rating
+-- Returns { total, page, page_size, products: [...], facets: { categories,
+-- subcategories, fabrics, occasions, price_ranges } } with facets counted over
+-- all matching products, not just the current page.
+-- ========================================
+CREATE OR REPLACE FUNCTION search_products(
+  p_terms JSONB DEFAULT '[]',
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'relevance',
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 24
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_query TSQUERY := build_search_tsquery(p_terms);
+  v_filters JSONB := COALESCE(p_filters, '{}'::JSONB);
+  v_categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'categories', '[]')));
+  v_subcategories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'subcategories', '[]')));
+  v_occasions TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'occasions', '[]')));
+  v_fabrics TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'fabrics', '[]')));
+  v_sizes TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'sizes', '[]')));
+  v_colors TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'colors', '[]')));
+  v_min_price DECIMAL := (v_filters->'priceRange'->>0)::DECIMAL;
+  v_max_price DECIMAL := (v_filters->'priceRange'->>1)::DECIMAL;
+  v_in_stock BOOLEAN := (v_filters->>'inStock')::BOOLEAN;
+  v_is_new BOOLEAN := (v_filters->>'isNew')::BOOLEAN;
+  v_has_discount BOOLEAN := (v_filters->>'hasDiscount')::BOOLEAN;
+  v_page INTEGER := GREATEST(COALESCE(p_page, 1), 1);
+  v_page_size INTEGER := LEAST(GREATEST(COALESCE(p_page_size, 24), 1), 100);
+  v_result JSONB;
+BEGIN
+  IF p_sort NOT IN ('relevance', 'featured', 'price-low', 'price-high', 'newest', 'popular', 'rating') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  WITH filtered AS (
+    SELECT
+      products.*,
+      -- Out-of-stock products rank below in-stock ones with the same relevance
+      CASE
+        WHEN v_query IS NULL THEN 0
+        ELSE TS_RANK(products.search_vector, v_query) * CASE WHEN products.in_stock THEN 1 ELSE 0.5 END
+      END AS rank
+    FROM products
+    WHERE (v_query IS NULL OR products.search_vector @@ v_query)
+    AND (CARDINALITY(v_categories) = 0 OR products.category = ANY(v_categories))
+    AND (CARDINALITY(v_subcategories) = 0 OR products.subcategory = ANY(v_subcategories))
+    AND (CARDINALITY(v_occasions) = 0 OR products.occasion && v_occasions)
+    AND (CARDINALITY(v_fabrics) = 0 OR products.fabric = ANY(v_fabrics))
+    AND (CARDINALITY(v_sizes) = 0 OR products.sizes && v_sizes)
+    AND (CARDINALITY(v_colors) = 0 OR products.colors && v_colors)
+    AND (v_min_price IS NULL OR products.price >= v_min_price)
+    AND (v_max_price IS NULL OR products.price <= v_max_price)
+    AND (v_in_stock IS NULL OR products.in_stock = v_in_stock)
+    AND (v_is_new IS NULL OR products.is_new = v_is_new)
+    AND (v_has_discount IS NULL OR (products.discount > 0) = v_has_discount)
+  ),
+  page AS (
+    SELECT
+      filtered.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'price-low' THEN filtered.price END ASC,
+          CASE WHEN p_sort = 'price-high' THEN filtered.price END DESC,
+          CASE WHEN p_sort = 'popular' THEN filtered.reviews END DESC,
+          CASE WHEN p_sort = 'rating' THEN filtered.rating END DESC,
+          CASE WHEN p_sort = 'newest' THEN filtered.created_at END DESC,
+          filtered.rank DESC,
+          filtered.is_new DESC,
+          filtered.created_at DESC,
+          filtered.id
+      ) AS position
+    FROM filtered
+    ORDER BY position
+    LIMIT v_page_size
+    OFFSET (v_page - 1) * v_page_size
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM filtered),
+    'page', v_page,
+    'page_size', v_page_size,
+    'products', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(page) - 'search_text' - 'search_vector' - 'position')
+        || jsonb_build_object(
+          'matched_fields', CASE WHEN v_query IS NULL THEN '[]'::JSONB ELSE to_jsonb(ARRAY_REMOVE(ARRAY[
+            CASE WHEN TO_TSVECTOR('english', page.name) @@ v_query THEN 'name' END,
+            CASE WHEN TO_TSVECTOR('english', page.category) @@ v_query THEN 'category' END,
+            CASE WHEN TO_TSVECTOR('english', page.subcategory) @@ v_query THEN 'subcategory' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.description, '')) @@ v_query THEN 'description' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.fabric, '')) @@ v_query THEN 'fabric' END,
+            CASE WHEN TO_TSVECTOR('english', ARRAY_TO_STRING(page.occasion, ' ')) @@ v_query THEN 'occasion' END,
+            CASE WHEN TO_TSVECTOR('english', ARRAY_TO_STRING(page.colors, ' ')) @@ v_query THEN 'colors' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.sku, '')) @@ v_query THEN 'sku' END
+          ], NULL)) END,
+          'headline', CASE
+            WHEN v_query IS NULL OR page.description IS NULL THEN NULL
+            ELSE TS_HEADLINE('english', page.description, v_query, 'MaxWords=20, MinWords=8, StartSel="", StopSel=""')
+          END
+        )
+        ORDER BY page.position
+      )
+      FROM page
+    ), '[]'::JSONB),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (SELECT category AS value, COUNT(*) AS count FROM filtered GROUP BY category) AS facet
+      ), '[]'::JSONB),
+      'subcategories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (SELECT subcategory AS value, COUNT(*) AS count FROM filtered GROUP BY subcategory) AS facet
+      ), '[]'::JSONB),
+      'fabrics', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (SELECT fabric AS value, COUNT(*) AS count FROM filtered WHERE fabric IS NOT NULL GROUP BY fabric) AS facet
+      ), '[]'::JSONB),
+      'occasions', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT occasion_value AS value, COUNT(*) AS count
+          FROM filtered, UNNEST(filtered.occasion) AS occasion_value
+          GROUP BY occasion_value
+        ) AS facet
+      ), '[]'::JSONB),
+      'price_ranges', (
+        SELECT jsonb_agg(jsonb_build_object(
+          'min', bucket.min_price,
+          'max', bucket.max_price,
+          'count', (
+            SELECT COUNT(*) FROM filtered
+            WHERE filtered.price >= bucket.min_price
+            AND (bucket.max_price IS NULL OR filtered.price < bucket.max_price)
+          )
+        ) ORDER BY bucket.min_price)
+        FROM (VALUES (0, 1000), (1000, 2500), (2500, 5000), (5000, 10000), (10000, NULL)) AS bucket(min_price, max_price)
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ========================================
+-- 5. AUTOCOMPLETE
+-- Product names, categories, fabrics, occasions and colors that start with,
+-- contain or closely resemble the typed text
+-- ========================================
+CREATE OR REPLACE FUNCTION search_suggestions(p_query TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_query TEXT := LOWER(TRIM(COALESCE(p_query, '')));
+BEGIN
+  IF LENGTH(v_query) < 2 THEN
+    RETURN '{}';
+  END IF;
+
+  RETURN ARRAY(
+    SELECT candidate.value
+    FROM (
+      SELECT name AS value, 3 AS weight FROM products
+      UNION SELECT category, 2 FROM products
+      UNION SELECT subcategory, 2 FROM products
+      UNION SELECT fabric, 1 FROM products WHERE fabric IS NOT NULL
+      UNION SELECT UNNEST(occasion), 1 FROM products
+      UNION SELECT UNNEST(colors), 1 FROM products
+    ) AS candidate
+    CROSS JOIN LATERAL (
+      SELECT
+        CASE
+          WHEN POSITION(v_query IN LOWER(candidate.value)) = 1 THEN 3
+          WHEN POSITION(' ' || v_query IN ' ' || LOWER(candidate.value)) > 0 THEN 2
+          WHEN POSITION(v_query IN LOWER(candidate.value)) > 0 THEN 1
+          ELSE WORD_SIMILARITY(v_query, LOWER(candidate.value))
+        END AS match_score
+    ) AS match
+    WHERE match.match_score >= 0.5
+    GROUP BY candidate.value
+    ORDER BY MAX(match.match_score * candidate.weight) DESC, candidate.value
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 5), 1), 20)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ========================================
+-- 6. ROW LEVEL SECURITY (RLS) POLICIES
+-- ========================================
+ALTER TABLE product_search_words ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view search words"
+  ON product_search_words FOR SELECT
+  USING (true);
+
+-- ========================================
+-- 7. COMMENTS
+-- ========================================
+COMMENT ON COLUMN products.search_text IS 'Lowercased searchable text, maintained by update_product_search_fields';
+COMMENT ON COLUMN products.search_vector IS 'Weighted full-text document: name A, category B, attributes C, description D';
+COMMENT ON TABLE product_search_words IS 'Catalog vocabulary for typo correction, rebuilt when products change';
+COMMENT ON FUNCTION build_search_tsquery IS 'Builds the full-text query from query words and their synonyms, with typo correction';
+COMMENT ON FUNCTION search_products IS 'Ranked, filtered, paginated catalog search with facet counts';
+COMMENT ON FUNCTION search_suggestions IS 'Autocomplete suggestions for the search box';
@@ -0,0 +1,330 @@
+-- ========================================
+-- SEARCH SYNONYMS
+-- Admin-managed synonym dictionary replacing the hardcoded Hindi map in the
+-- storefront. Queries are expanded in the database: multi-word terms
+-- ("shaadi lehenga") are matched before single words, and Devanagari words
+-- are also tried in Roman script ("शादी" -> "shaadi").
+-- ========================================
+
+-- ========================================
+-- 1. SYNONYMS TABLE
+-- A query containing term also searches for each synonym. Two-way rules
+-- also expand any of the synonyms to the term and the other synonyms.
+-- ========================================
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  term TEXT NOT NULL UNIQUE CHECK (term = LOWER(TRIM(term)) AND term <> ''),
+  synonyms TEXT[] NOT NULL CHECK (CARDINALITY(synonyms) > 0),
+  two_way BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_synonyms_synonyms ON search_synonyms USING GIN (synonyms);
+
+CREATE TRIGGER update_search_synonyms_updated_at
+  BEFORE UPDATE ON search_synonyms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The storefront's former Hindi map, plus common Hinglish and South Indian spellings
+INSERT INTO search_synonyms (term, synonyms, two_way)
+VALUES
+  ('साड़ी', ARRAY['saree', 'sari'], FALSE),
+  ('लेहंगा', ARRAY['lehenga', 'lehenga choli'], FALSE),
+  ('कुर्ता', ARRAY['kurta', 'kurti'], FALSE),
+  ('सलवार', ARRAY['salwar', 'salwar suit'], FALSE),
+  ('अनारकली', ARRAY['anarkali', 'anarkali suit'], FALSE),
+  ('शेरवानी', ARRAY['sherwani'], FALSE),
+  ('दुपट्टा', ARRAY['dupatta', 'stole'], FALSE),
+  ('गाउन', ARRAY['gown', 'dress'], FALSE),
+  ('ज्वेलरी', ARRAY['jewelry', 'jewellery'], FALSE),
+  ('बैग', ARRAY['bag', 'clutch'], FALSE),
+  ('शादी', ARRAY['wedding', 'bridal'], FALSE),
+  ('त्योहार', ARRAY['festival', 'celebration'], FALSE),
+  ('पार्टी', ARRAY['party'], FALSE),
+  ('ऑफिस', ARRAY['office', 'formal'], FALSE),
+  ('कैजुअल', ARRAY['casual'], FALSE),
+  ('रेशम', ARRAY['silk'], FALSE),
+  ('कॉटन', ARRAY['cotton'], FALSE),
+  ('जॉर्जेट', ARRAY['georgette'], FALSE),
+  ('चिफॉन', ARRAY['chiffon'], FALSE),
+  ('लाल', ARRAY['red'], FALSE),
+  ('नीला', ARRAY['blue'], FALSE),
+  ('हरा', ARRAY['green'], FALSE),
+  ('गुलाबी', ARRAY['pink'], FALSE),
+  ('सफेद', ARRAY['white'], FALSE),
+  ('काला', ARRAY['black'], FALSE),
+  ('सोना', ARRAY['gold', 'golden'], FALSE),
+  ('चांदी', ARRAY['silver'], FALSE),
+  ('saree', ARRAY['sari'], TRUE),
+  ('lehenga', ARRAY['lehnga', 'lahenga', 'lehanga'], TRUE),
+  ('jewelry', ARRAY['jewellery'], TRUE),
+  ('kurta', ARRAY['kurti'], TRUE),
+  ('shaadi', ARRAY['wedding', 'bridal'], FALSE),
+  ('shadi', ARRAY['wedding', 'bridal'], FALSE),
+  ('dulhan', ARRAY['bridal'], FALSE),
+  ('shaadi lehenga', ARRAY['bridal lehenga'], FALSE),
+  ('sangeet', ARRAY['party', 'wedding'], FALSE),
+  ('tyohar', ARRAY['festival'], FALSE),
+  ('diwali', ARRAY['festival'], FALSE),
+  ('pooja', ARRAY['festival', 'traditional'], FALSE),
+  ('kanjivaram', ARRAY['kanjeevaram', 'kanchipuram'], TRUE),
+  ('pattu', ARRAY['silk'], FALSE),
+  ('pattu pavadai', ARRAY['kids lehenga', 'lehenga'], FALSE),
+  ('langa voni', ARRAY['half saree', 'lehenga'], FALSE),
+  ('pudavai', ARRAY['saree'], FALSE),
+  ('cheera', ARRAY['saree'], FALSE),
+  ('chudidar', ARRAY['churidar', 'salwar suit'], FALSE),
+  ('chunni', ARRAY['dupatta'], FALSE),
+  ('jhumka', ARRAY['earrings'], FALSE),
+  ('jhumki', ARRAY['jhumka', 'earrings'], FALSE),
+  ('potli', ARRAY['bag', 'clutch'], FALSE),
+  ('resham', ARRAY['silk'], FALSE),
+  ('reshmi', ARRAY['silk'], FALSE),
+  ('sooti', ARRAY['cotton'], FALSE),
+  ('laal', ARRAY['red'], FALSE),
+  ('lal', ARRAY['red'], FALSE),
+  ('neela', ARRAY['blue'], FALSE),
+  ('hara', ARRAY['green'], FALSE),
+  ('peela', ARRAY['yellow'], FALSE),
+  ('gulabi', ARRAY['pink'], FALSE),
+  ('safed', ARRAY['white'], FALSE),
+  ('kaala', ARRAY['black'], FALSE),
+  ('sona', ARRAY['gold', 'golden'], FALSE),
+  ('sunehra', ARRAY['gold', 'golden'], FALSE),
+  ('chandi', ARRAY['silver'], FALSE)
+ON CONFLICT (term) DO NOTHING;
+
+-- ========================================
+-- 2. TRANSLITERATION
+-- Devanagari to the Roman spellings customers type: long vowels doubled
+-- ("aa", "ee"), the inherent vowel dropped at the end of a word, and
+-- word-final "aa"/"ee" shortened ("शादी" -> "shaadi", "लेहंगा" -> "lehanga").
+-- Text without Devanagari is returned unchanged.
+-- ========================================
+CREATE OR REPLACE FUNCTION transliterate_devanagari(p_text TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_consonants JSONB := '{
+    "क": "k", "ख": "kh", "ग": "g", "घ": "gh", "ङ": "n",
+    "च": "ch", "छ": "chh", "ज": "j", "झ": "jh", "ञ": "n",
+    "ट": "t", "ठ": "th", "ड": "d", "ढ": "dh", "ण": "n",
+    "त": "t", "थ": "th", "द": "d", "ध": "dh", "न": "n",
+    "प": "p", "फ": "ph", "ब": "b", "भ": "bh", "म": "m",
+    "य": "y", "र": "r", "ल": "l", "व": "v", "श": "sh", "ष": "sh", "स": "s", "ह": "h",
+    "क़": "q", "ख़": "kh", "ग़": "g", "ज़": "z", "ड़": "r", "ढ़": "rh", "फ़": "f"
+  }';
+  -- Consonants written with a separate nukta sign
+  v_nukta JSONB := '{"क": "q", "ख": "kh", "ग": "g", "ज": "z", "ड": "r", "ढ": "rh", "फ": "f"}';
+  v_vowels JSONB := '{
+    "अ": "a", "आ": "aa", "इ": "i", "ई": "ee", "उ": "u", "ऊ": "oo", "ऋ": "ri",
+    "ए": "e", "ऐ": "ai", "ओ": "o", "औ": "au", "ऑ": "o"
+  }';
+  v_vowel_signs JSONB := '{
+    "ा": "aa", "ि": "i", "ी": "ee", "ु": "u", "ू": "oo", "ृ": "ri",
+    "े": "e", "ै": "ai", "ो": "o", "ौ": "au", "ॉ": "o"
+  }';
+  v_result TEXT := '';
+  v_char TEXT;
+  v_previous TEXT;
+  -- The last consonant still carries its inherent "a"
+  v_pending_vowel BOOLEAN := FALSE;
+BEGIN
+  IF p_text IS NULL OR p_text !~ '[ऀ-ॿ]' THEN
+    RETURN p_text;
+  END IF;
+
+  FOR i IN 1..LENGTH(p_text) LOOP
+    v_char := SUBSTR(p_text, i, 1);
+
+    IF v_consonants ? v_char THEN
+      IF v_pending_vowel THEN
+        v_result := v_result || 'a';
+      END IF;
+      v_result := v_result || (v_consonants->>v_char);
+      v_pending_vowel := TRUE;
+    ELSIF v_char = '़' THEN
+      IF v_nukta ? v_previous THEN
+        v_result := LEFT(v_result, LENGTH(v_result) - LENGTH(v_consonants->>v_previous)) || (v_nukta->>v_previous);
+      END IF;
+    ELSIF v_vowel_signs ? v_char THEN
+      v_result := v_result || (v_vowel_signs->>v_char);
+      v_pending_vowel := FALSE;
+    ELSIF v_char = '्' THEN
+      v_pending_vowel := FALSE;
+    ELSIF v_char IN ('ं', 'ँ', 'ः') THEN
+      IF v_pending_vowel THEN
+        v_result := v_result || 'a';
+        v_pending_vowel := FALSE;
+      END IF;
+      v_result := v_result || CASE WHEN v_char = 'ः' THEN 'h' ELSE 'n' END;
+    ELSIF v_vowels ? v_char THEN
+      IF v_pending_vowel THEN
+        v_result := v_result || 'a';
+        v_pending_vowel := FALSE;
+      END IF;
+      v_result := v_result || (v_vowels->>v_char);
+    ELSE
+      -- Anything else ends the word, and the inherent vowel at a word end is silent
+      v_pending_vowel := FALSE;
+      v_result := v_result || v_char;
+    END IF;
+
+    v_previous := v_char;
+  END LOOP;
+
+  RETURN REGEXP_REPLACE(REGEXP_REPLACE(v_result, 'ee\M', 'i', 'g'), 'aa\M', 'a', 'g');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ========================================
+-- 3. QUERY EXPANSION
+-- Splits the query into the groups build_search_tsquery expects, trying
+-- phrases of up to three words before single words. p_draft
+-- ({ id?, term, synonyms, two_way }) is applied as if it were saved, so admins
+-- can preview an edit. Returns { groups, rules, transliterations }.
+-- ========================================
+CREATE OR REPLACE FUNCTION expand_search_query(p_query TEXT, p_draft JSONB DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_words TEXT[] := REGEXP_SPLIT_TO_ARRAY(LOWER(TRIM(COALESCE(p_query, ''))), '\s+');
+  v_draft_term TEXT := LOWER(TRIM(p_draft->>'term'));
+  v_groups JSONB := '[]';
+  v_rules JSONB := '[]';
+  v_transliterations JSONB := '[]';
+  v_position INTEGER := 1;
+  v_length INTEGER;
+  v_try_length INTEGER;
+  v_phrase TEXT;
+  v_roman TEXT;
+  v_terms TEXT[];
+  v_rule RECORD;
+BEGIN
+  IF TRIM(COALESCE(p_query, '')) = '' THEN
+    RETURN jsonb_build_object('groups', v_groups, 'rules', v_rules, 'transliterations', v_transliterations);
+  END IF;
+
+  WHILE v_position <= CARDINALITY(v_words) LOOP
+    v_terms := '{}';
+
+    -- Longest phrase with a synonym rule wins; a single word is used as is
+    FOR v_try_length IN REVERSE LEAST(3, CARDINALITY(v_words) - v_position + 1)..1 LOOP
+      v_length := v_try_length;
+      v_phrase := ARRAY_TO_STRING(v_words[v_position:v_position + v_length - 1], ' ');
+      v_roman := transliterate_devanagari(v_phrase);
+
+      FOR v_rule IN
+        SELECT rules.term, rules.synonyms
+        FROM (
+          SELECT search_synonyms.term, search_synonyms.synonyms, search_synonyms.two_way
+          FROM search_synonyms
+          WHERE p_draft IS NULL
+          OR (search_synonyms.id IS DISTINCT FROM (p_draft->>'id')::UUID AND search_synonyms.term <> v_draft_term)
+          UNION ALL
+          SELECT
+            v_draft_term,
+            ARRAY(SELECT LOWER(TRIM(synonym)) FROM jsonb_array_elements_text(p_draft->'synonyms') AS synonym),
+            COALESCE((p_draft->>'two_way')::BOOLEAN, FALSE)
+          WHERE p_draft IS NOT NULL AND v_draft_term <> ''
+        ) AS rules
+        WHERE rules.term IN (v_phrase, v_roman)
+        OR (rules.two_way AND (v_phrase = ANY(rules.synonyms) OR v_roman = ANY(rules.synonyms)))
+        ORDER BY rules.term
+      LOOP
+        v_terms := v_terms || v_rule.term || v_rule.synonyms;
+        v_rules := v_rules || jsonb_build_array(jsonb_build_object(
+          'phrase', v_phrase,
+          'term', v_rule.term,
+          'synonyms', to_jsonb(v_rule.synonyms)
+        ));
+      END LOOP;
+
+      EXIT WHEN CARDINALITY(v_terms) > 0 OR v_length = 1;
+    END LOOP;
+
+    IF v_roman <> v_phrase THEN
+      v_transliterations := v_transliterations || jsonb_build_array(jsonb_build_object('from', v_phrase, 'to', v_roman));
+      v_terms := ARRAY[v_roman] || v_terms;
+    END IF;
+    v_terms := ARRAY[v_phrase] || v_terms;
+
+    -- Distinct terms, keeping the customer's own words first
+    v_groups := v_groups || jsonb_build_array((
+      SELECT jsonb_agg(distinct_terms.term ORDER BY distinct_terms.first_position)
+      FROM (
+        SELECT term, MIN(ordinal) AS first_position
+        FROM UNNEST(v_terms) WITH ORDINALITY AS terms(term, ordinal)
+        GROUP BY term
+      ) AS distinct_terms
+    ));
+
+    v_position := v_position + v_length;
+  END LOOP;
+
+  RETURN jsonb_build_object('groups', v_groups, 'rules', v_rules, 'transliterations', v_transliterations);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ========================================
+-- 4. SEARCH BY QUERY
+-- Storefront entry point: expands the query, then runs search_products
+-- ========================================
+CREATE OR REPLACE FUNCTION search_catalog(
+  p_query TEXT DEFAULT '',
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'relevance',
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 24
+)
+RETURNS JSONB AS $$
+  SELECT search_products(expand_search_query(p_query)->'groups', p_filters, p_sort, p_page, p_page_size);
+$$ LANGUAGE sql STABLE;
+
+-- ========================================
+-- 5. ROW LEVEL SECURITY (RLS) POLICIES
+-- ========================================
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view search synonyms"
+  ON search_synonyms FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can add search synonyms"
+  ON search_synonyms FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can update search synonyms"
+  ON search_synonyms FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can delete search synonyms"
+  ON search_synonyms FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 6. COMMENTS
+-- ========================================
+COMMENT ON TABLE search_synonyms IS 'Admin-managed search synonyms; a query containing term also searches for its synonyms';
+COMMENT ON COLUMN search_synonyms.two_way IS 'Synonyms also expand to the term and to each other';
+COMMENT ON FUNCTION transliterate_devanagari IS 'Roman spelling of Devanagari text as customers type it';
+COMMENT ON FUNCTION expand_search_query IS 'Expands a query into synonym groups, optionally with an unsaved rule for previews';
+COMMENT ON FUNCTION search_catalog IS 'Storefront search: synonym expansion followed by search_products';
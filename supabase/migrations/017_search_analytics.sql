@@ -0,0 +1,361 @@
+-- ========================================
+-- SEARCH ANALYTICS
+-- One pipeline for storefront searches: every search is logged to
+-- search_history through record_search (with the filters, sort and the
+-- result count the database finds for them), result clicks are logged
+-- against the search that produced them, and popular searches and the admin
+-- analytics report are computed from that log.
+-- Collections are curated landing pages an admin can create for a query the
+-- catalog answers badly; searching one of their trigger queries lands on the
+-- collection instead.
+-- ========================================
+
+-- ========================================
+-- 1. SEARCH LOG
+-- search_history (001) becomes the search log. Searches are grouped by their
+-- normalized text, and a search refined within a minute (typing, adding
+-- filters) updates the same row instead of logging every keystroke.
+-- ========================================
+ALTER TABLE search_history
+  ADD COLUMN IF NOT EXISTS normalized_query TEXT
+    GENERATED ALWAYS AS (LOWER(REGEXP_REPLACE(TRIM(search_query), '\s+', ' ', 'g'))) STORED,
+  ADD COLUMN IF NOT EXISTS sort_by TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_search_history_normalized_query
+  ON search_history(normalized_query, created_at DESC);
+
+CREATE TRIGGER update_search_history_updated_at
+  BEFORE UPDATE ON search_history
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. SEARCH CLICKS
+-- A product opened from a search's results, with its 1-based position
+-- ========================================
+CREATE TABLE IF NOT EXISTS search_clicks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  search_id UUID NOT NULL REFERENCES search_history(id) ON DELETE CASCADE,
+  product_id BIGINT NOT NULL,
+  result_position INTEGER CHECK (result_position > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_clicks_search_id ON search_clicks(search_id);
+CREATE INDEX IF NOT EXISTS idx_search_clicks_product_id ON search_clicks(product_id);
+
+-- ========================================
+-- 3. RECORDING
+-- p_session_id is the browser's guest cart id, sent for signed-in shoppers
+-- too so refinements and clicks can be tied to the browser's own searches.
+-- Anonymous logging is rate-limited per client address (assert_guest_rate_limit, 008)
+-- ========================================
+
+-- Log a search and return its id for click attribution (NULL for an empty query)
+CREATE OR REPLACE FUNCTION record_search(
+  p_session_id TEXT,
+  p_query TEXT,
+  p_filters JSONB DEFAULT NULL,
+  p_sort TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_query TEXT := LOWER(REGEXP_REPLACE(TRIM(COALESCE(p_query, '')), '\s+', ' ', 'g'));
+  v_results_count INTEGER;
+  v_search_id UUID;
+BEGIN
+  PERFORM assert_guest_session_id(p_session_id);
+
+  IF v_query = '' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Up to one search a second per anonymous client
+  IF auth.uid() IS NULL THEN
+    PERFORM assert_guest_rate_limit('search', 60);
+  END IF;
+
+  -- Counted here rather than taken from the browser, since popular searches rely on it
+  v_results_count := (search_products(expand_search_query(v_query)->'groups', COALESCE(p_filters, '{}'), 'relevance', 1, 1)->>'total')::INTEGER;
+
+  -- Typing "sar" then "saree", or changing filters, refines the last search
+  -- unless a result of it has already been clicked
+  SELECT search_history.id INTO v_search_id
+  FROM search_history
+  WHERE search_history.session_id = p_session_id
+  AND search_history.updated_at > NOW() - INTERVAL '1 minute'
+  AND (STARTS_WITH(v_query, search_history.normalized_query) OR STARTS_WITH(search_history.normalized_query, v_query))
+  AND NOT EXISTS (SELECT 1 FROM search_clicks WHERE search_clicks.search_id = search_history.id)
+  ORDER BY search_history.updated_at DESC
+  LIMIT 1;
+
+  IF v_search_id IS NOT NULL THEN
+    UPDATE search_history
+    SET
+      search_query = v_query,
+      results_count = v_results_count,
+      filters_applied = p_filters,
+      sort_by = p_sort
+    WHERE id = v_search_id;
+
+    RETURN v_search_id;
+  END IF;
+
+  INSERT INTO search_history (user_id, session_id, search_query, results_count, filters_applied, sort_by)
+  VALUES (auth.uid(), p_session_id, v_query, v_results_count, p_filters, p_sort)
+  RETURNING id INTO v_search_id;
+
+  RETURN v_search_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Log a result click; only the browser that ran the search can attribute clicks to it
+CREATE OR REPLACE FUNCTION record_search_click(
+  p_session_id TEXT,
+  p_search_id UUID,
+  p_product_id BIGINT,
+  p_position INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM assert_guest_session_id(p_session_id);
+
+  INSERT INTO search_clicks (search_id, product_id, result_position)
+  SELECT search_history.id, p_product_id, p_position
+  FROM search_history
+  WHERE search_history.id = p_search_id
+  AND search_history.session_id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 4. POPULAR SEARCHES
+-- Queries that found products, searched from at least five browsers so a
+-- handful of made-up sessions can't put a query in the suggestions
+-- ========================================
+CREATE OR REPLACE FUNCTION get_popular_searches(p_limit INTEGER DEFAULT 10, p_days INTEGER DEFAULT 30)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(ARRAY_AGG(popular.normalized_query ORDER BY popular.sessions DESC, popular.normalized_query), '{}')
+  FROM (
+    SELECT search_history.normalized_query, COUNT(DISTINCT search_history.session_id) AS sessions
+    FROM search_history
+    WHERE search_history.created_at > NOW() - make_interval(days => p_days)
+    AND search_history.results_count > 0
+    AND search_history.normalized_query <> ''
+    GROUP BY search_history.normalized_query
+    HAVING COUNT(DISTINCT search_history.session_id) >= 5
+    ORDER BY sessions DESC, search_history.normalized_query
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  ) AS popular;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ========================================
+-- 5. ANALYTICS REPORT (admin)
+-- Top, zero-result and low click-through queries for the last p_days, each
+-- with its search count in the period before for comparison, plus a daily
+-- trend. A search counts as clicked when any of its results was opened.
+-- ========================================
+CREATE OR REPLACE FUNCTION get_search_analytics(
+  p_days INTEGER DEFAULT 30,
+  p_limit INTEGER DEFAULT 20,
+  p_min_searches INTEGER DEFAULT 5,
+  p_max_click_rate NUMERIC DEFAULT 0.2
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_since TIMESTAMPTZ := DATE_TRUNC('day', NOW()) - make_interval(days => GREATEST(p_days, 1) - 1);
+  v_previous_since TIMESTAMPTZ := v_since - make_interval(days => GREATEST(p_days, 1));
+  v_report JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view search analytics';
+  END IF;
+
+  WITH searches AS (
+    SELECT
+      search_history.normalized_query,
+      search_history.results_count,
+      search_history.created_at,
+      search_history.created_at >= v_since AS is_current,
+      EXISTS (SELECT 1 FROM search_clicks WHERE search_clicks.search_id = search_history.id) AS is_clicked
+    FROM search_history
+    WHERE search_history.created_at >= v_previous_since
+    AND search_history.normalized_query <> ''
+  ),
+  queries AS (
+    SELECT
+      normalized_query AS query,
+      COUNT(*) FILTER (WHERE is_current) AS searches,
+      COUNT(*) FILTER (WHERE NOT is_current) AS previous_searches,
+      COUNT(*) FILTER (WHERE is_current AND is_clicked) AS clicked_searches,
+      COUNT(*) FILTER (WHERE is_current AND results_count = 0) AS zero_result_searches,
+      ROUND(AVG(results_count) FILTER (WHERE is_current), 1) AS avg_results,
+      MAX(created_at) FILTER (WHERE is_current) AS last_searched_at
+    FROM searches
+    GROUP BY normalized_query
+    HAVING COUNT(*) FILTER (WHERE is_current) > 0
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'searches', COUNT(*),
+        'unique_queries', COUNT(DISTINCT normalized_query),
+        'zero_result_searches', COUNT(*) FILTER (WHERE results_count = 0),
+        'clicked_searches', COUNT(*) FILTER (WHERE is_clicked),
+        'previous_searches', (SELECT COUNT(*) FROM searches WHERE NOT is_current)
+      )
+      FROM searches
+      WHERE is_current
+    ),
+    'top_queries', COALESCE((
+      SELECT jsonb_agg(to_jsonb(top) ORDER BY top.searches DESC, top.query)
+      FROM (
+        SELECT * FROM queries
+        ORDER BY searches DESC, query
+        LIMIT p_limit
+      ) AS top
+    ), '[]'::jsonb),
+    'zero_result_queries', COALESCE((
+      SELECT jsonb_agg(to_jsonb(failing) ORDER BY failing.zero_result_searches DESC, failing.query)
+      FROM (
+        SELECT * FROM queries
+        WHERE zero_result_searches > 0
+        ORDER BY zero_result_searches DESC, query
+        LIMIT p_limit
+      ) AS failing
+    ), '[]'::jsonb),
+    'low_click_queries', COALESCE((
+      SELECT jsonb_agg(to_jsonb(unclicked) ORDER BY unclicked.clicked_searches::NUMERIC / unclicked.searches, unclicked.searches DESC)
+      FROM (
+        SELECT * FROM queries
+        WHERE searches >= p_min_searches
+        AND avg_results > 0
+        AND clicked_searches::NUMERIC / searches < p_max_click_rate
+        ORDER BY clicked_searches::NUMERIC / searches, searches DESC
+        LIMIT p_limit
+      ) AS unclicked
+    ), '[]'::jsonb),
+    'trend', (
+      SELECT jsonb_agg(to_jsonb(daily) ORDER BY daily.day)
+      FROM (
+        SELECT
+          TO_CHAR(days.day, 'YYYY-MM-DD') AS day,
+          COUNT(searches.created_at) AS searches,
+          COUNT(searches.created_at) FILTER (WHERE searches.results_count = 0) AS zero_result_searches,
+          COUNT(searches.created_at) FILTER (WHERE searches.is_clicked) AS clicked_searches
+        FROM GENERATE_SERIES(v_since, DATE_TRUNC('day', NOW()), INTERVAL '1 day') AS days(day)
+        LEFT JOIN searches
+          ON searches.is_current
+          AND searches.created_at >= days.day
+          AND searches.created_at < days.day + INTERVAL '1 day'
+        GROUP BY days.day
+      ) AS daily
+    )
+  ) INTO v_report;
+
+  RETURN v_report;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ========================================
+-- 6. COLLECTIONS
+-- A titled landing page listing the products that match search_query and
+-- filters (ProductFilter keys, as for search_products). Searching one of
+-- trigger_queries takes the shopper to the collection.
+-- ========================================
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  title TEXT NOT NULL,
+  description TEXT,
+  search_query TEXT NOT NULL DEFAULT '',
+  filters JSONB NOT NULL DEFAULT '{}',
+  trigger_queries TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_trigger_queries ON collections USING GIN (trigger_queries);
+
+CREATE TRIGGER update_collections_updated_at
+  BEFORE UPDATE ON collections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 7. ROW LEVEL SECURITY
+-- ========================================
+
+-- Searches are logged through record_search only, and the old select policy
+-- exposed every guest's searches
+DROP POLICY IF EXISTS "Users can view own search history" ON search_history;
+DROP POLICY IF EXISTS "Users can add to search history" ON search_history;
+
+CREATE POLICY "Users can view own search history"
+  ON search_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+ALTER TABLE search_clicks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active collections"
+  ON collections FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can view all collections"
+  ON collections FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can insert collections"
+  ON collections FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can update collections"
+  ON collections FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Admins can delete collections"
+  ON collections FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 8. COMMENTS
+-- ========================================
+COMMENT ON COLUMN search_history.normalized_query IS 'Lowercased, whitespace-collapsed query used to group searches';
+COMMENT ON TABLE search_clicks IS 'Search results opened by shoppers, for click-through analytics';
+COMMENT ON TABLE collections IS 'Curated landing pages defined by a search query and filters';
+COMMENT ON COLUMN collections.trigger_queries IS 'Normalized searches that redirect to this collection';
+COMMENT ON FUNCTION record_search IS 'Logs a storefront search, merging quick refinements into the previous search';
+COMMENT ON FUNCTION record_search_click IS 'Logs a click on a search result for the browser that ran the search';
+COMMENT ON FUNCTION get_popular_searches IS 'Most searched queries with results, for search box suggestions';
+COMMENT ON FUNCTION get_search_analytics IS 'Admin report of top, zero-result and low click-through queries with a daily trend';
@@ -0,0 +1,378 @@
+-- ========================================
+-- SEARCH RANKING
+-- Learning-to-rank from shopper behaviour. Add-to-cart and purchase events
+-- are logged against the search that led to them (clicks are logged since
+-- 017), and each (query, product) pair earns a boost from its recent events
+-- that decays with age. search_products multiplies text relevance by the
+-- boost; admins can switch boosts off or compare boosted and base rankings.
+-- ========================================
+
+-- ========================================
+-- 1. RANKING SETTINGS (single row)
+-- ========================================
+CREATE TABLE IF NOT EXISTS search_ranking_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  boosts_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  -- An event counts half as much after this many days
+  half_life_days INTEGER NOT NULL DEFAULT 14 CHECK (half_life_days > 0),
+  -- Events older than this are ignored
+  window_days INTEGER NOT NULL DEFAULT 90 CHECK (window_days > 0),
+  -- Largest possible rank multiplier above 1 (1 = rank can at most double)
+  boost_strength DECIMAL(4, 2) NOT NULL DEFAULT 1 CHECK (boost_strength >= 0 AND boost_strength <= 5),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO search_ranking_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_search_ranking_settings_updated_at
+  BEFORE UPDATE ON search_ranking_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- 2. SEARCH CONVERSIONS
+-- A product added to the cart or bought after it was found by a search
+-- ========================================
+CREATE TABLE IF NOT EXISTS search_conversions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  search_id UUID NOT NULL REFERENCES search_history(id) ON DELETE CASCADE,
+  product_id BIGINT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('add_to_cart', 'purchase')),
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_conversions_search_id ON search_conversions(search_id);
+CREATE INDEX IF NOT EXISTS idx_search_conversions_product_id ON search_conversions(product_id);
+
+-- A purchase is counted once per search, product and order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_conversions_purchase
+  ON search_conversions(search_id, product_id, order_id)
+  WHERE event_type = 'purchase';
+
+-- ========================================
+-- 3. RECORDING
+-- As with record_search_click, only the browser that ran a search can
+-- attribute events to it
+-- ========================================
+
+-- Log an add-to-cart of a product found by a search
+CREATE OR REPLACE FUNCTION record_search_add_to_cart(
+  p_session_id TEXT,
+  p_search_id UUID,
+  p_product_id BIGINT
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM assert_guest_session_id(p_session_id);
+
+  INSERT INTO search_conversions (search_id, product_id, event_type)
+  SELECT search_history.id, p_product_id, 'add_to_cart'
+  FROM search_history
+  WHERE search_history.id = p_search_id
+  AND search_history.session_id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Log the purchases in an order of products found by searches.
+-- p_attributions: [{ product_id, search_id }] remembered by the browser.
+-- Returns the product ids that were in the order.
+CREATE OR REPLACE FUNCTION record_search_purchases(
+  p_session_id TEXT,
+  p_order_id UUID,
+  p_attributions JSONB
+)
+RETURNS BIGINT[] AS $$
+DECLARE
+  v_order orders;
+  v_product_ids BIGINT[];
+BEGIN
+  PERFORM assert_guest_session_id(p_session_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  IF NOT FOUND OR (v_order.user_id IS DISTINCT FROM auth.uid() AND v_order.guest_session_id IS DISTINCT FROM p_session_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  WITH attributed AS (
+    SELECT DISTINCT (attribution->>'product_id')::BIGINT AS product_id, (attribution->>'search_id')::UUID AS search_id
+    FROM jsonb_array_elements(COALESCE(p_attributions, '[]'::JSONB)) AS attribution
+  ),
+  purchased AS (
+    INSERT INTO search_conversions (search_id, product_id, event_type, order_id)
+    SELECT search_history.id, attributed.product_id, 'purchase', v_order.id
+    FROM attributed
+    JOIN search_history
+      ON search_history.id = attributed.search_id
+      AND search_history.session_id = p_session_id
+    WHERE EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_order.items) AS item
+      WHERE (item->>'id')::BIGINT = attributed.product_id
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING product_id
+  )
+  SELECT ARRAY_AGG(DISTINCT purchased.product_id) INTO v_product_ids FROM purchased;
+
+  RETURN COALESCE(v_product_ids, '{}');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ========================================
+-- 4. LEARNED BOOSTS
+-- For a query, each product scores its events in the window: click 1,
+-- add-to-cart 3, purchase 5, halved every half_life_days. A browser counts
+-- once per product and event type so one shopper can't inflate a product.
+-- The score is squashed into a boost between 0 and boost_strength.
+-- Returns { "<product id>": boost }.
+-- ========================================
+CREATE OR REPLACE FUNCTION search_boosts(p_query TEXT)
+RETURNS JSONB AS $$
+  WITH settings AS (
+    SELECT * FROM search_ranking_settings WHERE id
+  ),
+  events AS (
+    SELECT DISTINCT ON (search_history.session_id, event.product_id, event.event_type)
+      event.product_id,
+      event.event_type,
+      event.created_at
+    FROM search_history
+    JOIN (
+      SELECT search_id, product_id, 'click' AS event_type, created_at FROM search_clicks
+      UNION ALL
+      SELECT search_id, product_id, event_type, created_at FROM search_conversions
+    ) AS event ON event.search_id = search_history.id
+    CROSS JOIN settings
+    WHERE search_history.normalized_query = LOWER(REGEXP_REPLACE(TRIM(COALESCE(p_query, '')), '\s+', ' ', 'g'))
+    AND event.created_at > NOW() - make_interval(days => settings.window_days)
+    ORDER BY search_history.session_id, event.product_id, event.event_type, event.created_at DESC
+  ),
+  scores AS (
+    SELECT
+      events.product_id,
+      SUM(
+        CASE events.event_type WHEN 'purchase' THEN 5 WHEN 'add_to_cart' THEN 3 ELSE 1 END
+        * POWER(0.5, EXTRACT(EPOCH FROM NOW() - events.created_at) / 86400 / settings.half_life_days)
+      ) AS score
+    FROM events
+    CROSS JOIN settings
+    GROUP BY events.product_id
+  )
+  SELECT COALESCE(
+    jsonb_object_agg(scores.product_id::TEXT, ROUND((settings.boost_strength * scores.score / (scores.score + 5))::NUMERIC, 4)),
+    '{}'::JSONB
+  )
+  FROM scores
+  CROSS JOIN settings;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ========================================
+-- 5. BOOSTED SEARCH
+-- search_products gains p_boosts; the rest of the function is unchanged
+-- from 015_product_search.sql. Each product in the response includes the
+-- boost it received.
+-- ========================================
+DROP FUNCTION IF EXISTS search_products(JSONB, JSONB, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_terms JSONB DEFAULT '[]',
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'relevance',
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 24,
+  p_boosts JSONB DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_query TSQUERY := build_search_tsquery(p_terms);
+  v_filters JSONB := COALESCE(p_filters, '{}'::JSONB);
+  v_categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'categories', '[]')));
+  v_subcategories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'subcategories', '[]')));
+  v_occasions TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'occasions', '[]')));
+  v_fabrics TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'fabrics', '[]')));
+  v_sizes TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'sizes', '[]')));
+  v_colors TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'colors', '[]')));
+  v_min_price DECIMAL := (v_filters->'priceRange'->>0)::DECIMAL;
+  v_max_price DECIMAL := (v_filters->'priceRange'->>1)::DECIMAL;
+  v_in_stock BOOLEAN := (v_filters->>'inStock')::BOOLEAN;
+  v_is_new BOOLEAN := (v_filters->>'isNew')::BOOLEAN;
+  v_has_discount BOOLEAN := (v_filters->>'hasDiscount')::BOOLEAN;
+  v_page INTEGER := GREATEST(COALESCE(p_page, 1), 1);
+  v_page_size INTEGER := LEAST(GREATEST(COALESCE(p_page_size, 24), 1), 100);
+  v_boosts JSONB := COALESCE(p_boosts, '{}'::JSONB);
+  v_result JSONB;
+BEGIN
+  IF p_sort NOT IN ('relevance', 'featured', 'price-low', 'price-high', 'newest', 'popular', 'rating') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  WITH filtered AS (
+    SELECT
+      products.*,
+      COALESCE((v_boosts->>products.id::TEXT)::NUMERIC, 0) AS boost,
+      -- Out-of-stock products rank below in-stock ones with the same relevance;
+      -- learned boosts lift products shoppers chose for this query
+      CASE
+        WHEN v_query IS NULL THEN 0
+        ELSE TS_RANK(products.search_vector, v_query)
+          * CASE WHEN products.in_stock THEN 1 ELSE 0.5 END
+          * (1 + COALESCE((v_boosts->>products.id::TEXT)::NUMERIC, 0))
+      END AS rank
+    FROM products
+    WHERE (v_query IS NULL OR products.search_vector @@ v_query)
+    AND (CARDINALITY(v_categories) = 0 OR products.category = ANY(v_categories))
+    AND (CARDINALITY(v_subcategories) = 0 OR products.subcategory = ANY(v_subcategories))
+    AND (CARDINALITY(v_occasions) = 0 OR products.occasion && v_occasions)
+    AND (CARDINALITY(v_fabrics) = 0 OR products.fabric = ANY(v_fabrics))
+    AND (CARDINALITY(v_sizes) = 0 OR products.sizes && v_sizes)
+    AND (CARDINALITY(v_colors) = 0 OR products.colors && v_colors)
+    AND (v_min_price IS NULL OR products.price >= v_min_price)
+    AND (v_max_price IS NULL OR products.price <= v_max_price)
+    AND (v_in_stock IS NULL OR products.in_stock = v_in_stock)
+    AND (v_is_new IS NULL OR products.is_new = v_is_new)
+    AND (v_has_discount IS NULL OR (products.discount > 0) = v_has_discount)
+  ),
+  page AS (
+    SELECT
+      filtered.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'price-low' THEN filtered.price END ASC,
+          CASE WHEN p_sort = 'price-high' THEN filtered.price END DESC,
+          CASE WHEN p_sort = 'popular' THEN filtered.reviews END DESC,
+          CASE WHEN p_sort = 'rating' THEN filtered.rating END DESC,
+          CASE WHEN p_sort = 'newest' THEN filtered.created_at END DESC,
+          filtered.rank DESC,
+          filtered.is_new DESC,
+          filtered.created_at DESC,
+          filtered.id
+      ) AS position
+    FROM filtered
+    ORDER BY position
+    LIMIT v_page_size
+    OFFSET (v_page - 1) * v_page_size
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM filtered),
+    'page', v_page,
+    'page_size', v_page_size,
+    'products', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(page) - 'search_text' - 'search_vector' - 'position')
+        || jsonb_build_object(
+          'matched_fields', CASE WHEN v_query IS NULL THEN '[]'::JSONB ELSE to_jsonb(ARRAY_REMOVE(ARRAY[
+            CASE WHEN TO_TSVECTOR('english', page.name) @@ v_query THEN 'name' END,
+            CASE WHEN TO_TSVECTOR('english', page.category) @@ v_query THEN 'category' END,
+            CASE WHEN TO_TSVECTOR('english', page.subcategory) @@ v_query THEN 'subcategory' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.description, '')) @@ v_query THEN 'description' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.fabric, '')) @@ v_query THEN 'fabric' END,
+            CASE WHEN TO_TSVECTOR('english', ARRAY_TO_STRING(page.occasion, ' ')) @@ v_query THEN 'occasion' END,
+            CASE WHEN TO_TSVECTOR('english', ARRAY_TO_STRING(page.colors, ' ')) @@ v_query THEN 'colors' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.sku, '')) @@ v_query THEN 'sku' END
+          ], NULL)) END,
+          'headline', CASE
+            WHEN v_query IS NULL OR page.description IS NULL THEN NULL
+            ELSE TS_HEADLINE('english', page.description, v_query, 'MaxWords=20, MinWords=8, StartSel="", StopSel=""')
+          END
+        )
+        ORDER BY page.position
+      )
+      FROM page
+    ), '[]'::JSONB),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (SELECT category AS value, COUNT(*) AS count FROM filtered GROUP BY category) AS facet
+      ), '[]'::JSONB),
+      'subcategories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (SELECT subcategory AS value, COUNT(*) AS count FROM filtered GROUP BY subcategory) AS facet
+      ), '[]'::JSONB),
+      'fabrics', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (SELECT fabric AS value, COUNT(*) AS count FROM filtered WHERE fabric IS NOT NULL GROUP BY fabric) AS facet
+      ), '[]'::JSONB),
+      'occasions', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT occasion_value AS value, COUNT(*) AS count
+          FROM filtered, UNNEST(filtered.occasion) AS occasion_value
+          GROUP BY occasion_value
+        ) AS facet
+      ), '[]'::JSONB),
+      'price_ranges', (
+        SELECT jsonb_agg(jsonb_build_object(
+          'min', bucket.min_price,
+          'max', bucket.max_price,
+          'count', (
+            SELECT COUNT(*) FROM filtered
+            WHERE filtered.price >= bucket.min_price
+            AND (bucket.max_price IS NULL OR filtered.price < bucket.max_price)
+          )
+        ) ORDER BY bucket.min_price)
+        FROM (VALUES (0, 1000), (1000, 2500), (2500, 5000), (5000, 10000), (10000, NULL)) AS bucket(min_price, max_price)
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+-- p_use_boosts: NULL follows the ranking settings; TRUE or FALSE forces
+-- boosted or base ranking (the admin comparison)
+DROP FUNCTION IF EXISTS search_catalog(TEXT, JSONB, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_catalog(
+  p_query TEXT DEFAULT '',
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'relevance',
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 24,
+  p_use_boosts BOOLEAN DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  SELECT search_products(
+    expand_search_query(p_query)->'groups',
+    p_filters,
+    p_sort,
+    p_page,
+    p_page_size,
+    CASE
+      WHEN COALESCE(p_use_boosts, (SELECT boosts_enabled FROM search_ranking_settings WHERE id)) THEN search_boosts(p_query)
+      ELSE '{}'::JSONB
+    END
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ========================================
+-- 6. ROW LEVEL SECURITY (RLS) POLICIES
+-- Conversions are written by the functions above and read by search_boosts
+-- ========================================
+ALTER TABLE search_ranking_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_conversions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view search ranking settings"
+  ON search_ranking_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update search ranking settings"
+  ON search_ranking_settings FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 7. COMMENTS
+-- ========================================
+COMMENT ON TABLE search_ranking_settings IS 'Learned search boost settings (single row)';
+COMMENT ON TABLE search_conversions IS 'Add-to-cart and purchase events attributed to the search that found the product';
+COMMENT ON FUNCTION record_search_add_to_cart IS 'Logs an add-to-cart of a search result for the browser that ran the search';
+COMMENT ON FUNCTION record_search_purchases IS 'Logs purchases in an order of products the browser found by searching';
+COMMENT ON FUNCTION search_boosts IS 'Decayed per-product boosts for a query from clicks, add-to-carts and purchases';
+COMMENT ON FUNCTION search_products IS 'Ranked, filtered, paginated catalog search with facet counts and optional learned boosts';
+COMMENT ON FUNCTION search_catalog IS 'Storefront search: synonym expansion, learned boosts and search_products';
@@ -0,0 +1,264 @@
+-- ========================================
+-- FACET COUNTS
+-- Facet counts that tell shoppers what each filter option would yield.
+-- Options within a facet are alternatives (OR) and facets narrow each other
+-- (AND), so each facet is counted against the query and every active filter
+-- except its own. Adds size, color and quick filter counts and a price
+-- histogram for the price slider.
+-- ========================================
+
+-- ========================================
+-- 1. SEARCH WITH DISJUNCTIVE FACETS
+-- Filtering, ranking, sorting and paging are unchanged from
+-- 018_search_ranking.sql. Each product is tested against every filter
+-- separately; misses counts the filters it fails. The results are the
+-- products with no misses, and a facet counts the products whose only
+-- miss, if any, is that facet's own filter.
+-- ========================================
+CREATE OR REPLACE FUNCTION search_products(
+  p_terms JSONB DEFAULT '[]',
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'relevance',
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 24,
+  p_boosts JSONB DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_query TSQUERY := build_search_tsquery(p_terms);
+  v_filters JSONB := COALESCE(p_filters, '{}'::JSONB);
+  v_categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'categories', '[]')));
+  v_subcategories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'subcategories', '[]')));
+  v_occasions TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'occasions', '[]')));
+  v_fabrics TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'fabrics', '[]')));
+  v_sizes TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'sizes', '[]')));
+  v_colors TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'colors', '[]')));
+  v_min_price DECIMAL := (v_filters->'priceRange'->>0)::DECIMAL;
+  v_max_price DECIMAL := (v_filters->'priceRange'->>1)::DECIMAL;
+  v_in_stock BOOLEAN := (v_filters->>'inStock')::BOOLEAN;
+  v_is_new BOOLEAN := (v_filters->>'isNew')::BOOLEAN;
+  v_has_discount BOOLEAN := (v_filters->>'hasDiscount')::BOOLEAN;
+  v_page INTEGER := GREATEST(COALESCE(p_page, 1), 1);
+  v_page_size INTEGER := LEAST(GREATEST(COALESCE(p_page_size, 24), 1), 100);
+  v_boosts JSONB := COALESCE(p_boosts, '{}'::JSONB);
+  -- The histogram spans the storefront price slider; dearer products fall in the last bar
+  v_histogram_max DECIMAL := 20000;
+  v_histogram_bars INTEGER := 20;
+  v_result JSONB;
+BEGIN
+  IF p_sort NOT IN ('relevance', 'featured', 'price-low', 'price-high', 'newest', 'popular', 'rating') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  WITH matched AS (
+    SELECT
+      products.*,
+      COALESCE((v_boosts->>products.id::TEXT)::NUMERIC, 0) AS boost,
+      -- Out-of-stock products rank below in-stock ones with the same relevance;
+      -- learned boosts lift products shoppers chose for this query
+      CASE
+        WHEN v_query IS NULL THEN 0
+        ELSE TS_RANK(products.search_vector, v_query)
+          * CASE WHEN products.in_stock THEN 1 ELSE 0.5 END
+          * (1 + COALESCE((v_boosts->>products.id::TEXT)::NUMERIC, 0))
+      END AS rank,
+      (CARDINALITY(v_categories) = 0 OR products.category = ANY(v_categories)) AS match_categories,
+      (CARDINALITY(v_subcategories) = 0 OR products.subcategory = ANY(v_subcategories)) AS match_subcategories,
+      (CARDINALITY(v_occasions) = 0 OR products.occasion && v_occasions) AS match_occasions,
+      (CARDINALITY(v_fabrics) = 0 OR products.fabric = ANY(v_fabrics)) AS match_fabrics,
+      (CARDINALITY(v_sizes) = 0 OR products.sizes && v_sizes) AS match_sizes,
+      (CARDINALITY(v_colors) = 0 OR products.colors && v_colors) AS match_colors,
+      (
+        (v_min_price IS NULL OR products.price >= v_min_price)
+        AND (v_max_price IS NULL OR products.price <= v_max_price)
+      ) AS match_price,
+      (v_in_stock IS NULL OR products.in_stock = v_in_stock) AS match_in_stock,
+      (v_is_new IS NULL OR products.is_new = v_is_new) AS match_is_new,
+      (v_has_discount IS NULL OR (products.discount > 0) = v_has_discount) AS match_has_discount
+    FROM products
+    WHERE (v_query IS NULL OR products.search_vector @@ v_query)
+  ),
+  counted AS (
+    SELECT
+      matched.*,
+      (NOT matched.match_categories)::INTEGER
+        + (NOT matched.match_subcategories)::INTEGER
+        + (NOT matched.match_occasions)::INTEGER
+        + (NOT matched.match_fabrics)::INTEGER
+        + (NOT matched.match_sizes)::INTEGER
+        + (NOT matched.match_colors)::INTEGER
+        + (NOT matched.match_price)::INTEGER
+        + (NOT matched.match_in_stock)::INTEGER
+        + (NOT matched.match_is_new)::INTEGER
+        + (NOT matched.match_has_discount)::INTEGER AS misses
+    FROM matched
+  ),
+  filtered AS (
+    SELECT * FROM counted WHERE counted.misses = 0
+  ),
+  page AS (
+    SELECT
+      filtered.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'price-low' THEN filtered.price END ASC,
+          CASE WHEN p_sort = 'price-high' THEN filtered.price END DESC,
+          CASE WHEN p_sort = 'popular' THEN filtered.reviews END DESC,
+          CASE WHEN p_sort = 'rating' THEN filtered.rating END DESC,
+          CASE WHEN p_sort = 'newest' THEN filtered.created_at END DESC,
+          filtered.rank DESC,
+          filtered.is_new DESC,
+          filtered.created_at DESC,
+          filtered.id
+      ) AS position
+    FROM filtered
+    ORDER BY position
+    LIMIT v_page_size
+    OFFSET (v_page - 1) * v_page_size
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM filtered),
+    'page', v_page,
+    'page_size', v_page_size,
+    'products', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(page) - ARRAY[
+          'search_text', 'search_vector', 'position', 'misses',
+          'match_categories', 'match_subcategories', 'match_occasions', 'match_fabrics', 'match_sizes',
+          'match_colors', 'match_price', 'match_in_stock', 'match_is_new', 'match_has_discount'
+        ])
+        || jsonb_build_object(
+          'matched_fields', CASE WHEN v_query IS NULL THEN '[]'::JSONB ELSE to_jsonb(ARRAY_REMOVE(ARRAY[
+            CASE WHEN TO_TSVECTOR('english', page.name) @@ v_query THEN 'name' END,
+            CASE WHEN TO_TSVECTOR('english', page.category) @@ v_query THEN 'category' END,
+            CASE WHEN TO_TSVECTOR('english', page.subcategory) @@ v_query THEN 'subcategory' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.description, '')) @@ v_query THEN 'description' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.fabric, '')) @@ v_query THEN 'fabric' END,
+            CASE WHEN TO_TSVECTOR('english', ARRAY_TO_STRING(page.occasion, ' ')) @@ v_query THEN 'occasion' END,
+            CASE WHEN TO_TSVECTOR('english', ARRAY_TO_STRING(page.colors, ' ')) @@ v_query THEN 'colors' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.sku, '')) @@ v_query THEN 'sku' END
+          ], NULL)) END,
+          'headline', CASE
+            WHEN v_query IS NULL OR page.description IS NULL THEN NULL
+            ELSE TS_HEADLINE('english', page.description, v_query, 'MaxWords=20, MinWords=8, StartSel="", StopSel=""')
+          END
+        )
+        ORDER BY page.position
+      )
+      FROM page
+    ), '[]'::JSONB),
+    -- A product misses a facet's own filter when (NOT match_x)::INTEGER is 1,
+    -- so misses equal to it means every other filter matched
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT category AS value, COUNT(*) AS count
+          FROM counted
+          WHERE counted.misses = (NOT counted.match_categories)::INTEGER
+          GROUP BY category
+        ) AS facet
+      ), '[]'::JSONB),
+      'subcategories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT subcategory AS value, COUNT(*) AS count
+          FROM counted
+          WHERE counted.misses = (NOT counted.match_subcategories)::INTEGER
+          GROUP BY subcategory
+        ) AS facet
+      ), '[]'::JSONB),
+      'fabrics', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT fabric AS value, COUNT(*) AS count
+          FROM counted
+          WHERE counted.misses = (NOT counted.match_fabrics)::INTEGER
+          AND fabric IS NOT NULL
+          GROUP BY fabric
+        ) AS facet
+      ), '[]'::JSONB),
+      'occasions', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT occasion_value AS value, COUNT(*) AS count
+          FROM counted, UNNEST(counted.occasion) AS occasion_value
+          WHERE counted.misses = (NOT counted.match_occasions)::INTEGER
+          GROUP BY occasion_value
+        ) AS facet
+      ), '[]'::JSONB),
+      'sizes', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT size_value AS value, COUNT(*) AS count
+          FROM counted, UNNEST(counted.sizes) AS size_value
+          WHERE counted.misses = (NOT counted.match_sizes)::INTEGER
+          GROUP BY size_value
+        ) AS facet
+      ), '[]'::JSONB),
+      'colors', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT color_value AS value, COUNT(*) AS count
+          FROM counted, UNNEST(counted.colors) AS color_value
+          WHERE counted.misses = (NOT counted.match_colors)::INTEGER
+          GROUP BY color_value
+        ) AS facet
+      ), '[]'::JSONB),
+      -- Products each quick filter would leave when switched on
+      'quick_filters', jsonb_build_object(
+        'in_stock', (
+          SELECT COUNT(*) FROM counted
+          WHERE counted.misses = (NOT counted.match_in_stock)::INTEGER AND counted.in_stock
+        ),
+        'is_new', (
+          SELECT COUNT(*) FROM counted
+          WHERE counted.misses = (NOT counted.match_is_new)::INTEGER AND counted.is_new
+        ),
+        'has_discount', (
+          SELECT COUNT(*) FROM counted
+          WHERE counted.misses = (NOT counted.match_has_discount)::INTEGER AND counted.discount > 0
+        )
+      ),
+      'price_ranges', (
+        SELECT jsonb_agg(jsonb_build_object(
+          'min', bucket.min_price,
+          'max', bucket.max_price,
+          'count', (
+            SELECT COUNT(*) FROM counted
+            WHERE counted.misses = (NOT counted.match_price)::INTEGER
+            AND counted.price >= bucket.min_price
+            AND (bucket.max_price IS NULL OR counted.price < bucket.max_price)
+          )
+        ) ORDER BY bucket.min_price)
+        FROM (VALUES (0, 1000), (1000, 2500), (2500, 5000), (5000, 10000), (10000, NULL)) AS bucket(min_price, max_price)
+      ),
+      -- Equal-width bars across the slider, empty bars included
+      'price_histogram', (
+        SELECT jsonb_agg(jsonb_build_object(
+          'min', bar.index * v_histogram_max / v_histogram_bars,
+          'max', (bar.index + 1) * v_histogram_max / v_histogram_bars,
+          'count', COALESCE(bar_counts.count, 0)
+        ) ORDER BY bar.index)
+        FROM GENERATE_SERIES(0, v_histogram_bars - 1) AS bar(index)
+        LEFT JOIN (
+          SELECT
+            LEAST(FLOOR(counted.price * v_histogram_bars / v_histogram_max), v_histogram_bars - 1)::INTEGER AS index,
+            COUNT(*) AS count
+          FROM counted
+          WHERE counted.misses = (NOT counted.match_price)::INTEGER
+          GROUP BY 1
+        ) AS bar_counts ON bar_counts.index = bar.index
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ========================================
+-- 2. COMMENTS
+-- ========================================
+COMMENT ON FUNCTION search_products IS 'Ranked, filtered, paginated catalog search with disjunctive facet counts and a price histogram';
@@ -0,0 +1,506 @@
+-- ========================================
+-- COLOR TAXONOMY
+-- Product colors are free text ("Maroon", "maroon red", "Wine"). Each raw
+-- color is normalized to a canonical color family with a swatch, through
+-- the family's own name or an admin-managed alias. Products keep their raw
+-- colors for display and variants; color filtering and the color facet use
+-- the families. The fabric filter and facet also stop depending on exact
+-- spelling.
+-- ========================================
+
+-- ========================================
+-- 1. COLOR FAMILIES
+-- ========================================
+CREATE TABLE IF NOT EXISTS color_families (
+  slug TEXT PRIMARY KEY CHECK (slug ~ '^[a-z]+(-[a-z]+)*$'),
+  name TEXT NOT NULL UNIQUE,
+  hex TEXT NOT NULL CHECK (hex ~ '^#[0-9a-f]{6}$'),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_color_families_updated_at
+  BEFORE UPDATE ON color_families
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO color_families (slug, name, hex, sort_order)
+VALUES
+  ('red', 'Red', '#c62828', 1),
+  ('maroon', 'Maroon', '#800020', 2),
+  ('pink', 'Pink', '#e75480', 3),
+  ('orange', 'Orange', '#ef6c00', 4),
+  ('yellow', 'Yellow', '#f9c80e', 5),
+  ('gold', 'Gold', '#d4af37', 6),
+  ('green', 'Green', '#2e7d32', 7),
+  ('teal', 'Teal', '#00897b', 8),
+  ('blue', 'Blue', '#1e88e5', 9),
+  ('navy', 'Navy', '#1a237e', 10),
+  ('purple', 'Purple', '#7b1fa2', 11),
+  ('brown', 'Brown', '#795548', 12),
+  ('cream', 'Cream', '#f3e9d2', 13),
+  ('white', 'White', '#ffffff', 14),
+  ('grey', 'Grey', '#9e9e9e', 15),
+  ('silver', 'Silver', '#c0c0c0', 16),
+  ('black', 'Black', '#212121', 17)
+ON CONFLICT (slug) DO NOTHING;
+
+-- ========================================
+-- 2. COLOR ALIASES
+-- Other names for a family, stored normalized (lowercase, single spaces)
+-- ========================================
+CREATE TABLE IF NOT EXISTS color_aliases (
+  alias TEXT PRIMARY KEY CHECK (alias = LOWER(TRIM(alias)) AND alias <> ''),
+  family_slug TEXT NOT NULL REFERENCES color_families(slug) ON DELETE CASCADE ON UPDATE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_color_aliases_family_slug ON color_aliases(family_slug);
+
+INSERT INTO color_aliases (alias, family_slug)
+VALUES
+  ('crimson', 'red'), ('scarlet', 'red'), ('cherry', 'red'), ('ruby', 'red'), ('sindoori', 'red'),
+  ('wine', 'maroon'), ('burgundy', 'maroon'), ('maroon red', 'maroon'), ('oxblood', 'maroon'),
+  ('rani', 'pink'), ('rani pink', 'pink'), ('magenta', 'pink'), ('fuchsia', 'pink'), ('baby pink', 'pink'),
+  ('blush', 'pink'), ('onion', 'pink'), ('rose', 'pink'),
+  ('peach', 'orange'), ('coral', 'orange'), ('saffron', 'orange'), ('rust', 'orange'),
+  ('mustard', 'yellow'), ('lemon', 'yellow'), ('haldi', 'yellow'),
+  ('golden', 'gold'), ('zari', 'gold'), ('antique gold', 'gold'),
+  ('olive', 'green'), ('mint', 'green'), ('emerald', 'green'), ('bottle green', 'green'),
+  ('parrot green', 'green'), ('mehendi', 'green'), ('pista', 'green'), ('sea green', 'teal'),
+  ('turquoise', 'teal'), ('aqua', 'teal'), ('peacock', 'teal'), ('firozi', 'teal'),
+  ('royal blue', 'blue'), ('sky blue', 'blue'), ('powder blue', 'blue'), ('cobalt', 'blue'),
+  ('navy blue', 'navy'), ('midnight blue', 'navy'), ('ink blue', 'navy'),
+  ('lavender', 'purple'), ('violet', 'purple'), ('lilac', 'purple'), ('mauve', 'purple'), ('plum', 'purple'),
+  ('coffee', 'brown'), ('chocolate', 'brown'), ('tan', 'brown'), ('copper', 'brown'), ('bronze', 'brown'),
+  ('beige', 'cream'), ('ivory', 'cream'), ('off white', 'cream'), ('champagne', 'cream'), ('nude', 'cream'),
+  ('pearl', 'white'), ('snow white', 'white'),
+  ('gray', 'grey'), ('charcoal', 'grey'), ('ash', 'grey'), ('slate', 'grey'),
+  ('metallic', 'silver'), ('jet black', 'black')
+ON CONFLICT (alias) DO NOTHING;
+
+-- ========================================
+-- 3. NORMALIZATION
+-- A raw color resolves through a family name or slug, then an alias, then
+-- its words from last to first ("dark bottle green" -> "green").
+-- Returns the family slug, or NULL for an unknown color.
+-- ========================================
+CREATE OR REPLACE FUNCTION lookup_color_family(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT slug FROM color_families WHERE slug = p_name OR LOWER(name) = p_name LIMIT 1),
+    (SELECT family_slug FROM color_aliases WHERE alias = p_name)
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION normalize_color(p_color TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_color TEXT := LOWER(TRIM(REGEXP_REPLACE(COALESCE(p_color, ''), '[\s_-]+', ' ', 'g')));
+  v_words TEXT[];
+  v_family TEXT;
+BEGIN
+  IF v_color = '' THEN
+    RETURN NULL;
+  END IF;
+
+  v_family := lookup_color_family(v_color);
+  IF v_family IS NOT NULL THEN
+    RETURN v_family;
+  END IF;
+
+  v_words := STRING_TO_ARRAY(v_color, ' ');
+  FOR v_index IN REVERSE CARDINALITY(v_words)..1 LOOP
+    v_family := lookup_color_family(v_words[v_index]);
+    IF v_family IS NOT NULL THEN
+      RETURN v_family;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION product_color_families(p_colors TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(ARRAY_AGG(DISTINCT family) FILTER (WHERE family IS NOT NULL), '{}')
+  FROM (SELECT normalize_color(color) AS family FROM UNNEST(COALESCE(p_colors, '{}')) AS color) AS families;
+$$ LANGUAGE sql STABLE;
+
+-- ========================================
+-- 4. PRODUCT COLOR FAMILIES
+-- Kept in step with the product's colors, and with the taxonomy when an
+-- admin adds or removes a family or alias
+-- ========================================
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS color_families TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION update_product_color_families()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.color_families := product_color_families(NEW.colors);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_product_color_families
+  BEFORE INSERT OR UPDATE OF colors ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_color_families();
+
+CREATE OR REPLACE FUNCTION refresh_product_color_families()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE products
+  SET color_families = product_color_families(colors)
+  WHERE color_families IS DISTINCT FROM product_color_families(colors);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_product_color_families_on_families
+  AFTER INSERT OR DELETE OR UPDATE OF slug, name ON color_families
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_product_color_families();
+
+CREATE TRIGGER refresh_product_color_families_on_aliases
+  AFTER INSERT OR DELETE OR UPDATE ON color_aliases
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_product_color_families();
+
+-- Backfill existing products without touching updated_at
+ALTER TABLE products DISABLE TRIGGER update_products_updated_at;
+UPDATE products SET color_families = product_color_families(colors);
+ALTER TABLE products ENABLE TRIGGER update_products_updated_at;
+
+CREATE INDEX IF NOT EXISTS idx_products_color_families ON products USING GIN (color_families);
+
+-- Raw colors no family or alias covers, with how many products use them
+CREATE OR REPLACE FUNCTION get_unmapped_colors()
+RETURNS TABLE (color TEXT, products BIGINT) AS $$
+  SELECT TRIM(raw_color) AS color, COUNT(DISTINCT products.id) AS products
+  FROM products, UNNEST(products.colors) AS raw_color
+  WHERE TRIM(raw_color) <> ''
+  AND normalize_color(raw_color) IS NULL
+  GROUP BY TRIM(raw_color)
+  ORDER BY COUNT(DISTINCT products.id) DESC, TRIM(raw_color);
+$$ LANGUAGE sql STABLE;
+
+-- ========================================
+-- 5. SEARCH BY COLOR FAMILY
+-- Unchanged from 019_facet_counts.sql except:
+-- - the color filter takes family slugs (raw names and aliases are
+--   normalized, so old links keep working) and matches color_families
+-- - the color facet counts families
+-- - fabrics are compared and counted regardless of case and spacing
+-- ========================================
+CREATE OR REPLACE FUNCTION search_products(
+  p_terms JSONB DEFAULT '[]',
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'relevance',
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 24,
+  p_boosts JSONB DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_query TSQUERY := build_search_tsquery(p_terms);
+  v_filters JSONB := COALESCE(p_filters, '{}'::JSONB);
+  v_categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'categories', '[]')));
+  v_subcategories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'subcategories', '[]')));
+  v_occasions TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'occasions', '[]')));
+  v_fabrics TEXT[] := ARRAY(
+    SELECT LOWER(TRIM(fabric))
+    FROM jsonb_array_elements_text(COALESCE(v_filters->'fabrics', '[]')) AS fabric
+  );
+  v_sizes TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_filters->'sizes', '[]')));
+  v_colors TEXT[] := ARRAY(
+    SELECT COALESCE(normalize_color(color), LOWER(TRIM(color)))
+    FROM jsonb_array_elements_text(COALESCE(v_filters->'colors', '[]')) AS color
+  );
+  v_min_price DECIMAL := (v_filters->'priceRange'->>0)::DECIMAL;
+  v_max_price DECIMAL := (v_filters->'priceRange'->>1)::DECIMAL;
+  v_in_stock BOOLEAN := (v_filters->>'inStock')::BOOLEAN;
+  v_is_new BOOLEAN := (v_filters->>'isNew')::BOOLEAN;
+  v_has_discount BOOLEAN := (v_filters->>'hasDiscount')::BOOLEAN;
+  v_page INTEGER := GREATEST(COALESCE(p_page, 1), 1);
+  v_page_size INTEGER := LEAST(GREATEST(COALESCE(p_page_size, 24), 1), 100);
+  v_boosts JSONB := COALESCE(p_boosts, '{}'::JSONB);
+  -- The histogram spans the storefront price slider; dearer products fall in the last bar
+  v_histogram_max DECIMAL := 20000;
+  v_histogram_bars INTEGER := 20;
+  v_result JSONB;
+BEGIN
+  IF p_sort NOT IN ('relevance', 'featured', 'price-low', 'price-high', 'newest', 'popular', 'rating') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  WITH matched AS (
+    SELECT
+      products.*,
+      COALESCE((v_boosts->>products.id::TEXT)::NUMERIC, 0) AS boost,
+      -- Out-of-stock products rank below in-stock ones with the same relevance;
+      -- learned boosts lift products shoppers chose for this query
+      CASE
+        WHEN v_query IS NULL THEN 0
+        ELSE TS_RANK(products.search_vector, v_query)
+          * CASE WHEN products.in_stock THEN 1 ELSE 0.5 END
+          * (1 + COALESCE((v_boosts->>products.id::TEXT)::NUMERIC, 0))
+      END AS rank,
+      (CARDINALITY(v_categories) = 0 OR products.category = ANY(v_categories)) AS match_categories,
+      (CARDINALITY(v_subcategories) = 0 OR products.subcategory = ANY(v_subcategories)) AS match_subcategories,
+      (CARDINALITY(v_occasions) = 0 OR products.occasion && v_occasions) AS match_occasions,
+      (CARDINALITY(v_fabrics) = 0 OR LOWER(TRIM(products.fabric)) = ANY(v_fabrics)) AS match_fabrics,
+      (CARDINALITY(v_sizes) = 0 OR products.sizes && v_sizes) AS match_sizes,
+      (CARDINALITY(v_colors) = 0 OR products.color_families && v_colors) AS match_colors,
+      (
+        (v_min_price IS NULL OR products.price >= v_min_price)
+        AND (v_max_price IS NULL OR products.price <= v_max_price)
+      ) AS match_price,
+      (v_in_stock IS NULL OR products.in_stock = v_in_stock) AS match_in_stock,
+      (v_is_new IS NULL OR products.is_new = v_is_new) AS match_is_new,
+      (v_has_discount IS NULL OR (products.discount > 0) = v_has_discount) AS match_has_discount
+    FROM products
+    WHERE (v_query IS NULL OR products.search_vector @@ v_query)
+  ),
+  counted AS (
+    SELECT
+      matched.*,
+      (NOT matched.match_categories)::INTEGER
+        + (NOT matched.match_subcategories)::INTEGER
+        + (NOT matched.match_occasions)::INTEGER
+        + (NOT matched.match_fabrics)::INTEGER
+        + (NOT matched.match_sizes)::INTEGER
+        + (NOT matched.match_colors)::INTEGER
+        + (NOT matched.match_price)::INTEGER
+        + (NOT matched.match_in_stock)::INTEGER
+        + (NOT matched.match_is_new)::INTEGER
+        + (NOT matched.match_has_discount)::INTEGER AS misses
+    FROM matched
+  ),
+  filtered AS (
+    SELECT * FROM counted WHERE counted.misses = 0
+  ),
+  page AS (
+    SELECT
+      filtered.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'price-low' THEN filtered.price END ASC,
+          CASE WHEN p_sort = 'price-high' THEN filtered.price END DESC,
+          CASE WHEN p_sort = 'popular' THEN filtered.reviews END DESC,
+          CASE WHEN p_sort = 'rating' THEN filtered.rating END DESC,
+          CASE WHEN p_sort = 'newest' THEN filtered.created_at END DESC,
+          filtered.rank DESC,
+          filtered.is_new DESC,
+          filtered.created_at DESC,
+          filtered.id
+      ) AS position
+    FROM filtered
+    ORDER BY position
+    LIMIT v_page_size
+    OFFSET (v_page - 1) * v_page_size
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM filtered),
+    'page', v_page,
+    'page_size', v_page_size,
+    'products', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(page) - ARRAY[
+          'search_text', 'search_vector', 'position', 'misses',
+          'match_categories', 'match_subcategories', 'match_occasions', 'match_fabrics', 'match_sizes',
+          'match_colors', 'match_price', 'match_in_stock', 'match_is_new', 'match_has_discount'
+        ])
+        || jsonb_build_object(
+          'matched_fields', CASE WHEN v_query IS NULL THEN '[]'::JSONB ELSE to_jsonb(ARRAY_REMOVE(ARRAY[
+            CASE WHEN TO_TSVECTOR('english', page.name) @@ v_query THEN 'name' END,
+            CASE WHEN TO_TSVECTOR('english', page.category) @@ v_query THEN 'category' END,
+            CASE WHEN TO_TSVECTOR('english', page.subcategory) @@ v_query THEN 'subcategory' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.description, '')) @@ v_query THEN 'description' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.fabric, '')) @@ v_query THEN 'fabric' END,
+            CASE WHEN TO_TSVECTOR('english', ARRAY_TO_STRING(page.occasion, ' ')) @@ v_query THEN 'occasion' END,
+            CASE WHEN TO_TSVECTOR('english', ARRAY_TO_STRING(page.colors, ' ')) @@ v_query THEN 'colors' END,
+            CASE WHEN TO_TSVECTOR('english', COALESCE(page.sku, '')) @@ v_query THEN 'sku' END
+          ], NULL)) END,
+          'headline', CASE
+            WHEN v_query IS NULL OR page.description IS NULL THEN NULL
+            ELSE TS_HEADLINE('english', page.description, v_query, 'MaxWords=20, MinWords=8, StartSel="", StopSel=""')
+          END
+        )
+        ORDER BY page.position
+      )
+      FROM page
+    ), '[]'::JSONB),
+    -- A product misses a facet's own filter when (NOT match_x)::INTEGER is 1,
+    -- so misses equal to it means every other filter matched
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT category AS value, COUNT(*) AS count
+          FROM counted
+          WHERE counted.misses = (NOT counted.match_categories)::INTEGER
+          GROUP BY category
+        ) AS facet
+      ), '[]'::JSONB),
+      'subcategories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT subcategory AS value, COUNT(*) AS count
+          FROM counted
+          WHERE counted.misses = (NOT counted.match_subcategories)::INTEGER
+          GROUP BY subcategory
+        ) AS facet
+      ), '[]'::JSONB),
+      -- Spellings of a fabric are counted together under its title-cased name
+      'fabrics', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT INITCAP(LOWER(TRIM(fabric))) AS value, COUNT(*) AS count
+          FROM counted
+          WHERE counted.misses = (NOT counted.match_fabrics)::INTEGER
+          AND TRIM(COALESCE(fabric, '')) <> ''
+          GROUP BY INITCAP(LOWER(TRIM(fabric)))
+        ) AS facet
+      ), '[]'::JSONB),
+      'occasions', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT occasion_value AS value, COUNT(*) AS count
+          FROM counted, UNNEST(counted.occasion) AS occasion_value
+          WHERE counted.misses = (NOT counted.match_occasions)::INTEGER
+          GROUP BY occasion_value
+        ) AS facet
+      ), '[]'::JSONB),
+      'sizes', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT size_value AS value, COUNT(*) AS count
+          FROM counted, UNNEST(counted.sizes) AS size_value
+          WHERE counted.misses = (NOT counted.match_sizes)::INTEGER
+          GROUP BY size_value
+        ) AS facet
+      ), '[]'::JSONB),
+      -- Color family slugs
+      'colors', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', facet.value, 'count', facet.count) ORDER BY facet.value)
+        FROM (
+          SELECT family AS value, COUNT(*) AS count
+          FROM counted, UNNEST(counted.color_families) AS family
+          WHERE counted.misses = (NOT counted.match_colors)::INTEGER
+          GROUP BY family
+        ) AS facet
+      ), '[]'::JSONB),
+      -- Products each quick filter would leave when switched on
+      'quick_filters', jsonb_build_object(
+        'in_stock', (
+          SELECT COUNT(*) FROM counted
+          WHERE counted.misses = (NOT counted.match_in_stock)::INTEGER AND counted.in_stock
+        ),
+        'is_new', (
+          SELECT COUNT(*) FROM counted
+          WHERE counted.misses = (NOT counted.match_is_new)::INTEGER AND counted.is_new
+        ),
+        'has_discount', (
+          SELECT COUNT(*) FROM counted
+          WHERE counted.misses = (NOT counted.match_has_discount)::INTEGER AND counted.discount > 0
+        )
+      ),
+      'price_ranges', (
+        SELECT jsonb_agg(jsonb_build_object(
+          'min', bucket.min_price,
+          'max', bucket.max_price,
+          'count', (
+            SELECT COUNT(*) FROM counted
+            WHERE counted.misses = (NOT counted.match_price)::INTEGER
+            AND counted.price >= bucket.min_price
+            AND (bucket.max_price IS NULL OR counted.price < bucket.max_price)
+          )
+        ) ORDER BY bucket.min_price)
+        FROM (VALUES (0, 1000), (1000, 2500), (2500, 5000), (5000, 10000), (10000, NULL)) AS bucket(min_price, max_price)
+      ),
+      -- Equal-width bars across the slider, empty bars included
+      'price_histogram', (
+        SELECT jsonb_agg(jsonb_build_object(
+          'min', bar.index * v_histogram_max / v_histogram_bars,
+          'max', (bar.index + 1) * v_histogram_max / v_histogram_bars,
+          'count', COALESCE(bar_counts.count, 0)
+        ) ORDER BY bar.index)
+        FROM GENERATE_SERIES(0, v_histogram_bars - 1) AS bar(index)
+        LEFT JOIN (
+          SELECT
+            LEAST(FLOOR(counted.price * v_histogram_bars / v_histogram_max), v_histogram_bars - 1)::INTEGER AS index,
+            COUNT(*) AS count
+          FROM counted
+          WHERE counted.misses = (NOT counted.match_price)::INTEGER
+          GROUP BY 1
+        ) AS bar_counts ON bar_counts.index = bar.index
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ========================================
+-- 6. ROW LEVEL SECURITY (RLS) POLICIES
+-- ========================================
+ALTER TABLE color_families ENABLE ROW LEVEL SECURITY;
+ALTER TABLE color_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view color families"
+  ON color_families FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage color families"
+  ON color_families FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+CREATE POLICY "Anyone can view color aliases"
+  ON color_aliases FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage color aliases"
+  ON color_aliases FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.raw_app_meta_data->>'is_super_admin')::boolean = true
+    )
+  );
+
+-- ========================================
+-- 7. COMMENTS
+-- ========================================
+COMMENT ON TABLE color_families IS 'Canonical color families with swatch colors, used for color filtering';
+COMMENT ON TABLE color_aliases IS 'Other names for a color family, normalized to lowercase';
+COMMENT ON COLUMN products.color_families IS 'Color family slugs of the product colors, maintained by update_product_color_families';
+COMMENT ON FUNCTION normalize_color IS 'Color family slug for a raw color name, or NULL when unknown';
+COMMENT ON FUNCTION get_unmapped_colors IS 'Product colors that no color family or alias covers';
+COMMENT ON FUNCTION search_products IS 'Ranked, filtered, paginated catalog search with disjunctive facet counts and a price histogram';